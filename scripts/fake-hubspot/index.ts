@@ -0,0 +1,23 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createFakeHubSpotServer } from './server';
+import type { SeedData } from './store';
+
+// Usage: npm run fake-hubspot
+// Then start the app with HUBSPOT_API_BASE_URL=http://localhost:4010 (any HUBSPOT_ACCESS_TOKEN is accepted
+// unless FAKE_HUBSPOT_TOKEN is set).
+
+const port = Number(process.env.FAKE_HUBSPOT_PORT) || 4010;
+const seedPath = process.env.FAKE_HUBSPOT_SEED || join(__dirname, 'seed.json');
+const seed: SeedData = JSON.parse(readFileSync(seedPath, 'utf8'));
+
+const server = createFakeHubSpotServer({
+  accessToken: process.env.FAKE_HUBSPOT_TOKEN || undefined,
+  seed,
+  requestsPerTenSeconds: Number(process.env.FAKE_HUBSPOT_RATE_LIMIT) || undefined,
+});
+
+server.listen(port, () => {
+  console.log(`Fake HubSpot CRM listening on http://localhost:${port}`);
+  console.log(`Seeded ${server.store.companies.size} companies and ${server.store.contacts.size} contacts from ${seedPath}`);
+});
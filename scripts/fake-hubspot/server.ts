@@ -0,0 +1,631 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import {
+  createStore,
+  findContactByEmail,
+  insertObject,
+  projectObject,
+  updateObject,
+  type CrmObject,
+  type FakeStore,
+  type SeedData,
+} from './store';
+
+/**
+ * Local stand-in for the subset of the HubSpot CRM v3 API used by this app:
+ *
+ *   POST  /crm/v3/objects/contacts                              create contact
+ *   PATCH /crm/v3/objects/contacts/{id}                         update contact
+ *   POST  /crm/v3/objects/contacts/batch/create                 create contacts (batch)
+ *   POST  /crm/v3/objects/contacts/batch/update                 update contacts (batch)
+ *   POST  /crm/v3/objects/contacts/search                       search contacts (email filter)
+ *   GET   /crm/v3/properties/contacts                           list contact property definitions
+ *   GET   /crm/v3/objects/companies                             list companies (getPage)
+ *   POST  /crm/v3/objects/companies/search                      search companies
+ *   GET   /crm/v3/objects/companies/{id}                        read company
+ *   POST  /crm/v3/associations/contacts/companies/batch/create  associate contacts to companies
+ *   POST  /crm/v3/associations/contacts/companies/batch/read    read contact-company associations
+ *   POST  /crm/v3/associations/contacts/companies/batch/archive remove contact-company associations
+ *
+ * Test-only control endpoints live under /__fake (reset, state, fault injection).
+ */
+
+export interface FakeServerOptions {
+  accessToken?: string; // When set, only this bearer token is accepted
+  seed?: SeedData;
+  requestsPerTenSeconds?: number; // Per-10-second limit before returning 429
+  dailyLimit?: number;
+}
+
+interface Fault {
+  status: number;
+  path?: string; // Only requests whose path contains this string are affected
+  remaining: number;
+  retryAfter?: number;
+  message?: string;
+}
+
+// An input of the association batch create and archive endpoints
+interface AssociationInput {
+  from?: { id?: string };
+  to?: { id?: string };
+  type?: string;
+}
+
+const DEFAULT_CONTACT_PROPERTIES = ['firstname', 'lastname', 'email'];
+const DEFAULT_COMPANY_PROPERTIES = ['name', 'domain'];
+
+interface PropertyDefinition {
+  name: string;
+  label: string;
+  type: string;
+  fieldType: string;
+  options?: Array<{ label: string; value: string }>;
+  readOnly?: boolean;
+}
+
+function options(...values: string[]): Array<{ label: string; value: string }> {
+  return values.map(value => ({ label: value.replace(/(^|_)(\w)/g, (_, space, letter) => (space ? ' ' : '') + letter.toUpperCase()), value }));
+}
+
+// Contact properties that exist in the fake portal; writes to anything else fail like HubSpot does
+const CONTACT_PROPERTY_DEFINITIONS: PropertyDefinition[] = [
+  { name: 'firstname', label: 'First Name', type: 'string', fieldType: 'text' },
+  { name: 'lastname', label: 'Last Name', type: 'string', fieldType: 'text' },
+  { name: 'email', label: 'Email', type: 'string', fieldType: 'text' },
+  { name: 'company', label: 'Company Name', type: 'string', fieldType: 'text' },
+  {
+    name: 'lifecyclestage', label: 'Lifecycle Stage', type: 'enumeration', fieldType: 'radio',
+    options: options('subscriber', 'lead', 'marketingqualifiedlead', 'salesqualifiedlead', 'opportunity', 'customer', 'evangelist', 'other'),
+  },
+  { name: 'active_in_okta', label: 'Active in Okta', type: 'bool', fieldType: 'booleancheckbox', options: [{ label: 'Yes', value: 'true' }, { label: 'No', value: 'false' }] },
+  { name: 'jobtitle', label: 'Job Title', type: 'string', fieldType: 'text' },
+  { name: 'phone', label: 'Phone Number', type: 'string', fieldType: 'phonenumber' },
+  { name: 'country', label: 'Country/Region', type: 'string', fieldType: 'text' },
+  { name: 'portal_role', label: 'Portal Role', type: 'enumeration', fieldType: 'select', options: options('viewer', 'member', 'admin') },
+  { name: 'source', label: 'Source', type: 'string', fieldType: 'text' },
+  { name: 'deactivation_reason', label: 'Deactivation Reason', type: 'string', fieldType: 'textarea' },
+  { name: 'deactivation_date', label: 'Deactivation Date', type: 'date', fieldType: 'date' },
+  { name: 'createdate', label: 'Create Date', type: 'datetime', fieldType: 'date', readOnly: true },
+  { name: 'lastmodifieddate', label: 'Last Modified Date', type: 'datetime', fieldType: 'date', readOnly: true },
+];
+
+const KNOWN_CONTACT_PROPERTIES = new Set(
+  CONTACT_PROPERTY_DEFINITIONS.filter(definition => !definition.readOnly).map(definition => definition.name)
+);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class HttpError extends Error {
+  constructor(public status: number, public body: Record<string, unknown>, public headers: Record<string, string> = {}) {
+    super(String(body.message));
+  }
+}
+
+function errorBody(message: string, category: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { status: 'error', message, correlationId: randomUUID(), category, ...extra };
+}
+
+function notFound(): HttpError {
+  return new HttpError(404, errorBody('resource not found', 'OBJECT_NOT_FOUND'));
+}
+
+// Request bodies come from the app's own HubSpot client, so they are taken to have the shape the endpoint expects
+async function readJson<T = Record<string, unknown>>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return {} as T;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, errorBody('Invalid input JSON on line 1', 'VALIDATION_ERROR'));
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json;charset=utf-8', ...headers });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+}
+
+// Mirrors HubSpot's message for a duplicate unique value, which errorHandler matches on
+function duplicateEmailError(email: string, existing: CrmObject): HttpError {
+  const detail = `{isValid=false, message=Property "email" already has that value., error=OBJECT_ALREADY_HAS_VALUE, name=email, existingObjectId=${existing.id}, value=${email}}`;
+  return new HttpError(400, errorBody(`Property values were not valid: [${detail}]`, 'VALIDATION_ERROR'));
+}
+
+function validateContactProperties(store: FakeStore, properties: Record<string, string>, contactId?: string) {
+  const invalid = Object.keys(properties).filter(name => !KNOWN_CONTACT_PROPERTIES.has(name));
+  if (invalid.length > 0) {
+    const details = invalid.map(name => `{isValid=false, message=Property "${name}" does not exist, error=PROPERTY_DOESNT_EXIST, name=${name}}`);
+    throw new HttpError(400, errorBody(`Property values were not valid: [${details.join(', ')}]`, 'VALIDATION_ERROR'));
+  }
+
+  if (properties.email !== undefined) {
+    if (!EMAIL_PATTERN.test(properties.email)) {
+      throw new HttpError(400, errorBody(
+        `Property values were not valid: [{isValid=false, message=Email address ${properties.email} is invalid, error=INVALID_EMAIL, name=email}]`,
+        'VALIDATION_ERROR'
+      ));
+    }
+
+    const existing = findContactByEmail(store, properties.email, contactId);
+    if (existing) {
+      throw duplicateEmailError(properties.email, existing);
+    }
+  }
+}
+
+interface SearchFilter {
+  propertyName: string;
+  operator: string;
+  value?: string;
+  values?: string[];
+}
+
+interface SearchRequest {
+  query?: unknown;
+  filterGroups?: Array<{ filters?: SearchFilter[] }>;
+  limit?: unknown;
+  after?: unknown;
+  sorts?: unknown;
+  properties?: string[];
+}
+
+function matchesFilter(record: CrmObject, filter: SearchFilter): boolean {
+  const actual = record.properties[filter.propertyName];
+  const normalized = actual?.toLowerCase();
+
+  switch (filter.operator) {
+    case 'EQ':
+      return normalized === filter.value?.toLowerCase();
+    case 'NEQ':
+      return normalized !== filter.value?.toLowerCase();
+    case 'IN':
+      return (filter.values || []).some(value => value.toLowerCase() === normalized);
+    case 'HAS_PROPERTY':
+      return actual !== null && actual !== undefined && actual !== '';
+    case 'NOT_HAS_PROPERTY':
+      return actual === null || actual === undefined || actual === '';
+    case 'CONTAINS_TOKEN':
+      return !!normalized && normalized.includes((filter.value || '').replace(/\*/g, '').toLowerCase());
+    default:
+      throw new HttpError(400, errorBody(`Unsupported filter operator ${filter.operator}`, 'VALIDATION_ERROR'));
+  }
+}
+
+function searchObjects(collection: Map<string, CrmObject>, body: SearchRequest, searchable: string[], defaults: string[]) {
+  const query = typeof body.query === 'string' ? body.query.trim().toLowerCase() : '';
+  const filterGroups = Array.isArray(body.filterGroups) ? body.filterGroups : [];
+  const limit = Math.min(Number(body.limit) || 10, 200);
+  const offset = Number(body.after) || 0;
+
+  let results = [...collection.values()].filter(record => !record.archived);
+
+  if (query) {
+    results = results.filter(record =>
+      searchable.some(name => record.properties[name]?.toLowerCase().includes(query))
+    );
+  }
+
+  // Filter groups are ORed together, filters within a group are ANDed
+  if (filterGroups.length > 0) {
+    results = results.filter(record =>
+      filterGroups.some(group => (group.filters || []).every(filter => matchesFilter(record, filter)))
+    );
+  }
+
+  const sortProperty = Array.isArray(body.sorts) && typeof body.sorts[0] === 'string' ? body.sorts[0] : undefined;
+  if (sortProperty) {
+    results.sort((a, b) => (a.properties[sortProperty] || '').localeCompare(b.properties[sortProperty] || ''));
+  }
+
+  const page = results.slice(offset, offset + limit);
+  const nextOffset = offset + limit;
+
+  return {
+    total: results.length,
+    results: page.map(record => projectObject(record, body.properties, defaults)),
+    ...(nextOffset < results.length && { paging: { next: { after: String(nextOffset) } } }),
+  };
+}
+
+export function createFakeHubSpotServer(options: FakeServerOptions = {}): Server & { store: FakeStore } {
+  const requestsPerTenSeconds = options.requestsPerTenSeconds ?? 100;
+  const dailyLimit = options.dailyLimit ?? 250000;
+
+  let store = createStore(options.seed);
+  let faults: Fault[] = [];
+  let recentRequests: number[] = [];
+  let dailyCount = 0;
+
+  function rateLimitHeaders(): Record<string, string> {
+    return {
+      'X-HubSpot-RateLimit-Max': String(requestsPerTenSeconds),
+      'X-HubSpot-RateLimit-Remaining': String(Math.max(0, requestsPerTenSeconds - recentRequests.length)),
+      'X-HubSpot-RateLimit-Interval-Milliseconds': '10000',
+      'X-HubSpot-RateLimit-Daily': String(dailyLimit),
+      'X-HubSpot-RateLimit-Daily-Remaining': String(Math.max(0, dailyLimit - dailyCount)),
+    };
+  }
+
+  function authenticate(req: IncomingMessage) {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+
+    if (!token) {
+      throw new HttpError(401, errorBody(
+        'Authentication credentials not found. This API supports OAuth 2.0 authentication and you can find more details at https://developers.hubspot.com/docs/methods/auth/oauth-overview',
+        'INVALID_AUTHENTICATION'
+      ));
+    }
+    if (options.accessToken && token !== options.accessToken) {
+      throw new HttpError(401, errorBody(
+        'The OAuth token used to make this call expired 0 second(s) ago.',
+        'EXPIRED_AUTHENTICATION',
+        { context: { expire_time: [new Date().toISOString()] } }
+      ));
+    }
+  }
+
+  function enforceRateLimit() {
+    const now = Date.now();
+    recentRequests = recentRequests.filter(timestamp => timestamp > now - 10000);
+
+    if (recentRequests.length >= requestsPerTenSeconds) {
+      const retryAfterMs = recentRequests[0] + 10000 - now;
+      throw new HttpError(429, errorBody('You have reached your ten_secondly_rolling limit.', 'RATE_LIMITS', {
+        errorType: 'RATE_LIMIT',
+        policyName: 'TEN_SECONDLY_ROLLING',
+      }), { 'Retry-After': String(Math.max(1, Math.ceil(retryAfterMs / 1000))) });
+    }
+    if (dailyCount >= dailyLimit) {
+      throw new HttpError(429, errorBody('You have reached your daily limit.', 'RATE_LIMITS', {
+        errorType: 'RATE_LIMIT',
+        policyName: 'DAILY',
+      }), { 'Retry-After': '86400' });
+    }
+
+    recentRequests.push(now);
+    dailyCount++;
+  }
+
+  function applyFaults(path: string) {
+    const fault = faults.find(candidate => !candidate.path || path.includes(candidate.path));
+    if (!fault) return;
+
+    fault.remaining--;
+    faults = faults.filter(candidate => candidate.remaining > 0);
+
+    switch (fault.status) {
+      case 401:
+        throw new HttpError(401, errorBody(fault.message || 'The OAuth token used to make this call expired 0 second(s) ago.', 'EXPIRED_AUTHENTICATION'));
+      case 429:
+        throw new HttpError(429, errorBody(fault.message || 'You have reached your ten_secondly_rolling limit.', 'RATE_LIMITS', {
+          errorType: 'RATE_LIMIT',
+          policyName: 'TEN_SECONDLY_ROLLING',
+        }), { 'Retry-After': String(fault.retryAfter ?? 1) });
+      default:
+        throw new HttpError(fault.status, errorBody(fault.message || 'internal error', fault.status >= 500 ? 'INTERNAL_ERROR' : 'VALIDATION_ERROR'));
+    }
+  }
+
+  async function handleControl(req: IncomingMessage, res: ServerResponse, path: string) {
+    if (req.method === 'POST' && path === '/__fake/reset') {
+      const body = await readJson<SeedData>(req);
+      store = createStore(body.companies || body.contacts ? body : options.seed);
+      faults = [];
+      recentRequests = [];
+      dailyCount = 0;
+      (server as Server & { store: FakeStore }).store = store;
+      return sendJson(res, 204, null);
+    }
+
+    if (req.method === 'POST' && path === '/__fake/faults') {
+      const body = await readJson<Partial<Omit<Fault, 'remaining'>> & { count?: number }>(req);
+      if (!Number.isInteger(body.status)) {
+        throw new HttpError(400, errorBody('status is required', 'VALIDATION_ERROR'));
+      }
+      faults.push({
+        status: Number(body.status),
+        path: body.path,
+        remaining: body.count ?? 1,
+        retryAfter: body.retryAfter,
+        message: body.message,
+      });
+      return sendJson(res, 201, { queued: faults.length });
+    }
+
+    if (req.method === 'GET' && path === '/__fake/state') {
+      return sendJson(res, 200, {
+        contacts: [...store.contacts.values()],
+        companies: [...store.companies.values()],
+        associations: store.associations,
+        pendingFaults: faults,
+      });
+    }
+
+    throw notFound();
+  }
+
+  async function handleCrm(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const path = url.pathname.replace(/\/+$/, '');
+    const segments = path.split('/').filter(Boolean); // e.g. ['crm', 'v3', 'objects', 'contacts', '123']
+    const headers = rateLimitHeaders();
+
+    // Contacts
+    if (path === '/crm/v3/objects/contacts' && req.method === 'POST') {
+      const body = await readJson<{ properties?: Record<string, string> }>(req);
+      const properties = body.properties || {};
+
+      const existing = properties.email ? findContactByEmail(store, properties.email) : undefined;
+      if (existing) {
+        throw new HttpError(409, errorBody(`Contact already exists. Existing ID: ${existing.id}`, 'CONFLICT'));
+      }
+      validateContactProperties(store, properties);
+
+      const contact = insertObject(store, store.contacts, properties);
+      return sendJson(res, 201, projectObject(contact, Object.keys(properties), DEFAULT_CONTACT_PROPERTIES), headers);
+    }
+
+    // Batch endpoints reject the whole batch when any input fails validation, like HubSpot does
+    if (path === '/crm/v3/objects/contacts/batch/create' && req.method === 'POST') {
+      const body = await readJson<{ inputs?: Array<{ properties?: Record<string, string>; objectWriteTraceId?: string }> }>(req);
+      const inputs = body.inputs || [];
+      const startedAt = new Date().toISOString();
+      const batchEmails = new Set<string>();
+
+      for (const input of inputs) {
+        const properties = input.properties || {};
+        validateContactProperties(store, properties);
+        if (properties.email) {
+          const email = properties.email.toLowerCase();
+          if (batchEmails.has(email)) {
+            throw new HttpError(400, errorBody(`Duplicate email ${email} in batch input`, 'VALIDATION_ERROR'));
+          }
+          batchEmails.add(email);
+        }
+      }
+
+      const results = inputs.map(input => ({
+        ...projectObject(insertObject(store, store.contacts, input.properties || {}), Object.keys(input.properties || {}), DEFAULT_CONTACT_PROPERTIES),
+        ...(input.objectWriteTraceId !== undefined && { objectWriteTraceId: input.objectWriteTraceId }),
+      }));
+
+      return sendJson(res, 201, { status: 'COMPLETE', results, startedAt, completedAt: new Date().toISOString() }, headers);
+    }
+
+    if (path === '/crm/v3/objects/contacts/batch/update' && req.method === 'POST') {
+      const body = await readJson<{ inputs?: Array<{ id: string; properties?: Record<string, string> }> }>(req);
+      const inputs = body.inputs || [];
+      const startedAt = new Date().toISOString();
+      const batchEmails = new Map<string, string>();
+      const errors: unknown[] = [];
+
+      for (const input of inputs) {
+        const properties = input.properties || {};
+        if (!store.contacts.has(String(input.id))) continue;
+
+        validateContactProperties(store, properties, String(input.id));
+        if (properties.email) {
+          const email = properties.email.toLowerCase();
+          const other = batchEmails.get(email);
+          if (other !== undefined && other !== String(input.id)) {
+            throw duplicateEmailError(properties.email, store.contacts.get(other)!);
+          }
+          batchEmails.set(email, String(input.id));
+        }
+      }
+
+      const results: CrmObject[] = [];
+      for (const input of inputs) {
+        const contact = store.contacts.get(String(input.id));
+        if (!contact) {
+          errors.push({
+            status: 'error',
+            category: 'OBJECT_NOT_FOUND',
+            message: 'Could not get some CONTACT objects, they may be deleted or not exist.',
+            context: { ids: [String(input.id)] },
+          });
+          continue;
+        }
+        updateObject(contact, input.properties || {});
+        results.push(projectObject(contact, Object.keys(input.properties || {}), DEFAULT_CONTACT_PROPERTIES));
+      }
+
+      const response = {
+        status: 'COMPLETE',
+        results,
+        startedAt,
+        completedAt: new Date().toISOString(),
+        ...(errors.length > 0 && { numErrors: errors.length, errors }),
+      };
+      return sendJson(res, errors.length > 0 ? 207 : 200, response, headers);
+    }
+
+    if (path === '/crm/v3/objects/contacts/search' && req.method === 'POST') {
+      const body = await readJson<SearchRequest>(req);
+      return sendJson(res, 200, searchObjects(store.contacts, body, ['firstname', 'lastname', 'email'], DEFAULT_CONTACT_PROPERTIES), headers);
+    }
+
+    if (segments.length === 5 && path.startsWith('/crm/v3/objects/contacts/')) {
+      const contact = store.contacts.get(segments[4]);
+      if (!contact || contact.archived) throw notFound();
+
+      if (req.method === 'PATCH') {
+        const body = await readJson<{ properties?: Record<string, string> }>(req);
+        const properties = body.properties || {};
+        validateContactProperties(store, properties, contact.id);
+        updateObject(contact, properties);
+        return sendJson(res, 200, projectObject(contact, Object.keys(properties), DEFAULT_CONTACT_PROPERTIES), headers);
+      }
+
+      if (req.method === 'GET') {
+        const requested = url.searchParams.getAll('properties').flatMap(value => value.split(',')).filter(Boolean);
+        return sendJson(res, 200, projectObject(contact, requested, DEFAULT_CONTACT_PROPERTIES), headers);
+      }
+    }
+
+    // Property definitions
+    if (path === '/crm/v3/properties/contacts' && req.method === 'GET') {
+      const results = CONTACT_PROPERTY_DEFINITIONS.map((definition, index) => ({
+        name: definition.name,
+        label: definition.label,
+        type: definition.type,
+        fieldType: definition.fieldType,
+        description: '',
+        groupName: 'contactinformation',
+        options: (definition.options || []).map((option, position) => ({ ...option, displayOrder: position, hidden: false })),
+        displayOrder: index,
+        hidden: false,
+        modificationMetadata: { archivable: true, readOnlyDefinition: true, readOnlyValue: !!definition.readOnly },
+      }));
+      return sendJson(res, 200, { results }, headers);
+    }
+
+    // Companies
+    if (path === '/crm/v3/objects/companies' && req.method === 'GET') {
+      const limit = Math.min(Number(url.searchParams.get('limit')) || 10, 100);
+      const offset = Number(url.searchParams.get('after')) || 0;
+      const requested = url.searchParams.getAll('properties').flatMap(value => value.split(',')).filter(Boolean);
+
+      const all = [...store.companies.values()].filter(company => !company.archived);
+      const page = all.slice(offset, offset + limit);
+      const nextOffset = offset + limit;
+
+      return sendJson(res, 200, {
+        results: page.map(company => projectObject(company, requested, DEFAULT_COMPANY_PROPERTIES)),
+        ...(nextOffset < all.length && {
+          paging: { next: { after: String(nextOffset), link: `${url.origin}${path}?after=${nextOffset}` } },
+        }),
+      }, headers);
+    }
+
+    if (path === '/crm/v3/objects/companies/search' && req.method === 'POST') {
+      const body = await readJson<SearchRequest>(req);
+      return sendJson(res, 200, searchObjects(store.companies, body, ['name', 'domain'], DEFAULT_COMPANY_PROPERTIES), headers);
+    }
+
+    if (segments.length === 5 && path.startsWith('/crm/v3/objects/companies/') && req.method === 'GET') {
+      const company = store.companies.get(segments[4]);
+      if (!company || company.archived) throw notFound();
+
+      const requested = url.searchParams.getAll('properties').flatMap(value => value.split(',')).filter(Boolean);
+      return sendJson(res, 200, projectObject(company, requested, DEFAULT_COMPANY_PROPERTIES), headers);
+    }
+
+    // Associations (v3 batch API)
+    if (path === '/crm/v3/associations/contacts/companies/batch/create' && req.method === 'POST') {
+      const body = await readJson<{ inputs?: AssociationInput[] }>(req);
+      const startedAt = new Date().toISOString();
+      const results: unknown[] = [];
+      const errors: unknown[] = [];
+
+      for (const input of body.inputs || []) {
+        const fromId = String(input.from?.id ?? '');
+        const toId = String(input.to?.id ?? '');
+
+        if (!store.contacts.has(fromId) || !store.companies.has(toId)) {
+          errors.push({
+            status: 'error',
+            category: 'OBJECT_NOT_FOUND',
+            message: `No contact with ID ${fromId} or no company with ID ${toId} exists`,
+            context: { fromId: [fromId], toId: [toId] },
+          });
+          continue;
+        }
+
+        if (!store.associations.some(existing => existing.fromId === fromId && existing.toId === toId)) {
+          store.associations.push({ fromId, toId, type: input.type || 'contact_to_company' });
+        }
+        results.push({ from: { id: fromId }, to: { id: toId }, type: input.type || 'contact_to_company' });
+      }
+
+      const response = {
+        status: 'COMPLETE',
+        results,
+        startedAt,
+        completedAt: new Date().toISOString(),
+        ...(errors.length > 0 && { numErrors: errors.length, errors }),
+      };
+      return sendJson(res, errors.length > 0 ? 207 : 201, response, headers);
+    }
+
+    if (path === '/crm/v3/associations/contacts/companies/batch/read' && req.method === 'POST') {
+      const body = await readJson<{ inputs?: Array<{ id?: string }> }>(req);
+      const startedAt = new Date().toISOString();
+      const results: unknown[] = [];
+      const errors: unknown[] = [];
+
+      for (const input of body.inputs || []) {
+        const fromId = String(input.id ?? '');
+        const associated = store.associations.filter(association => association.fromId === fromId);
+
+        if (associated.length === 0) {
+          errors.push({
+            status: 'error',
+            category: 'OBJECT_NOT_FOUND',
+            message: `No company is associated with contact ${fromId}.`,
+            context: { fromId: [fromId] },
+          });
+          continue;
+        }
+
+        results.push({
+          from: { id: fromId },
+          to: associated.map(association => ({ id: association.toId, type: association.type })),
+        });
+      }
+
+      const response = {
+        status: 'COMPLETE',
+        results,
+        startedAt,
+        completedAt: new Date().toISOString(),
+        ...(errors.length > 0 && { numErrors: errors.length, errors }),
+      };
+      return sendJson(res, errors.length > 0 ? 207 : 200, response, headers);
+    }
+
+    if (path === '/crm/v3/associations/contacts/companies/batch/archive' && req.method === 'POST') {
+      const body = await readJson<{ inputs?: AssociationInput[] }>(req);
+      for (const input of body.inputs || []) {
+        const fromId = String(input.from?.id ?? '');
+        const toId = String(input.to?.id ?? '');
+        store.associations = store.associations.filter(
+          association => !(association.fromId === fromId && association.toId === toId)
+        );
+      }
+      return sendJson(res, 204, undefined, headers);
+    }
+
+    throw notFound();
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname.startsWith('/__fake/')) {
+        return await handleControl(req, res, url.pathname);
+      }
+
+      authenticate(req);
+      applyFaults(url.pathname);
+      enforceRateLimit();
+      await handleCrm(req, res, url);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return sendJson(res, error.status, error.body, { ...rateLimitHeaders(), ...error.headers });
+      }
+      console.error('[fake-hubspot] Unhandled error:', error);
+      sendJson(res, 500, errorBody('internal error', 'INTERNAL_ERROR'));
+    }
+  }) as Server & { store: FakeStore };
+
+  server.store = store;
+  return server;
+}
@@ -0,0 +1,96 @@
+// In-memory CRM records backing the fake HubSpot server
+
+export interface CrmObject {
+  id: string;
+  properties: Record<string, string | null>;
+  createdAt: string;
+  updatedAt: string;
+  archived: boolean;
+}
+
+export interface Association {
+  fromId: string;
+  toId: string;
+  type: string;
+}
+
+export interface SeedData {
+  companies?: Array<Record<string, string>>;
+  contacts?: Array<Record<string, string>>;
+}
+
+export interface FakeStore {
+  contacts: Map<string, CrmObject>;
+  companies: Map<string, CrmObject>;
+  associations: Association[];
+  nextId: number;
+}
+
+export function createStore(seed: SeedData = {}): FakeStore {
+  const store: FakeStore = {
+    contacts: new Map(),
+    companies: new Map(),
+    associations: [],
+    nextId: 1001,
+  };
+
+  for (const properties of seed.companies || []) {
+    insertObject(store, store.companies, properties);
+  }
+  for (const properties of seed.contacts || []) {
+    insertObject(store, store.contacts, properties);
+  }
+
+  return store;
+}
+
+export function insertObject(store: FakeStore, collection: Map<string, CrmObject>, properties: Record<string, string>): CrmObject {
+  const id = String(store.nextId++);
+  const now = new Date().toISOString();
+
+  const record: CrmObject = {
+    id,
+    properties: {
+      ...properties,
+      hs_object_id: id,
+      createdate: now,
+      lastmodifieddate: now,
+    },
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+  };
+
+  collection.set(id, record);
+  return record;
+}
+
+export function updateObject(record: CrmObject, properties: Record<string, string>): CrmObject {
+  const now = new Date().toISOString();
+  record.properties = { ...record.properties, ...properties, lastmodifieddate: now };
+  record.updatedAt = now;
+  return record;
+}
+
+// Find a contact (other than excludeId) that already uses this email
+export function findContactByEmail(store: FakeStore, email: string, excludeId?: string): CrmObject | undefined {
+  const normalized = email.trim().toLowerCase();
+  for (const contact of store.contacts.values()) {
+    if (contact.id !== excludeId && contact.properties.email?.toLowerCase() === normalized) {
+      return contact;
+    }
+  }
+  return undefined;
+}
+
+// Return a copy of the record limited to the requested properties (HubSpot's default when none are given)
+export function projectObject(record: CrmObject, properties: string[] | undefined, defaults: string[]): CrmObject {
+  const wanted = properties && properties.length > 0 ? properties : defaults;
+  const projected: Record<string, string | null> = {};
+
+  for (const name of [...wanted, 'hs_object_id', 'createdate', 'lastmodifieddate']) {
+    projected[name] = record.properties[name] ?? null;
+  }
+
+  return { ...record, properties: projected };
+}
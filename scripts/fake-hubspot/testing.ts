@@ -0,0 +1,31 @@
+import type { AddressInfo } from 'node:net';
+import { createFakeHubSpotServer } from './server';
+import type { FakeStore, SeedData } from './store';
+
+export interface FakeHubSpot {
+  baseUrl: string;
+  store: () => FakeStore;
+  // Fail the next `count` requests whose path contains `path` (see POST /__fake/faults)
+  addFault: (fault: { status: number; path?: string; count?: number; message?: string; retryAfter?: number }) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// Start a fake HubSpot server on a free port for tests
+export async function startFakeHubSpot(seed: SeedData = {}): Promise<FakeHubSpot> {
+  const server = createFakeHubSpotServer({ seed });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    store: () => server.store,
+    async addFault(fault) {
+      await fetch(`${baseUrl}/__fake/faults`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fault),
+      });
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
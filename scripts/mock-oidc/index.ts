@@ -0,0 +1,23 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createMockOidcServer, type MockUser } from './server';
+
+// Usage: npm run mock-oidc
+// Then start the app with OIDC_ISSUER=http://localhost:4020, OIDC_CLIENT_ID=user-creator,
+// OIDC_CLIENT_SECRET=mock-secret and any AUTH_SECRET of 32 or more characters.
+
+const port = Number(process.env.MOCK_OIDC_PORT) || 4020;
+const usersPath = process.env.MOCK_OIDC_USERS || join(__dirname, 'users.json');
+const users: MockUser[] = JSON.parse(readFileSync(usersPath, 'utf8'));
+
+const server = createMockOidcServer({
+  issuer: process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`,
+  clientId: process.env.MOCK_OIDC_CLIENT_ID || 'user-creator',
+  clientSecret: process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret',
+  users,
+});
+
+server.listen(port, () => {
+  console.log(`Mock OpenID Connect issuer listening on http://localhost:${port}`);
+  console.log(`Signing in as one of ${users.length} users from ${usersPath}`);
+});
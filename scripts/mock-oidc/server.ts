@@ -0,0 +1,261 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'node:crypto';
+
+/**
+ * Local OpenID Connect issuer for signing in to the app without Okta:
+ *
+ *   GET  /.well-known/openid-configuration  discovery document
+ *   GET  /authorize                          sign-in page listing the configured users (or signs in login_hint)
+ *   POST /authorize                          sign in as the chosen user and redirect back with a code
+ *   POST /token                              exchange a code (client_secret_basic or _post, PKCE S256 checked)
+ *   GET  /userinfo                           claims of the user an access token was issued to
+ *   GET  /jwks                               public key the ID tokens are signed with (RS256)
+ *   GET  /logout                             end the session and redirect to post_logout_redirect_uri
+ *
+ * Nothing is persisted: the signing key is generated on start, so sessions signed in before a restart
+ * keep working in the app (it only checks ID tokens once) but codes and access tokens do not.
+ */
+
+export interface MockUser {
+  sub: string;
+  email: string;
+  name: string;
+  groups: string[];
+}
+
+export interface MockOidcServerOptions {
+  issuer: string; // e.g. http://localhost:4020
+  clientId: string;
+  clientSecret?: string; // When set, the token endpoint requires it
+  users: MockUser[];
+  tokenLifetimeSeconds?: number;
+}
+
+interface AuthorizationCode {
+  user: MockUser;
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  expiresAt: number;
+}
+
+const CODE_LIFETIME_MS = 60 * 1000;
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+class OAuthError extends Error {
+  constructor(public status: number, public error: string, description: string) {
+    super(description);
+  }
+}
+
+function base64Url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json;charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function redirect(res: ServerResponse, location: string) {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+export function createMockOidcServer(options: MockOidcServerOptions): Server {
+  const { issuer, clientId, clientSecret, users } = options;
+  const tokenLifetime = options.tokenLifetimeSeconds ?? DEFAULT_TOKEN_LIFETIME_SECONDS;
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  const codes = new Map<string, AuthorizationCode>();
+  const accessTokens = new Map<string, { user: MockUser; expiresAt: number }>();
+
+  function signJwt(payload: Record<string, unknown>, key: KeyObject): string {
+    const input = `${base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }))}.${base64Url(JSON.stringify(payload))}`;
+    return `${input}.${base64Url(sign('sha256', Buffer.from(input), key))}`;
+  }
+
+  function discovery() {
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      end_session_endpoint: `${issuer}/logout`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      scopes_supported: ['openid', 'profile', 'email', 'groups'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      code_challenge_methods_supported: ['S256', 'plain'],
+      claims_supported: ['sub', 'email', 'name', 'groups'],
+    };
+  }
+
+  // The authorization request parameters, checked before anything is shown or a code is issued
+  function readAuthorizationRequest(params: URLSearchParams) {
+    if (params.get('client_id') !== clientId) throw new OAuthError(400, 'invalid_client', 'Unknown client_id');
+    const redirectUri = params.get('redirect_uri');
+    if (!redirectUri || !/^https?:\/\//.test(redirectUri)) throw new OAuthError(400, 'invalid_request', 'redirect_uri is required');
+    if (params.get('response_type') !== 'code') throw new OAuthError(400, 'unsupported_response_type', 'Only response_type=code is supported');
+    return redirectUri;
+  }
+
+  function issueCode(res: ServerResponse, params: URLSearchParams, redirectUri: string, user: MockUser) {
+    const code = randomBytes(24).toString('base64url');
+    codes.set(code, {
+      user,
+      clientId,
+      redirectUri,
+      nonce: params.get('nonce') || undefined,
+      codeChallenge: params.get('code_challenge') || undefined,
+      codeChallengeMethod: params.get('code_challenge_method') || undefined,
+      expiresAt: Date.now() + CODE_LIFETIME_MS,
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    if (params.get('state')) location.searchParams.set('state', params.get('state')!);
+    redirect(res, location.toString());
+  }
+
+  function renderSignInPage(res: ServerResponse, params: URLSearchParams) {
+    const hiddenFields = [...params].map(([name, value]) =>
+      `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`).join('');
+    const buttons = users.map(user => `
+      <form method="post" action="/authorize">${hiddenFields}
+        <button name="sub" value="${escapeHtml(user.sub)}">
+          <strong>${escapeHtml(user.name)}</strong> &lt;${escapeHtml(user.email)}&gt;<br>
+          <small>groups: ${escapeHtml(user.groups.join(', ') || 'none')}</small>
+        </button>
+      </form>`).join('');
+
+    res.writeHead(200, { 'Content-Type': 'text/html;charset=utf-8' });
+    res.end(`<!doctype html><html><head><title>Mock OIDC sign-in</title>
+      <style>body{font-family:sans-serif;max-width:28rem;margin:3rem auto}button{width:100%;text-align:left;padding:.75rem;margin:.25rem 0;cursor:pointer}</style>
+      </head><body><h1>Sign in as</h1>${buttons}</body></html>`);
+  }
+
+  async function handleToken(req: IncomingMessage, res: ServerResponse) {
+    const form = await readForm(req);
+
+    let presentedId = form.get('client_id');
+    let presentedSecret = form.get('client_secret');
+    const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+    if (basic) {
+      const [id, secret = ''] = Buffer.from(basic[1], 'base64').toString('utf8').split(':');
+      presentedId = decodeURIComponent(id);
+      presentedSecret = decodeURIComponent(secret);
+    }
+    if (presentedId !== clientId || (clientSecret !== undefined && presentedSecret !== clientSecret)) {
+      throw new OAuthError(401, 'invalid_client', 'Client authentication failed');
+    }
+
+    if (form.get('grant_type') !== 'authorization_code') {
+      throw new OAuthError(400, 'unsupported_grant_type', 'Only authorization_code is supported');
+    }
+    const code = codes.get(form.get('code') || '');
+    codes.delete(form.get('code') || ''); // Codes are single-use
+    if (!code || code.expiresAt < Date.now() || code.clientId !== presentedId) {
+      throw new OAuthError(400, 'invalid_grant', 'The authorization code is invalid or has expired');
+    }
+    if (form.get('redirect_uri') !== code.redirectUri) {
+      throw new OAuthError(400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (code.codeChallenge) {
+      const verifier = form.get('code_verifier') || '';
+      const expected = code.codeChallengeMethod === 'S256' ? createHash('sha256').update(verifier).digest('base64url') : verifier;
+      if (expected !== code.codeChallenge) throw new OAuthError(400, 'invalid_grant', 'PKCE verification failed');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = randomBytes(24).toString('base64url');
+    accessTokens.set(accessToken, { user: code.user, expiresAt: Date.now() + tokenLifetime * 1000 });
+
+    const idToken = signJwt({
+      iss: issuer,
+      aud: clientId,
+      sub: code.user.sub,
+      email: code.user.email,
+      name: code.user.name,
+      groups: code.user.groups,
+      iat: now,
+      exp: now + tokenLifetime,
+      ...(code.nonce && { nonce: code.nonce }),
+    }, privateKey);
+
+    sendJson(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: tokenLifetime, id_token: idToken, scope: 'openid profile email groups' });
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', issuer);
+
+    try {
+      if (url.pathname === '/.well-known/openid-configuration' && req.method === 'GET') {
+        return sendJson(res, 200, discovery());
+      }
+
+      if (url.pathname === '/jwks' && req.method === 'GET') {
+        return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+      }
+
+      if (url.pathname === '/authorize' && req.method === 'GET') {
+        const redirectUri = readAuthorizationRequest(url.searchParams);
+        const hinted = users.find(user => user.email === url.searchParams.get('login_hint'));
+        return hinted ? issueCode(res, url.searchParams, redirectUri, hinted) : renderSignInPage(res, url.searchParams);
+      }
+
+      if (url.pathname === '/authorize' && req.method === 'POST') {
+        const form = await readForm(req);
+        const redirectUri = readAuthorizationRequest(form);
+        const user = users.find(candidate => candidate.sub === form.get('sub'));
+        if (!user) throw new OAuthError(400, 'access_denied', 'Unknown user');
+        return issueCode(res, form, redirectUri, user);
+      }
+
+      if (url.pathname === '/token' && req.method === 'POST') {
+        return await handleToken(req, res);
+      }
+
+      if (url.pathname === '/userinfo' && req.method === 'GET') {
+        const token = req.headers.authorization?.replace(/^Bearer /, '') || '';
+        const grant = accessTokens.get(token);
+        if (!grant || grant.expiresAt < Date.now()) throw new OAuthError(401, 'invalid_token', 'The access token is invalid or has expired');
+        const { sub, email, name, groups } = grant.user;
+        return sendJson(res, 200, { sub, email, name, groups });
+      }
+
+      if (url.pathname === '/logout' && req.method === 'GET') {
+        const target = url.searchParams.get('post_logout_redirect_uri');
+        if (target) return redirect(res, target);
+        res.writeHead(200, { 'Content-Type': 'text/plain;charset=utf-8' });
+        return res.end('Signed out');
+      }
+
+      sendJson(res, 404, { error: 'not_found', error_description: `No route for ${req.method} ${url.pathname}` });
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return sendJson(res, error.status, { error: error.error, error_description: error.message });
+      }
+      console.error('[mock-oidc] Unhandled error:', error);
+      sendJson(res, 500, { error: 'server_error', error_description: 'internal error' });
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CustomError,
+  ErrorCodes,
+  createErrorResponse,
+  logError
+} from '@/lib/errorHandler';
+import {
+  ID_TOKEN_COOKIE,
+  ID_TOKEN_COOKIE_PATH,
+  LOGIN_COOKIE,
+  MAX_COOKIE_VALUE_LENGTH,
+  SESSION_COOKIE,
+  completeAuthorization,
+  cookieOptions,
+  createSessionCookie,
+  getAuthConfig,
+  getRoleGrantingGroups,
+  readLoginCookie
+} from '@/lib/auth';
+
+// The identity provider redirects here with an authorization code (or an error) once the user has signed in
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const config = getAuthConfig();
+
+    const providerError = params.get('error');
+    if (providerError) {
+      throw new CustomError(
+        `Sign-in failed: ${params.get('error_description') || providerError}`,
+        ErrorCodes.AUTHENTICATION_ERROR,
+        401,
+        { providerError }
+      );
+    }
+
+    // The state must match the one stored when this browser started signing in, so a forged callback is rejected
+    const login = await readLoginCookie(request.cookies.get(LOGIN_COOKIE)?.value, config.sessionSecret);
+    const code = params.get('code');
+    if (!login || !code || params.get('state') !== login.state) {
+      throw new CustomError(
+        'Sign-in failed: the sign-in request has expired or was not started in this browser. Please sign in again.',
+        ErrorCodes.AUTHENTICATION_ERROR,
+        401
+      );
+    }
+
+    const { user, idToken } = await completeAuthorization(config, login, code);
+    console.log(`User signed in: ${user.email || user.sub}`);
+
+    // Returned to on the same origin as the callback, which may differ from the one seen behind a proxy
+    const response = NextResponse.redirect(new URL(login.returnTo, login.redirectUri));
+    response.cookies.set(
+      SESSION_COOKIE,
+      await createSessionCookie({ ...user, groups: getRoleGrantingGroups(user.groups) }, config.sessionSecret, config.sessionMaxAgeSeconds),
+      cookieOptions(request.url, config.sessionMaxAgeSeconds)
+    );
+    // Without the hint the provider may ask before signing out, so a token too large for a cookie is simply left out
+    if (idToken && idToken.length <= MAX_COOKIE_VALUE_LENGTH) {
+      response.cookies.set(ID_TOKEN_COOKIE, idToken, {
+        ...cookieOptions(request.url, config.sessionMaxAgeSeconds),
+        path: ID_TOKEN_COOKIE_PATH,
+      });
+    }
+    response.cookies.delete(LOGIN_COOKIE);
+    return response;
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return createErrorResponse(error, requestId);
+    }
+
+    logError(error as Error, { requestId, operation: 'completeSignIn' });
+    return createErrorResponse(new CustomError(
+      'An unexpected error occurred while signing in',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    ), requestId);
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CustomError,
+  ErrorCodes,
+  createErrorResponse,
+  logError
+} from '@/lib/errorHandler';
+import {
+  LOGIN_COOKIE,
+  LOGIN_MAX_AGE_SECONDS,
+  cookieOptions,
+  createAuthorizationRequest,
+  createLoginCookie,
+  getAuthConfig,
+  isAuthDisabled
+} from '@/lib/auth';
+
+// Only paths on this app are returned to after signing in, never another site
+function getReturnTo(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+}
+
+// Start signing in: send the browser to the identity provider, remembering where to return to afterwards
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const returnTo = getReturnTo(request.nextUrl.searchParams.get('returnTo'));
+
+  if (isAuthDisabled()) {
+    return NextResponse.redirect(new URL(returnTo, request.nextUrl.origin));
+  }
+
+  try {
+    const config = getAuthConfig();
+    const redirectUri = config.redirectUri || new URL('/api/auth/callback', request.nextUrl.origin).toString();
+    const { url, login } = await createAuthorizationRequest(config, redirectUri, returnTo);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(
+      LOGIN_COOKIE,
+      await createLoginCookie(login, config.sessionSecret),
+      cookieOptions(request.url, LOGIN_MAX_AGE_SECONDS)
+    );
+    return response;
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return createErrorResponse(error, requestId);
+    }
+
+    logError(error as Error, { requestId, operation: 'startSignIn' });
+    return createErrorResponse(new CustomError(
+      'An unexpected error occurred while starting sign-in',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    ), requestId);
+  }
+}
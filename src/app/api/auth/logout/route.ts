@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CustomError, ErrorCodes, createErrorResponse, logError } from '@/lib/errorHandler';
+import { isSameOriginRequest } from '@/lib/security';
+import {
+  ID_TOKEN_COOKIE,
+  ID_TOKEN_COOKIE_PATH,
+  SESSION_COOKIE,
+  getAuthConfig,
+  getEndSessionUrl,
+  isAuthDisabled,
+  type AuthConfig
+} from '@/lib/auth';
+
+/**
+ * Sign out of this app, and of the identity provider when it supports RP-initiated logout.
+ * Only a POST from the app's own pages is accepted, so a link or form on another site cannot sign users out.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const home = new URL('/', request.nextUrl.origin);
+  let destination = home.toString();
+
+  if (!isAuthDisabled()) {
+    let config: AuthConfig;
+    try {
+      config = getAuthConfig();
+    } catch (error) {
+      return createErrorResponse(error as CustomError, requestId);
+    }
+
+    // Behind a proxy the browser's origin is the one in the configured redirect URI
+    const allowedOrigins = [request.nextUrl.origin, ...(config.redirectUri ? [new URL(config.redirectUri).origin] : [])];
+    if (!isSameOriginRequest(request.headers, allowedOrigins)) {
+      return createErrorResponse(new CustomError(
+        'Sign-out must be requested from this application',
+        ErrorCodes.FORBIDDEN,
+        403
+      ), requestId);
+    }
+
+    try {
+      const postLogoutRedirectUri = config.redirectUri ? new URL('/', config.redirectUri).toString() : home.toString();
+      const idToken = request.cookies.get(ID_TOKEN_COOKIE)?.value;
+      destination = await getEndSessionUrl(config, idToken, postLogoutRedirectUri) ?? postLogoutRedirectUri;
+    } catch (error) {
+      // The cookies are cleared even when the provider cannot be reached
+      logError(error as Error, { operation: 'signOut' });
+    }
+  }
+
+  // 303 so the browser follows the redirect with a GET
+  const response = NextResponse.redirect(destination, 303);
+  response.cookies.delete(SESSION_COOKIE);
+  response.cookies.delete({ name: ID_TOKEN_COOKIE, path: ID_TOKEN_COOKIE_PATH });
+  return response;
+}
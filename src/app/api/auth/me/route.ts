@@ -0,0 +1,32 @@
+import { CustomError, ErrorCodes, createErrorResponse, createSuccessResponse, logError } from '@/lib/errorHandler';
+import { ALL_PERMISSIONS, getCurrentUser, getPermissions, getUserRoles, isAuthDisabled } from '@/lib/auth';
+
+// The signed-in user with their roles and permissions (all of them when sign-in is turned off), for the UI
+export async function GET() {
+  const requestId = Math.random().toString(36).substr(2, 9);
+
+  try {
+    const user = await getCurrentUser();
+    const roles = user ? getUserRoles(user) : [];
+    return createSuccessResponse(
+      {
+        user,
+        roles,
+        permissions: isAuthDisabled() ? ALL_PERMISSIONS : getPermissions(roles),
+        authEnabled: !isAuthDisabled(),
+      },
+      user ? `Signed in as ${user.email || user.sub}` : 'Sign-in is turned off'
+    );
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return createErrorResponse(error, requestId);
+    }
+
+    logError(error as Error, { requestId, operation: 'getCurrentUser' });
+    return createErrorResponse(new CustomError(
+      'An unexpected error occurred while reading the signed-in user',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    ), requestId);
+  }
+}
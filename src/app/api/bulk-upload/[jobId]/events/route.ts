@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server';
+import { createErrorResponse, logError } from '@/lib/errorHandler';
+import {
+  canViewBulkUploadJob,
+  getBulkUploadJob,
+  getBulkUploadJobEvents,
+  isBulkUploadJobStalled,
+  jobNotFoundError,
+  runBulkUploadJob,
+  type SequencedJobEvent,
+} from '@/lib/bulkUploadJobs';
+import { requirePermission } from '@/lib/auth';
+
+// Comment lines keep proxies from closing an idle stream while HubSpot calls are in flight
+const HEARTBEAT_INTERVAL_MS = 15000;
+// New events are read from the shared store this often, since the job may run in another instance
+const POLL_INTERVAL_MS = 1000;
+// How often a watched job is checked for a runner that stopped
+const STALL_CHECK_INTERVAL_MS = 10000;
+
+/**
+ * Server-Sent Events stream of a bulk upload job: row_started, row_created, row_failed,
+ * progress and a final done event. Reconnecting clients send Last-Event-ID and only
+ * receive the events they missed.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { jobId } = await params;
+
+  let user;
+  try {
+    user = await requirePermission('bulk-upload');
+  } catch (error) {
+    return createErrorResponse(error as Error, requestId);
+  }
+
+  const job = await getBulkUploadJob(jobId);
+  if (!job || !canViewBulkUploadJob(job, user)) {
+    return createErrorResponse(jobNotFoundError(jobId), requestId);
+  }
+
+  let lastEventId = Number(request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId')) || 0;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let stallCheckedAt = 0; // Checked on the first poll too, so a finished job closes and a stalled one resumes at once
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = ({ id, event }: SequencedJobEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        lastEventId = id;
+        if (event.type === 'done') close();
+      };
+
+      // Send the events recorded since the last poll; done closes the stream
+      const poll = async () => {
+        for (const event of await getBulkUploadJobEvents(jobId, lastEventId)) send(event);
+        if (closed || Date.now() - stallCheckedAt < STALL_CHECK_INTERVAL_MS) return;
+
+        stallCheckedAt = Date.now();
+        const current = await getBulkUploadJob(jobId);
+        if (!current || current.completedAt) {
+          // Finished or expired: send done if it was recorded since (the client already has every other event)
+          for (const event of await getBulkUploadJobEvents(jobId, lastEventId)) send(event);
+          close();
+        } else if (await isBulkUploadJobStalled(current)) {
+          // Resumed directly: after() would wait for this stream to end
+          runBulkUploadJob(jobId, requestId).catch(error => logError(error as Error, { requestId, jobId }));
+        }
+      };
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const pollUntilClosed = async () => {
+        await poll().catch(error => logError(error as Error, { requestId, jobId, operation: 'pollBulkUploadJobEvents' }));
+        if (!closed) timer = setTimeout(pollUntilClosed, POLL_INTERVAL_MS);
+      };
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        clearTimeout(timer);
+      };
+      request.signal.addEventListener('abort', () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+      });
+
+      // Replay missed events straight away, then follow new ones
+      void pollUntilClosed();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, after } from 'next/server';
+import {
+  CustomError,
+  ErrorCodes,
+  createErrorResponse,
+  createSuccessResponse,
+  logError
+} from '@/lib/errorHandler';
+import {
+  canViewBulkUploadJob,
+  getBulkUploadJob,
+  isBulkUploadJobStalled,
+  jobNotFoundError,
+  runBulkUploadJob,
+  serializeBulkUploadJob,
+} from '@/lib/bulkUploadJobs';
+import { requirePermission } from '@/lib/auth';
+
+// Status and accumulated result of a bulk upload job started by POST /api/bulk-upload
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { jobId } = await params;
+
+  try {
+    const user = await requirePermission('bulk-upload');
+
+    const job = await getBulkUploadJob(jobId);
+    if (!job || !canViewBulkUploadJob(job, user)) throw jobNotFoundError(jobId);
+
+    // The instance running the job stopped (e.g. its function timed out); carry on here
+    if (await isBulkUploadJobStalled(job)) after(() => runBulkUploadJob(jobId, requestId));
+
+    return createSuccessResponse(
+      serializeBulkUploadJob(job),
+      job.message || `Bulk upload ${job.status}: ${job.processed} of ${job.result.total} users processed`
+    );
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return createErrorResponse(error, requestId);
+    }
+
+    logError(error as Error, { requestId, jobId });
+
+    const unexpectedError = new CustomError(
+      'An unexpected error occurred while fetching the bulk upload status',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500,
+      { originalError: (error as Error)?.message }
+    );
+
+    return createErrorResponse(unexpectedError, requestId);
+  }
+}
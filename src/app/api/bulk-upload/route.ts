@@ -1,166 +1,60 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
-import { checkRateLimit, validateBulkUpload, sanitizeErrorMessage, getClientIdentifier } from '@/lib/security';
+import { NextRequest, after } from 'next/server';
+import { validateBulkUpload, getClientIdentifier } from '@/lib/security';
+import { checkRateLimit, getRetryAfterSeconds, setRateLimitHeaders, type RateLimitResult } from '@/lib/rateLimit';
+import { requirePermission } from '@/lib/auth';
 import { 
   CustomError, 
   ErrorCodes, 
-  handleHubSpotError, 
+  handleHubSpotError,
   createErrorResponse, 
   createSuccessResponse,
   validateRequiredFields,
-  validateEmail,
   logError
 } from '@/lib/errorHandler';
-
-const hubspotClient = new Client({ accessToken: process.env.HUBSPOT_ACCESS_TOKEN });
-
-interface CsvUser {
-  firstName: string;
-  lastName: string;
-  email: string;
-}
+import {
+  describeOrganizations,
+  getBulkUploadPreviewMessage,
+  getRowOrganizationName,
+  getUploadCompanies,
+  getUploadOrganizationNames,
+  previewBulkUpload,
+  type CsvUser,
+  type RowOrganizations,
+} from '@/lib/bulkUpload';
+import {
+  createBulkUploadJob,
+  getBulkUploadJob,
+  getRecordedRowOutcomes,
+  isBulkUploadJobStalled,
+  runBulkUploadJob,
+  serializeBulkUploadJob,
+} from '@/lib/bulkUploadJobs';
+import {
+  beginIdempotentRequest,
+  claimIdempotentRequest,
+  fingerprintRequest,
+  getIdempotencyKey,
+  releaseIdempotentRequest,
+  saveIdempotencyRecord,
+} from '@/lib/idempotency';
+import {
+  CONFLICT_POLICIES,
+  getHubSpotGateway,
+  parsePropertyOverrides,
+  validateContactProperties,
+  type ConflictPolicy,
+} from '@/lib/hubspot';
+import { resolveOrganizationNames } from '@/lib/organizations';
 
 interface BulkUploadRequest {
-  users: CsvUser[];
-  organizationId: string;
-  organizationName: string;
-}
-
-interface UploadError {
-  row: number;
-  user: CsvUser;
-  error: string;
-}
-
-interface BulkUploadResult {
-  success: boolean;
-  total: number;
-  successful: number;
-  failed: number;
-  errors: UploadError[];
-}
-
-// Function to create a single contact
-async function createContact(user: CsvUser, organizationId: string, organizationName: string): Promise<{ success: boolean; error?: string; contactId?: string; errorCode?: string }> {
-  try {
-    // Validate user data first
-    if (!user.firstName?.trim() || !user.lastName?.trim() || !user.email?.trim()) {
-      return {
-        success: false,
-        error: 'Missing required user data',
-        errorCode: ErrorCodes.VALIDATION_ERROR,
-      };
-    }
-
-    // Validate email format
-    try {
-      validateEmail(user.email);
-    } catch (emailError) {
-      return {
-        success: false,
-        error: 'Invalid email format',
-        errorCode: ErrorCodes.VALIDATION_ERROR,
-      };
-    }
-
-    // Step 1: Create contact with minimal properties first to avoid automatic associations
-    const basicContactProperties: any = {
-      firstname: user.firstName.trim(),
-      lastname: user.lastName.trim(),
-      lifecyclestage: 'lead'
-      // NOTE: Intentionally NOT including email in initial creation to prevent domain matching
-    };
-
-    const apiResponse = await hubspotClient.crm.contacts.basicApi.create({
-      properties: basicContactProperties
-    });
-
-    // Step 2: Update the contact with email and company name after creation
-    if (apiResponse.id) {
-      const updateProperties: any = {
-        email: user.email.trim().toLowerCase(),
-        active_in_okta: true
-      };
-
-      // Set the company name on the contact for display in profile
-      if (organizationName) {
-        updateProperties.company = organizationName;
-      }
-
-      await hubspotClient.crm.contacts.basicApi.update(apiResponse.id, {
-        properties: updateProperties
-      });
-    }
-    
-    // Create manual association with the selected organization
-    if (organizationId && apiResponse.id) {
-      try {
-        const associationRequest = {
-          inputs: [
-            {
-              _from: { id: apiResponse.id },
-              to: { id: organizationId },
-              type: 'contact_to_company'
-            }
-          ]
-        };
-        
-        await hubspotClient.crm.associations.batchApi.create(
-          'contacts',
-          'companies', 
-          associationRequest
-        );
-      } catch (associationError) {
-        logError(new Error('Association failed in bulk upload'), { 
-          contactId: apiResponse.id, 
-          organizationId,
-          user: { firstName: user.firstName, lastName: user.lastName, email: user.email.substring(0, 3) + '***' }
-        });
-        // Don't fail the contact creation for association errors
-      }
-    }
-    
-    return {
-      success: true,
-      contactId: apiResponse.id,
-    };
-  } catch (error: any) {
-    const hubspotError = handleHubSpotError(error);
-    
-    logError(hubspotError, {
-      user: { firstName: user.firstName, lastName: user.lastName, email: user.email ? user.email.substring(0, 3) + '***' : undefined },
-      organizationId
-    });
-    
-    return {
-      success: false,
-      error: hubspotError.message,
-      errorCode: hubspotError.code,
-    };
-  }
-}
-
-// Function to validate user data
-function validateUser(user: CsvUser, index: number): { valid: boolean; error?: string } {
-  if (!user.firstName?.trim()) {
-    return { valid: false, error: 'First name is required' };
-  }
-  
-  if (!user.lastName?.trim()) {
-    return { valid: false, error: 'Last name is required' };
-  }
-  
-  if (!user.email?.trim()) {
-    return { valid: false, error: 'Email is required' };
-  }
-  
-  // Basic email validation
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(user.email)) {
-    return { valid: false, error: 'Invalid email format' };
-  }
-  
-  return { valid: true };
+  users: CsvUser[]; // Each user may carry its own organizationName
+  organizationId?: string; // Required when some users have no organizationName
+  organizationName?: string;
+  organizationSelections?: Record<string, string>; // Company ID picked for an ambiguous or unmatched organization name
+  dryRun?: boolean; // Validate and report what would happen without writing to HubSpot
+  conflictPolicy?: ConflictPolicy; // What to do with emails that already exist (default: fail)
+  properties?: Record<string, string>; // Values for contact properties on every row, replacing the configured template's
+  properCaseNames?: boolean; // Capitalize names written in all upper or lower case ("JOHN o'neil" → "John O'Neil")
 }
 
 export async function POST(request: NextRequest) {
@@ -168,33 +62,44 @@ export async function POST(request: NextRequest) {
   const clientId = getClientIdentifier(request.headers);
   const userAgent = request.headers.get('user-agent') || undefined;
   let body: BulkUploadRequest | undefined;
+  let rateLimit: RateLimitResult | undefined;
   
   try {
-    // Environment validation
-    if (!process.env.HUBSPOT_ACCESS_TOKEN) {
-      throw new CustomError(
-        'HubSpot integration is not properly configured',
-        ErrorCodes.INTERNAL_SERVER_ERROR,
-        500
-      );
+    let parseError: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      parseError = error;
     }
 
-    // Rate limiting check
-    const rateLimitResult = checkRateLimit(clientId, 'BULK_UPLOAD');
-    if (!rateLimitResult.allowed) {
-      console.log(`Rate limit exceeded for ${clientId} - BULK_UPLOAD`);
+    // Rate limiting check (dry runs only read from HubSpot and have their own budget). The body is read first
+    // to tell which budget applies; counting before anything else gives every response the rate limit headers
+    const rateLimitAction = body?.dryRun ? 'PREVIEW' : 'BULK_UPLOAD';
+    rateLimit = await checkRateLimit(clientId, rateLimitAction);
+    if (!rateLimit.allowed) {
+      console.log(`Rate limit exceeded for ${clientId} - ${rateLimitAction}`);
       throw new CustomError(
         'Too many bulk upload requests. Please try again later.',
         ErrorCodes.RATE_LIMIT_EXCEEDED,
         429,
-        { remaining: rateLimitResult.remaining }
+        { remaining: rateLimit.remaining, retryAfterSeconds: getRetryAfterSeconds(rateLimit) }
+      );
+    }
+
+    // Only roles allowed to upload in bulk get past this point (previews included)
+    const sessionUser = await requirePermission('bulk-upload');
+
+    // Environment validation
+    if (!process.env.HUBSPOT_ACCESS_TOKEN) {
+      throw new CustomError(
+        'HubSpot integration is not properly configured',
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        500
       );
     }
 
     // Parse and validate request body
-    try {
-      body = await request.json();
-    } catch (parseError) {
+    if (parseError !== undefined) {
       throw new CustomError(
         'Invalid JSON in request body',
         ErrorCodes.INVALID_REQUEST,
@@ -211,10 +116,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { users, organizationId, organizationName } = body;
+    const {
+      users,
+      organizationId,
+      organizationName,
+      organizationSelections = {},
+      dryRun = false,
+      conflictPolicy = 'fail',
+    } = body;
+    const properCaseNames = body.properCaseNames === true;
 
     // Validate required fields
-    validateRequiredFields(body, ['users', 'organizationId', 'organizationName']);
+    validateRequiredFields(body, ['users']);
 
     // Validate users array
     if (!Array.isArray(users) || users.length === 0) {
@@ -240,16 +153,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate organization data
-    if (!organizationId?.trim()) {
+    // Validate organization data: the upload's organization is only needed for rows without their own
+    const needsDefaultOrganization = users.some(user => !getRowOrganizationName(user));
+    if (needsDefaultOrganization && !organizationId?.trim()) {
       throw new CustomError(
-        'Organization ID is required and must not be empty',
+        'Organization ID is required for users without an organization',
         ErrorCodes.VALIDATION_ERROR,
         400
       );
     }
 
-    if (!organizationName?.trim()) {
+    if (organizationId?.trim() && !organizationName?.trim()) {
       throw new CustomError(
         'Organization name is required and must not be empty',
         ErrorCodes.VALIDATION_ERROR,
@@ -257,113 +171,120 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result: BulkUploadResult = {
-      success: true,
-      total: users.length,
-      successful: 0,
-      failed: 0,
-      errors: [],
+    if (
+      typeof organizationSelections !== 'object' ||
+      organizationSelections === null ||
+      Object.values(organizationSelections).some(companyId => typeof companyId !== 'string' || !companyId.trim())
+    ) {
+      throw new CustomError(
+        'organizationSelections must map organization names to company IDs',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    if (!CONFLICT_POLICIES.includes(conflictPolicy)) {
+      throw new CustomError(
+        `conflictPolicy must be one of: ${CONFLICT_POLICIES.join(', ')}`,
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        { conflictPolicy }
+      );
+    }
+
+    // Property overrides and the configured template must only reference properties that exist in HubSpot
+    let properties;
+    try {
+      properties = await validateContactProperties(getHubSpotGateway(), parsePropertyOverrides(body.properties));
+    } catch (propertyError) {
+      throw handleHubSpotError(propertyError);
+    }
+
+    // Match every organization name in the file to a company (same ranking as /api/search-organizations)
+    const rowOrganizations: RowOrganizations = {
+      defaultOrganization: organizationId?.trim() ? { id: organizationId, name: organizationName! } : undefined,
+      resolutions: await resolveOrganizationNames(getUploadOrganizationNames(users), organizationSelections),
     };
 
-    // Process each user with enhanced error handling
-    for (let i = 0; i < users.length; i++) {
-      const user = users[i];
-      
-      try {
-        // Validate user data
-        const validation = validateUser(user, i);
-        if (!validation.valid) {
-          result.failed++;
-          result.errors.push({
-            row: i + 1, // 1-based row numbers for user-friendly display
-            user,
-            error: validation.error || 'Validation failed',
-          });
-          continue;
-        }
+    if (dryRun) {
+      const preview = await previewBulkUpload(users, rowOrganizations, conflictPolicy, properties, properCaseNames);
+      console.log(`Bulk upload dry run for ${clientId}: ${preview.toCreate} to create, ${preview.toUpdate} to update, ${preview.toSkip} to skip, ${preview.toReject} to reject`);
 
-        // Create the contact with comprehensive error handling
-        const createResult = await createContact(user, organizationId, organizationName);
-        
-        if (createResult.success) {
-          result.successful++;
-          console.log(`Successfully created contact: ${user.firstName} ${user.lastName} (${createResult.contactId})`);
-        } else {
-          result.failed++;
-          result.errors.push({
-            row: i + 1,
-            user,
-            error: createResult.error || 'Failed to create contact',
-          });
-          
-          // Log individual user creation failure for debugging
-          logError(new Error('User creation failed in bulk upload'), {
-            user: { 
-              firstName: user.firstName, 
-              lastName: user.lastName, 
-              email: user.email ? user.email.substring(0, 3) + '***' : undefined 
-            },
-            error: createResult.error,
-            errorCode: createResult.errorCode,
-            row: i + 1,
-            requestId
-          });
-        }
+      return setRateLimitHeaders(createSuccessResponse({ ...preview, requestId }, getBulkUploadPreviewMessage(preview)), rateLimit);
+    }
 
-        // Add delay to avoid rate limiting, with exponential backoff on errors
-        if (i < users.length - 1) {
-          const baseDelay = 100;
-          const errorMultiplier = result.failed > 5 ? 2 : 1; // Slow down if many failures
-          await new Promise(resolve => setTimeout(resolve, baseDelay * errorMultiplier));
-        }
-        
-      } catch (unexpectedError: any) {
-        result.failed++;
-        result.errors.push({
-          row: i + 1,
-          user,
-          error: 'Unexpected error during processing',
-        });
-        
-        logError(unexpectedError, {
-          user: { firstName: user.firstName, lastName: user.lastName, email: user.email ? user.email.substring(0, 3) + '***' : undefined },
-          row: i + 1,
-          requestId
-        });
-      }
+    // Ambiguous and unmatched names must have a company picked before anything is written
+    const unresolved = rowOrganizations.resolutions.filter(resolution => !resolution.company);
+    if (unresolved.length > 0) {
+      throw new CustomError(
+        `Pick a company for ${unresolved.length} organization names before uploading: ${unresolved.map(resolution => `"${resolution.name}"`).join(', ')}`,
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        { unresolvedOrganizations: unresolved }
+      );
     }
 
-    // Determine overall success (partial success is still considered success)
-    const hasAnySuccess = result.successful > 0;
-    const allSuccessful = result.failed === 0;
-    result.success = hasAnySuccess;
-
-    // Build comprehensive success message
-    let message: string;
-    if (allSuccessful) {
-      message = `Bulk upload completed successfully. All ${result.successful} users created in organization "${organizationName}".`;
-    } else if (hasAnySuccess) {
-      message = `Bulk upload partially completed. ${result.successful} users created successfully, ${result.failed} failed in organization "${organizationName}".`;
-    } else {
-      message = `Bulk upload failed. No users were created. ${result.failed} users failed processing.`;
+    // With an Idempotency-Key, a re-submission of the same upload resumes from the recorded row outcomes.
+    // Keys are kept per signed-in user, so one user's key never resumes (or returns) another user's job
+    const idempotencyKey = getIdempotencyKey(request.headers);
+    const idempotency = idempotencyKey
+      ? await beginIdempotentRequest('bulk-upload', sessionUser ? `${clientId}:${sessionUser.sub}` : clientId, idempotencyKey, fingerprintRequest({ users, organizationId, organizationSelections, conflictPolicy, properties, properCaseNames }))
+      : undefined;
+
+    // Held while the job is started, so two submissions of the same upload cannot both start one
+    if (idempotency && !(await claimIdempotentRequest(idempotency, requestId))) {
+      throw new CustomError(
+        'A request with this idempotency key is already being processed. Please wait for it to finish.',
+        ErrorCodes.REQUEST_IN_PROGRESS,
+        409,
+        { idempotencyKey }
+      );
     }
 
-    // Log bulk upload completion
-    console.log(`Bulk upload completed for ${clientId}: ${result.successful}/${result.total} users created successfully`);
+    let job;
+    try {
+      // The same upload is still being processed; hand back that job instead of starting another
+      const activeJob = idempotency?.jobId ? await getBulkUploadJob(idempotency.jobId) : undefined;
+      if (activeJob && (activeJob.status === 'queued' || activeJob.status === 'running')) {
+        console.log(`Bulk upload job ${activeJob.id} already running for idempotency key ${idempotencyKey}`);
+        if (await isBulkUploadJobStalled(activeJob)) after(() => runBulkUploadJob(activeJob.id, requestId));
+
+        const response = createSuccessResponse({
+          ...serializeBulkUploadJob(activeJob),
+          requestId,
+          statusUrl: `/api/bulk-upload/${activeJob.id}`,
+        }, `Bulk upload for ${users.length} users is already in progress.`, 202);
+        response.headers.set('Idempotent-Replayed', 'true');
+        return setRateLimitHeaders(response, rateLimit);
+      }
 
-    return createSuccessResponse({
-      ...result,
-      requestId,
-      processingDetails: {
-        totalProcessed: result.total,
-        successRate: result.total > 0 ? (result.successful / result.total * 100).toFixed(1) + '%' : '0%',
-        hasErrors: result.failed > 0,
-        errorSummary: result.errors.length > 0 ? {
-          totalErrors: result.errors.length,
-          commonErrors: getCommonErrors(result.errors)
-        } : undefined
+      // Start a background job and return its ID immediately; clients poll GET /api/bulk-upload/{jobId}
+      job = await createBulkUploadJob(
+        { users, rowOrganizations, conflictPolicy, properties, properCaseNames },
+        getUploadCompanies(users, rowOrganizations),
+        idempotency,
+        sessionUser
+      );
+      if (idempotency) {
+        idempotency.jobId = job.id;
+        await saveIdempotencyRecord(idempotency);
       }
-    }, message, hasAnySuccess ? 200 : 207); // 207 Multi-Status for partial success
+    } finally {
+      if (idempotency) await releaseIdempotentRequest(idempotency, requestId);
+    }
+    after(() => runBulkUploadJob(job.id, requestId));
+
+    const resumableRows = idempotency ? (await getRecordedRowOutcomes(job.id)).size : 0;
+    console.log(`Bulk upload job ${job.id} queued for ${clientId}: ${users.length} users` +
+      (resumableRows > 0 ? ` (${resumableRows} recorded outcomes to resume from)` : ''));
+
+    return setRateLimitHeaders(createSuccessResponse({
+      ...serializeBulkUploadJob(job),
+      requestId,
+      statusUrl: `/api/bulk-upload/${job.id}`,
+    }, resumableRows > 0
+      ? `Bulk upload resumed for ${users.length} users in ${describeOrganizations(job.organizations)}.`
+      : `Bulk upload started for ${users.length} users in ${describeOrganizations(job.organizations)}.`, 202), rateLimit);
 
   } catch (error: any) {
     // Enhanced error logging with full context
@@ -385,7 +306,7 @@ export async function POST(request: NextRequest) {
 
     // Handle CustomError instances
     if (error instanceof CustomError) {
-      return createErrorResponse(error, requestId);
+      return setRateLimitHeaders(createErrorResponse(error, requestId), rateLimit);
     }
 
     // Handle unexpected errors
@@ -396,29 +317,6 @@ export async function POST(request: NextRequest) {
       { originalError: error.message, userCount: body?.users?.length || 0 }
     );
 
-    return createErrorResponse(unexpectedError, requestId);
+    return setRateLimitHeaders(createErrorResponse(unexpectedError, requestId), rateLimit);
   }
 }
-
-// Helper function to analyze common errors
-function getCommonErrors(errors: UploadError[]): { [key: string]: number } {
-  const errorCounts: { [key: string]: number } = {};
-  
-  errors.forEach(error => {
-    const errorType = error.error.toLowerCase();
-    if (errorType.includes('email already exists') || 
-        errorType.includes('409') || 
-        errorType.includes('already exists in hubspot') ||
-        errorType.includes('already has that value')) {
-      errorCounts['Duplicate emails'] = (errorCounts['Duplicate emails'] || 0) + 1;
-    } else if (errorType.includes('invalid email')) {
-      errorCounts['Invalid email format'] = (errorCounts['Invalid email format'] || 0) + 1;
-    } else if (errorType.includes('required') || errorType.includes('missing')) {
-      errorCounts['Missing required fields'] = (errorCounts['Missing required fields'] || 0) + 1;
-    } else {
-      errorCounts['Other errors'] = (errorCounts['Other errors'] || 0) + 1;
-    }
-  });
-  
-  return errorCounts;
-}
@@ -0,0 +1,49 @@
+import {
+  CustomError,
+  ErrorCodes,
+  handleHubSpotError,
+  createErrorResponse,
+  createSuccessResponse,
+  logError
+} from '@/lib/errorHandler';
+import { getHubSpotGateway } from '@/lib/hubspot';
+import { getContactFields } from '@/lib/contactFields';
+
+// Extra contact fields for the forms and the bulk upload template, described by their HubSpot definitions
+export async function GET() {
+  const requestId = Math.random().toString(36).substr(2, 9);
+
+  try {
+    if (!process.env.HUBSPOT_ACCESS_TOKEN) {
+      throw new CustomError(
+        'HubSpot integration is not properly configured',
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        500
+      );
+    }
+
+    let fields;
+    try {
+      fields = await getContactFields(getHubSpotGateway());
+    } catch (fieldsError) {
+      throw handleHubSpotError(fieldsError);
+    }
+
+    return createSuccessResponse({ fields }, `${fields.length} additional contact fields configured`);
+  } catch (error) {
+    logError(error as Error, { requestId, operation: 'getContactFields' });
+
+    if (error instanceof CustomError) {
+      return createErrorResponse(error, requestId);
+    }
+
+    const unexpectedError = new CustomError(
+      'An unexpected error occurred while loading the contact fields',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500,
+      { originalError: (error as Error)?.message }
+    );
+
+    return createErrorResponse(unexpectedError, requestId);
+  }
+}
@@ -1,19 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
 import { 
   CustomError, 
   ErrorCodes, 
   handleHubSpotError, 
   createErrorResponse, 
   createSuccessResponse,
-  validateRequiredFields,
-  validateEmail,
+  isRetryableError,
   logError
 } from '@/lib/errorHandler';
-import { calculateStringSimilarity, normalizeCompanyName } from '@/lib/utils';
-import { checkRateLimit, validateAndSanitizeInput, sanitizeErrorMessage, getClientIdentifier } from '@/lib/security';
-
-const hubspotClient = new Client({ accessToken: process.env.HUBSPOT_ACCESS_TOKEN });
+import { getClientIdentifier } from '@/lib/security';
+import { checkRateLimit, getRetryAfterSeconds, setRateLimitHeaders, type RateLimitResult } from '@/lib/rateLimit';
+import { validateUserInput, formatFieldErrors } from '@/lib/validation';
+import {
+  getHubSpotGateway,
+  buildContactProperties,
+  buildExistingContactProperties,
+  upsertContactWithCompany,
+  parsePropertyOverrides,
+  validateContactProperties,
+  CONFLICT_POLICIES,
+  type Company,
+  type ConflictPolicy,
+  type NewContactInput,
+} from '@/lib/hubspot';
+import {
+  beginIdempotentRequest,
+  claimIdempotentRequest,
+  fingerprintRequest,
+  getIdempotencyKey,
+  releaseIdempotentRequest,
+  saveIdempotencyRecord,
+  type IdempotencyRecord,
+} from '@/lib/idempotency';
+import { requirePermission } from '@/lib/auth';
+import { findMatchingCompany } from '@/lib/organizations';
+import { isOutboxEnabled, queueOutboxEntry, type OutboxInput } from '@/lib/outbox';
 
 interface RequestBody {
   firstName: string;
@@ -22,152 +43,67 @@ interface RequestBody {
   organizationName: string;
   companyId?: string;
   companyName?: string;
+  dryRun?: boolean; // Validate and report what would happen without writing to HubSpot
+  conflictPolicy?: ConflictPolicy; // What to do if the email already exists (default: fail)
+  properties?: Record<string, string>; // Values for contact properties, replacing the configured template's
+  properCaseNames?: boolean; // Capitalize names typed in all upper or lower case ("JOHN o'neil" → "John O'Neil")
 }
 
-interface Company {
-  id: string;
-  properties: {
-    name: string;
-    domain?: string;
-  };
-}
+// Dry-run action for an email that already exists, by conflict policy
+const CONFLICT_ACTIONS = {
+  fail: 'reject',
+  skip: 'skip',
+  update: 'update',
+} as const;
 
-// Function to search for companies in HubSpot using basic API
-async function searchCompanies(searchTerm: string): Promise<Company[]> {
+// Dry run: resolve the company and check the email without writing anything to HubSpot
+async function previewUserCreation(input: NewContactInput, conflictPolicy: ConflictPolicy, clientId: string) {
+  const gateway = getHubSpotGateway();
+
+  let company: Company | null = null;
+  let existingContact;
   try {
-    // Use the basic API to get companies and filter manually
-    const apiResponse = await hubspotClient.crm.companies.basicApi.getPage(100, undefined, ['name', 'domain']);
-    
-    if (!apiResponse.results) return [];
-    
-    // Filter companies that contain the search term
-    const filteredCompanies: Company[] = apiResponse.results
-      .filter(result => {
-        const name = result.properties?.name || '';
-        return name.toLowerCase().includes(searchTerm.toLowerCase());
-      })
-      .map(result => ({
-        id: result.id,
-        properties: {
-          name: result.properties?.name || '',
-          domain: result.properties?.domain || undefined,
-        },
-      }))
-      .slice(0, 10); // Limit to 10 results
-    
-    return filteredCompanies;
-  } catch (error) {
-    console.error('Error searching companies:', error);
-    return [];
+    company = input.companyId ? await gateway.getCompany(input.companyId) : null;
+    existingContact = await gateway.findContactByEmail(input.email);
+  } catch (lookupError) {
+    throw handleHubSpotError(lookupError);
   }
-}
-
-// Function to find the best matching company using improved matching algorithm
-function findBestMatch(companies: Company[], searchTerm: string): Company | null {
-  if (companies.length === 0) return null;
 
-  const normalizedSearch = normalizeCompanyName(searchTerm);
-  let bestMatch = companies[0];
-  let bestScore = 0;
+  const action = !existingContact ? 'create' : CONFLICT_ACTIONS[conflictPolicy];
+  const preview = {
+    dryRun: true,
+    action,
+    conflictPolicy,
+    contact: { firstName: input.firstName, lastName: input.lastName, email: input.email },
+    properties: action === 'create'
+      ? buildContactProperties(input)
+      : action === 'update' ? buildExistingContactProperties(input) : undefined,
+    company: input.companyId ? { id: input.companyId, name: input.companyName, found: !!company } : null,
+    existingContactId: existingContact?.id,
+    ...(action === 'reject' && {
+      error: `A contact with ${input.email} already exists in HubSpot`,
+      errorCode: ErrorCodes.USER_ALREADY_EXISTS,
+    }),
+  };
 
-  for (const company of companies) {
-    const normalizedCompanyName = normalizeCompanyName(company.properties.name);
-    
-    // Calculate similarity score
-    const similarity = calculateStringSimilarity(normalizedSearch, normalizedCompanyName);
-    
-    // Boost score for exact matches or if company name starts with search term
-    let score = similarity;
-    if (normalizedCompanyName === normalizedSearch) {
-      score = 1.0; // Perfect match
-    } else if (normalizedCompanyName.startsWith(normalizedSearch)) {
-      score = Math.max(score, 0.9); // High score for prefix matches
-    }
-    
-    if (score > bestScore) {
-      bestScore = score;
-      bestMatch = company;
-    }
+  let message = `Dry run: user "${input.firstName} ${input.lastName}"`;
+  if (action === 'reject') {
+    message += ` would be rejected because a contact with ${input.email} already exists.`;
+  } else if (action === 'skip') {
+    message += ` would be skipped because a contact with ${input.email} already exists (contact ${existingContact!.id}).`;
+  } else if (action === 'update') {
+    message += ` already exists (contact ${existingContact!.id}) and would be marked active in Okta` +
+      (company ? ` and associated with company "${input.companyName || company.properties.name}".` : '.');
+  } else if (company) {
+    message += ` would be created and associated with company "${input.companyName || company.properties.name}".`;
+  } else if (input.companyId) {
+    message += ` would be created, but company ${input.companyId} was not found so it would not be associated.`;
+  } else {
+    message += ' would be created without company association (no matching organization found).';
   }
 
-  // Only return a match if similarity is above threshold (60%)
-  return bestScore >= 0.6 ? bestMatch : null;
-}
-
-// Function to create a contact in HubSpot and associate with company
-async function createContact(firstName: string, lastName: string, email: string, companyId?: string, companyName?: string) {
-  try {
-    // Step 1: Create contact with minimal properties first to avoid automatic associations
-    const basicContactProperties: any = {
-      firstname: firstName,
-      lastname: lastName,
-      lifecyclestage: 'lead'
-      // NOTE: Intentionally NOT including email in initial creation to prevent domain matching
-    };
-
-    console.log('Creating contact with basic properties (no email):', basicContactProperties);
-    const apiResponse = await hubspotClient.crm.contacts.basicApi.create({
-      properties: basicContactProperties
-    });
-
-    console.log('Contact created with ID:', apiResponse.id);
-
-    // Step 2: Update the contact with email and company name after creation
-    if (apiResponse.id) {
-      console.log('Updating contact with email and company information...');
-      
-      const updateProperties: any = {
-        email: email,
-        active_in_okta: true
-      };
-
-      // If we have a company name, set it on the contact for display in profile
-      if (companyName) {
-        updateProperties.company = companyName;
-        console.log('Setting company name on contact:', companyName);
-      }
-
-      await hubspotClient.crm.contacts.basicApi.update(apiResponse.id, {
-        properties: updateProperties
-      });
-
-      console.log('Contact updated successfully with email and company information');
-    }
-    
-    // If we have a company ID, create the association
-    if (companyId && apiResponse.id) {
-      try {
-        // Create association between contact and company using the associations API
-        const associationRequest = {
-          inputs: [
-            {
-              _from: { id: apiResponse.id },
-              to: { id: companyId },
-              type: 'contact_to_company'
-            }
-          ]
-        };
-        
-        await hubspotClient.crm.associations.batchApi.create(
-          'contacts',
-          'companies', 
-          associationRequest
-        );
-        console.log(`Successfully associated contact ${apiResponse.id} with company ${companyId}`);
-      } catch (associationError: any) {
-        console.error('Error creating company association:', associationError);
-        // Log the association error but don't fail the entire operation
-        console.error('Association error details:', associationError.response?.data || associationError.message);
-      }
-    } else {
-      console.log('No manual company association requested');
-    }
-    
-    return apiResponse;
-  } catch (error) {
-    console.error('Error creating contact:', error);
-    throw error;
-  }
+  console.log(`User creation dry run for ${clientId}: ${preview.action}`);
+  return createSuccessResponse(preview, `${message} No changes were made.`);
 }
 
 export async function POST(request: NextRequest) {
@@ -175,33 +111,45 @@ export async function POST(request: NextRequest) {
   const clientId = getClientIdentifier(request.headers);
   const userAgent = request.headers.get('user-agent') || undefined;
   let body: RequestBody | undefined;
+  let idempotency: IdempotencyRecord | undefined;
+  let rateLimit: RateLimitResult | undefined;
   
   try {
-    // Environment validation
-    if (!process.env.HUBSPOT_ACCESS_TOKEN) {
-      throw new CustomError(
-        'HubSpot integration is not properly configured',
-        ErrorCodes.INTERNAL_SERVER_ERROR,
-        500
-      );
+    let parseError: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      parseError = error;
     }
 
-    // Rate limiting check
-    const rateLimitResult = checkRateLimit(clientId, 'CREATE_USER');
-    if (!rateLimitResult.allowed) {
-      console.log(`Rate limit exceeded for ${clientId} - CREATE_USER`);
+    // Rate limiting check (dry runs only read from HubSpot and have their own budget). The body is read first
+    // to tell which budget applies; counting before anything else gives every response the rate limit headers
+    const rateLimitAction = body?.dryRun ? 'PREVIEW' : 'CREATE_USER';
+    rateLimit = await checkRateLimit(clientId, rateLimitAction);
+    if (!rateLimit.allowed) {
+      console.log(`Rate limit exceeded for ${clientId} - ${rateLimitAction}`);
       throw new CustomError(
         'Too many requests. Please try again later.',
         ErrorCodes.RATE_LIMIT_EXCEEDED,
         429,
-        { remaining: rateLimitResult.remaining }
+        { remaining: rateLimit.remaining, retryAfterSeconds: getRetryAfterSeconds(rateLimit) }
+      );
+    }
+
+    // Only roles allowed to create users get past this point (dry runs included)
+    await requirePermission('create-user');
+
+    // Environment validation
+    if (!process.env.HUBSPOT_ACCESS_TOKEN) {
+      throw new CustomError(
+        'HubSpot integration is not properly configured',
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        500
       );
     }
 
     // Parse and validate request body
-    try {
-      body = await request.json();
-    } catch (parseError) {
+    if (parseError !== undefined) {
       throw new CustomError(
         'Invalid JSON in request body',
         ErrorCodes.INVALID_REQUEST,
@@ -218,43 +166,89 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { firstName, lastName, email, organizationName, companyId: providedCompanyId, companyName: providedCompanyName } = body;
+    const { firstName, lastName, email, organizationName, companyId: providedCompanyId, companyName: providedCompanyName, dryRun = false, conflictPolicy = 'fail', properCaseNames = false } = body;
 
-    // Validate required fields
-    validateRequiredFields(body, ['firstName', 'lastName', 'email', 'organizationName']);
-    
-    // Validate email format
-    validateEmail(email);
-
-    // Validate and sanitize input
-    const validation = validateAndSanitizeInput({
-      firstName,
-      lastName,
-      email,
-      organizationName,
-    });
+    if (!CONFLICT_POLICIES.includes(conflictPolicy)) {
+      throw new CustomError(
+        `conflictPolicy must be one of: ${CONFLICT_POLICIES.join(', ')}`,
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        { conflictPolicy }
+      );
+    }
+
+    // Validate and normalize input (errors are per field so the form can show them next to the inputs)
+    const validation = validateUserInput(
+      { firstName, lastName, email, organizationName },
+      { required: ['firstName', 'lastName', 'email', 'organizationName'], properCase: properCaseNames === true }
+    );
 
     if (!validation.valid) {
       console.log(`Validation error for ${clientId}:`, validation.errors);
       throw new CustomError(
-        `Validation failed: ${validation.errors.join(', ')}`,
+        `Validation failed: ${formatFieldErrors(validation.errors)}`,
         ErrorCodes.VALIDATION_ERROR,
         400,
         { errors: validation.errors }
       );
     }
 
-    // Use sanitized data
-    const { firstName: cleanFirstName, lastName: cleanLastName, email: cleanEmail, organizationName: cleanOrgName } = validation.sanitizedData;
+    // Use normalized data
+    const { firstName: cleanFirstName, lastName: cleanLastName, email: cleanEmail, organizationName: cleanOrgName } = validation.data;
+
+    // Property overrides and the configured template must only reference properties that exist in HubSpot
+    const propertyOverrides = parsePropertyOverrides(body.properties);
+    let properties;
+    // Set when HubSpot is unavailable and the creation goes to the outbox instead (checked again on replay)
+    let unavailableError: CustomError | undefined;
+    try {
+      properties = await validateContactProperties(getHubSpotGateway(), propertyOverrides);
+    } catch (propertyError) {
+      const hubspotError = handleHubSpotError(propertyError);
+      if (dryRun || !isOutboxEnabled() || !isRetryableError(hubspotError)) throw hubspotError;
+      unavailableError = hubspotError;
+      properties = propertyOverrides;
+    }
+
+    // With an Idempotency-Key, a retried request returns the original response instead of creating a duplicate
+    const idempotencyKey = dryRun ? undefined : getIdempotencyKey(request.headers);
+    if (idempotencyKey) {
+      const record = await beginIdempotentRequest('create-user', clientId, idempotencyKey, fingerprintRequest({
+        firstName: cleanFirstName,
+        lastName: cleanLastName,
+        email: cleanEmail,
+        organizationName: cleanOrgName,
+        companyId: providedCompanyId,
+        conflictPolicy,
+        properties,
+      }));
+
+      if (record.response) {
+        console.log(`Replaying user creation for ${clientId}: idempotency key ${idempotencyKey}`);
+        const response = createSuccessResponse(record.response.data, record.response.message, record.response.statusCode);
+        response.headers.set('Idempotent-Replayed', 'true');
+        return setRateLimitHeaders(response, rateLimit);
+      }
+
+      if (!(await claimIdempotentRequest(record, requestId))) {
+        throw new CustomError(
+          'A request with this idempotency key is already being processed. Please wait for it to finish.',
+          ErrorCodes.REQUEST_IN_PROGRESS,
+          409,
+          { idempotencyKey }
+        );
+      }
+
+      idempotency = record;
+    }
 
     let companyId: string | undefined = providedCompanyId;
     let companyName: string | undefined = providedCompanyName;
 
     // Company search and matching
-    if (!companyId && cleanOrgName) {
+    if (!companyId && cleanOrgName && !unavailableError) {
       try {
-        const companies = await searchCompanies(cleanOrgName);
-        const bestMatch = findBestMatch(companies, cleanOrgName);
+        const bestMatch = await findMatchingCompany(cleanOrgName);
 
         if (bestMatch) {
           companyId = bestMatch.id;
@@ -266,12 +260,62 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create the contact
+    if (dryRun) {
+      return setRateLimitHeaders(await previewUserCreation({
+        firstName: cleanFirstName!,
+        lastName: cleanLastName!,
+        email: cleanEmail!,
+        companyId,
+        companyName,
+        properties,
+      }, conflictPolicy, clientId), rateLimit);
+    }
+
+    // With the outbox enabled, a creation that cannot reach HubSpot is queued and replayed once it recovers
+    const queueCreation = async (error: CustomError) => {
+      const input: OutboxInput = {
+        firstName: cleanFirstName!,
+        lastName: cleanLastName!,
+        email: cleanEmail!,
+        organizationName: cleanOrgName!,
+        companyId,
+        companyName,
+        conflictPolicy,
+        properties: properties!,
+      };
+      const entry = queueOutboxEntry(input, error);
+      console.log(`Queued user creation for ${clientId}: ${cleanEmail} (${error.code})`);
+
+      const responseData = { outboxEntryId: entry.id, outcome: 'queued', companyId };
+      const message = `HubSpot is currently unavailable, so user "${cleanFirstName} ${cleanLastName}" was queued. ` +
+        'It will be created automatically once HubSpot recovers; see Pending to follow it up.';
+      if (idempotency) {
+        idempotency.response = { data: responseData, message, statusCode: 202 };
+        await saveIdempotencyRecord(idempotency);
+      }
+      return setRateLimitHeaders(createSuccessResponse(responseData, message, 202), rateLimit);
+    };
+
+    if (unavailableError) {
+      return await queueCreation(unavailableError);
+    }
+
+    // Create the contact (or skip / update an existing one, depending on the conflict policy)
     let contact;
     try {
-      contact = await createContact(cleanFirstName!, cleanLastName!, cleanEmail!, companyId, companyName);
+      contact = await upsertContactWithCompany(getHubSpotGateway(), {
+        firstName: cleanFirstName!,
+        lastName: cleanLastName!,
+        email: cleanEmail!,
+        companyId,
+        companyName,
+        properties,
+      }, conflictPolicy);
     } catch (createError: any) {
       const hubspotError = handleHubSpotError(createError);
+      if (isOutboxEnabled() && isRetryableError(hubspotError)) {
+        return await queueCreation(hubspotError);
+      }
       
       // Log the failed creation
       console.log(`Failed user creation for ${clientId}:`, hubspotError.message); 
@@ -280,22 +324,39 @@ export async function POST(request: NextRequest) {
     }
 
     // Build success message
-    let successMessage = `User "${cleanFirstName} ${cleanLastName}" created successfully.`;
+    const userLabel = `User "${cleanFirstName} ${cleanLastName}"`;
+    let successMessage: string;
     
-    if (companyName) {
-      successMessage += ` Associated with company "${companyName}".`;
+    if (contact.outcome === 'skipped') {
+      successMessage = `${userLabel} already exists; the existing contact was left unchanged.`;
+    } else if (contact.outcome === 'updated') {
+      successMessage = `${userLabel} already existed; the existing contact was updated and marked active in Okta.`;
+      successMessage += companyName
+        ? ` Associated with company "${companyName}".`
+        : ' No matching organization found, so no company association was added.';
     } else {
-      successMessage += ' No matching organization found, user created without company association.';
+      successMessage = `${userLabel} created successfully.`;
+      successMessage += companyName
+        ? ` Associated with company "${companyName}".`
+        : ' No matching organization found, user created without company association.';
     }
 
     // Log successful user creation
-    console.log(`Successful user creation for ${clientId}: ${cleanEmail}`); 
+    console.log(`Successful user ${contact.outcome} for ${clientId}: ${cleanEmail}`); 
 
-    return createSuccessResponse({
-      contactId: contact.id,
+    const responseData = {
+      contactId: contact.contactId,
+      outcome: contact.outcome,
       companyId: companyId,
-      associatedCompany: companyName,
-    }, successMessage, 201);
+      associatedCompany: contact.outcome === 'skipped' ? undefined : companyName,
+    };
+    const statusCode = contact.outcome === 'created' ? 201 : 200;
+    if (idempotency) {
+      idempotency.response = { data: responseData, message: successMessage, statusCode };
+      await saveIdempotencyRecord(idempotency);
+    }
+
+    return setRateLimitHeaders(createSuccessResponse(responseData, successMessage, statusCode), rateLimit);
 
   } catch (error: any) {
     // Enhanced error logging with context
@@ -318,7 +379,7 @@ export async function POST(request: NextRequest) {
 
     // Handle CustomError instances
     if (error instanceof CustomError) {
-      return createErrorResponse(error, requestId);
+      return setRateLimitHeaders(createErrorResponse(error, requestId), rateLimit);
     }
 
     // Handle unexpected errors
@@ -329,6 +390,12 @@ export async function POST(request: NextRequest) {
       { originalError: error.message }
     );
 
-    return createErrorResponse(unexpectedError, requestId);
+    return setRateLimitHeaders(createErrorResponse(unexpectedError, requestId), rateLimit);
+  } finally {
+    // Failed attempts are not stored, so the client can retry with the same key
+    if (idempotency) {
+      await releaseIdempotentRequest(idempotency, requestId)
+        .catch(error => logError(error, { requestId, operation: 'releaseIdempotentRequest' }));
+    }
   }
 }
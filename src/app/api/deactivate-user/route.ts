@@ -0,0 +1,178 @@
+import { NextRequest } from 'next/server';
+import { validateBulkUpload, getClientIdentifier } from '@/lib/security';
+import { checkRateLimit, getRetryAfterSeconds, setRateLimitHeaders, type RateLimitResult } from '@/lib/rateLimit';
+import {
+  CustomError,
+  ErrorCodes,
+  createErrorResponse,
+  createSuccessResponse,
+  logError
+} from '@/lib/errorHandler';
+import {
+  MAX_DEACTIVATION_REASON_LENGTH,
+  getDeactivationMessage,
+  processDeactivation,
+} from '@/lib/deactivation';
+import { requirePermission } from '@/lib/auth';
+
+interface DeactivateUserRequest {
+  email?: string; // Deactivate a single user
+  emails?: string[]; // Or a list of users (e.g. the email column of a CSV)
+  reason: string;
+  removeCompanyAssociation?: boolean;
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const clientId = getClientIdentifier(request.headers);
+  let body: DeactivateUserRequest | undefined;
+  let rateLimit: RateLimitResult | undefined;
+
+  try {
+    // Rate limiting check (first, so every response carries the rate limit headers)
+    rateLimit = await checkRateLimit(clientId, 'DEACTIVATE_USER');
+    if (!rateLimit.allowed) {
+      console.log(`Rate limit exceeded for ${clientId} - DEACTIVATE_USER`);
+      throw new CustomError(
+        'Too many deactivation requests. Please try again later.',
+        ErrorCodes.RATE_LIMIT_EXCEEDED,
+        429,
+        { remaining: rateLimit.remaining, retryAfterSeconds: getRetryAfterSeconds(rateLimit) }
+      );
+    }
+
+    // Deactivation is an admin action
+    await requirePermission('admin');
+
+    // Environment validation
+    if (!process.env.HUBSPOT_ACCESS_TOKEN) {
+      throw new CustomError(
+        'HubSpot integration is not properly configured',
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        500
+      );
+    }
+
+    // Parse and validate request body
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      throw new CustomError(
+        'Invalid JSON in request body',
+        ErrorCodes.INVALID_REQUEST,
+        400,
+        { originalError: parseError }
+      );
+    }
+
+    if (!body) {
+      throw new CustomError(
+        'Request body is required',
+        ErrorCodes.INVALID_REQUEST,
+        400
+      );
+    }
+
+    const { email, emails, removeCompanyAssociation = false } = body;
+    const isSingle = emails === undefined;
+
+    if (isSingle ? typeof email !== 'string' || !email.trim() : !Array.isArray(emails) || emails.length === 0) {
+      throw new CustomError(
+        'Either email or a non-empty emails array is required',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const emailList = isSingle ? [email!] : emails!;
+
+    // Same size limit as bulk uploads
+    const bulkValidation = validateBulkUpload(emailList);
+    if (!bulkValidation.valid) {
+      throw new CustomError(
+        bulkValidation.error || 'Deactivation validation failed',
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        { emailCount: emailList.length }
+      );
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) {
+      throw new CustomError(
+        'A deactivation reason is required',
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        { missingFields: ['reason'] }
+      );
+    }
+
+    if (reason.length > MAX_DEACTIVATION_REASON_LENGTH) {
+      throw new CustomError(
+        `Deactivation reason must be ${MAX_DEACTIVATION_REASON_LENGTH} characters or less`,
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    if (typeof removeCompanyAssociation !== 'boolean') {
+      throw new CustomError(
+        'removeCompanyAssociation must be a boolean',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const result = await processDeactivation(emailList, { reason, removeCompanyAssociation, requestId });
+    console.log(`Deactivation for ${clientId}: ${result.deactivated} deactivated, ${result.alreadyInactive} already inactive, ${result.notFound} not found, ${result.failed} failed`);
+
+    // A single user is reported like create-user: errors become error responses
+    if (isSingle) {
+      const [row] = result.rows;
+      if (row.outcome === 'not_found') {
+        throw new CustomError(
+          `No HubSpot contact found with email ${row.email}`,
+          ErrorCodes.CONTACT_NOT_FOUND,
+          404,
+          { email: row.email }
+        );
+      }
+
+      if (row.outcome === 'failed') {
+        throw new CustomError(
+          row.error || 'Failed to deactivate user',
+          row.errorCode || ErrorCodes.HUBSPOT_API_ERROR,
+          row.errorCode === ErrorCodes.VALIDATION_ERROR ? 400 : 502,
+          { email: row.email }
+        );
+      }
+    }
+
+    return setRateLimitHeaders(createSuccessResponse({ ...result, requestId }, getDeactivationMessage(result)), rateLimit);
+
+  } catch (error) {
+    logError(error as Error, {
+      requestId,
+      clientId,
+      deactivationContext: {
+        emailCount: body?.emails?.length ?? (body?.email ? 1 : 0),
+        removeCompanyAssociation: body?.removeCompanyAssociation,
+      }
+    });
+
+    // Handle CustomError instances
+    if (error instanceof CustomError) {
+      return setRateLimitHeaders(createErrorResponse(error, requestId), rateLimit);
+    }
+
+    // Handle unexpected errors
+    const unexpectedError = new CustomError(
+      'An unexpected error occurred during deactivation',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500,
+      { originalError: (error as Error)?.message }
+    );
+
+    return setRateLimitHeaders(createErrorResponse(unexpectedError, requestId), rateLimit);
+  }
+}
@@ -1,12 +1,18 @@
 import { NextResponse } from 'next/server';
+import { getHubSpotCircuitStatus, getHubSpotQuota } from '@/lib/hubspot';
 
 export async function GET() {
+  const hubspotCircuit = getHubSpotCircuitStatus();
+
   return NextResponse.json({
-    status: 'ok',
+    status: hubspotCircuit.state === 'closed' ? 'ok' : 'degraded', // Degraded while calls to HubSpot are paused
     timestamp: new Date().toISOString(),
     env: {
       hubspotTokenConfigured: !!process.env.HUBSPOT_ACCESS_TOKEN,
+      hubspotApiBaseUrl: process.env.HUBSPOT_API_BASE_URL || 'https://api.hubapi.com',
       nodeEnv: process.env.NODE_ENV,
-    }
+    },
+    hubspotQuota: getHubSpotQuota(), // Last limits reported by HubSpot in this instance; empty until the first call
+    hubspotCircuit,
   });
 }
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import {
+  CustomError,
+  ErrorCodes,
+  createErrorResponse,
+  createSuccessResponse,
+  logError
+} from '@/lib/errorHandler';
+import { authenticateOktaEventHook, type OktaEventHookPayload } from '@/lib/okta';
+import { processOktaEvents } from '@/lib/oktaEvents';
+
+// One-time verification when the Event Hook is registered: echo the challenge back
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+
+  try {
+    authenticateOktaEventHook(request.headers);
+
+    const challenge = request.headers.get('x-okta-verification-challenge');
+    if (!challenge) {
+      throw new CustomError(
+        'Missing X-Okta-Verification-Challenge header',
+        ErrorCodes.INVALID_REQUEST,
+        400
+      );
+    }
+
+    return NextResponse.json({ verification: challenge });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return createErrorResponse(error, requestId);
+    }
+
+    logError(error as Error, { requestId, operation: 'oktaEventHookVerification' });
+    return createErrorResponse(new CustomError(
+      'An unexpected error occurred while verifying the Event Hook',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    ), requestId);
+  }
+}
+
+// Event deliveries: Okta expects a response within 3 seconds, so events are processed after responding
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+
+  try {
+    authenticateOktaEventHook(request.headers);
+
+    let body: OktaEventHookPayload;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      throw new CustomError(
+        'Invalid JSON in request body',
+        ErrorCodes.INVALID_REQUEST,
+        400,
+        { originalError: parseError }
+      );
+    }
+
+    const events = body?.data?.events;
+    if (!Array.isArray(events)) {
+      throw new CustomError(
+        'Event Hook payload must contain data.events',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    after(() => processOktaEvents(events, requestId));
+    console.log(`Okta Event Hook delivery ${body.eventId || requestId}: ${events.length} events queued`);
+
+    return createSuccessResponse({ received: events.length, requestId }, `${events.length} Okta events received.`);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return createErrorResponse(error, requestId);
+    }
+
+    logError(error as Error, { requestId, operation: 'oktaEventHook' });
+    return createErrorResponse(new CustomError(
+      'An unexpected error occurred while receiving Okta events',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500,
+      { originalError: (error as Error)?.message }
+    ), requestId);
+  }
+}
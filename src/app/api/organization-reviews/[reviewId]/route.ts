@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import {
+  CustomError,
+  ErrorCodes,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/errorHandler';
+import { dismissOrganizationReview, resolveOrganizationReview } from '@/lib/organizationReviews';
+import { requirePermission } from '@/lib/auth';
+
+type RouteContext = { params: Promise<{ reviewId: string }> };
+
+// Associate the contact with the chosen company ({ "companyId": "..." }) and remove the review
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { reviewId } = await params;
+
+  try {
+    await requirePermission('admin');
+
+    let body: { companyId?: unknown };
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      throw new CustomError('Invalid JSON in request body', ErrorCodes.INVALID_REQUEST, 400, { originalError: parseError });
+    }
+    const companyId = typeof body?.companyId === 'string' ? body.companyId.trim() : '';
+    if (!companyId) {
+      throw new CustomError('companyId is required', ErrorCodes.VALIDATION_ERROR, 400, { field: 'companyId' });
+    }
+
+    const { review, company } = await resolveOrganizationReview(reviewId, companyId);
+    return createSuccessResponse(
+      { reviewId, contactId: review.contactId, companyId: company.id },
+      `${review.email} associated with company "${company.properties.name}".`
+    );
+  } catch (error) {
+    return createErrorResponse(error as Error, requestId);
+  }
+}
+
+// Remove a review without assigning a company (e.g. the contact was handled in HubSpot directly)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { reviewId } = await params;
+
+  try {
+    await requirePermission('admin');
+
+    dismissOrganizationReview(reviewId);
+    return createSuccessResponse({ reviewId }, 'Organization review dismissed.');
+  } catch (error) {
+    return createErrorResponse(error as Error, requestId);
+  }
+}
@@ -0,0 +1,18 @@
+import { CustomError, createErrorResponse, createSuccessResponse } from '@/lib/errorHandler';
+import { listOrganizationReviews } from '@/lib/organizationReviews';
+import { requirePermission } from '@/lib/auth';
+
+// Contacts provisioned from Okta that still need a company assigned by hand
+export async function GET() {
+  try {
+    await requirePermission('admin');
+  } catch (error) {
+    return createErrorResponse(error as CustomError);
+  }
+
+  const reviews = listOrganizationReviews();
+  return createSuccessResponse(
+    { reviews, total: reviews.length },
+    `${reviews.length} contacts waiting for organization review`
+  );
+}
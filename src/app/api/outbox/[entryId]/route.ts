@@ -0,0 +1,150 @@
+import { NextRequest } from 'next/server';
+import {
+  CustomError,
+  ErrorCodes,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/errorHandler';
+import { CONFLICT_POLICIES, parsePropertyOverrides, type ConflictPolicy } from '@/lib/hubspot';
+import {
+  discardOutboxEntry,
+  getOutboxEntry,
+  replayOutboxEntry,
+  updateOutboxEntry,
+  type OutboxInput,
+} from '@/lib/outbox';
+import { formatFieldErrors, validateUserInput } from '@/lib/validation';
+import { requirePermission } from '@/lib/auth';
+
+type RouteContext = { params: Promise<{ entryId: string }> };
+
+interface UpdateRequestBody {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  organizationName?: string;
+  companyId?: string; // Matched again from the organization name when it changes and no company is given
+  companyName?: string;
+  conflictPolicy?: ConflictPolicy;
+  properties?: Record<string, string>;
+}
+
+// Retry a queued creation now instead of waiting for the worker
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { entryId } = await params;
+
+  try {
+    await requirePermission('admin');
+
+    const { entry, contact } = await replayOutboxEntry(entryId);
+    const userLabel = `User "${entry.firstName} ${entry.lastName}"`;
+    const message = contact.outcome === 'created'
+      ? `${userLabel} created successfully.`
+      : contact.outcome === 'updated'
+        ? `${userLabel} already existed; the existing contact was updated and marked active in Okta.`
+        : `${userLabel} already exists; the existing contact was left unchanged.`;
+
+    return createSuccessResponse(
+      { entryId, contactId: contact.contactId, outcome: contact.outcome, companyId: entry.companyId },
+      message + (entry.companyName && contact.outcome !== 'skipped' ? ` Associated with company "${entry.companyName}".` : ''),
+      contact.outcome === 'created' ? 201 : 200
+    );
+  } catch (error) {
+    return createErrorResponse(error as Error, requestId);
+  }
+}
+
+// Correct a queued creation (e.g. one HubSpot rejected); it is replayed again by the worker
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { entryId } = await params;
+
+  try {
+    await requirePermission('admin');
+
+    const entry = getOutboxEntry(entryId);
+    if (!entry) {
+      throw new CustomError('Queued creation not found', ErrorCodes.INVALID_REQUEST, 404, { entryId });
+    }
+
+    let body: UpdateRequestBody;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      throw new CustomError('Invalid JSON in request body', ErrorCodes.INVALID_REQUEST, 400, { originalError: parseError });
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new CustomError('Request body must be a JSON object', ErrorCodes.VALIDATION_ERROR, 400);
+    }
+    for (const field of ['companyId', 'companyName'] as const) {
+      if (body[field] !== undefined && typeof body[field] !== 'string') {
+        throw new CustomError(`${field} must be a string`, ErrorCodes.VALIDATION_ERROR, 400, { field });
+      }
+    }
+
+    const validation = validateUserInput(
+      {
+        firstName: body.firstName ?? entry.firstName,
+        lastName: body.lastName ?? entry.lastName,
+        email: body.email ?? entry.email,
+        organizationName: body.organizationName ?? entry.organizationName,
+      },
+      { required: ['firstName', 'lastName', 'email', 'organizationName'] }
+    );
+    if (!validation.valid) {
+      throw new CustomError(
+        `Validation failed: ${formatFieldErrors(validation.errors)}`,
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        { errors: validation.errors }
+      );
+    }
+
+    const conflictPolicy = body.conflictPolicy ?? entry.conflictPolicy;
+    if (!CONFLICT_POLICIES.includes(conflictPolicy)) {
+      throw new CustomError(
+        `conflictPolicy must be one of: ${CONFLICT_POLICIES.join(', ')}`,
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        { conflictPolicy }
+      );
+    }
+
+    const changes: Partial<OutboxInput> = {
+      firstName: validation.data.firstName!,
+      lastName: validation.data.lastName!,
+      email: validation.data.email!,
+      organizationName: validation.data.organizationName!,
+      conflictPolicy,
+      ...(body.properties !== undefined && { properties: parsePropertyOverrides(body.properties) }),
+    };
+    if (body.companyId !== undefined) {
+      changes.companyId = body.companyId.trim() || undefined;
+      changes.companyName = body.companyName?.trim() || undefined;
+    } else if (changes.organizationName !== entry.organizationName) {
+      changes.companyId = undefined;
+      changes.companyName = undefined;
+    }
+
+    const updated = updateOutboxEntry(entryId, changes);
+    return createSuccessResponse({ entry: updated }, 'Queued creation updated. It will be sent with the next retry.');
+  } catch (error) {
+    return createErrorResponse(error as Error, requestId);
+  }
+}
+
+// Discard a queued creation without sending it to HubSpot
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { entryId } = await params;
+
+  try {
+    await requirePermission('admin');
+
+    discardOutboxEntry(entryId);
+    return createSuccessResponse({ entryId }, 'Queued creation discarded.');
+  } catch (error) {
+    return createErrorResponse(error as Error, requestId);
+  }
+}
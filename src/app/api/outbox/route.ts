@@ -0,0 +1,18 @@
+import { CustomError, createErrorResponse, createSuccessResponse } from '@/lib/errorHandler';
+import { isOutboxEnabled, listOutboxEntries } from '@/lib/outbox';
+import { requirePermission } from '@/lib/auth';
+
+// User creations queued while HubSpot was unavailable, oldest first (retrying, editing and discarding them is for admins)
+export async function GET() {
+  try {
+    await requirePermission('create-user');
+  } catch (error) {
+    return createErrorResponse(error as CustomError);
+  }
+
+  const entries = listOutboxEntries();
+  return createSuccessResponse(
+    { entries, total: entries.length, enabled: isOutboxEnabled() },
+    `${entries.length} user creations pending`
+  );
+}
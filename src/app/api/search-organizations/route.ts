@@ -1,6 +1,4 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
-import { calculateStringSimilarity, normalizeCompanyName } from '@/lib/utils';
 import { 
   CustomError, 
   ErrorCodes, 
@@ -10,18 +8,11 @@ import {
   validateRequiredFields,
   logError
 } from '@/lib/errorHandler';
-import { checkRateLimit, getClientIdentifier } from '@/lib/security';
-
-const hubspotClient = new Client({ accessToken: process.env.HUBSPOT_ACCESS_TOKEN });
-
-interface Company {
-  id: string;
-  properties: {
-    name: string;
-    domain?: string;
-  };
-  similarity?: number;
-}
+import { getClientIdentifier } from '@/lib/security';
+import { checkRateLimit, getRetryAfterSeconds, setRateLimitHeaders, type RateLimitResult } from '@/lib/rateLimit';
+import { getHubSpotGateway, type Company } from '@/lib/hubspot';
+import { rankCompaniesBySimilarity } from '@/lib/organizations';
+import { requirePermission } from '@/lib/auth';
 
 // Function to search for companies in HubSpot using Search API
 async function searchCompanies(searchTerm: string): Promise<Company[]> {
@@ -44,43 +35,9 @@ async function searchCompanies(searchTerm: string): Promise<Company[]> {
   try {
     // Use HubSpot's Search API to search companies by name
     // Filter by Active status only
-    const searchRequest = {
-      query: searchTerm.trim(),
-      filterGroups: [
-        {
-          filters: [
-            {
-              propertyName: 'status__c',
-              operator: 'EQ' as any,
-              value: 'Active'
-            }
-          ]
-        }
-      ],
-      properties: ['name', 'domain', 'status__c'],
-      limit: 100,
-      sorts: ['name']
-    } as any;
-
-    const apiResponse = await hubspotClient.crm.companies.searchApi.doSearch(searchRequest);
-    
-    if (!apiResponse || !apiResponse.results) {
-      console.log('No companies found in HubSpot search response for:', searchTerm);
-      return [];
-    }
-    
-    console.log(`HubSpot Search API returned ${apiResponse.results.length} results for "${searchTerm}"`);
+    const allCompanies = await getHubSpotGateway().searchCompanies(searchTerm, { activeOnly: true, limit: 100 });
     
-    // Map the search results
-    const allCompanies: Company[] = apiResponse.results
-      .filter(result => result.id && result.properties?.name) // Ensure valid data
-      .map(result => ({
-        id: result.id,
-        properties: {
-          name: result.properties!.name!.trim(),
-          domain: result.properties?.domain?.trim() || undefined,
-        },
-      }));
+    console.log(`HubSpot Search API returned ${allCompanies.length} results for "${searchTerm}"`);
     
     if (allCompanies.length === 0) {
       console.log('No valid companies found after filtering:', searchTerm);
@@ -95,42 +52,29 @@ async function searchCompanies(searchTerm: string): Promise<Company[]> {
   }
 }
 
-// Function to rank companies by similarity
-function rankCompaniesBySimilarity(companies: Company[], searchTerm: string): Company[] {
-  const normalizedSearch = normalizeCompanyName(searchTerm);
-  
-  const rankedCompanies = companies.map(company => {
-    const normalizedCompanyName = normalizeCompanyName(company.properties.name);
-    const similarity = calculateStringSimilarity(normalizedSearch, normalizedCompanyName);
-    
-    // Boost score for exact matches or prefix matches
-    let score = similarity;
-    if (normalizedCompanyName === normalizedSearch) {
-      score = 1.0;
-    } else if (normalizedCompanyName.startsWith(normalizedSearch)) {
-      score = Math.max(score, 0.9);
-    }
-    
-    return {
-      ...company,
-      similarity: score,
-    };
-  });
-  
-  // Sort by similarity score (highest first) and filter out low scores
-  return rankedCompanies
-    .filter(company => company.similarity! >= 0.6) // Show matches with at least 60% similarity
-    .sort((a, b) => b.similarity! - a.similarity!)
-    .slice(0, 5); // Show top 5 matches
-}
-
 export async function POST(request: NextRequest) {
   const requestId = Math.random().toString(36).substr(2, 9);
   const clientId = getClientIdentifier(request.headers);
   const userAgent = request.headers.get('user-agent') || undefined;
   let organizationName: string | undefined;
+  let rateLimit: RateLimitResult | undefined;
   
   try {
+    // Rate limiting check (first, so every response carries the rate limit headers)
+    rateLimit = await checkRateLimit(clientId, 'SEARCH_ORG');
+    if (!rateLimit.allowed) {
+      console.log(`Rate limit exceeded for ${clientId} - SEARCH_ORG`);
+      throw new CustomError(
+        'Too many search requests. Please try again later.',
+        ErrorCodes.RATE_LIMIT_EXCEEDED,
+        429,
+        { remaining: rateLimit.remaining, retryAfterSeconds: getRetryAfterSeconds(rateLimit) }
+      );
+    }
+
+    // Every role may search, but signed-in users without a role may not
+    await requirePermission('search-organizations');
+
     // Environment validation
     if (!process.env.HUBSPOT_ACCESS_TOKEN) {
       throw new CustomError(
@@ -140,18 +84,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Rate limiting check
-    const rateLimitResult = checkRateLimit(clientId, 'SEARCH_ORG');
-    if (!rateLimitResult.allowed) {
-      console.log(`Rate limit exceeded for ${clientId} - SEARCH_ORG`);
-      throw new CustomError(
-        'Too many search requests. Please try again later.',
-        ErrorCodes.RATE_LIMIT_EXCEEDED,
-        429,
-        { remaining: rateLimitResult.remaining }
-      );
-    }
-
     // Parse and validate request body
     let body: any;
     try {
@@ -234,7 +166,7 @@ export async function POST(request: NextRequest) {
     // Log successful organization search
     console.log(`Organization search for ${clientId}: "${organizationName}" - found ${rankedCompanies.length} matches`);
 
-    return createSuccessResponse({
+    return setRateLimitHeaders(createSuccessResponse({
       matches: rankedCompanies,
       searchTerm: organizationName,
       totalCandidates: companies.length,
@@ -247,7 +179,7 @@ export async function POST(request: NextRequest) {
           ? ((rankedCompanies.reduce((sum, c) => sum + (c.similarity || 0), 0) / rankedCompanies.length) * 100).toFixed(1) + '%'
           : '0%'
       }
-    }, `Found ${rankedCompanies.length} matching organizations for "${organizationName}"`);
+    }, `Found ${rankedCompanies.length} matching organizations for "${organizationName}"`), rateLimit);
 
   } catch (error: any) {
     // Enhanced error logging with context
@@ -262,7 +194,7 @@ export async function POST(request: NextRequest) {
 
     // Handle CustomError instances
     if (error instanceof CustomError) {
-      return createErrorResponse(error, requestId);
+      return setRateLimitHeaders(createErrorResponse(error, requestId), rateLimit);
     }
 
     // Handle unexpected errors
@@ -273,6 +205,6 @@ export async function POST(request: NextRequest) {
       { originalError: error.message }
     );
 
-    return createErrorResponse(unexpectedError, requestId);
+    return setRateLimitHeaders(createErrorResponse(unexpectedError, requestId), rateLimit);
   }
 }
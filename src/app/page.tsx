@@ -3,10 +3,31 @@
 import { useState } from 'react';
 import UserCreationForm from '@/components/UserCreationForm';
 import BulkUploadForm from '@/components/BulkUploadForm';
-import { User, Users } from 'lucide-react';
+import DeactivateUserForm from '@/components/DeactivateUserForm';
+import HubSpotStatusBanner from '@/components/HubSpotStatusBanner';
+import PendingCreations from '@/components/PendingCreations';
+import OrganizationReviews from '@/components/OrganizationReviews';
+import SignedInUser from '@/components/SignedInUser';
+import { useCurrentUser } from '@/contexts/CurrentUserContext';
+import type { Permission } from '@/lib/auth/roles';
+import { User, Users, UserMinus, Clock, Building2 } from 'lucide-react';
+
+type Tab = 'single' | 'bulk' | 'deactivate' | 'pending' | 'reviews';
+
+// Tabs are only shown to users whose roles allow what they are for
+const TAB_PERMISSIONS: Record<Tab, Permission> = {
+  single: 'search-organizations', // Viewers can look up organizations; creating needs create-user
+  bulk: 'bulk-upload',
+  deactivate: 'admin',
+  pending: 'create-user',
+  reviews: 'admin',
+};
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<'single' | 'bulk'>('single');
+  const [activeTab, setActiveTab] = useState<Tab>('single');
+  const { can, isLoading } = useCurrentUser();
+  const visibleTabs = (Object.keys(TAB_PERMISSIONS) as Tab[]).filter(tab => can(TAB_PERMISSIONS[tab]));
+  const currentTab = visibleTabs.includes(activeTab) ? activeTab : visibleTabs[0];
 
   return (
     <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8" style={{
@@ -20,44 +41,97 @@ export default function Home() {
           <h1 className="text-xl font-bold text-gray-900 sm:text-2xl mb-4">
             Elastic Path Customer Portal User Creator
           </h1>
+          <SignedInUser />
         </div>
 
+        <HubSpotStatusBanner />
+
         {/* Tab Navigation */}
         <div className="mb-6">
           <nav className="flex space-x-8 justify-center" aria-label="Tabs">
-            <button
-              onClick={() => setActiveTab('single')}
-              className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                activeTab === 'single'
-                  ? 'bg-indigo-100 text-indigo-700 border-2 border-indigo-200'
-                  : 'text-gray-500 hover:text-gray-700 border-2 border-transparent'
-              }`}
-            >
-              <User className="w-4 h-4 mr-2" />
-              Single User
-            </button>
-            <button
-              onClick={() => setActiveTab('bulk')}
-              className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                activeTab === 'bulk'
-                  ? 'bg-indigo-100 text-indigo-700 border-2 border-indigo-200'
-                  : 'text-gray-500 hover:text-gray-700 border-2 border-transparent'
-              }`}
-            >
-              <Users className="w-4 h-4 mr-2" />
-              Bulk Upload
-            </button>
+            {visibleTabs.includes('single') && (
+              <button
+                onClick={() => setActiveTab('single')}
+                className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  currentTab === 'single'
+                    ? 'bg-indigo-100 text-indigo-700 border-2 border-indigo-200'
+                    : 'text-gray-500 hover:text-gray-700 border-2 border-transparent'
+                }`}
+              >
+                <User className="w-4 h-4 mr-2" />
+                Single User
+              </button>
+            )}
+            {visibleTabs.includes('bulk') && (
+              <button
+                onClick={() => setActiveTab('bulk')}
+                className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  currentTab === 'bulk'
+                    ? 'bg-indigo-100 text-indigo-700 border-2 border-indigo-200'
+                    : 'text-gray-500 hover:text-gray-700 border-2 border-transparent'
+                }`}
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Bulk Upload
+              </button>
+            )}
+            {visibleTabs.includes('deactivate') && (
+              <button
+                onClick={() => setActiveTab('deactivate')}
+                className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  currentTab === 'deactivate'
+                    ? 'bg-indigo-100 text-indigo-700 border-2 border-indigo-200'
+                    : 'text-gray-500 hover:text-gray-700 border-2 border-transparent'
+                }`}
+              >
+                <UserMinus className="w-4 h-4 mr-2" />
+                Deactivate
+              </button>
+            )}
+            {visibleTabs.includes('pending') && (
+              <button
+                onClick={() => setActiveTab('pending')}
+                className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  currentTab === 'pending'
+                    ? 'bg-indigo-100 text-indigo-700 border-2 border-indigo-200'
+                    : 'text-gray-500 hover:text-gray-700 border-2 border-transparent'
+                }`}
+              >
+                <Clock className="w-4 h-4 mr-2" />
+                Pending
+              </button>
+            )}
+            {visibleTabs.includes('reviews') && (
+              <button
+                onClick={() => setActiveTab('reviews')}
+                className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  currentTab === 'reviews'
+                    ? 'bg-indigo-100 text-indigo-700 border-2 border-indigo-200'
+                    : 'text-gray-500 hover:text-gray-700 border-2 border-transparent'
+                }`}
+              >
+                <Building2 className="w-4 h-4 mr-2" />
+                Reviews
+              </button>
+            )}
           </nav>
         </div>
 
         {/* Tab Content */}
-        <div className="bg-white/95 backdrop-blur-sm shadow-xl rounded-lg p-6">
-          {activeTab === 'single' ? (
-            <UserCreationForm />
-          ) : (
-            <BulkUploadForm />
-          )}
-        </div>
+        {!isLoading && (
+          <div className="bg-white/95 backdrop-blur-sm shadow-xl rounded-lg p-6">
+            {!currentTab && (
+              <p className="text-sm text-gray-600 text-center">
+                Your account has not been given access to this app yet. Ask an administrator to add you to one of its groups.
+              </p>
+            )}
+            {currentTab === 'single' && <UserCreationForm />}
+            {currentTab === 'bulk' && <BulkUploadForm />}
+            {currentTab === 'deactivate' && <DeactivateUserForm />}
+            {currentTab === 'pending' && <PendingCreations />}
+            {currentTab === 'reviews' && <OrganizationReviews />}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import {
+  SCIM_MAX_RESULTS,
+  SCIM_SCHEMAS,
+  authorizeScimRequest,
+  createScimErrorResponse,
+  createScimResponse,
+} from '@/lib/scim';
+
+// Capabilities of this SCIM service, read by Okta when the integration is set up
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+
+  try {
+    await authorizeScimRequest(request.headers);
+
+    return createScimResponse({
+      schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'OAuth Bearer Token',
+          description: 'Authentication with the bearer token configured in SCIM_BEARER_TOKEN',
+          primary: true,
+        },
+      ],
+      meta: {
+        resourceType: 'ServiceProviderConfig',
+        location: `${request.nextUrl.origin}/scim/v2/ServiceProviderConfig`,
+      },
+    });
+  } catch (error) {
+    return createScimErrorResponse(error as Error, requestId);
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { CustomError, ErrorCodes, handleHubSpotError } from '@/lib/errorHandler';
+import { getHubSpotGateway, deactivateContacts, reactivateContact, type Contact } from '@/lib/hubspot';
+import { OKTA_DEACTIVATION_REASON } from '@/lib/okta';
+import {
+  authorizeScimRequest,
+  createScimErrorResponse,
+  createScimResponse,
+  isProvisionedContact,
+  parseActivePatch,
+  toScimUser,
+} from '@/lib/scim';
+
+async function getContactOrThrow(contactId: string): Promise<Contact> {
+  let contact: Contact | null;
+  try {
+    contact = await getHubSpotGateway().getContact(contactId);
+  } catch (lookupError) {
+    throw handleHubSpotError(lookupError);
+  }
+
+  // Other HubSpot contacts are not users of this integration, so they are reported as not found
+  if (!contact || !isProvisionedContact(contact)) {
+    throw new CustomError(
+      `User ${contactId} not found`,
+      ErrorCodes.CONTACT_NOT_FOUND,
+      404
+    );
+  }
+  return contact;
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { id } = await params;
+
+  try {
+    await authorizeScimRequest(request.headers);
+
+    const contact = await getContactOrThrow(id);
+    return createScimResponse(toScimUser(contact, request.nextUrl.origin));
+  } catch (error) {
+    return createScimErrorResponse(error as Error, requestId);
+  }
+}
+
+// Okta activates and deactivates users by patching `active`
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+  const { id } = await params;
+
+  try {
+    await authorizeScimRequest(request.headers);
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new CustomError('Invalid JSON in request body', ErrorCodes.INVALID_REQUEST, 400, { scimType: 'invalidSyntax' });
+    }
+
+    const active = parseActivePatch(body);
+    let contact = await getContactOrThrow(id);
+    const isActive = contact.properties.active_in_okta === 'true';
+
+    if (active && !isActive) {
+      try {
+        await reactivateContact(getHubSpotGateway(), id);
+      } catch (updateError) {
+        throw handleHubSpotError(updateError);
+      }
+      console.log(`SCIM reactivated contact ${id}`);
+    } else if (!active && isActive) {
+      const [deactivation] = await deactivateContacts(getHubSpotGateway(), [id], { reason: OKTA_DEACTIVATION_REASON });
+      if (deactivation.error) throw deactivation.error;
+      console.log(`SCIM deactivated contact ${id}`);
+    }
+
+    contact = { ...contact, properties: { ...contact.properties, active_in_okta: String(active) } };
+    return createScimResponse(toScimUser(contact, request.nextUrl.origin));
+  } catch (error) {
+    return createScimErrorResponse(error as Error, requestId);
+  }
+}
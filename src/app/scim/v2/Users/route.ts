@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+import { CustomError, ErrorCodes, handleHubSpotError } from '@/lib/errorHandler';
+import {
+  getHubSpotGateway,
+  deactivateContacts,
+  upsertContactWithCompany,
+  type Contact,
+} from '@/lib/hubspot';
+import { findMatchingCompany } from '@/lib/organizations';
+import { OKTA_DEACTIVATION_REASON } from '@/lib/okta';
+import {
+  SCIM_MAX_RESULTS,
+  SCIM_SCHEMAS,
+  authorizeScimRequest,
+  createScimErrorResponse,
+  createScimResponse,
+  isProvisionedContact,
+  parseScimUser,
+  parseUserNameFilter,
+  toScimUser,
+} from '@/lib/scim';
+
+// List provisioned users, or look one up with filter=userName eq "<email>" (Okta does this before creating a user)
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+
+  try {
+    await authorizeScimRequest(request.headers);
+
+    const params = request.nextUrl.searchParams;
+    const userName = parseUserNameFilter(params.get('filter'));
+    const startIndex = Math.max(Math.floor(Number(params.get('startIndex')) || 1), 1); // SCIM indexes are 1-based
+    const requestedCount = Number(params.get('count') ?? SCIM_MAX_RESULTS);
+    const count = Number.isFinite(requestedCount)
+      ? Math.min(Math.max(Math.floor(requestedCount), 0), SCIM_MAX_RESULTS)
+      : SCIM_MAX_RESULTS;
+
+    const gateway = getHubSpotGateway();
+    let contacts: Contact[];
+    let totalResults: number;
+    try {
+      if (userName !== undefined) {
+        const contact = await gateway.findContactByEmail(userName);
+        const matches = contact && isProvisionedContact(contact) ? [contact] : [];
+        totalResults = matches.length;
+        contacts = matches.slice(startIndex - 1, startIndex - 1 + count);
+      } else {
+        // Contacts created or updated by this app carry active_in_okta, so those are the provisioned users
+        const page = await gateway.listContactsWithProperty('active_in_okta', startIndex - 1, Math.max(count, 1));
+        totalResults = page.total;
+        contacts = page.contacts.slice(0, count);
+      }
+    } catch (lookupError) {
+      throw handleHubSpotError(lookupError);
+    }
+
+    return createScimResponse({
+      schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+      totalResults,
+      startIndex,
+      itemsPerPage: contacts.length,
+      Resources: contacts.map(contact => toScimUser(contact, request.nextUrl.origin)),
+    });
+  } catch (error) {
+    return createScimErrorResponse(error as Error, requestId);
+  }
+}
+
+// Provision a user: create the contact and associate it with the enterprise organization, like POST /api/create-user
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substr(2, 9);
+
+  try {
+    await authorizeScimRequest(request.headers);
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new CustomError('Invalid JSON in request body', ErrorCodes.INVALID_REQUEST, 400, { scimType: 'invalidSyntax' });
+    }
+
+    const user = parseScimUser(body);
+    const company = user.organizationName ? await findMatchingCompany(user.organizationName) : null;
+    const gateway = getHubSpotGateway();
+
+    let contactId: string;
+    try {
+      // An existing email fails with USER_ALREADY_EXISTS, reported to Okta as a uniqueness conflict
+      ({ contactId } = await upsertContactWithCompany(gateway, {
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        companyId: company?.id,
+        companyName: company?.properties.name,
+      }, 'fail'));
+    } catch (createError) {
+      throw handleHubSpotError(createError);
+    }
+
+    // Users can be pushed from Okta already deactivated
+    if (!user.active) {
+      const [deactivation] = await deactivateContacts(gateway, [contactId], { reason: OKTA_DEACTIVATION_REASON });
+      if (deactivation.error) throw deactivation.error;
+    }
+
+    console.log(`SCIM provisioned contact ${contactId}` + (company ? ` in company ${company.id}` : ' without company association'));
+
+    const scimUser = toScimUser({
+      id: contactId,
+      properties: {
+        firstname: user.firstName,
+        lastname: user.lastName,
+        email: user.email,
+        company: company?.properties.name ?? null,
+        active_in_okta: String(user.active),
+      },
+    }, request.nextUrl.origin);
+
+    const response = createScimResponse(scimUser, 201);
+    response.headers.set('Location', scimUser.meta.location);
+    return response;
+  } catch (error) {
+    return createScimErrorResponse(error as Error, requestId);
+  }
+}
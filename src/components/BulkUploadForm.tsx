@@ -1,12 +1,31 @@
 'use client';
 
-import { useState } from 'react';
-import { Upload, Download, CheckCircle, AlertCircle, Loader2, Users, Building2 } from 'lucide-react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Upload, Download, CheckCircle, AlertCircle, AlertTriangle, Loader2, Users, Building2, Eye, Columns, ClipboardPaste, RotateCcw, FileDown } from 'lucide-react';
+import { formatCsv, parseCsv, type CsvIssue, type CsvRecord } from '@/lib/csv';
+import {
+  MAPPED_FIELDS,
+  applyColumnMapping,
+  applyMappingPreset,
+  createMappingPreset,
+  detectColumnMapping,
+  isMappingComplete,
+  looksLikeHeader,
+  propertyMappingKey,
+  type ColumnMapping,
+  type MappingKey,
+  type MappingPreset,
+} from '@/lib/columnMapping';
+import type { ContactField } from '@/lib/contactFields';
+import { formatFieldErrors, validateUserInput } from '@/lib/validation';
+import { readXlsxWorksheets, type XlsxWorksheet } from '@/lib/xlsx';
 
 interface CsvUser {
   firstName: string;
   lastName: string;
   email: string;
+  organizationName?: string; // From the organization column; rows without one use the selected organization
+  properties?: Record<string, string>; // From extra contact field columns, by HubSpot property name
 }
 
 interface OrganizationMatch {
@@ -22,131 +41,856 @@ interface BulkUploadResult {
   success: boolean;
   total: number;
   successful: number;
+  created?: number;
+  updated?: number;
+  skipped?: number;
   failed: number;
+  resumed?: number;
+  contacts: Array<{
+    row: number;
+    contactId: string;
+    outcome: 'created' | 'updated' | 'skipped';
+    resumed?: boolean;
+  }>;
   errors: Array<{
     row: number;
     user: CsvUser;
     error: string;
+    errorCode?: string;
+    retryable?: boolean; // Rate limit, network or HubSpot outage: worth submitting again
+    contactId?: string; // Contact created without its email before the row failed
   }>;
 }
 
+interface BulkUploadJob {
+  jobId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  organizationName: string;
+  progress: {
+    processed: number;
+    total: number;
+    percent: number;
+  };
+  result: BulkUploadResult;
+  message?: string;
+}
+
+type ConflictPolicy = 'fail' | 'skip' | 'update';
+
+const CONFLICT_POLICY_OPTIONS: Array<{ value: ConflictPolicy; label: string }> = [
+  { value: 'fail', label: 'Fail the row' },
+  { value: 'skip', label: 'Skip the row (leave the contact unchanged)' },
+  { value: 'update', label: 'Update the existing contact (Okta flag, company and association)' },
+];
+
+// How an organization name from the file was matched to a HubSpot company
+interface OrganizationResolution {
+  name: string;
+  status: 'matched' | 'selected' | 'ambiguous' | 'unmatched';
+  company?: { id: string; name: string; similarity?: number };
+  candidates: Array<{ id: string; name: string; similarity: number }>;
+}
+
+// Dry-run result from POST /api/bulk-upload with dryRun: true
+interface BulkUploadPreview {
+  organization?: { id: string; name: string; found: boolean };
+  organizations: OrganizationResolution[];
+  unresolvedOrganizations: number;
+  total: number;
+  toCreate: number;
+  toUpdate: number;
+  toSkip: number;
+  toReject: number;
+  rows: Array<{
+    row: number;
+    user: CsvUser;
+    action: 'create' | 'update' | 'skip' | 'reject';
+    organization?: { id: string; name: string };
+    existingContactId?: string;
+    error?: string;
+    errorCode?: string;
+  }>;
+}
+
+// Preview rows that go to the same company, or whose organization name still needs a company picked
+interface PreviewGroup {
+  key: string;
+  company?: { id: string; name: string };
+  organizationName?: string; // Set for a group waiting for a company to be picked
+  isDefault: boolean; // The selected organization, for rows without their own
+  names: Array<{ name: string; similarity?: number; picked: boolean }>; // Organization names that resolved here
+  unresolved?: OrganizationResolution;
+  rows: BulkUploadPreview['rows'];
+}
+
+type RowStatus = 'processing' | 'created' | 'updated' | 'skipped' | 'failed';
+
+interface RowOutcome {
+  row: number;
+  user: CsvUser;
+  status: RowStatus;
+  contactId?: string;
+  error?: string;
+  errorCode?: string;
+  retryable?: boolean;
+  resumed?: boolean;
+}
+
+// One line of the downloadable report: every uploaded row with its outcome
+interface ReportRow {
+  line: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  organization: string;
+  outcome: 'created' | 'updated' | 'skipped' | 'failed' | 'not processed';
+  contactId: string;
+  errorCode: string;
+  error: string;
+  retryable: boolean;
+}
+
+// The active job ID is remembered so a page reload can pick the upload back up
+const ACTIVE_JOB_STORAGE_KEY = 'bulkUploadActiveJobId';
+// Column mapping presets saved in this browser, one per source (e.g. "Okta export")
+const MAPPING_PRESETS_STORAGE_KEY = 'bulkUploadMappingPresets';
+const POLL_INTERVAL_MS = 1500;
+
+// Group preview rows by company, applying companies picked for ambiguous or unmatched names
+function groupPreviewRows(preview: BulkUploadPreview, selections: Record<string, OrganizationMatch>): PreviewGroup[] {
+  const groups = new Map<string, PreviewGroup>();
+
+  preview.rows.forEach(previewRow => {
+    const name = previewRow.user.organizationName;
+    const resolution = name ? preview.organizations.find(candidate => candidate.name === name) : undefined;
+    const picked = name ? selections[name] : undefined;
+    // Only automatic matches come from the preview; picks are applied from the current selections
+    const company = picked
+      ? { id: picked.id, name: picked.properties.name }
+      : name ? (resolution?.status === 'matched' ? resolution.company : undefined) : preview.organization;
+
+    const key = company ? company.id : `unresolved:${name}`;
+    const group = groups.get(key) ?? {
+      key,
+      company: company && { id: company.id, name: company.name },
+      organizationName: company ? undefined : name,
+      isDefault: false,
+      names: [],
+      unresolved: company ? undefined : resolution,
+      rows: [],
+    };
+
+    if (!name) {
+      group.isDefault = true;
+    } else if (company && !group.names.some(entry => entry.name === name)) {
+      group.names.push({ name, similarity: picked ? undefined : resolution?.company?.similarity, picked: !!picked });
+    }
+    group.rows.push(previewRow);
+    groups.set(key, group);
+  });
+
+  // Names that need a company picked come first
+  return [...groups.values()].sort((a, b) => Number(!!a.company) - Number(!!b.company));
+}
+
+function uploadFailedResult(total: number, message: string): BulkUploadResult {
+  return {
+    success: false,
+    total,
+    successful: 0,
+    failed: total,
+    contacts: [],
+    errors: [{ row: 0, user: { firstName: '', lastName: '', email: '' }, error: message }],
+  };
+}
+
+// Fold the result of a retry job (rows numbered 1..n within the retry) into the original upload's result;
+// retried rows missing from the retry result keep their earlier failure
+function mergeRetryResult(previous: BulkUploadResult, retry: BulkUploadResult, retriedRows: number[]): BulkUploadResult {
+  const toOriginalRow = <T extends { row: number }>(item: T): T[] =>
+    retriedRows[item.row - 1] ? [{ ...item, row: retriedRows[item.row - 1] }] : [];
+
+  const contacts = [...previous.contacts, ...retry.contacts.flatMap(toOriginalRow)].sort((a, b) => a.row - b.row);
+  const retryErrors = retry.errors.flatMap(toOriginalRow);
+  const settledRows = new Set([...contacts, ...retryErrors].map(item => item.row));
+  const errors = [...previous.errors.filter(error => !settledRows.has(error.row)), ...retryErrors]
+    .sort((a, b) => a.row - b.row);
+  const countOutcome = (outcome: string) => contacts.filter(contact => contact.outcome === outcome).length;
+
+  return {
+    success: contacts.length > 0,
+    total: previous.total,
+    successful: contacts.length,
+    created: countOutcome('created'),
+    updated: countOutcome('updated'),
+    skipped: countOutcome('skipped'),
+    failed: errors.length,
+    resumed: previous.resumed,
+    contacts,
+    errors,
+  };
+}
+
+// Every row of an upload with its outcome; users come from the uploaded rows, or from the errors after a reload
+function buildReport(users: CsvUser[], result: BulkUploadResult, lineFor: (row: number) => number): ReportRow[] {
+  return Array.from({ length: result.total }, (_, index) => {
+    const row = index + 1;
+    const contact = result.contacts.find(candidate => candidate.row === row);
+    const error = result.errors.find(candidate => candidate.row === row);
+    const user = users[index] ?? error?.user;
+
+    return {
+      line: lineFor(row),
+      firstName: user?.firstName ?? '',
+      lastName: user?.lastName ?? '',
+      email: user?.email ?? '',
+      organization: user?.organizationName ?? '',
+      outcome: contact?.outcome ?? (error ? 'failed' : 'not processed'),
+      contactId: contact?.contactId ?? error?.contactId ?? '',
+      errorCode: error?.errorCode ?? '',
+      error: error?.error ?? '',
+      retryable: !!error?.retryable,
+    };
+  });
+}
+
+// Example cell for an extra contact field in the template (empty for free text)
+function sampleFieldValue(field: ContactField): string {
+  if (field.input === 'select') return field.options[0]?.label ?? '';
+  if (field.input === 'checkbox') return 'yes';
+  if (field.input === 'date') return new Date().toISOString().slice(0, 10);
+  return '';
+}
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
 export default function BulkUploadForm() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [csvData, setCsvData] = useState<CsvUser[]>([]);
+  const [sourceName, setSourceName] = useState<string | null>(null); // File name, or a label for pasted rows
+  const [worksheets, setWorksheets] = useState<XlsxWorksheet[]>([]); // All worksheets of an uploaded workbook
+  const [worksheetIndex, setWorksheetIndex] = useState(0);
+  const [pastedText, setPastedText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [csvRecords, setCsvRecords] = useState<CsvRecord[]>([]); // Data records, without the header row
+  const [csvHeader, setCsvHeader] = useState<string[] | null>(null); // Null when the file has no header row
+  const [parseIssues, setParseIssues] = useState<CsvIssue[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [mappingPresets, setMappingPresets] = useState<MappingPreset[]>([]);
+  const [activePreset, setActivePreset] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [contactFields, setContactFields] = useState<ContactField[]>([]); // Extra contact properties configured for the portal
   const [selectedOrganization, setSelectedOrganization] = useState<OrganizationMatch | null>(null);
+  // Company picked for each ambiguous or unmatched organization name, and manual search results per name
+  const [organizationSelections, setOrganizationSelections] = useState<Record<string, OrganizationMatch>>({});
+  const [nameSearches, setNameSearches] = useState<Record<string, { term: string; matches: OrganizationMatch[] }>>({});
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('fail');
+  const [properCaseNames, setProperCaseNames] = useState(false);
   const [organizationMatches, setOrganizationMatches] = useState<OrganizationMatch[]>([]);
   const [organizationSearch, setOrganizationSearch] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<BulkUploadResult | null>(null);
+  const [activeJob, setActiveJob] = useState<BulkUploadJob | null>(null);
+  const [rowOutcomes, setRowOutcomes] = useState<Record<number, RowOutcome>>({});
+  const [preview, setPreview] = useState<{ data: BulkUploadPreview; message: string } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [uploadedUsers, setUploadedUsers] = useState<CsvUser[]>([]); // Rows of the last upload, for the report
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const eventSource = useRef<EventSource | null>(null);
+  // Idempotency key for the current file + organization; resubmitting reuses it so the server resumes
+  const uploadKey = useRef<string | null>(null);
+  // While retrying failed rows: the original row number of each retried row, and the result to merge into.
+  // Kept in memory only, so a retry picked back up after a reload shows the retry job's own result.
+  const retriedRows = useRef<number[] | null>(null);
+  const retryBaseResult = useRef<BulkUploadResult | null>(null);
+
+  const finishJob = useCallback((result: BulkUploadResult) => {
+    window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    eventSource.current?.close();
+    eventSource.current = null;
+
+    const rows = retriedRows.current;
+    const previous = retryBaseResult.current;
+    retriedRows.current = null;
+    retryBaseResult.current = null;
+    setUploadResult(rows && previous ? mergeRetryResult(previous, result, rows) : result);
+    setIsUploading(false);
+    setIsRetrying(false);
+  }, []);
+
+  // Fetch the job status and finish the upload if the job is done; resolves to true while it is still running
+  const refreshJob = useCallback(async (jobId: string): Promise<boolean> => {
+    try {
+      const res = await fetch(`/api/bulk-upload/${jobId}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setActiveJob(null);
+        finishJob(uploadFailedResult(0, data.error?.message || 'Could not load bulk upload status'));
+        return false;
+      }
+
+      const job: BulkUploadJob = data.data;
+      setActiveJob(job);
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        finishJob(job.result);
+        return false;
+      }
+    } catch (error) {
+      // Network hiccup: keep the job and try again on the next tick
+      console.error('Error polling bulk upload status:', error);
+    }
+
+    return true;
+  }, [finishJob]);
+
+  // Poll the job status until it finishes (used when the live stream is unavailable)
+  const pollJob = useCallback(async (jobId: string) => {
+    if (await refreshJob(jobId)) {
+      pollTimer.current = setTimeout(() => pollJob(jobId), POLL_INTERVAL_MS);
+    }
+  }, [refreshJob]);
+
+  // Follow per-row events over Server-Sent Events; a reconnect replays the whole job so far
+  const streamJob = useCallback((jobId: string) => {
+    if (typeof EventSource === 'undefined') {
+      pollJob(jobId);
+      return;
+    }
+
+    eventSource.current?.close();
+    const source = new EventSource(`/api/bulk-upload/${jobId}/events`);
+    eventSource.current = source;
+
+    // Retry jobs number their rows from 1; outcomes are shown against the original rows
+    const updateRow = (jobRow: number, changes: Partial<RowOutcome>) => {
+      const row = retriedRows.current?.[jobRow - 1] ?? jobRow;
+      setRowOutcomes(prev => ({ ...prev, [row]: { ...prev[row], row, ...changes } as RowOutcome }));
+    };
+
+    source.addEventListener('row_started', (e) => {
+      const event = JSON.parse((e as MessageEvent).data);
+      updateRow(event.row, { user: event.user, status: 'processing' });
+    });
+    const outcomeEvents: Array<[string, RowStatus]> = [
+      ['row_created', 'created'],
+      ['row_updated', 'updated'],
+      ['row_skipped', 'skipped'],
+    ];
+    outcomeEvents.forEach(([eventType, status]) => {
+      source.addEventListener(eventType, (e) => {
+        const event = JSON.parse((e as MessageEvent).data);
+        updateRow(event.row, { status, contactId: event.contactId, resumed: event.resumed });
+      });
+    });
+    source.addEventListener('row_failed', (e) => {
+      const event = JSON.parse((e as MessageEvent).data);
+      updateRow(event.row, {
+        status: 'failed',
+        error: event.error,
+        errorCode: event.errorCode,
+        retryable: event.retryable,
+        contactId: event.contactId,
+        resumed: event.resumed,
+      });
+    });
+    source.addEventListener('progress', (e) => {
+      const event = JSON.parse((e as MessageEvent).data);
+      setActiveJob(prev => prev && {
+        ...prev,
+        progress: {
+          processed: event.processed,
+          total: event.total,
+          percent: event.total > 0 ? Math.round((event.processed / event.total) * 100) : 100,
+        },
+      });
+    });
+    source.addEventListener('done', (e) => {
+      const event = JSON.parse((e as MessageEvent).data);
+      source.close();
+      finishJob(event.result);
+    });
+    source.onerror = () => {
+      // The browser retries on its own unless the server refused the stream (e.g. job expired)
+      if (source.readyState === EventSource.CLOSED) {
+        eventSource.current = null;
+        pollJob(jobId);
+      }
+    };
+  }, [finishJob, pollJob]);
+
+  // Load the current job state, then follow it live
+  const watchJob = useCallback(async (jobId: string) => {
+    if (await refreshJob(jobId)) {
+      streamJob(jobId);
+    }
+  }, [refreshJob, streamJob]);
+
+  // Resume a job that was still running when the page was closed or reloaded
+  useEffect(() => {
+    const jobId = window.localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (jobId) {
+      setIsUploading(true);
+      watchJob(jobId);
+    }
+
+    return () => {
+      if (pollTimer.current) clearTimeout(pollTimer.current);
+      eventSource.current?.close();
+    };
+  }, [watchJob]);
+
+  // Extra contact fields become optional template columns; without them only the user fields are mapped
+  useEffect(() => {
+    fetch('/api/contact-fields')
+      .then(res => res.json())
+      .then(data => setContactFields(data.data?.fields || []))
+      .catch(error => console.error('Contact fields error:', error));
+  }, []);
+
+  // Load saved column mapping presets
+  useEffect(() => {
+    try {
+      setMappingPresets(JSON.parse(window.localStorage.getItem(MAPPING_PRESETS_STORAGE_KEY) || '[]'));
+    } catch {
+      window.localStorage.removeItem(MAPPING_PRESETS_STORAGE_KEY);
+    }
+  }, []);
+
+  // Users from the records with the confirmed mapping; nothing is uploadable until email and names are mapped
+  const mappingComplete = isMappingComplete(columnMapping);
+  const mapped = useMemo(
+    () => (mappingComplete ? applyColumnMapping(csvRecords, columnMapping) : { users: [], lines: [], issues: [] }),
+    [csvRecords, columnMapping, mappingComplete]
+  );
+  const csvData: CsvUser[] = mapped.users;
+  const csvLines = mapped.lines; // Source line of each entry in csvData
+  // Rows the server would reject, checked with the same rules before anything is sent
+  const validationIssues = useMemo(
+    () => mapped.users.flatMap((user, i) => {
+      const { errors } = validateUserInput(user, { required: ['firstName', 'lastName', 'email'] });
+      return errors.length > 0 ? [{ line: mapped.lines[i], message: `Will fail validation: ${formatFieldErrors(errors)}` }] : [];
+    }),
+    [mapped]
+  );
+  const csvIssues = useMemo(
+    () => [...parseIssues, ...mapped.issues, ...validationIssues].sort((a, b) => a.line - b.line),
+    [parseIssues, mapped.issues, validationIssues]
+  );
+
+  // A different file, organization, conflict policy or name casing is a new upload: new idempotency key, stale preview discarded
+  useEffect(() => {
+    uploadKey.current = null;
+    setPreview(null);
+    setPreviewError(null);
+  }, [csvData, selectedOrganization, conflictPolicy, properCaseNames]);
+
+  // Companies picked for organization names belong to the rows they were picked for
+  useEffect(() => {
+    setOrganizationSelections({});
+    setNameSearches({});
+  }, [csvData]);
+
+  // Picking companies changes the upload (but keeps the preview that shows the picks)
+  useEffect(() => {
+    uploadKey.current = null;
+  }, [organizationSelections]);
+
+  // Rows with their own organization are matched per row; the selected organization covers the rest
+  const hasRowOrganizations = csvData.some(user => user.organizationName);
+  const needsDefaultOrganization = csvData.some(user => !user.organizationName);
+  const organizationsReady = !needsDefaultOrganization || !!selectedOrganization;
+  const previewGroups = preview ? groupPreviewRows(preview.data, organizationSelections) : [];
+  const unresolvedGroups = previewGroups.filter(group => group.unresolved);
+  // With per-row organizations, every name must be matched (via a preview) before uploading
+  const organizationsMatched = !hasRowOrganizations || (!!preview && unresolvedGroups.length === 0);
 
-  // Handle CSV file selection and parsing
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Handle file selection: Excel workbooks are read as worksheets, anything else is parsed as CSV
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    setSelectedFile(file);
+    setSourceName(file.name);
+    setImportError(null);
+    setWorksheets([]);
+
+    if (file.name.toLowerCase().endsWith('.xlsx')) {
+      try {
+        const workbook = await readXlsxWorksheets(await file.arrayBuffer());
+        // Start with the first worksheet that has any rows
+        const index = Math.max(0, workbook.findIndex(worksheet => worksheet.records.length > 0));
+        setWorksheets(workbook);
+        setWorksheetIndex(index);
+        loadRecords(workbook[index].records, []);
+      } catch (error) {
+        console.error('Error reading workbook:', error);
+        setImportError(error instanceof Error ? error.message : 'Could not read the workbook');
+        loadRecords([], []);
+      }
+      return;
+    }
+
     const reader = new FileReader();
     
     reader.onload = (e) => {
       const text = e.target?.result as string;
-      const parsedData = parseCSV(text);
-      setCsvData(parsedData);
+      const { records, issues } = parseCsv(text);
+      loadRecords(records, issues);
     };
     
     reader.readAsText(file);
   };
 
-  // Parse CSV content
-  const parseCSV = (text: string): CsvUser[] => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length === 0) return [];
+  const selectWorksheet = (index: number) => {
+    setWorksheetIndex(index);
+    loadRecords(worksheets[index].records, []);
+  };
 
-    // Assume first line is header, skip it
-    const dataLines = lines.slice(1);
-    
-    return dataLines.map((line, index) => {
-      const columns = line.split(',').map(col => col.trim().replace(/"/g, ''));
-      return {
-        firstName: columns[0] || '',
-        lastName: columns[1] || '',
-        email: columns[2] || '',
-      };
-    }).filter(user => user.firstName && user.lastName && user.email);
+  // Rows copied from Excel or Google Sheets arrive as tab-separated text
+  const handlePaste = () => {
+    const { records, issues } = parseCsv(pastedText, { delimiter: '\t' });
+    setSourceName('Pasted rows');
+    setImportError(null);
+    setWorksheets([]);
+    loadRecords(records, issues);
   };
 
-  // Search for organizations
-  const searchOrganizations = async () => {
-    if (!organizationSearch.trim()) return;
+  // Take parsed rows (from CSV, a worksheet or pasted text) and propose a column mapping: a saved preset
+  // matching the header wins, otherwise columns are detected from the header names (or taken as
+  // firstName, lastName, email without one)
+  const loadRecords = (records: CsvRecord[], issues: CsvIssue[]) => {
+    const header = records.length > 0 && looksLikeHeader(records[0].fields)
+      ? records[0].fields.map(field => field.trim())
+      : null;
 
-    setIsSearching(true);
+    let mapping = detectColumnMapping(header, contactFields);
+    let preset = '';
+    if (header) {
+      for (const candidate of mappingPresets) {
+        const presetMapping = applyMappingPreset(candidate, header);
+        if (presetMapping) {
+          mapping = presetMapping;
+          preset = candidate.name;
+          break;
+        }
+      }
+    }
+
+    setCsvHeader(header);
+    setCsvRecords(header ? records.slice(1) : records);
+    setParseIssues(issues);
+    setColumnMapping(mapping);
+    setActivePreset(preset);
+  };
+
+  const updateColumnMapping = (field: MappingKey, value: string) => {
+    setColumnMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+    setActivePreset('');
+  };
+
+  const selectMappingPreset = (name: string) => {
+    const preset = mappingPresets.find(candidate => candidate.name === name);
+    const mapping = preset && csvHeader ? applyMappingPreset(preset, csvHeader) : null;
+    if (mapping) {
+      setColumnMapping(mapping);
+      setActivePreset(name);
+    }
+  };
+
+  // Save the current mapping under a name; saving an existing name replaces that preset
+  const saveMappingPreset = () => {
+    const name = presetName.trim();
+    if (!name || !csvHeader) return;
+
+    const presets = [
+      ...mappingPresets.filter(preset => preset.name !== name),
+      createMappingPreset(name, columnMapping, csvHeader),
+    ];
+    window.localStorage.setItem(MAPPING_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    setMappingPresets(presets);
+    setActivePreset(name);
+    setPresetName('');
+  };
+
+  const deleteMappingPreset = (name: string) => {
+    const presets = mappingPresets.filter(preset => preset.name !== name);
+    window.localStorage.setItem(MAPPING_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    setMappingPresets(presets);
+    setActivePreset('');
+  };
+
+  // Column choices: header name (or position) with a sample value from the first record
+  const columnCount = Math.max(csvHeader?.length ?? 0, ...csvRecords.map(record => record.fields.length));
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => {
+    const label = csvHeader?.[index] || `Column ${index + 1}`;
+    const sample = csvRecords[0]?.fields[index]?.trim();
+    return { index, label: sample ? `${label} (e.g. ${sample})` : label };
+  });
+  const applicablePresets = csvHeader
+    ? mappingPresets.filter(preset => applyMappingPreset(preset, csvHeader))
+    : [];
+
+  // Source file line for a 1-based upload row (falls back to the row number after a page reload)
+  const sourceLine = (row: number) => csvLines[row - 1] ?? row;
+
+  // Ranked HubSpot companies for a search term (empty on failure)
+  const fetchOrganizationMatches = async (searchTerm: string): Promise<OrganizationMatch[]> => {
     try {
       const res = await fetch('/api/search-organizations', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ organizationName: organizationSearch }),
+        body: JSON.stringify({ organizationName: searchTerm }),
       });
 
       const data = await res.json();
       if (data.success) {
-        setOrganizationMatches(data.matches);
+        return data.data?.matches || data.matches || [];
       }
     } catch (error) {
       console.error('Error searching organizations:', error);
+    }
+    return [];
+  };
+
+  // Search for organizations
+  const searchOrganizations = async () => {
+    if (!organizationSearch.trim()) return;
+
+    setIsSearching(true);
+    try {
+      setOrganizationMatches(await fetchOrganizationMatches(organizationSearch));
     } finally {
       setIsSearching(false);
     }
   };
 
+  // Search HubSpot for a company to use for an organization name that had no good match
+  const searchForName = async (name: string) => {
+    const term = nameSearches[name]?.term.trim();
+    if (!term) return;
+
+    const matches = await fetchOrganizationMatches(term);
+    setNameSearches(prev => ({ ...prev, [name]: { term, matches } }));
+  };
+
+  const pickCompany = (name: string, company: OrganizationMatch | undefined) => {
+    setOrganizationSelections(prev => {
+      const next = { ...prev };
+      if (company) {
+        next[name] = company;
+      } else {
+        delete next[name];
+      }
+      return next;
+    });
+  };
+
+  // Request fields describing where rows go: the selected organization and companies picked per name
+  const organizationFields = () => ({
+    ...(needsDefaultOrganization && selectedOrganization ? {
+      organizationId: selectedOrganization.id,
+      organizationName: selectedOrganization.properties.name,
+    } : {}),
+    organizationSelections: Object.fromEntries(
+      Object.entries(organizationSelections).map(([name, company]) => [name, company.id])
+    ),
+  });
+
+  // Dry run: validate the roster against HubSpot without creating anything
+  const handlePreview = async () => {
+    if (!organizationsReady || csvData.length === 0) return;
+
+    setIsPreviewing(true);
+    setPreview(null);
+    setPreviewError(null);
+
+    try {
+      const res = await fetch('/api/bulk-upload', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          users: csvData,
+          ...organizationFields(),
+          conflictPolicy,
+          properCaseNames,
+          dryRun: true,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setPreviewError(data.error?.message || 'Preview failed');
+        return;
+      }
+
+      setPreview({ data: data.data, message: data.message });
+    } catch (error) {
+      console.error('Bulk upload preview error:', error);
+      setPreviewError('Preview failed');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   // Handle bulk upload
   const handleBulkUpload = async () => {
-    if (!selectedOrganization || csvData.length === 0) return;
+    if (!organizationsReady || !organizationsMatched || csvData.length === 0) return;
 
     setIsUploading(true);
     setUploadResult(null);
+    setRetryError(null);
+    setActiveJob(null);
+    setRowOutcomes({});
+    setPreview(null);
+    setUploadedUsers(csvData);
+
+    if (!uploadKey.current) {
+      uploadKey.current = crypto.randomUUID();
+    }
 
     try {
       const res = await fetch('/api/bulk-upload', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': uploadKey.current,
         },
         body: JSON.stringify({
           users: csvData,
-          organizationId: selectedOrganization.id,
-          organizationName: selectedOrganization.properties.name,
+          ...organizationFields(),
+          conflictPolicy,
+          properCaseNames,
         }),
       });
 
-      const result: BulkUploadResult = await res.json();
-      setUploadResult(result);
+      const data = await res.json();
+      if (!res.ok) {
+        setUploadResult(uploadFailedResult(csvData.length, data.error?.message || 'Upload failed'));
+        setIsUploading(false);
+        return;
+      }
+
+      const job: BulkUploadJob = data.data;
+      window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, job.jobId);
+      setActiveJob(job);
+      streamJob(job.jobId);
     } catch (error) {
-      setUploadResult({
-        success: false,
-        total: csvData.length,
-        successful: 0,
-        failed: csvData.length,
-        errors: [{ row: 0, user: csvData[0], error: 'Upload failed' }],
+      console.error('Bulk upload error:', error);
+      setUploadResult(uploadFailedResult(csvData.length, 'Upload failed'));
+      setIsUploading(false);
+    }
+  };
+
+  // Resubmit only the rows that failed for a transient reason as a new job; its results are merged into the report
+  const handleRetryFailed = async () => {
+    const failures = uploadResult?.errors.filter(error => error.retryable && error.row > 0) || [];
+    if (!uploadResult || failures.length === 0) return;
+
+    setIsUploading(true);
+    setIsRetrying(true);
+    setRetryError(null);
+    setActiveJob(null);
+
+    try {
+      const res = await fetch('/api/bulk-upload', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': crypto.randomUUID(),
+        },
+        body: JSON.stringify({
+          users: failures.map(failure => failure.user),
+          ...organizationFields(),
+          conflictPolicy,
+          properCaseNames,
+        }),
       });
-    } finally {
+
+      const data = await res.json();
+      if (!res.ok) {
+        setRetryError(data.error?.message || 'Retry failed');
+        setIsUploading(false);
+        setIsRetrying(false);
+        return;
+      }
+
+      retriedRows.current = failures.map(failure => failure.row);
+      retryBaseResult.current = uploadResult;
+      const job: BulkUploadJob = data.data;
+      window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, job.jobId);
+      setActiveJob(job);
+      streamJob(job.jobId);
+    } catch (error) {
+      console.error('Bulk upload retry error:', error);
+      setRetryError('Retry failed');
       setIsUploading(false);
+      setIsRetrying(false);
+    }
+  };
+
+  const report = uploadResult ? buildReport(uploadedUsers, uploadResult, sourceLine) : [];
+  const retryableCount = uploadResult?.errors.filter(error => error.retryable && error.row > 0).length || 0;
+
+  const downloadReport = (format: 'csv' | 'json') => {
+    const filename = `bulk_upload_report_${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === 'json') {
+      downloadFile(JSON.stringify(report, null, 2), filename, 'application/json');
+      return;
     }
+
+    const columns: Array<keyof ReportRow> = [
+      'line', 'firstName', 'lastName', 'email', 'organization', 'outcome', 'contactId', 'errorCode', 'error', 'retryable',
+    ];
+    downloadFile(formatCsv([columns, ...report.map(reportRow => columns.map(column => reportRow[column]))]), filename, 'text/csv');
   };
 
-  // Download sample CSV template
+  const outcomeList = Object.values(rowOutcomes).sort((a, b) => a.row - b.row);
+  // A retry job only counts its own rows; earlier outcomes are already in the list
+  const finishedRows = isRetrying ? 0 : outcomeList.filter(outcome => outcome.status !== 'processing').length;
+  const progressPercent = activeJob && activeJob.progress.total > 0
+    ? Math.round((Math.max(activeJob.progress.processed, finishedRows) / activeJob.progress.total) * 100)
+    : 0;
+
+  // Download sample CSV template, with a column for each extra contact field
   const downloadTemplate = () => {
-    const csvContent = 'firstName,lastName,email\nJohn,Doe,john.doe@example.com\nJane,Smith,jane.smith@example.com';
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'bulk_upload_template.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
+    const csvContent = formatCsv([
+      ['firstName', 'lastName', 'email', ...contactFields.map(field => field.label)],
+      ['John', 'Doe', 'john.doe@example.com', ...contactFields.map(sampleFieldValue)],
+      ['Jane', 'Smith', 'jane.smith@example.com', ...contactFields.map(sampleFieldValue)],
+    ]);
+    downloadFile(csvContent, 'bulk_upload_template.csv', 'text/csv');
   };
 
+  // Extra contact fields with a value in any row get a column in the preview table
+  const previewFields = contactFields.filter(field => csvData.some(user => user.properties?.[field.name]));
+  const mappableFields: Array<{ field: MappingKey; label: string }> = [
+    ...MAPPED_FIELDS,
+    ...contactFields.map(field => ({ field: propertyMappingKey(field.name), label: `${field.label} (optional)` })),
+  ];
+
   return (
     <div className="space-y-6">
       {/* Download Template */}
@@ -170,21 +914,173 @@ export default function BulkUploadForm() {
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
           <Upload className="inline w-4 h-4 mr-1" />
-          Upload CSV File
+          Upload CSV or Excel File
         </label>
         <input
           type="file"
-          accept=".csv"
+          accept=".csv,.xlsx"
           onChange={handleFileSelect}
           className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
         />
-        {selectedFile && (
+        {sourceName && (
           <p className="mt-2 text-sm text-gray-600">
-            Selected: {selectedFile.name} ({csvData.length} users)
+            Selected: {sourceName} ({csvData.length} users)
           </p>
         )}
+        {importError && (
+          <p className="mt-2 text-sm text-red-600">{importError}</p>
+        )}
+        {worksheets.length > 1 && (
+          <div className="mt-2">
+            <label htmlFor="worksheet" className="block text-xs font-medium text-gray-600 mb-1">
+              Worksheet
+            </label>
+            <select
+              id="worksheet"
+              value={worksheetIndex}
+              onChange={(e) => selectWorksheet(Number(e.target.value))}
+              disabled={isUploading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {worksheets.map((worksheet, index) => (
+                <option key={index} value={index}>
+                  {worksheet.name} ({worksheet.records.length} rows)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
+      {/* Paste from Spreadsheet */}
+      <div>
+        <label htmlFor="pastedRows" className="block text-sm font-medium text-gray-700 mb-2">
+          <ClipboardPaste className="inline w-4 h-4 mr-1" />
+          Or Paste from a Spreadsheet
+        </label>
+        <textarea
+          id="pastedRows"
+          value={pastedText}
+          onChange={(e) => setPastedText(e.target.value)}
+          rows={4}
+          placeholder="Copy rows (including the header row) from Excel or Google Sheets and paste them here"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={handlePaste}
+          disabled={!pastedText.trim() || isUploading}
+          className="mt-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
+        >
+          Use Pasted Rows
+        </button>
+      </div>
+
+      {/* Column Mapping */}
+      {csvRecords.length > 0 && (
+        <div className="p-4 border border-gray-200 rounded-md">
+          <h3 className="text-sm font-medium text-gray-700">
+            <Columns className="inline w-4 h-4 mr-1" />
+            Column Mapping
+          </h3>
+          <p className="mt-1 text-sm text-gray-600">
+            {csvHeader
+              ? 'Columns were matched from the header row. Confirm or change which column feeds each field.'
+              : 'No header row found, so the columns are read as first name, last name, email.'}
+          </p>
+
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {mappableFields.map(({ field, label }) => (
+              <div key={field}>
+                <label htmlFor={`mapping-${field}`} className="block text-xs font-medium text-gray-600 mb-1">
+                  {label}
+                </label>
+                <select
+                  id={`mapping-${field}`}
+                  value={columnMapping[field] ?? ''}
+                  onChange={(e) => updateColumnMapping(field, e.target.value)}
+                  disabled={isUploading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Not mapped</option>
+                  {columnOptions.map((option) => (
+                    <option key={option.index} value={option.index}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          {columnMapping.fullName !== undefined && (
+            <p className="mt-2 text-xs text-gray-500">
+              Full names are split at the first space (&quot;Jane Doe&quot;) or at a comma (&quot;Doe, Jane&quot;) when the first or last name column is empty or not mapped.
+            </p>
+          )}
+          {!mappingComplete && (
+            <p className="mt-2 text-sm text-red-600">
+              Map the email column and either first and last name or a full name column.
+            </p>
+          )}
+
+          {/* Presets are matched by header name, so they need a header row */}
+          {csvHeader && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {applicablePresets.length > 0 && (
+                <>
+                  <select
+                    value={activePreset}
+                    onChange={(e) => selectMappingPreset(e.target.value)}
+                    disabled={isUploading}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="" disabled>Saved presets...</option>
+                    {applicablePresets.map((preset) => (
+                      <option key={preset.name} value={preset.name}>{preset.name}</option>
+                    ))}
+                  </select>
+                  {activePreset && (
+                    <button
+                      onClick={() => deleteMappingPreset(activePreset)}
+                      disabled={isUploading}
+                      className="px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Delete preset
+                    </button>
+                  )}
+                </>
+              )}
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name, e.g. Okta export"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                onClick={saveMappingPreset}
+                disabled={!presetName.trim() || !mappingComplete || isUploading}
+                className="px-3 py-2 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
+              >
+                Save mapping
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Line Issues */}
+      {csvIssues.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <h4 className="flex items-center text-sm font-medium text-yellow-800">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {csvIssues.length} {csvIssues.length === 1 ? 'line needs' : 'lines need'} attention
+          </h4>
+          <ul className="mt-1 max-h-32 overflow-auto text-sm text-yellow-700 space-y-1">
+            {csvIssues.map((issue, index) => (
+              <li key={index}>Line {issue.line}: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* CSV Preview */}
       {csvData.length > 0 && (
         <div>
@@ -196,22 +1092,32 @@ export default function BulkUploadForm() {
             <table className="w-full text-sm">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="px-3 py-2 text-left">Line</th>
                   <th className="px-3 py-2 text-left">First Name</th>
                   <th className="px-3 py-2 text-left">Last Name</th>
                   <th className="px-3 py-2 text-left">Email</th>
+                  {hasRowOrganizations && <th className="px-3 py-2 text-left">Organization</th>}
+                  {previewFields.map(field => (
+                    <th key={field.name} className="px-3 py-2 text-left">{field.label}</th>
+                  ))}
                 </tr>
               </thead>
               <tbody>
                 {csvData.slice(0, 5).map((user, index) => (
                   <tr key={index} className="border-t">
+                    <td className="px-3 py-2">{csvLines[index]}</td>
                     <td className="px-3 py-2">{user.firstName}</td>
                     <td className="px-3 py-2">{user.lastName}</td>
                     <td className="px-3 py-2">{user.email}</td>
+                    {hasRowOrganizations && <td className="px-3 py-2">{user.organizationName}</td>}
+                    {previewFields.map(field => (
+                      <td key={field.name} className="px-3 py-2">{user.properties?.[field.name]}</td>
+                    ))}
                   </tr>
                 ))}
                 {csvData.length > 5 && (
                   <tr className="border-t">
-                    <td colSpan={3} className="px-3 py-2 text-gray-500 italic">
+                    <td colSpan={(hasRowOrganizations ? 5 : 4) + previewFields.length} className="px-3 py-2 text-gray-500 italic">
                       ... and {csvData.length - 5} more users
                     </td>
                   </tr>
@@ -222,12 +1128,19 @@ export default function BulkUploadForm() {
         </div>
       )}
 
-      {/* Organization Selection */}
-      {csvData.length > 0 && (
+      {/* Organization Selection (only needed for rows without their own organization) */}
+      {csvData.length > 0 && hasRowOrganizations && (
+        <p className="text-sm text-gray-600">
+          <Building2 className="inline w-4 h-4 mr-1" />
+          Rows are matched to HubSpot companies by their organization column. Preview the changes to review the
+          matches and pick a company for names without a clear match.
+        </p>
+      )}
+      {csvData.length > 0 && needsDefaultOrganization && (
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             <Building2 className="inline w-4 h-4 mr-1" />
-            Select Organization
+            {hasRowOrganizations ? 'Select Organization for Rows Without One' : 'Select Organization'}
           </label>
           <div className="flex space-x-2">
             <input
@@ -280,22 +1193,301 @@ export default function BulkUploadForm() {
         </div>
       )}
 
-      {/* Upload Button */}
-      {csvData.length > 0 && selectedOrganization && (
-        <button
-          onClick={handleBulkUpload}
-          disabled={isUploading}
-          className="w-full flex justify-center items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
-        >
-          {isUploading ? (
-            <>
+      {/* Existing Contact Handling */}
+      {csvData.length > 0 && organizationsReady && (
+        <div>
+          <label htmlFor="conflictPolicy" className="block text-sm font-medium text-gray-700 mb-2">
+            If a contact with the same email already exists
+          </label>
+          <select
+            id="conflictPolicy"
+            value={conflictPolicy}
+            onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+            disabled={isUploading}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {CONFLICT_POLICY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <label htmlFor="properCaseNames" className="mt-3 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              id="properCaseNames"
+              checked={properCaseNames}
+              onChange={(e) => setProperCaseNames(e.target.checked)}
+              disabled={isUploading}
+              className="mr-2 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Capitalize names written in all capitals or lowercase (&quot;JOHN o&apos;neil&quot; becomes &quot;John O&apos;Neil&quot;)
+          </label>
+        </div>
+      )}
+
+      {/* Upload Buttons */}
+      {csvData.length > 0 && organizationsReady && (
+        <div className="flex space-x-3">
+          <button
+            onClick={handlePreview}
+            disabled={isUploading || isPreviewing}
+            className="flex justify-center items-center px-4 py-2 bg-white text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+          >
+            {isPreviewing ? (
               <Loader2 className="animate-spin w-4 h-4 mr-2" />
-              Uploading Users...
-            </>
-          ) : (
-            `Upload ${csvData.length} Users to ${selectedOrganization.properties.name}`
-          )}
-        </button>
+            ) : (
+              <Eye className="w-4 h-4 mr-2" />
+            )}
+            Preview changes
+          </button>
+          <button
+            onClick={handleBulkUpload}
+            disabled={isUploading || isPreviewing || !organizationsMatched}
+            className="flex-1 flex justify-center items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isUploading ? (
+              <>
+                <Loader2 className="animate-spin w-4 h-4 mr-2" />
+                Uploading Users...
+              </>
+            ) : (
+              `Upload ${csvData.length} Users to ${hasRowOrganizations ? 'Their Organizations' : selectedOrganization?.properties.name}`
+            )}
+          </button>
+        </div>
+      )}
+      {csvData.length > 0 && organizationsReady && !organizationsMatched && !isUploading && (
+        <p className="text-sm text-gray-600">
+          {preview
+            ? `Pick a company for ${unresolvedGroups.length} organization ${unresolvedGroups.length === 1 ? 'name' : 'names'} in the preview below to upload.`
+            : 'Preview the changes to match each organization in the file to a HubSpot company before uploading.'}
+        </p>
+      )}
+
+      {/* Dry-run Preview */}
+      {previewError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md flex items-start">
+          <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-red-700">{previewError}</p>
+        </div>
+      )}
+      {preview && (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-md">
+          <h3 className="text-sm font-medium text-gray-800">Preview (no changes made)</h3>
+          <p className="mt-1 text-sm text-gray-600">{preview.message}</p>
+          <div className="mt-2 flex space-x-4 text-sm">
+            <span className="text-green-700">Would create: {preview.data.toCreate}</span>
+            {preview.data.toUpdate > 0 && <span className="text-blue-700">Would update: {preview.data.toUpdate}</span>}
+            {preview.data.toSkip > 0 && <span className="text-gray-700">Would skip: {preview.data.toSkip}</span>}
+            <span className="text-red-700">Would reject: {preview.data.toReject}</span>
+          </div>
+          <div className="mt-3 max-h-60 overflow-auto border border-gray-200 rounded-md bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">Line</th>
+                  <th className="px-3 py-2 text-left">Name</th>
+                  <th className="px-3 py-2 text-left">Email</th>
+                  <th className="px-3 py-2 text-left">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previewGroups.map((group) => (
+                  <Fragment key={group.key}>
+                    {preview.data.organizations.length > 0 && (
+                      <tr className={`border-t ${group.company ? 'bg-gray-100' : 'bg-yellow-50'}`}>
+                        <td colSpan={4} className="px-3 py-2">
+                          {group.company ? (
+                            <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                              <span className="flex items-center font-medium text-gray-800">
+                                <Building2 className="w-4 h-4 mr-1" />
+                                {group.company.name} ({group.rows.length} {group.rows.length === 1 ? 'row' : 'rows'})
+                              </span>
+                              {group.isDefault && <span className="text-gray-500">Selected organization</span>}
+                              {group.names.map((entry) => (
+                                <span key={entry.name} className="text-gray-600">
+                                  &quot;{entry.name}&quot;{' '}
+                                  {entry.picked ? 'picked' : `${Math.round((entry.similarity || 0) * 100)}% match`}
+                                  {entry.picked && (
+                                    <button
+                                      onClick={() => pickCompany(entry.name, undefined)}
+                                      disabled={isUploading}
+                                      className="ml-1 text-indigo-600 hover:underline disabled:opacity-50"
+                                    >
+                                      Change
+                                    </button>
+                                  )}
+                                </span>
+                              ))}
+                            </div>
+                          ) : group.unresolved ? (
+                            <div className="space-y-2">
+                              <p className="flex items-center text-yellow-800">
+                                <AlertTriangle className="w-4 h-4 mr-1" />
+                                &quot;{group.unresolved.name}&quot; ({group.rows.length} {group.rows.length === 1 ? 'row' : 'rows'}):{' '}
+                                {group.unresolved.candidates.length > 0
+                                  ? 'no clear match, pick a company'
+                                  : 'no matching company found, search for one'}
+                              </p>
+                              <div className="flex flex-wrap gap-2">
+                                {[
+                                  ...group.unresolved.candidates.map((candidate): OrganizationMatch => ({
+                                    id: candidate.id,
+                                    properties: { name: candidate.name },
+                                    similarity: candidate.similarity,
+                                  })),
+                                  ...(nameSearches[group.unresolved.name]?.matches || []),
+                                ]
+                                  .filter((match, index, matches) => matches.findIndex(other => other.id === match.id) === index)
+                                  .map((match) => (
+                                    <button
+                                      key={match.id}
+                                      onClick={() => pickCompany(group.unresolved!.name, match)}
+                                      disabled={isUploading}
+                                      className="px-2 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                                    >
+                                      {match.properties.name} ({Math.round((match.similarity || 0) * 100)}% match)
+                                    </button>
+                                  ))}
+                              </div>
+                              <div className="flex space-x-2">
+                                <input
+                                  type="text"
+                                  value={nameSearches[group.unresolved.name]?.term ?? ''}
+                                  onChange={(e) => {
+                                    const name = group.unresolved!.name;
+                                    const term = e.target.value;
+                                    setNameSearches(prev => ({ ...prev, [name]: { term, matches: prev[name]?.matches || [] } }));
+                                  }}
+                                  placeholder="Search for another company..."
+                                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                />
+                                <button
+                                  onClick={() => searchForName(group.unresolved!.name)}
+                                  disabled={!nameSearches[group.unresolved.name]?.term.trim()}
+                                  className="px-3 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
+                                >
+                                  Search
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-gray-600">&quot;{group.organizationName}&quot; (rows that cannot be uploaded)</span>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                    {group.rows.map((previewRow) => (
+                      <tr key={previewRow.row} className="border-t">
+                        <td className="px-3 py-2">{sourceLine(previewRow.row)}</td>
+                        <td className="px-3 py-2">{previewRow.user.firstName} {previewRow.user.lastName}</td>
+                        <td className="px-3 py-2">{previewRow.user.email}</td>
+                        <td className="px-3 py-2">
+                          {previewRow.action === 'create' && <span className="text-green-700">Create</span>}
+                          {previewRow.action === 'update' && (
+                            <span className="text-blue-700">Update contact {previewRow.existingContactId}</span>
+                          )}
+                          {previewRow.action === 'skip' && (
+                            <span className="text-gray-600">Skip (contact {previewRow.existingContactId} exists)</span>
+                          )}
+                          {previewRow.action === 'reject' && (
+                            <span className="text-red-700" title={previewRow.error}>
+                              Reject{previewRow.errorCode ? ` (${previewRow.errorCode})` : ''}: {previewRow.error}
+                              {previewRow.existingContactId ? ` (contact ${previewRow.existingContactId})` : ''}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Job Progress (also shown after a reload while a job is still running) */}
+      {isUploading && activeJob && (
+        <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-md">
+          <div className="flex items-center justify-between text-sm text-indigo-800">
+            <span className="flex items-center">
+              <Loader2 className="animate-spin w-4 h-4 mr-2" />
+              Uploading to {activeJob.organizationName}
+            </span>
+            <span>
+              {Math.max(activeJob.progress.processed, finishedRows)} of {activeJob.progress.total} users processed
+            </span>
+          </div>
+          <div className="mt-2 w-full h-2 bg-indigo-100 rounded-full overflow-hidden">
+            <div
+              className="h-2 bg-indigo-600 rounded-full transition-all duration-300"
+              style={{ width: `${progressPercent}%` }}
+            />
+          </div>
+          <p className="mt-2 text-xs text-indigo-600">
+            You can safely reload this page; the upload continues on the server.
+          </p>
+        </div>
+      )}
+
+      {/* Live Row Outcomes */}
+      {outcomeList.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            Row Outcomes ({(['created', 'updated', 'skipped', 'failed'] as RowStatus[])
+              .map(status => `${outcomeList.filter(outcome => outcome.status === status).length} ${status}`)
+              .join(', ')})
+          </h3>
+          <div className="max-h-60 overflow-auto border border-gray-200 rounded-md">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">Line</th>
+                  <th className="px-3 py-2 text-left">Name</th>
+                  <th className="px-3 py-2 text-left">Email</th>
+                  <th className="px-3 py-2 text-left">Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outcomeList.map((outcome) => (
+                  <tr key={outcome.row} className="border-t">
+                    <td className="px-3 py-2">{sourceLine(outcome.row)}</td>
+                    <td className="px-3 py-2">{outcome.user?.firstName} {outcome.user?.lastName}</td>
+                    <td className="px-3 py-2">{outcome.user?.email}</td>
+                    <td className="px-3 py-2">
+                      {outcome.status === 'processing' && (
+                        <span className="flex items-center text-gray-500">
+                          <Loader2 className="animate-spin w-3 h-3 mr-1" />
+                          Processing
+                        </span>
+                      )}
+                      {outcome.status === 'created' && (
+                        <span className="text-green-700">
+                          Created (ID {outcome.contactId}){outcome.resumed ? ' in an earlier attempt' : ''}
+                        </span>
+                      )}
+                      {outcome.status === 'updated' && (
+                        <span className="text-blue-700">
+                          Updated existing contact (ID {outcome.contactId}){outcome.resumed ? ' in an earlier attempt' : ''}
+                        </span>
+                      )}
+                      {outcome.status === 'skipped' && (
+                        <span className="text-gray-600">
+                          Skipped, contact already exists (ID {outcome.contactId})
+                        </span>
+                      )}
+                      {outcome.status === 'failed' && (
+                        <span className="text-red-700" title={outcome.error}>
+                          Failed{outcome.errorCode ? ` (${outcome.errorCode})` : ''}{outcome.resumed ? ' in an earlier attempt' : ''}: {outcome.error}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
       )}
 
       {/* Upload Results */}
@@ -314,9 +1506,17 @@ export default function BulkUploadForm() {
               <div className="mt-2 text-sm">
                 <p>Total: {uploadResult.total}</p>
                 <p className="text-green-600">Successful: {uploadResult.successful}</p>
+                {(!!uploadResult.updated || !!uploadResult.skipped) && (
+                  <p className="text-gray-600">
+                    Created: {uploadResult.created || 0}, updated: {uploadResult.updated || 0}, skipped: {uploadResult.skipped || 0}
+                  </p>
+                )}
                 {uploadResult.failed > 0 && (
                   <p className="text-red-600">Failed: {uploadResult.failed}</p>
                 )}
+                {!!uploadResult.resumed && (
+                  <p className="text-gray-600">Resumed from an earlier attempt: {uploadResult.resumed}</p>
+                )}
               </div>
 
               {uploadResult.errors.length > 0 && (
@@ -325,15 +1525,48 @@ export default function BulkUploadForm() {
                   <ul className="mt-1 text-sm text-red-700 space-y-1">
                     {uploadResult.errors.slice(0, 5).map((error, index) => (
                       <li key={index}>
-                        Row {error.row + 1}: {error.user.firstName} {error.user.lastName} - {error.error}
+                        Line {sourceLine(error.row)}: {error.user.firstName} {error.user.lastName} - {error.error}
                       </li>
                     ))}
                     {uploadResult.errors.length > 5 && (
-                      <li>... and {uploadResult.errors.length - 5} more errors</li>
+                      <li>... and {uploadResult.errors.length - 5} more errors (download the report for the full list)</li>
                     )}
                   </ul>
                 </div>
               )}
+
+              {retryError && (
+                <p className="mt-3 text-sm text-red-700">Retry failed: {retryError}</p>
+              )}
+
+              {report.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <button
+                    onClick={() => downloadReport('csv')}
+                    className="flex items-center px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <FileDown className="w-4 h-4 mr-1" />
+                    Download report (CSV)
+                  </button>
+                  <button
+                    onClick={() => downloadReport('json')}
+                    className="flex items-center px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <FileDown className="w-4 h-4 mr-1" />
+                    Download report (JSON)
+                  </button>
+                  {retryableCount > 0 && (
+                    <button
+                      onClick={handleRetryFailed}
+                      disabled={isUploading}
+                      className="flex items-center px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Retry {retryableCount} failed {retryableCount === 1 ? 'row' : 'rows'}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload, UserMinus, CheckCircle, AlertCircle, Loader2, Mail } from 'lucide-react';
+import { parseCsv } from '@/lib/csv';
+
+type DeactivationOutcome = 'deactivated' | 'already_inactive' | 'not_found' | 'failed';
+
+interface DeactivationRow {
+  row: number;
+  email: string;
+  outcome: DeactivationOutcome;
+  contactId?: string;
+  removedCompanyIds?: string[];
+  error?: string;
+  errorCode?: string;
+}
+
+interface DeactivationResult {
+  success: boolean;
+  total: number;
+  deactivated: number;
+  alreadyInactive: number;
+  notFound: number;
+  failed: number;
+  reason: string;
+  rows: DeactivationRow[];
+}
+
+const MAX_REASON_LENGTH = 500;
+
+// Split pasted text into emails (one per line, or separated by commas, semicolons or spaces)
+const parseEmailList = (text: string): string[] =>
+  text.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean);
+
+// Take the "email" column of a CSV file, or the first column when there is no such header
+const parseEmailCsv = (text: string): string[] => {
+  const { records } = parseCsv(text);
+  if (records.length === 0) return [];
+
+  const header = records[0].fields.map(field => field.trim().toLowerCase());
+  const emailColumn = header.indexOf('email');
+  const dataRecords = emailColumn >= 0 ? records.slice(1) : records;
+  const column = Math.max(emailColumn, 0);
+
+  return dataRecords
+    .map(record => (record.fields[column] || '').trim())
+    .filter(email => email.includes('@'));
+};
+
+export default function DeactivateUserForm() {
+  const [emailText, setEmailText] = useState('');
+  const [reason, setReason] = useState('');
+  const [removeCompanyAssociation, setRemoveCompanyAssociation] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<{ data: DeactivationResult; message: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const emails = parseEmailList(emailText);
+
+  // Load the emails from a CSV file into the list so they can be reviewed before submitting
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setSelectedFile(file);
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      setEmailText(parseEmailCsv(text).join('\n'));
+    };
+
+    reader.readAsText(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (emails.length === 0 || !reason.trim()) return;
+
+    setIsSubmitting(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/deactivate-user', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          emails,
+          reason: reason.trim(),
+          removeCompanyAssociation,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error?.message || 'Deactivation failed');
+        return;
+      }
+
+      setResult({ data: data.data, message: data.message });
+    } catch (error) {
+      console.error('Deactivation error:', error);
+      setError('Network error. Please check your connection and try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Email List */}
+      <div>
+        <label htmlFor="emails" className="block text-sm font-medium text-gray-700 mb-2">
+          <Mail className="inline w-4 h-4 mr-1" />
+          Emails to deactivate *
+        </label>
+        <textarea
+          id="emails"
+          value={emailText}
+          onChange={(e) => setEmailText(e.target.value)}
+          rows={5}
+          placeholder={'john.doe@example.com\njane.smith@example.com'}
+          disabled={isSubmitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <p className="mt-1 text-sm text-gray-500">One email per line ({emails.length} entered)</p>
+      </div>
+
+      {/* CSV Upload */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <Upload className="inline w-4 h-4 mr-1" />
+          Or load emails from a CSV file
+        </label>
+        <input
+          type="file"
+          accept=".csv"
+          onChange={handleFileSelect}
+          disabled={isSubmitting}
+          className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+        />
+        {selectedFile && (
+          <p className="mt-2 text-sm text-gray-600">
+            Selected: {selectedFile.name} (uses the &quot;email&quot; column, or the first column)
+          </p>
+        )}
+      </div>
+
+      {/* Reason */}
+      <div>
+        <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-2">
+          Reason *
+        </label>
+        <input
+          type="text"
+          id="reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={MAX_REASON_LENGTH}
+          placeholder="e.g. Left the company"
+          disabled={isSubmitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      {/* Company Association */}
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={removeCompanyAssociation}
+          onChange={(e) => setRemoveCompanyAssociation(e.target.checked)}
+          disabled={isSubmitting}
+          className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Remove the company association
+      </label>
+
+      <button
+        type="submit"
+        disabled={isSubmitting || emails.length === 0 || !reason.trim()}
+        className="w-full flex justify-center items-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="animate-spin w-4 h-4 mr-2" />
+            Deactivating...
+          </>
+        ) : (
+          <>
+            <UserMinus className="w-4 h-4 mr-2" />
+            Deactivate {emails.length === 1 ? '1 User' : `${emails.length} Users`}
+          </>
+        )}
+      </button>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md flex items-start">
+          <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Results */}
+      {result && (
+        <div className={`p-4 rounded-md ${result.data.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
+          <div className="flex items-start">
+            {result.data.success ? (
+              <CheckCircle className="w-5 h-5 text-green-400 mt-0.5 mr-2 flex-shrink-0" />
+            ) : (
+              <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 mr-2 flex-shrink-0" />
+            )}
+            <div className="flex-1">
+              <h3 className={`text-sm font-medium ${result.data.success ? 'text-green-800' : 'text-red-800'}`}>
+                Deactivation Complete
+              </h3>
+              <p className="mt-1 text-sm text-gray-600">{result.message}</p>
+            </div>
+          </div>
+          <div className="mt-3 max-h-60 overflow-auto border border-gray-200 rounded-md bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">Row</th>
+                  <th className="px-3 py-2 text-left">Email</th>
+                  <th className="px-3 py-2 text-left">Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.data.rows.map((row) => (
+                  <tr key={row.row} className="border-t">
+                    <td className="px-3 py-2">{row.row}</td>
+                    <td className="px-3 py-2">{row.email}</td>
+                    <td className="px-3 py-2">
+                      {row.outcome === 'deactivated' && (
+                        <span className="text-green-700">
+                          Deactivated (ID {row.contactId})
+                          {row.removedCompanyIds?.length
+                            ? `, company association removed (${row.removedCompanyIds.join(', ')})`
+                            : ''}
+                        </span>
+                      )}
+                      {row.outcome === 'already_inactive' && (
+                        <span className="text-gray-600">Already inactive (ID {row.contactId})</span>
+                      )}
+                      {row.outcome === 'not_found' && (
+                        <span className="text-yellow-700">No contact with this email</span>
+                      )}
+                      {row.outcome === 'failed' && (
+                        <span className="text-red-700" title={row.error}>
+                          Failed{row.errorCode ? ` (${row.errorCode})` : ''}: {row.error}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface CircuitStatus {
+  state: 'closed' | 'open' | 'half-open';
+  retryAt?: string;
+}
+
+// Checked more often while HubSpot is unavailable, so the banner goes away soon after it recovers
+const POLL_INTERVAL_MS = 60 * 1000;
+const DEGRADED_POLL_INTERVAL_MS = 10 * 1000;
+
+// Banner shown while the HubSpot circuit breaker has paused calls (see /api/health)
+export default function HubSpotStatusBanner() {
+  const [circuit, setCircuit] = useState<CircuitStatus | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const check = async () => {
+      let next: CircuitStatus | null = null;
+      try {
+        const res = await fetch('/api/health', { cache: 'no-store' });
+        next = (await res.json()).hubspotCircuit || null;
+      } catch (error) {
+        console.error('Health check error:', error);
+      }
+      if (cancelled) return;
+      setCircuit(next);
+      timer = setTimeout(check, next && next.state !== 'closed' ? DEGRADED_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+    };
+
+    check();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, []);
+
+  if (!circuit || circuit.state === 'closed') return null;
+
+  return (
+    <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-md" role="status">
+      <h4 className="flex items-center text-sm font-medium text-yellow-800">
+        <AlertTriangle className="w-4 h-4 mr-1" />
+        HubSpot is currently unavailable
+      </h4>
+      <p className="mt-1 text-sm text-yellow-700">
+        Creating, updating and deactivating users is paused.
+        {circuit.state === 'half-open'
+          ? ' Checking whether HubSpot has recovered...'
+          : circuit.retryAt && ` HubSpot will be checked again at ${new Date(circuit.retryAt).toLocaleTimeString()}.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Building2, CheckCircle, Loader2, RefreshCw, Search, X } from 'lucide-react';
+
+interface OrganizationReview {
+  id: string;
+  contactId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  organizationName?: string;
+  createdAt: string;
+}
+
+interface OrganizationMatch {
+  id: string;
+  properties: {
+    name: string;
+    domain?: string;
+  };
+}
+
+// Company search for one review: the query, its matches and the company picked from them
+interface ReviewSearch {
+  query: string;
+  matches: OrganizationMatch[] | null; // null until searched
+  companyId: string;
+}
+
+// Contacts provisioned from Okta without a company, for admins to associate with the right one
+export default function OrganizationReviews() {
+  const [reviews, setReviews] = useState<OrganizationReview[]>([]);
+  const [searches, setSearches] = useState<Record<string, ReviewSearch>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyReviewId, setBusyReviewId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/organization-reviews', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || `HTTP ${res.status}`);
+      setReviews(data.data.reviews);
+    } catch (error) {
+      console.error('Organization reviews error:', error);
+      setError(error instanceof Error ? error.message : 'Organization reviews could not be loaded');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const searchFor = (review: OrganizationReview): ReviewSearch =>
+    searches[review.id] ?? { query: review.organizationName || '', matches: null, companyId: '' };
+
+  const updateSearch = (reviewId: string, search: ReviewSearch) => {
+    setSearches(current => ({ ...current, [reviewId]: search }));
+  };
+
+  const searchCompanies = async (review: OrganizationReview) => {
+    const search = searchFor(review);
+    setBusyReviewId(review.id);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/search-organizations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationName: search.query }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || `HTTP ${res.status}`);
+      const matches: OrganizationMatch[] = data.data?.matches || [];
+      updateSearch(review.id, { ...search, matches, companyId: matches[0]?.id || '' });
+    } catch (error) {
+      console.error('Organization search error:', error);
+      setError(error instanceof Error ? error.message : 'Companies could not be searched');
+    } finally {
+      setBusyReviewId(null);
+    }
+  };
+
+  // Assign the picked company (POST) or dismiss the review (DELETE), then show the outcome and reload the list
+  const runAction = async (reviewId: string, method: 'POST' | 'DELETE', companyId?: string) => {
+    setBusyReviewId(reviewId);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/organization-reviews/${reviewId}`, {
+        method,
+        ...(companyId && { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ companyId }) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error?.message || 'The action failed');
+      } else {
+        setMessage(data.message);
+      }
+    } catch (error) {
+      console.error('Organization review action error:', error);
+      setError('Network error. Please check your connection and try again.');
+    } finally {
+      setBusyReviewId(null);
+      await loadReviews();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Users provisioned from Okta whose organization did not match a HubSpot company. Pick the company to associate them with.
+        </p>
+        <button
+          type="button"
+          onClick={loadReviews}
+          disabled={isLoading}
+          className="flex items-center px-3 py-1 text-sm text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-md flex items-start">
+          <CheckCircle className="w-5 h-5 text-green-400 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md flex items-start">
+          <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {!isLoading && reviews.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-6">No users waiting for an organization.</p>
+      )}
+
+      <ul className="space-y-3">
+        {reviews.map(review => {
+          const isBusy = busyReviewId === review.id;
+          const search = searchFor(review);
+
+          return (
+            <li key={review.id} className="p-4 border border-gray-200 rounded-md">
+              <h4 className="text-sm font-medium text-gray-900">
+                {review.firstName} {review.lastName} &lt;{review.email}&gt;
+              </h4>
+              <p className="mt-1 text-sm text-gray-600">
+                {review.organizationName ? `Organization in Okta: "${review.organizationName}"` : 'No organization in Okta'}
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                Contact {review.contactId}, provisioned {new Date(review.createdAt).toLocaleString()}
+              </p>
+
+              <div className="mt-3 flex space-x-2">
+                <input
+                  type="text"
+                  value={search.query}
+                  onChange={(e) => updateSearch(review.id, { ...search, query: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && search.query.trim()) searchCompanies(review);
+                  }}
+                  placeholder="Company name"
+                  disabled={isBusy}
+                  className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => searchCompanies(review)}
+                  disabled={isBusy || !search.query.trim()}
+                  className="flex items-center px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Search className="w-4 h-4 mr-1" />
+                  Search
+                </button>
+              </div>
+
+              {search.matches?.length === 0 && (
+                <p className="mt-2 text-sm text-gray-500">No companies found matching &quot;{search.query}&quot;.</p>
+              )}
+              {search.matches && search.matches.length > 0 && (
+                <select
+                  value={search.companyId}
+                  onChange={(e) => updateSearch(review.id, { ...search, companyId: e.target.value })}
+                  disabled={isBusy}
+                  className="mt-2 w-full px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {search.matches.map(match => (
+                    <option key={match.id} value={match.id}>
+                      {match.properties.name}{match.properties.domain ? ` (${match.properties.domain})` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <div className="mt-3 flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => runAction(review.id, 'POST', search.companyId)}
+                  disabled={isBusy || !search.companyId}
+                  className="flex items-center px-3 py-1 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {isBusy ? <Loader2 className="animate-spin w-4 h-4 mr-1" /> : <Building2 className="w-4 h-4 mr-1" />}
+                  Associate
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Dismiss the review of ${review.email}? The contact stays without a company.`)) {
+                      runAction(review.id, 'DELETE');
+                    }
+                  }}
+                  disabled={isBusy}
+                  className="flex items-center px-3 py-1 text-sm text-red-700 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Dismiss
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Clock, Loader2, Pencil, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { useCurrentUser } from '@/contexts/CurrentUserContext';
+
+interface OutboxEntry {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  organizationName: string;
+  companyId?: string;
+  companyName?: string;
+  status: 'pending' | 'failed';
+  contactId?: string; // Created without its email by the attempt that failed; completed when sent
+  attempts: number;
+  lastError?: { message: string; code: string };
+  createdAt: string;
+}
+
+type EditableFields = Pick<OutboxEntry, 'firstName' | 'lastName' | 'email' | 'organizationName'>;
+
+const EDITABLE_FIELDS: Array<{ name: keyof EditableFields; label: string }> = [
+  { name: 'firstName', label: 'First name' },
+  { name: 'lastName', label: 'Last name' },
+  { name: 'email', label: 'Email' },
+  { name: 'organizationName', label: 'Organization' },
+];
+
+// User creations queued while HubSpot was unavailable, with retry, edit and discard for admins
+export default function PendingCreations() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; fields: EditableFields } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canManage = useCurrentUser().can('admin');
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/outbox', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || `HTTP ${res.status}`);
+      setEntries(data.data.entries);
+      setEnabled(data.data.enabled);
+    } catch (error) {
+      console.error('Outbox error:', error);
+      setError(error instanceof Error ? error.message : 'Pending creations could not be loaded');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Run an action on one entry, then show its outcome and reload the list
+  const runAction = async (entryId: string, method: 'POST' | 'PATCH' | 'DELETE', body?: EditableFields) => {
+    setBusyEntryId(entryId);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/outbox/${entryId}`, {
+        method,
+        ...(body && { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error?.message || 'The action failed');
+      } else {
+        setMessage(data.message);
+        if (method === 'PATCH') setEditing(null);
+      }
+    } catch (error) {
+      console.error('Outbox action error:', error);
+      setError('Network error. Please check your connection and try again.');
+    } finally {
+      setBusyEntryId(null);
+      await loadEntries();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Users submitted while HubSpot was unavailable. They are created automatically, in order, once it recovers.
+        </p>
+        <button
+          type="button"
+          onClick={loadEntries}
+          disabled={isLoading}
+          className="flex items-center px-3 py-1 text-sm text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {!enabled && (
+        <p className="text-sm text-gray-500">
+          The outbox is turned off, so creations fail while HubSpot is unavailable (set OUTBOX_ENABLED=true and OUTBOX_FILE to a persistent path to queue them).
+        </p>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-md flex items-start">
+          <CheckCircle className="w-5 h-5 text-green-400 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md flex items-start">
+          <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {!isLoading && entries.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-6">No pending user creations.</p>
+      )}
+
+      <ul className="space-y-3">
+        {entries.map(entry => {
+          const isBusy = busyEntryId === entry.id;
+          const isEditing = editing?.id === entry.id;
+
+          return (
+            <li key={entry.id} className="p-4 border border-gray-200 rounded-md">
+              {isEditing ? (
+                <div className="grid grid-cols-2 gap-3">
+                  {EDITABLE_FIELDS.map(field => (
+                    <label key={field.name} className="block text-sm font-medium text-gray-700">
+                      {field.label}
+                      <input
+                        type="text"
+                        value={editing.fields[field.name]}
+                        onChange={(e) => setEditing({ id: entry.id, fields: { ...editing.fields, [field.name]: e.target.value } })}
+                        disabled={isBusy}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <div>
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-900">
+                      {entry.firstName} {entry.lastName} &lt;{entry.email}&gt;
+                    </h4>
+                    {entry.status === 'failed' ? (
+                      <span className="text-xs font-medium text-red-700">Needs editing</span>
+                    ) : (
+                      <span className="flex items-center text-xs font-medium text-yellow-700">
+                        <Clock className="w-3 h-3 mr-1" />
+                        Pending
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-1 text-sm text-gray-600">
+                    {entry.organizationName}
+                    {entry.companyName ? ` (company "${entry.companyName}")` : ' (company matched when sent)'}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Queued {new Date(entry.createdAt).toLocaleString()}
+                    {entry.attempts > 0 && `, ${entry.attempts} ${entry.attempts === 1 ? 'retry' : 'retries'}`}
+                  </p>
+                  {entry.contactId && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Contact {entry.contactId} was created without its email; sending completes it.
+                    </p>
+                  )}
+                  {entry.lastError && (
+                    <p className={`mt-1 text-xs ${entry.status === 'failed' ? 'text-red-700' : 'text-gray-500'}`}>
+                      Last error ({entry.lastError.code}): {entry.lastError.message}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {canManage && (
+                <div className="mt-3 flex justify-end space-x-2">
+                  {isEditing ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        disabled={isBusy}
+                        className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => runAction(entry.id, 'PATCH', editing.fields)}
+                        disabled={isBusy}
+                        className="flex items-center px-3 py-1 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        {isBusy && <Loader2 className="animate-spin w-4 h-4 mr-1" />}
+                        Save
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => runAction(entry.id, 'POST')}
+                        disabled={isBusy}
+                        className="flex items-center px-3 py-1 text-sm text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                      >
+                        {isBusy ? <Loader2 className="animate-spin w-4 h-4 mr-1" /> : <RotateCcw className="w-4 h-4 mr-1" />}
+                        Retry now
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing({
+                          id: entry.id,
+                          fields: { firstName: entry.firstName, lastName: entry.lastName, email: entry.email, organizationName: entry.organizationName },
+                        })}
+                        disabled={isBusy}
+                        className="flex items-center px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (window.confirm(`Discard the creation of ${entry.email}? It will not be sent to HubSpot.`)) {
+                            runAction(entry.id, 'DELETE');
+                          }
+                        }}
+                        disabled={isBusy}
+                        className="flex items-center px-3 py-1 text-sm text-red-700 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Discard
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { LogOut, UserCircle } from 'lucide-react';
+import { useCurrentUser } from '@/contexts/CurrentUserContext';
+
+// Who is signed in and with which roles, with a button to sign out; hidden when sign-in is turned off
+export default function SignedInUser() {
+  const { user, roles } = useCurrentUser();
+
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center justify-center text-sm text-gray-700">
+      <UserCircle className="w-4 h-4 mr-1" />
+      <span title={user.email}>{user.name || user.email || user.sub}</span>
+      {roles.length > 0 && <span className="ml-1 text-gray-500">({roles.join(', ')})</span>}
+      <form method="post" action="/api/auth/logout" className="ml-4">
+        <button type="submit" className="flex items-center text-indigo-700 hover:text-indigo-900">
+          <LogOut className="w-4 h-4 mr-1" />
+          Sign out
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 'use client';
 
-import { useState } from 'react';
-import { User, Building2, CheckCircle, AlertCircle, Loader2, Mail } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { User, Building2, CheckCircle, AlertCircle, Loader2, Mail, Eye, SlidersHorizontal } from 'lucide-react';
+import type { ContactField } from '@/lib/contactFields';
+import { validateUserInput, type FieldError, type UserField } from '@/lib/validation';
+import { useCurrentUser } from '@/contexts/CurrentUserContext';
 
 interface FormData {
   firstName: string;
@@ -15,8 +18,18 @@ interface ApiResponse {
   message: string;
   contactId?: string;
   companyId?: string;
+  data?: { outcome?: 'created' | 'updated' | 'skipped' | 'queued' };
 }
 
+type ConflictPolicy = 'fail' | 'skip' | 'update';
+
+const SUCCESS_TITLES = {
+  created: 'User Created Successfully!',
+  updated: 'Existing User Updated!',
+  skipped: 'User Already Exists',
+  queued: 'User Queued Until HubSpot Recovers',
+};
+
 interface OrganizationMatch {
   id: string;
   properties: {
@@ -33,6 +46,101 @@ interface SearchResponse {
   message?: string;
 }
 
+// Dry-run result from POST /api/create-user with dryRun: true
+interface CreateUserPreview {
+  action: 'create' | 'update' | 'skip' | 'reject';
+  contact: { firstName: string; lastName: string; email: string };
+  properties?: Record<string, string>;
+  company: { id: string; name?: string; found: boolean } | null;
+  existingContactId?: string;
+  error?: string;
+}
+
+// Field-level errors from the shared validation rules, keyed by field
+type FieldErrors = Partial<Record<UserField, string>>;
+
+function toFieldErrors(errors: FieldError[]): FieldErrors {
+  return Object.fromEntries(errors.map(error => [error.field, error.message]));
+}
+
+function FieldErrorMessage({ message }: { message?: string }) {
+  return message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null;
+}
+
+const INPUT_CLASS_NAME = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900';
+
+// Input for an extra contact field, chosen from its HubSpot property type
+function ContactFieldControl({ field, value, onChange }: { field: ContactField; value: string; onChange: (value: string) => void }) {
+  const id = `property-${field.name}`;
+
+  if (field.input === 'checkbox') {
+    return (
+      <label htmlFor={id} className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          id={id}
+          checked={value === 'true'}
+          onChange={(e) => onChange(e.target.checked ? 'true' : '')}
+          className="mr-2 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        {field.label}
+      </label>
+    );
+  }
+
+  const label = (
+    <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-2">
+      {field.label}
+    </label>
+  );
+
+  if (field.input === 'select') {
+    // Multiple options are stored separated by semicolons, like HubSpot does
+    const selected = value ? value.split(';') : [];
+    return (
+      <div>
+        {label}
+        <select
+          id={id}
+          multiple={field.multiple}
+          value={field.multiple ? selected : value}
+          onChange={(e) => onChange(
+            field.multiple ? Array.from(e.target.selectedOptions, option => option.value).join(';') : e.target.value
+          )}
+          className={INPUT_CLASS_NAME}
+        >
+          {!field.multiple && <option value="">Not set</option>}
+          {field.options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  if (field.input === 'textarea') {
+    return (
+      <div>
+        {label}
+        <textarea id={id} value={value} onChange={(e) => onChange(e.target.value)} rows={3} className={INPUT_CLASS_NAME} />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {label}
+      <input
+        type={field.input}
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={INPUT_CLASS_NAME}
+      />
+    </div>
+  );
+}
+
 export default function UserCreationForm() {
   const [formData, setFormData] = useState({
     firstName: '',
@@ -45,17 +153,70 @@ export default function UserCreationForm() {
   const [organizationMatches, setOrganizationMatches] = useState<OrganizationMatch[]>([]);
   const [showOrganizationConfirmation, setShowOrganizationConfirmation] = useState(false);
   const [selectedOrganization, setSelectedOrganization] = useState<OrganizationMatch | null>(null);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('fail');
+  const [preview, setPreview] = useState<{ data: CreateUserPreview; message: string } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  // Extra contact properties configured for this portal, and the values entered for them
+  const [contactFields, setContactFields] = useState<ContactField[]>([]);
+  const [contactFieldsError, setContactFieldsError] = useState<string | null>(null);
+  const [properties, setProperties] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [properCaseNames, setProperCaseNames] = useState(false);
+  // Idempotency key of the last submission; retrying the same data reuses it so no duplicate is created
+  const submission = useRef<{ key: string; payload: string } | null>(null);
+  // Viewers can look up the matching organizations but not create the user
+  const canCreate = useCurrentUser().can('create-user');
+
+  useEffect(() => {
+    fetch('/api/contact-fields')
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error?.message || `HTTP ${res.status}`);
+        setContactFields(data.data?.fields || []);
+      })
+      .catch(error => {
+        console.error('Contact fields error:', error);
+        setContactFieldsError(error instanceof Error ? error.message : 'Additional fields could not be loaded');
+      });
+  }, []);
+
+  const handlePropertyChange = (name: string, value: string) => {
+    setProperties(prev => ({ ...prev, [name]: value }));
+    setPreview(null);
+  };
+
+  // Only fields with a value are sent; the server checks them against the HubSpot property definitions
+  const filledProperties = () => Object.fromEntries(Object.entries(properties).filter(([, value]) => value.trim()));
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
+    setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+    setPreview(null);
+  };
+
+  // Field errors from a VALIDATION_ERROR response, shown next to the inputs
+  const showServerFieldErrors = (errorData: { error?: { code?: string; details?: { errors?: FieldError[] } } }) => {
+    const errors = errorData?.error?.details?.errors;
+    if (errorData?.error?.code === 'VALIDATION_ERROR' && Array.isArray(errors) && errors.every(error => error?.field)) {
+      setFieldErrors(toFieldErrors(errors));
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
     setResponse(null);
 
+    // Same rules as the server, so typos are caught before searching for the organization
+    const validation = validateUserInput(formData, {
+      required: ['firstName', 'lastName', 'email', 'organizationName'],
+      properCase: properCaseNames,
+    });
+    setFieldErrors(toFieldErrors(validation.errors));
+    if (!validation.valid) return;
+
+    setIsLoading(true);
+
     try {
       // First, search for organization matches
       const searchRes = await fetch('/api/search-organizations', {
@@ -102,6 +263,51 @@ export default function UserCreationForm() {
     }
   };
 
+  // Dry run: show what would be created for the selected organization without writing to HubSpot
+  const previewUser = async (organization: OrganizationMatch) => {
+    setIsPreviewing(true);
+    setPreview(null);
+    setResponse(null);
+
+    try {
+      const res = await fetch('/api/create-user', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...formData,
+          companyId: organization.id,
+          companyName: organization.properties.name,
+          conflictPolicy,
+          properties: filledProperties(),
+          properCaseNames,
+          dryRun: true,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        showServerFieldErrors(data);
+        setResponse({
+          success: false,
+          message: data.error?.message || `Preview failed (${res.status}). Please try again.`,
+        });
+        return;
+      }
+
+      setPreview({ data: data.data, message: data.message });
+    } catch (error) {
+      console.error('Create user preview error:', error);
+      setResponse({
+        success: false,
+        message: 'Preview failed. Please try again.',
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const createUser = async (organization: OrganizationMatch) => {
     console.log('createUser called with organization:', organization);
     
@@ -119,17 +325,26 @@ export default function UserCreationForm() {
       ...formData,
       companyId: organization.id,
       companyName: organization.properties.name,
+      conflictPolicy,
+      properties: filledProperties(),
+      properCaseNames,
     };
     
     console.log('Sending request to /api/create-user with data:', requestData);
+
+    const payload = JSON.stringify(requestData);
+    if (submission.current?.payload !== payload) {
+      submission.current = { key: crypto.randomUUID(), payload };
+    }
     
     try {
       const res = await fetch('/api/create-user', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': submission.current.key,
         },
-        body: JSON.stringify(requestData),
+        body: payload,
       });
 
       console.log('Response status:', res.status, res.statusText);
@@ -140,11 +355,14 @@ export default function UserCreationForm() {
         try {
           const errorData = await res.json();
           console.log('Error data from response:', errorData);
+          showServerFieldErrors(errorData);
           
           // Handle specific error types with user-friendly messages
           let userMessage = errorData.error?.message || errorData.message || `HTTP ${res.status}: ${res.statusText}`;
           
-          if (errorData.error?.code === 'USER_ALREADY_EXISTS' || res.status === 409) {
+          if (errorData.error?.code === 'REQUEST_IN_PROGRESS') {
+            userMessage = 'This user is still being created. Please wait a moment before trying again.';
+          } else if (errorData.error?.code === 'USER_ALREADY_EXISTS' || res.status === 409) {
             userMessage = `A user with the email "${formData.email}" already exists. Please use a different email address or contact support at access@elasticpath.com if this is unexpected.`;
           } else if (errorData.error?.code === 'AUTHENTICATION_ERROR') {
             userMessage = 'HubSpot integration is not properly configured. Please contact your administrator.';
@@ -173,7 +391,10 @@ export default function UserCreationForm() {
       setResponse(data);
 
       if (data.success) {
+        setPreview(null);
         setFormData({ firstName: '', lastName: '', email: '', organizationName: '' });
+        setProperties({});
+        setFieldErrors({});
         setShowOrganizationConfirmation(false);
         setOrganizationMatches([]);
         setSelectedOrganization(null);
@@ -208,7 +429,9 @@ export default function UserCreationForm() {
             required
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
             placeholder="Enter first name"
+            aria-invalid={!!fieldErrors.firstName}
           />
+          <FieldErrorMessage message={fieldErrors.firstName} />
         </div>
 
         <div>
@@ -225,7 +448,9 @@ export default function UserCreationForm() {
             required
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
             placeholder="Enter last name"
+            aria-invalid={!!fieldErrors.lastName}
           />
+          <FieldErrorMessage message={fieldErrors.lastName} />
         </div>
 
         <div>
@@ -233,8 +458,11 @@ export default function UserCreationForm() {
             <Mail className="inline w-4 h-4 mr-1" />
             Email Address
           </label>
+          {/* A text input, since the browser's email check rejects internationalized domains */}
           <input
-            type="email"
+            type="text"
+            inputMode="email"
+            autoComplete="email"
             id="email"
             name="email"
             value={formData.email}
@@ -242,7 +470,9 @@ export default function UserCreationForm() {
             required
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
             placeholder="Enter email address"
+            aria-invalid={!!fieldErrors.email}
           />
+          <FieldErrorMessage message={fieldErrors.email} />
         </div>
 
         <div>
@@ -259,7 +489,62 @@ export default function UserCreationForm() {
             required
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
             placeholder="Enter organization name"
+            aria-invalid={!!fieldErrors.organizationName}
+          />
+          <FieldErrorMessage message={fieldErrors.organizationName} />
+        </div>
+
+        <label htmlFor="properCaseNames" className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            id="properCaseNames"
+            checked={properCaseNames}
+            onChange={(e) => {
+              setProperCaseNames(e.target.checked);
+              setPreview(null);
+            }}
+            className="mr-2 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
           />
+          Capitalize names typed in all capitals or lowercase (&quot;JOHN o&apos;neil&quot; becomes &quot;John O&apos;Neil&quot;)
+        </label>
+
+        {contactFields.length > 0 && (
+          <fieldset className="space-y-4">
+            <legend className="text-sm font-medium text-gray-700 mb-2">
+              <SlidersHorizontal className="inline w-4 h-4 mr-1" />
+              Additional details (optional)
+            </legend>
+            {contactFields.map(field => (
+              <ContactFieldControl
+                key={field.name}
+                field={field}
+                value={properties[field.name] || ''}
+                onChange={(value) => handlePropertyChange(field.name, value)}
+              />
+            ))}
+          </fieldset>
+        )}
+        {contactFieldsError && (
+          <p className="text-sm text-amber-700">Additional fields could not be loaded: {contactFieldsError}</p>
+        )}
+
+        <div>
+          <label htmlFor="conflictPolicy" className="block text-sm font-medium text-gray-700 mb-2">
+            If a contact with this email already exists
+          </label>
+          <select
+            id="conflictPolicy"
+            value={conflictPolicy}
+            onChange={(e) => {
+              setConflictPolicy(e.target.value as ConflictPolicy);
+              setPreview(null);
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
+          >
+            <option value="fail">Show an error</option>
+            <option value="skip">Leave the existing contact unchanged</option>
+            <option value="update">Update the existing contact (Okta flag, company and association)</option>
+          </select>
         </div>
 
         <button
@@ -270,10 +555,12 @@ export default function UserCreationForm() {
           {isLoading ? (
             <>
               <Loader2 className="animate-spin w-4 h-4 mr-2" />
-              Creating User...
+              {canCreate ? 'Creating User...' : 'Searching...'}
             </>
-          ) : (
+          ) : canCreate ? (
             'Create User'
+          ) : (
+            'Find Organization'
           )}
         </button>
       </form>
@@ -287,7 +574,10 @@ export default function UserCreationForm() {
             {organizationMatches.map((match, index) => (
               <button
                 key={match.id}
-                onClick={() => setSelectedOrganization(match)}
+                onClick={() => {
+                  setSelectedOrganization(match);
+                  setPreview(null);
+                }}
                 className={`w-full text-left p-3 rounded-md border transition-colors ${
                   selectedOrganization?.id === match.id
                     ? 'border-blue-500 bg-blue-100'
@@ -303,26 +593,66 @@ export default function UserCreationForm() {
               </button>
             ))}
           </div>
-          <div className="flex space-x-3">
-            <button
-              onClick={() => selectedOrganization && createUser(selectedOrganization)}
-              disabled={!selectedOrganization || isLoading}
-              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="animate-spin w-4 h-4 mr-2 inline" />
-                  Creating...
-                </>
-              ) : (
-                'Create User with Selected Organization'
+          {preview && (
+            <div className="mb-4 p-3 bg-white border border-gray-200 rounded-md">
+              <h4 className="text-sm font-semibold text-gray-800">Preview (no changes made)</h4>
+              <p className={`mt-1 text-sm ${preview.data.action === 'reject' ? 'text-red-700' : 'text-gray-700'}`}>
+                {preview.message}
+              </p>
+              {preview.data.properties && (
+                <dl className="mt-2 grid grid-cols-2 gap-x-3 text-xs text-gray-600">
+                  {Object.entries(preview.data.properties).map(([name, value]) => (
+                    <div key={name} className="contents">
+                      <dt className="font-mono">{name}</dt>
+                      <dd>{value}</dd>
+                    </div>
+                  ))}
+                </dl>
               )}
-            </button>
+            </div>
+          )}
+          {!canCreate && (
+            <p className="mb-4 text-sm text-blue-700">
+              Your role can look up organizations but not create users.
+            </p>
+          )}
+          <div className="flex space-x-3">
+            {canCreate && (
+              <button
+                onClick={() => selectedOrganization && previewUser(selectedOrganization)}
+                disabled={!selectedOrganization || isLoading || isPreviewing}
+                className="flex items-center bg-white text-blue-700 border border-blue-300 px-4 py-2 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isPreviewing ? (
+                  <Loader2 className="animate-spin w-4 h-4 mr-2" />
+                ) : (
+                  <Eye className="w-4 h-4 mr-2" />
+                )}
+                Preview changes
+              </button>
+            )}
+            {canCreate && (
+              <button
+                onClick={() => selectedOrganization && createUser(selectedOrganization)}
+                disabled={!selectedOrganization || isLoading}
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="animate-spin w-4 h-4 mr-2 inline" />
+                    Creating...
+                  </>
+                ) : (
+                  'Create User with Selected Organization'
+                )}
+              </button>
+            )}
             <button
               onClick={() => {
                 setShowOrganizationConfirmation(false);
                 setOrganizationMatches([]);
                 setSelectedOrganization(null);
+                setPreview(null);
                 setResponse({
                   success: false,
                   message: `No suitable organization found for "${formData.organizationName}". Please check the spelling and try again, or contact support at access@elasticpath.com for assistance adding a new organization.`,
@@ -347,7 +677,7 @@ export default function UserCreationForm() {
             )}
             <div className="flex-1">
               <p className={`text-sm font-medium ${response.success ? 'text-green-800' : 'text-red-800'}`}>
-                {response.success ? 'User Created Successfully!' : 'Error'}
+                {response.success ? SUCCESS_TITLES[response.data?.outcome || 'created'] : 'Error'}
               </p>
               {response.success ? (
                 <div className="mt-2 space-y-3">
@@ -0,0 +1,57 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { Permission, Role } from '@/lib/auth/roles';
+
+interface CurrentUser {
+  sub: string;
+  email?: string;
+  name?: string;
+  groups: string[];
+}
+
+interface CurrentUserContextType {
+  user: CurrentUser | null; // Null while loading and when sign-in is turned off
+  roles: Role[];
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+const CurrentUserContext = createContext<CurrentUserContextType | undefined>(undefined);
+
+// Loads the signed-in user and their permissions once, so tabs and buttons they cannot use are hidden
+export function CurrentUserProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/auth/me', { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        setUser(data.data?.user || null);
+        setRoles(data.data?.roles || []);
+        setPermissions(data.data?.permissions || []);
+      })
+      .catch(error => console.error('Current user error:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // The server checks permissions again on every request; this only decides what to show
+  const can = (permission: Permission) => permissions.includes(permission);
+
+  return (
+    <CurrentUserContext.Provider value={{ user, roles, isLoading, can }}>
+      {children}
+    </CurrentUserContext.Provider>
+  );
+}
+
+export function useCurrentUser() {
+  const context = useContext(CurrentUserContext);
+  if (context === undefined) {
+    throw new Error('useCurrentUser must be used within a CurrentUserProvider');
+  }
+  return context;
+}
@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Replay user creations queued before a restart
+    const { startOutboxWorker } = await import('@/lib/outbox');
+    startOutboxWorker();
+  }
+}
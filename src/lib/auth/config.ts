@@ -0,0 +1,70 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+
+// Environment variables configuring sign-in with an OpenID Connect provider (Okta, or any standards-compliant issuer)
+export const OIDC_ISSUER_ENV = 'OIDC_ISSUER';
+export const OIDC_CLIENT_ID_ENV = 'OIDC_CLIENT_ID';
+export const OIDC_CLIENT_SECRET_ENV = 'OIDC_CLIENT_SECRET';
+export const OIDC_REDIRECT_URI_ENV = 'OIDC_REDIRECT_URI';
+export const OIDC_SCOPES_ENV = 'OIDC_SCOPES';
+export const OIDC_GROUPS_CLAIM_ENV = 'OIDC_GROUPS_CLAIM';
+export const AUTH_SECRET_ENV = 'AUTH_SECRET';
+export const AUTH_SESSION_MAX_AGE_ENV = 'AUTH_SESSION_MAX_AGE';
+export const AUTH_DISABLED_ENV = 'AUTH_DISABLED';
+
+const DEFAULT_SCOPES = 'openid profile email groups';
+const DEFAULT_GROUPS_CLAIM = 'groups';
+const DEFAULT_SESSION_MAX_AGE_SECONDS = 8 * 60 * 60;
+const MIN_SECRET_LENGTH = 32;
+
+export interface AuthConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Public clients rely on PKCE alone
+  redirectUri?: string; // Defaults to /api/auth/callback on the origin the sign-in started from
+  scopes: string;
+  groupsClaim: string; // ID token (or userinfo) claim listing the user's groups
+  sessionSecret: string; // Signs the session and sign-in cookies
+  sessionMaxAgeSeconds: number;
+}
+
+// AUTH_DISABLED=true turns sign-in off entirely (e.g. for a local build without an identity provider)
+export function isAuthDisabled(): boolean {
+  return process.env[AUTH_DISABLED_ENV]?.trim().toLowerCase() === 'true';
+}
+
+function configError(message: string): CustomError {
+  return new CustomError(`Sign-in is not configured: ${message}`, ErrorCodes.INTERNAL_SERVER_ERROR, 500);
+}
+
+// The secret signing session cookies; read on its own so checking a session does not need the provider settings
+export function getSessionSecret(): string {
+  const secret = process.env[AUTH_SECRET_ENV];
+  if (!secret) throw configError(`${AUTH_SECRET_ENV} is not set`);
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw configError(`${AUTH_SECRET_ENV} must be at least ${MIN_SECRET_LENGTH} characters long`);
+  }
+  return secret;
+}
+
+export function getSessionMaxAgeSeconds(): number {
+  const value = Number(process.env[AUTH_SESSION_MAX_AGE_ENV]);
+  return Number.isInteger(value) && value >= 60 ? value : DEFAULT_SESSION_MAX_AGE_SECONDS;
+}
+
+export function getAuthConfig(): AuthConfig {
+  const issuer = process.env[OIDC_ISSUER_ENV]?.trim().replace(/\/$/, '');
+  const clientId = process.env[OIDC_CLIENT_ID_ENV]?.trim();
+  if (!issuer) throw configError(`${OIDC_ISSUER_ENV} is not set`);
+  if (!clientId) throw configError(`${OIDC_CLIENT_ID_ENV} is not set`);
+
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env[OIDC_CLIENT_SECRET_ENV] || undefined,
+    redirectUri: process.env[OIDC_REDIRECT_URI_ENV]?.trim() || undefined,
+    scopes: process.env[OIDC_SCOPES_ENV]?.trim() || DEFAULT_SCOPES,
+    groupsClaim: process.env[OIDC_GROUPS_CLAIM_ENV]?.trim() || DEFAULT_GROUPS_CLAIM,
+    sessionSecret: getSessionSecret(),
+    sessionMaxAgeSeconds: getSessionMaxAgeSeconds(),
+  };
+}
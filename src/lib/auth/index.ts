@@ -0,0 +1,99 @@
+import { cookies } from 'next/headers';
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { getSessionSecret, isAuthDisabled } from './config';
+import { getPermissions, getUserRoles, type Permission } from './roles';
+import { SESSION_COOKIE, readSessionCookie, type SessionUser } from './session';
+
+export {
+  AUTH_DISABLED_ENV,
+  AUTH_SECRET_ENV,
+  AUTH_SESSION_MAX_AGE_ENV,
+  OIDC_CLIENT_ID_ENV,
+  OIDC_CLIENT_SECRET_ENV,
+  OIDC_GROUPS_CLAIM_ENV,
+  OIDC_ISSUER_ENV,
+  OIDC_REDIRECT_URI_ENV,
+  OIDC_SCOPES_ENV,
+  getAuthConfig,
+  getSessionSecret,
+  isAuthDisabled,
+} from './config';
+export type { AuthConfig } from './config';
+export { completeAuthorization, createAuthorizationRequest, getEndSessionUrl } from './oidc';
+export {
+  ID_TOKEN_COOKIE,
+  ID_TOKEN_COOKIE_PATH,
+  LOGIN_COOKIE,
+  LOGIN_MAX_AGE_SECONDS,
+  MAX_COOKIE_VALUE_LENGTH,
+  SESSION_COOKIE,
+  cookieOptions,
+  createLoginCookie,
+  createSessionCookie,
+  readLoginCookie,
+  readSessionCookie,
+} from './session';
+export type { LoginState, Session, SessionUser } from './session';
+export {
+  ALL_PERMISSIONS,
+  AUTH_DEFAULT_ROLE_ENV,
+  AUTH_ROLE_GROUPS_ENV,
+  DEFAULT_ROLE_GROUPS,
+  ROLES,
+  ROLE_PERMISSIONS,
+  getPermissions,
+  getRoleGrantingGroups,
+  getRoleGroups,
+  getUserRoles,
+} from './roles';
+export type { Permission, Role } from './roles';
+
+// How each permission is described when a user is turned away
+const PERMISSION_ACTIONS: Record<Permission, string> = {
+  'search-organizations': 'search organizations',
+  'create-user': 'create users',
+  'bulk-upload': 'upload users in bulk',
+  admin: 'perform admin actions',
+};
+
+/**
+ * The signed-in user making the current request, for route handlers and server components.
+ * Null when sign-in is turned off (AUTH_DISABLED=true) or the session cookie is missing or invalid;
+ * middleware already turns those requests away from protected routes.
+ */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  if (isAuthDisabled()) return null;
+
+  const session = await readSessionCookie((await cookies()).get(SESSION_COOKIE)?.value, getSessionSecret());
+  if (!session) return null;
+  return { sub: session.sub, email: session.email, name: session.name, groups: session.groups };
+}
+
+// The signed-in user, or a 401 AUTHENTICATION_ERROR; null only when sign-in is turned off
+export async function requireUser(): Promise<SessionUser | null> {
+  if (isAuthDisabled()) return null;
+
+  const user = await getCurrentUser();
+  if (!user) throw new CustomError('Sign-in required', ErrorCodes.AUTHENTICATION_ERROR, 401);
+  return user;
+}
+
+/**
+ * The signed-in user, provided one of their roles grants the permission. Throws a 401 AUTHENTICATION_ERROR
+ * without a session and a 403 FORBIDDEN without the permission. Everything is allowed when sign-in is turned off.
+ */
+export async function requirePermission(permission: Permission): Promise<SessionUser | null> {
+  const user = await requireUser();
+  if (!user) return null;
+
+  const roles = getUserRoles(user);
+  if (!getPermissions(roles).includes(permission)) {
+    throw new CustomError(
+      `You do not have permission to ${PERMISSION_ACTIONS[permission]}. Ask an administrator for access.`,
+      ErrorCodes.FORBIDDEN,
+      403,
+      { permission, roles }
+    );
+  }
+  return user;
+}
@@ -0,0 +1,252 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import type { AuthConfig } from './config';
+import { base64UrlDecode, base64UrlEncode, randomToken, type LoginState, type SessionUser } from './session';
+
+// The parts of the provider's /.well-known/openid-configuration this app uses
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+type SigningKey = JsonWebKey & { kid?: string };
+type Claims = Record<string, unknown>;
+
+// Signature algorithms accepted on ID tokens, with their Web Crypto parameters ('none' and HMAC are never accepted)
+const ALGORITHMS: Record<string, { kty: string; importParams: RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams }> = {
+  RS256: { kty: 'RSA', importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS384: { kty: 'RSA', importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS512: { kty: 'RSA', importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  PS256: { kty: 'RSA', importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+  ES256: { kty: 'EC', importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { kty: 'EC', importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+};
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Kept on globalThis so discovery and signing keys are fetched once per process rather than per sign-in
+const globalForOidc = globalThis as typeof globalThis & {
+  oidcDiscovery?: { issuer: string; document: DiscoveryDocument; fetchedAt: number };
+  oidcSigningKeys?: { uri: string; keys: SigningKey[]; fetchedAt: number };
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function signInError(message: string, details?: Record<string, unknown>): CustomError {
+  return new CustomError(`Sign-in failed: ${message}`, ErrorCodes.AUTHENTICATION_ERROR, 401, details);
+}
+
+async function requestProvider(url: string, init?: RequestInit): Promise<{ status: number; body: Record<string, unknown> }> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers: { Accept: 'application/json', ...init?.headers }, cache: 'no-store' });
+  } catch (error) {
+    throw new CustomError(
+      'Unable to connect to the identity provider',
+      ErrorCodes.NETWORK_ERROR,
+      503,
+      { originalError: (error as Error).message }
+    );
+  }
+
+  const body = await response.json().catch(() => ({}));
+  return { status: response.status, body: typeof body === 'object' && body !== null ? body : {} };
+}
+
+async function getDiscovery(config: AuthConfig): Promise<DiscoveryDocument> {
+  const cached = globalForOidc.oidcDiscovery;
+  if (cached?.issuer === config.issuer && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) return cached.document;
+
+  const { status, body } = await requestProvider(`${config.issuer}/.well-known/openid-configuration`);
+  const document = body as unknown as DiscoveryDocument;
+  if (status !== 200 || !document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new CustomError(
+      `The identity provider's discovery document could not be read (HTTP ${status})`,
+      ErrorCodes.NETWORK_ERROR,
+      502,
+      { issuer: config.issuer }
+    );
+  }
+  // The issuer in the document must be the one configured, or its ID tokens would be accepted for another issuer
+  if (document.issuer?.replace(/\/$/, '') !== config.issuer) {
+    throw new CustomError(
+      `The identity provider reports issuer "${document.issuer}" instead of ${config.issuer}`,
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    );
+  }
+
+  globalForOidc.oidcDiscovery = { issuer: config.issuer, document, fetchedAt: Date.now() };
+  return document;
+}
+
+async function fetchSigningKeys(uri: string): Promise<SigningKey[]> {
+  const { status, body } = await requestProvider(uri);
+  if (status !== 200 || !Array.isArray(body.keys)) {
+    throw new CustomError(`The identity provider's signing keys could not be read (HTTP ${status})`, ErrorCodes.NETWORK_ERROR, 502);
+  }
+  const keys = body.keys as SigningKey[];
+  globalForOidc.oidcSigningKeys = { uri, keys, fetchedAt: Date.now() };
+  return keys;
+}
+
+// The key an ID token was signed with; the keys are fetched again once when it is unknown (the provider rotated them)
+async function getSigningKey(uri: string, kid: string | undefined, kty: string): Promise<SigningKey> {
+  const find = (keys: SigningKey[]) => {
+    const candidates = keys.filter(key => key.kty === kty && (key as { use?: string }).use !== 'enc');
+    return kid ? candidates.find(key => key.kid === kid) : candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  const cached = globalForOidc.oidcSigningKeys;
+  const fresh = cached?.uri === uri && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS;
+  const key = (fresh && find(cached.keys)) || find(await fetchSigningKeys(uri));
+  if (!key) throw signInError('the ID token was signed with an unknown key', { kid });
+  return key;
+}
+
+// Check the ID token's signature and claims, returning its claims
+async function verifyIdToken(config: AuthConfig, discovery: DiscoveryDocument, idToken: string, nonce: string): Promise<Claims> {
+  const [encodedHeader, encodedPayload, encodedSignature, extra] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature || extra !== undefined) {
+    throw signInError('the ID token is malformed');
+  }
+
+  let header: { alg?: string; kid?: string };
+  let claims: Claims;
+  try {
+    header = JSON.parse(decoder.decode(base64UrlDecode(encodedHeader)));
+    claims = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload)));
+  } catch {
+    throw signInError('the ID token is malformed');
+  }
+
+  const algorithm = header.alg ? ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) throw signInError(`ID tokens signed with ${header.alg} are not accepted`);
+
+  const jwk = await getSigningKey(discovery.jwks_uri, header.kid, algorithm.kty);
+  // Only the key material is imported; alg, use and key_ops on the published key could otherwise make the import fail
+  const material: JsonWebKey = jwk.kty === 'RSA' ? { kty: jwk.kty, n: jwk.n, e: jwk.e } : { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+  const valid = await crypto.subtle.importKey('jwk', material, algorithm.importParams, false, ['verify'])
+    .then(key => crypto.subtle.verify(algorithm.verifyParams, key, base64UrlDecode(encodedSignature), encoder.encode(`${encodedHeader}.${encodedPayload}`)))
+    .catch(() => false);
+  if (!valid) throw signInError('the ID token signature is invalid');
+
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw signInError('the ID token was issued by another issuer');
+  if (!audiences.includes(config.clientId)) throw signInError('the ID token was issued to another client');
+  if (audiences.length > 1 && claims.azp !== undefined && claims.azp !== config.clientId) {
+    throw signInError('the ID token was issued to another client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_SECONDS) throw signInError('the ID token has expired');
+  if (claims.nonce !== nonce) throw signInError('the ID token does not belong to this sign-in');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw signInError('the ID token does not identify the user');
+
+  return claims;
+}
+
+function toSessionUser(claims: Claims, groupsClaim: string): SessionUser {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const groups = claims[groupsClaim];
+  const username = text(claims.preferred_username);
+
+  return {
+    sub: claims.sub as string,
+    email: text(claims.email) ?? (username?.includes('@') ? username : undefined),
+    name: text(claims.name) ?? text([claims.given_name, claims.family_name].filter(part => typeof part === 'string').join(' ')) ?? username,
+    groups: Array.isArray(groups) ? groups.filter((group): group is string => typeof group === 'string')
+      : typeof groups === 'string' ? [groups] : [],
+  };
+}
+
+/**
+ * Build the provider's authorization URL for the authorization code flow with PKCE (S256).
+ * The returned state, nonce and verifier must be kept (in the sign-in cookie) until the callback.
+ */
+export async function createAuthorizationRequest(
+  config: AuthConfig,
+  redirectUri: string,
+  returnTo: string
+): Promise<{ url: string; login: Omit<LoginState, 'exp'> }> {
+  const discovery = await getDiscovery(config);
+  const login = { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken(), redirectUri, returnTo };
+  const challenge = base64UrlEncode(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(login.codeVerifier))));
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes,
+    state: login.state,
+    nonce: login.nonce,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), login };
+}
+
+/**
+ * Exchange the authorization code from the callback for tokens and read the user from the verified ID token.
+ * Claims missing from the ID token (e.g. groups) are filled in from the userinfo endpoint when the provider has one.
+ */
+export async function completeAuthorization(
+  config: AuthConfig,
+  login: LoginState,
+  code: string
+): Promise<{ user: SessionUser; idToken: string }> {
+  const discovery = await getDiscovery(config);
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: login.redirectUri,
+    code_verifier: login.codeVerifier,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+  const authMethods = discovery.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+  if (config.clientSecret && authMethods.includes('client_secret_basic')) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${btoa(credentials)}`;
+  } else {
+    params.set('client_id', config.clientId);
+    if (config.clientSecret) params.set('client_secret', config.clientSecret);
+  }
+
+  const { status, body: tokens } = await requestProvider(discovery.token_endpoint, { method: 'POST', headers, body: params });
+  if (status !== 200 || typeof tokens.id_token !== 'string') {
+    throw signInError(
+      typeof tokens.error_description === 'string' ? tokens.error_description : 'the identity provider did not issue an ID token',
+      { providerStatus: status, providerError: tokens.error }
+    );
+  }
+
+  const claims = await verifyIdToken(config, discovery, tokens.id_token, login.nonce);
+
+  let userInfo: Claims = {};
+  if (discovery.userinfo_endpoint && typeof tokens.access_token === 'string') {
+    const response = await requestProvider(discovery.userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+    if (response.status === 200 && response.body.sub === claims.sub) userInfo = response.body;
+  }
+
+  return { user: toSessionUser({ ...userInfo, ...claims }, config.groupsClaim), idToken: tokens.id_token };
+}
+
+// Where to send the browser to also end the session at the provider, or null when it does not support RP-initiated logout
+export async function getEndSessionUrl(config: AuthConfig, idToken: string | undefined, postLogoutRedirectUri: string): Promise<string | null> {
+  const discovery = await getDiscovery(config);
+  if (!discovery.end_session_endpoint) return null;
+
+  const url = new URL(discovery.end_session_endpoint);
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('post_logout_redirect_uri', postLogoutRedirectUri);
+  if (idToken) url.searchParams.set('id_token_hint', idToken);
+  return url.toString();
+}
@@ -0,0 +1,110 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import type { SessionUser } from './session';
+
+export const ROLES = ['viewer', 'creator', 'bulk-operator', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+// What a signed-in user may do; admin covers deactivation, managing queued creations and organization reviews
+export type Permission = 'search-organizations' | 'create-user' | 'bulk-upload' | 'admin';
+
+// Each role includes everything the roles before it may do
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['search-organizations'],
+  creator: ['search-organizations', 'create-user'],
+  'bulk-operator': ['search-organizations', 'create-user', 'bulk-upload'],
+  admin: ['search-organizations', 'create-user', 'bulk-upload', 'admin'],
+};
+
+export const ALL_PERMISSIONS: Permission[] = ROLE_PERMISSIONS.admin;
+
+// Identity provider groups granting each role when the configuration does not override them
+export const DEFAULT_ROLE_GROUPS: Record<Role, string[]> = {
+  viewer: ['user-creator-viewers'],
+  creator: ['user-creator-creators'],
+  'bulk-operator': ['user-creator-bulk-operators'],
+  admin: ['user-creator-admins'],
+};
+
+// Environment variable holding per-role group overrides as JSON, e.g. {"admin": ["IT Admins"], "creator": ["Support"]}
+export const AUTH_ROLE_GROUPS_ENV = 'AUTH_ROLE_GROUPS';
+// Role given to signed-in users who are in none of the groups (none by default, so they can do nothing)
+export const AUTH_DEFAULT_ROLE_ENV = 'AUTH_DEFAULT_ROLE';
+
+// The configured mapping is shared by every route even when bundled separately
+const globalForRoles = globalThis as typeof globalThis & {
+  roleGroups?: { source: string | undefined; groups: Record<Role, string[]> };
+};
+
+function configError(message: string): CustomError {
+  return new CustomError(`Role configuration is invalid: ${message}`, ErrorCodes.INTERNAL_SERVER_ERROR, 500);
+}
+
+function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+// Parse per-role overrides from JSON; roles left out keep their default groups
+export function parseRoleGroups(json: string): Record<Role, string[]> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw configError(`${AUTH_ROLE_GROUPS_ENV} is not valid JSON`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw configError(`${AUTH_ROLE_GROUPS_ENV} must be a JSON object keyed by role`);
+  }
+
+  const groups: Record<Role, string[]> = { ...DEFAULT_ROLE_GROUPS };
+  for (const [role, value] of Object.entries(raw)) {
+    if (!isRole(role)) {
+      throw configError(`unknown role "${role}" (expected one of: ${ROLES.join(', ')})`);
+    }
+    if (!Array.isArray(value) || !value.every(group => typeof group === 'string' && group.trim())) {
+      throw configError(`"${role}" must be an array of group names`);
+    }
+    groups[role] = value.map(group => group.trim());
+  }
+  return groups;
+}
+
+// The configured group for each role (the defaults when the environment variable is not set)
+export function getRoleGroups(): Record<Role, string[]> {
+  const source = process.env[AUTH_ROLE_GROUPS_ENV]?.trim() || undefined;
+  const cached = globalForRoles.roleGroups;
+  if (cached && cached.source === source) return cached.groups;
+
+  const groups = source ? parseRoleGroups(source) : DEFAULT_ROLE_GROUPS;
+  globalForRoles.roleGroups = { source, groups };
+  return groups;
+}
+
+function getDefaultRole(): Role | undefined {
+  const role = process.env[AUTH_DEFAULT_ROLE_ENV]?.trim().toLowerCase();
+  if (!role) return undefined;
+  if (!isRole(role)) {
+    throw configError(`${AUTH_DEFAULT_ROLE_ENV} must be one of: ${ROLES.join(', ')}`);
+  }
+  return role;
+}
+
+// The roles granted by the user's groups (compared case-insensitively), or the default role when none match
+export function getUserRoles(user: SessionUser): Role[] {
+  const userGroups = new Set(user.groups.map(group => group.toLowerCase()));
+  const roleGroups = getRoleGroups();
+  const roles = ROLES.filter(role => roleGroups[role].some(group => userGroups.has(group.toLowerCase())));
+
+  const defaultRole = getDefaultRole();
+  return roles.length === 0 && defaultRole ? [defaultRole] : roles;
+}
+
+// The user's groups that grant a role; the session keeps only these, so its cookie stays small
+// however many groups the identity provider sends
+export function getRoleGrantingGroups(groups: string[]): string[] {
+  const roleGroups = new Set(Object.values(getRoleGroups()).flat().map(group => group.toLowerCase()));
+  return groups.filter(group => roleGroups.has(group.toLowerCase()));
+}
+
+export function getPermissions(roles: Role[]): Permission[] {
+  return ALL_PERMISSIONS.filter(permission => roles.some(role => ROLE_PERMISSIONS[role].includes(permission)));
+}
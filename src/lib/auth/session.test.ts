@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { getRoleGrantingGroups } from './roles';
+import { MAX_COOKIE_VALUE_LENGTH, createSessionCookie, readSessionCookie } from './session';
+
+const SECRET = 'test-secret-that-is-at-least-32-characters';
+const user = { sub: '00u-1', email: 'ada@example.com', name: 'Ada', groups: ['user-creator-admins'] };
+
+describe('session cookie', () => {
+  it('reads back the user it was signed for', async () => {
+    const session = await readSessionCookie(await createSessionCookie(user, SECRET, 60), SECRET);
+
+    assert.equal(session?.sub, user.sub);
+    assert.deepEqual(session?.groups, user.groups);
+  });
+
+  it('rejects tampered, foreign and expired cookies', async () => {
+    const value = await createSessionCookie(user, SECRET, 60);
+    const [body, signature] = value.split('.');
+    const tampered = `${Buffer.from(JSON.stringify({ ...user, groups: ['other'], exp: 9999999999 })).toString('base64url')}.${signature}`;
+
+    assert.equal(await readSessionCookie(tampered, SECRET), null);
+    assert.equal(await readSessionCookie(`${body}.${signature}`, `${SECRET}-other`), null);
+    assert.equal(await readSessionCookie(await createSessionCookie(user, SECRET, -1), SECRET), null);
+    assert.equal(await readSessionCookie(undefined, SECRET), null);
+  });
+
+  it('refuses to create a cookie browsers would drop', async () => {
+    const groups = Array.from({ length: 200 }, (_, index) => `some-directory-group-${index}`);
+
+    await assert.rejects(createSessionCookie({ ...user, groups }, SECRET, 60), (error: CustomError) =>
+      error.code === ErrorCodes.AUTHENTICATION_ERROR);
+    assert.ok((await createSessionCookie(user, SECRET, 60)).length <= MAX_COOKIE_VALUE_LENGTH);
+  });
+
+  it('keeps only the groups that grant a role', () => {
+    assert.deepEqual(getRoleGrantingGroups(['Everyone', 'USER-CREATOR-ADMINS', 'sales']), ['USER-CREATOR-ADMINS']);
+  });
+});
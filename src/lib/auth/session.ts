@@ -0,0 +1,126 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+
+// Signed cookies for the signed-in user and an in-progress sign-in. Only Web Crypto is used,
+// so sessions can be checked in middleware as well as in route handlers.
+
+export const SESSION_COOKIE = 'session';
+export const LOGIN_COOKIE = 'oidc_login'; // Holds state, nonce and PKCE verifier between /login and /callback
+export const LOGIN_MAX_AGE_SECONDS = 10 * 60;
+// The ID token, sent back to the provider as id_token_hint when signing out. Kept apart from the session
+// and only sent to the sign-out route, since tokens carrying many group claims can be several kilobytes.
+export const ID_TOKEN_COOKIE = 'session_id_token';
+export const ID_TOKEN_COOKIE_PATH = '/api/auth/logout';
+
+// Browsers drop cookies over 4096 bytes (name, value and attributes together), which would make sign-in loop
+export const MAX_COOKIE_VALUE_LENGTH = 3800;
+
+// The signed-in user, as read from the identity provider's ID token (and userinfo)
+export interface SessionUser {
+  sub: string;
+  email?: string;
+  name?: string;
+  groups: string[];
+}
+
+export interface Session extends SessionUser {
+  exp: number; // Seconds since the epoch
+}
+
+export interface LoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function randomToken(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+function importSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+// payload.signature, both base64url; the signature is an HMAC-SHA256 of the payload
+async function sign(payload: object, secret: string): Promise<string> {
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importSigningKey(secret), encoder.encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// The payload of a value made by sign, or null when it was tampered with, malformed or expired
+async function verify<T extends { exp: number }>(value: string | undefined, secret: string): Promise<T | null> {
+  const [body, signature, extra] = value?.split('.') ?? [];
+  if (!body || !signature || extra !== undefined) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await importSigningKey(secret), base64UrlDecode(signature), encoder.encode(body));
+    if (!valid) return null;
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(body))) as T;
+    return typeof payload.exp === 'number' && payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// The signed session; throws rather than returning a value browsers would drop
+export async function createSessionCookie(user: SessionUser, secret: string, maxAgeSeconds: number): Promise<string> {
+  const session: Session = {
+    sub: user.sub,
+    email: user.email,
+    name: user.name,
+    groups: user.groups,
+    exp: Math.floor(Date.now() / 1000) + maxAgeSeconds,
+  };
+  const value = await sign(session, secret);
+  if (value.length > MAX_COOKIE_VALUE_LENGTH) {
+    throw new CustomError(
+      'Sign-in failed: your account details are too large to keep in a session cookie. Please contact an administrator.',
+      ErrorCodes.AUTHENTICATION_ERROR,
+      400,
+      { length: value.length, groups: user.groups.length }
+    );
+  }
+  return value;
+}
+
+export function readSessionCookie(value: string | undefined, secret: string): Promise<Session | null> {
+  return verify<Session>(value, secret);
+}
+
+export function createLoginCookie(login: Omit<LoginState, 'exp'>, secret: string): Promise<string> {
+  return sign({ ...login, exp: Math.floor(Date.now() / 1000) + LOGIN_MAX_AGE_SECONDS }, secret);
+}
+
+export function readLoginCookie(value: string | undefined, secret: string): Promise<LoginState | null> {
+  return verify<LoginState>(value, secret);
+}
+
+// Cookie attributes for both cookies; Secure is set whenever the app is served over https
+export function cookieOptions(requestUrl: string, maxAgeSeconds: number) {
+  return {
+    httpOnly: true,
+    secure: new URL(requestUrl).protocol === 'https:',
+    sameSite: 'lax' as const, // Sent on the provider's top-level redirect back to /api/auth/callback
+    path: '/',
+    maxAge: maxAgeSeconds,
+  };
+}
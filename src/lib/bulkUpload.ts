@@ -0,0 +1,614 @@
+import {
+  ErrorCodes,
+  logError,
+  isRetryableError,
+  handleHubSpotError,
+} from '@/lib/errorHandler';
+import { validateUserInput, formatFieldErrors, type FieldError } from '@/lib/validation';
+import {
+  getHubSpotGateway,
+  buildContactProperties,
+  buildExistingContactProperties,
+  upsertContactsWithCompany,
+  findExistingContacts,
+  getContactPropertyDefinitions,
+  normalizePropertyValues,
+  RESERVED_CONTACT_PROPERTIES,
+  type ConflictPolicy,
+  type ContactCreationResult,
+  type ContactOutcome,
+  type ContactProperties,
+  type PropertyDefinition,
+} from '@/lib/hubspot';
+import type { RecordedRowOutcome } from '@/lib/idempotency';
+import type { OrganizationResolution } from '@/lib/organizations';
+
+export interface CsvUser {
+  firstName: string;
+  lastName: string;
+  email: string;
+  organizationName?: string; // Organization column of the file; rows without one use the upload's organization
+  properties?: Record<string, string>; // Extra contact property columns, by HubSpot property name
+}
+
+export interface UploadError {
+  row: number;
+  user: CsvUser;
+  error: string;
+  errorCode?: string;
+  fieldErrors?: FieldError[]; // Which fields failed validation, for validation errors
+  retryable?: boolean; // Transient failure (rate limit, network, HubSpot outage) worth submitting again
+  resumed?: boolean; // Failure recorded by an earlier attempt with the same idempotency key
+  contactId?: string; // Contact created without its email before the row failed; it needs fixing in HubSpot
+}
+
+// A row that did not fail: the contact was created, updated or skipped (left as it was)
+export interface ContactRow {
+  row: number;
+  contactId: string;
+  outcome: ContactOutcome;
+  resumed?: boolean; // Outcome recorded by an earlier attempt with the same idempotency key
+}
+
+export interface BulkUploadResult {
+  success: boolean;
+  total: number;
+  successful: number; // created + updated + skipped
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  resumed: number; // Rows whose outcome was taken from an earlier attempt instead of calling HubSpot
+  contacts: ContactRow[];
+  errors: UploadError[];
+}
+
+export interface BulkUploadOrganization {
+  id: string;
+  name: string;
+}
+
+// Companies an upload associates rows with: the upload's organization, and the resolution of each organization name
+export interface RowOrganizations {
+  defaultOrganization?: BulkUploadOrganization;
+  resolutions: OrganizationResolution[];
+}
+
+// Per-row events emitted while an upload is processed
+export type BulkUploadRowEvent =
+  | { type: 'row_started'; row: number; user: CsvUser }
+  | { type: 'row_created' | 'row_updated' | 'row_skipped'; row: number; contactId: string; resumed?: boolean }
+  | { type: 'row_failed'; row: number; error: string; errorCode?: string; retryable?: boolean; resumed?: boolean; contactId?: string };
+
+// What a dry run says would happen to a row
+export type PreviewAction = 'create' | 'update' | 'skip' | 'reject';
+
+export interface PreviewRow {
+  row: number;
+  user: CsvUser;
+  action: PreviewAction;
+  properties?: ContactProperties; // Properties that would be written (create and update)
+  organization?: BulkUploadOrganization; // Company the contact would be associated with; missing until one is picked
+  existingContactId?: string;
+  error?: string;
+  errorCode?: string;
+  fieldErrors?: FieldError[];
+}
+
+export interface BulkUploadPreview {
+  dryRun: true;
+  organization?: BulkUploadOrganization & { found: boolean }; // The upload's organization, when given
+  organizations: OrganizationResolution[]; // One per organization name in the file
+  unresolvedOrganizations: number; // Names that need a company picked before uploading
+  conflictPolicy: ConflictPolicy;
+  total: number;
+  toCreate: number;
+  toUpdate: number;
+  toSkip: number;
+  toReject: number;
+  rows: PreviewRow[];
+}
+
+export interface BulkUploadOptions {
+  requestId?: string;
+  // Called after each chunk of rows with the accumulated result and the number of rows processed so far.
+  // Both callbacks are awaited, and an error they throw stops the upload
+  onProgress?: (result: BulkUploadResult, processed: number) => void | Promise<void>;
+  onRowEvent?: (event: BulkUploadRowEvent) => void | Promise<void>;
+  // Outcomes recorded by earlier attempts with the same idempotency key, by row number
+  previousOutcomes?: Map<number, RecordedRowOutcome>;
+  conflictPolicy?: ConflictPolicy; // Defaults to 'fail'
+  properties?: ContactProperties; // Property overrides applied to every row
+  properCaseNames?: boolean; // Capitalize names written in all upper or lower case
+}
+
+const ROW_EVENT_TYPES = {
+  created: 'row_created',
+  updated: 'row_updated',
+  skipped: 'row_skipped',
+} as const;
+
+// Rows are sent to HubSpot in chunks of this size so progress can be reported between chunks
+const PROGRESS_CHUNK_SIZE = 25;
+
+// Function to validate user data; valid users are returned with names and email normalized like
+// single user creation (see validateUserInput), optionally proper-cased.
+// Property values are checked against the HubSpot definitions and normalized (empty values are dropped).
+export function validateUser(
+  user: CsvUser,
+  propertyDefinitions: Map<string, PropertyDefinition> = new Map(),
+  properCase = false
+): { valid: boolean; error?: string; fieldErrors?: FieldError[]; sanitizedUser?: CsvUser } {
+  // Same rules as single user creation
+  const validation = validateUserInput(
+    { firstName: user.firstName, lastName: user.lastName, email: user.email, organizationName: user.organizationName },
+    { required: ['firstName', 'lastName', 'email'], properCase }
+  );
+  if (!validation.valid) {
+    return { valid: false, error: formatFieldErrors(validation.errors), fieldErrors: validation.errors };
+  }
+
+  const values = Object.fromEntries(
+    Object.entries(user.properties || {}).filter(([, value]) => typeof value === 'string' && value.trim())
+  );
+  const reserved = Object.keys(values).filter(name => RESERVED_CONTACT_PROPERTIES.includes(name));
+  if (reserved.length > 0) {
+    return { valid: false, error: `These properties are set by the app and cannot be overridden: ${reserved.join(', ')}` };
+  }
+  const { properties, errors } = normalizePropertyValues(propertyDefinitions, values);
+  if (errors.length > 0) {
+    return { valid: false, error: errors.map(error => error.message).join('; ') };
+  }
+
+  const { firstName, lastName, email, organizationName } = validation.data;
+  return {
+    valid: true,
+    sanitizedUser: {
+      firstName: firstName!,
+      lastName: lastName!,
+      email: email!,
+      ...(organizationName ? { organizationName } : {}),
+      ...(Object.keys(properties).length > 0 ? { properties } : {}),
+    },
+  };
+}
+
+// A row's own organization name, normalized and truncated like organization names everywhere else
+export function getRowOrganizationName(user: CsvUser): string | undefined {
+  return validateUserInput({ organizationName: user.organizationName }).data.organizationName;
+}
+
+// Distinct organization names in an upload, in order of first appearance
+export function getUploadOrganizationNames(users: CsvUser[]): string[] {
+  return [...new Set(users.flatMap(user => getRowOrganizationName(user) ?? []))];
+}
+
+// Company a row is associated with, or undefined while its organization name has no company picked
+export function getRowOrganization(user: CsvUser, organizations: RowOrganizations): BulkUploadOrganization | undefined {
+  const organizationName = getRowOrganizationName(user);
+  if (!organizationName) return organizations.defaultOrganization;
+
+  const company = organizations.resolutions.find(resolution => resolution.name === organizationName)?.company;
+  return company && { id: company.id, name: company.name };
+}
+
+// Distinct companies an upload associates contacts with
+export function getUploadCompanies(users: CsvUser[], organizations: RowOrganizations): BulkUploadOrganization[] {
+  const companies = new Map<string, BulkUploadOrganization>();
+  users.forEach(user => {
+    const organization = getRowOrganization(user, organizations);
+    if (organization) companies.set(organization.id, organization);
+  });
+  return [...companies.values()];
+}
+
+// "organization "Acme"" for a single company, "3 organizations" otherwise
+export function describeOrganizations(organizations: BulkUploadOrganization[]): string {
+  return organizations.length === 1 ? `organization "${organizations[0].name}"` : `${organizations.length} organizations`;
+}
+
+// A row either passed validation (sanitizedUser) or was rejected (failure)
+type CheckedRow =
+  | { row: number; user: CsvUser; sanitizedUser: CsvUser; failure?: undefined }
+  | { row: number; user: CsvUser; sanitizedUser?: undefined; failure: UploadError };
+
+// Validate every row and reject emails repeated within the upload (shared by uploads and previews)
+function checkRows(users: CsvUser[], propertyDefinitions?: Map<string, PropertyDefinition>, properCase = false): CheckedRow[] {
+  const seenEmails = new Set<string>();
+
+  return users.map((user, i) => {
+    const row = i + 1; // 1-based row numbers for user-friendly display
+    const validation = validateUser(user, propertyDefinitions, properCase);
+    if (!validation.valid || !validation.sanitizedUser) {
+      return {
+        row,
+        user,
+        failure: {
+          row,
+          user,
+          error: validation.error || 'Validation failed',
+          errorCode: ErrorCodes.VALIDATION_ERROR,
+          ...(validation.fieldErrors && { fieldErrors: validation.fieldErrors }),
+        },
+      };
+    }
+
+    const email = validation.sanitizedUser.email;
+    if (seenEmails.has(email)) {
+      return {
+        row,
+        user,
+        failure: {
+          row,
+          user,
+          error: `Duplicate email ${email} appears earlier in this upload`,
+          errorCode: ErrorCodes.USER_ALREADY_EXISTS,
+        },
+      };
+    }
+
+    seenEmails.add(email);
+    return { row, user, sanitizedUser: validation.sanitizedUser };
+  });
+}
+
+// Property definitions for rows with property columns (none are fetched when no row has any)
+async function getRowPropertyDefinitions(users: CsvUser[]): Promise<Map<string, PropertyDefinition> | undefined> {
+  const hasProperties = users.some(user => Object.keys(user.properties || {}).length > 0);
+  return hasProperties ? getContactPropertyDefinitions(getHubSpotGateway()) : undefined;
+}
+
+export function createEmptyResult(total: number): BulkUploadResult {
+  return {
+    success: true,
+    total,
+    successful: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    resumed: 0,
+    contacts: [],
+    errors: [],
+  };
+}
+
+/**
+ * Validate and create every user, associating each with its row's organization (or the upload's).
+ * Rows whose organization name has no company picked fail without calling HubSpot.
+ * Emails that already belong to a contact are handled by the conflict policy (fail, skip or update).
+ * Invalid rows and rows whose email appears earlier in the upload fail without calling HubSpot.
+ * Rows already created by an earlier attempt (or that failed for a non-retryable reason) reuse
+ * the recorded outcome, so a retried upload resumes instead of re-creating contacts.
+ */
+export async function processBulkUpload(
+  users: CsvUser[],
+  organizations: RowOrganizations,
+  options: BulkUploadOptions = {}
+): Promise<BulkUploadResult> {
+  const { requestId, onProgress, onRowEvent, previousOutcomes, conflictPolicy = 'fail', properties, properCaseNames = false } = options;
+  const result = createEmptyResult(users.length);
+  let processed = 0;
+
+  const recordSuccess = async (contact: ContactRow) => {
+    result.successful++;
+    result[contact.outcome]++;
+    processed++;
+    result.contacts.push(contact);
+    await onRowEvent?.({
+      type: ROW_EVENT_TYPES[contact.outcome],
+      row: contact.row,
+      contactId: contact.contactId,
+      resumed: contact.resumed,
+    });
+  };
+
+  const recordFailure = async (failure: UploadError) => {
+    const retryable = !!failure.retryable;
+    result.failed++;
+    processed++;
+    result.errors.push({ ...failure, retryable });
+    await onRowEvent?.({
+      type: 'row_failed',
+      row: failure.row,
+      error: failure.error,
+      errorCode: failure.errorCode,
+      retryable,
+      resumed: failure.resumed,
+      contactId: failure.contactId,
+    });
+  };
+
+  // Validate every row first; only valid rows are sent to HubSpot
+  const pending: Array<{ row: number; user: CsvUser; sanitizedUser: CsvUser; organization: BulkUploadOrganization }> = [];
+
+  for (const checked of checkRows(users, await getRowPropertyDefinitions(users), properCaseNames)) {
+    const { row, user } = checked;
+    if (checked.failure) {
+      await onRowEvent?.({ type: 'row_started', row, user });
+      await recordFailure(checked.failure);
+      continue;
+    }
+
+    const previous = previousOutcomes?.get(row);
+    if (previous && previous.status !== 'failed' && previous.contactId) {
+      result.resumed++;
+      await onRowEvent?.({ type: 'row_started', row, user });
+      await recordSuccess({ row, contactId: previous.contactId, outcome: previous.status, resumed: true });
+      continue;
+    }
+    if (previous?.status === 'failed' && !previous.retryable) {
+      result.resumed++;
+      await onRowEvent?.({ type: 'row_started', row, user });
+      await recordFailure({
+        row,
+        user,
+        error: previous.error || 'Failed to create contact',
+        errorCode: previous.errorCode,
+        contactId: previous.contactId,
+        resumed: true,
+      });
+      continue;
+    }
+
+    const organization = getRowOrganization(checked.sanitizedUser, organizations);
+    if (!organization) {
+      await onRowEvent?.({ type: 'row_started', row, user });
+      await recordFailure({
+        row,
+        user,
+        error: `No company selected for organization "${checked.sanitizedUser.organizationName}"`,
+        errorCode: ErrorCodes.VALIDATION_ERROR,
+      });
+      continue;
+    }
+
+    pending.push({ row, user, sanitizedUser: checked.sanitizedUser, organization });
+  }
+
+  await onProgress?.(result, processed);
+
+  for (let start = 0; start < pending.length; start += PROGRESS_CHUNK_SIZE) {
+    const chunk = pending.slice(start, start + PROGRESS_CHUNK_SIZE);
+    for (const { row, user } of chunk) {
+      await onRowEvent?.({ type: 'row_started', row, user });
+    }
+
+    // Create the contacts using HubSpot batch create → update → associate calls
+    let creationResults: ContactCreationResult[];
+    try {
+      creationResults = await upsertContactsWithCompany(getHubSpotGateway(), chunk.map(({ sanitizedUser, organization }) => ({
+        firstName: sanitizedUser.firstName,
+        lastName: sanitizedUser.lastName,
+        email: sanitizedUser.email,
+        companyId: organization.id,
+        companyName: organization.name,
+        properties: { ...properties, ...sanitizedUser.properties },
+      })), conflictPolicy);
+    } catch (unexpectedError) {
+      logError(unexpectedError as Error, { operation: 'upsertContactsWithCompany', userCount: chunk.length, requestId });
+      // e.g. the existing-contact lookup failed; every row in the chunk fails with the same error
+      const chunkError = handleHubSpotError(unexpectedError);
+      creationResults = chunk.map(() => ({ error: chunkError }));
+    }
+
+    for (const [index, createResult] of creationResults.entries()) {
+      const { row, user } = chunk[index];
+
+      if (createResult.contactId && !createResult.error) {
+        const outcome = createResult.outcome || 'created';
+        await recordSuccess({ row, contactId: createResult.contactId, outcome });
+        console.log(`Successfully ${outcome} contact: ${user.firstName} ${user.lastName} (${createResult.contactId})`);
+        continue;
+      }
+
+      // A contact created without its email is not retried: submitting the row again would create another one
+      const message = createResult.error?.message || 'Failed to create contact';
+      await recordFailure({
+        row,
+        user,
+        error: createResult.contactId
+          ? `${message} (contact ${createResult.contactId} was created without its email; complete or delete it in HubSpot)`
+          : message,
+        errorCode: createResult.error?.code,
+        retryable: !createResult.contactId && !!createResult.error && isRetryableError(createResult.error),
+        contactId: createResult.contactId,
+      });
+
+      // Log individual user creation failure for debugging
+      logError(new Error('User creation failed in bulk upload'), {
+        user: {
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email ? user.email.substring(0, 3) + '***' : undefined
+        },
+        error: createResult.error?.message,
+        errorCode: createResult.error?.code,
+        row,
+        requestId
+      });
+    }
+
+    // Keep errors and contacts in original row order
+    result.errors.sort((a, b) => a.row - b.row);
+    result.contacts.sort((a, b) => a.row - b.row);
+    await onProgress?.(result, processed);
+  }
+
+  // Determine overall success (partial success is still considered success)
+  result.success = result.successful > 0;
+
+  return result;
+}
+
+/**
+ * Work out what processBulkUpload would do without writing anything to HubSpot.
+ * Rows go through the same validation, and emails that already belong to a contact
+ * are reported as rejected, skipped or updated according to the conflict policy.
+ */
+export async function previewBulkUpload(
+  users: CsvUser[],
+  organizations: RowOrganizations,
+  conflictPolicy: ConflictPolicy = 'fail',
+  properties: ContactProperties = {},
+  properCaseNames = false
+): Promise<BulkUploadPreview> {
+  const gateway = getHubSpotGateway();
+  const { defaultOrganization, resolutions } = organizations;
+
+  let checkedRows;
+  let company;
+  let existingContacts;
+  try {
+    checkedRows = checkRows(users, await getRowPropertyDefinitions(users), properCaseNames);
+    company = defaultOrganization ? await gateway.getCompany(defaultOrganization.id) : null;
+    existingContacts = await findExistingContacts(
+      gateway,
+      checkedRows.flatMap(checked => checked.sanitizedUser ? [checked.sanitizedUser.email] : [])
+    );
+  } catch (error) {
+    throw handleHubSpotError(error);
+  }
+
+  const rows = checkedRows.map((checked): PreviewRow => {
+    const { row, user } = checked;
+    if (checked.failure) {
+      const { error, errorCode, fieldErrors } = checked.failure;
+      return { row, user, action: 'reject', error, errorCode, ...(fieldErrors && { fieldErrors }) };
+    }
+
+    const organization = getRowOrganization(checked.sanitizedUser, organizations);
+    const { firstName, lastName, email } = checked.sanitizedUser;
+    const input = {
+      firstName,
+      lastName,
+      email,
+      companyId: organization?.id,
+      companyName: organization?.name,
+      properties: { ...properties, ...checked.sanitizedUser.properties },
+    };
+    const existing = existingContacts.get(email);
+    if (existing && conflictPolicy === 'update') {
+      return {
+        row,
+        user: checked.sanitizedUser,
+        action: 'update',
+        existingContactId: existing.id,
+        properties: buildExistingContactProperties(input),
+        organization,
+      };
+    }
+    if (existing && conflictPolicy === 'skip') {
+      return { row, user: checked.sanitizedUser, action: 'skip', existingContactId: existing.id, organization };
+    }
+    if (existing) {
+      return {
+        row,
+        user: checked.sanitizedUser,
+        organization,
+        action: 'reject',
+        existingContactId: existing.id,
+        error: `A contact with ${checked.sanitizedUser.email} already exists in HubSpot`,
+        errorCode: ErrorCodes.USER_ALREADY_EXISTS,
+      };
+    }
+
+    return { row, user: checked.sanitizedUser, action: 'create', properties: buildContactProperties(input), organization };
+  });
+
+  const countAction = (action: PreviewAction) => rows.filter(previewRow => previewRow.action === action).length;
+
+  return {
+    dryRun: true,
+    organization: defaultOrganization && { ...defaultOrganization, found: !!company },
+    organizations: resolutions,
+    unresolvedOrganizations: resolutions.filter(resolution => !resolution.company).length,
+    conflictPolicy,
+    total: users.length,
+    toCreate: countAction('create'),
+    toUpdate: countAction('update'),
+    toSkip: countAction('skip'),
+    toReject: countAction('reject'),
+    rows,
+  };
+}
+
+// Summary message for a dry run
+export function getBulkUploadPreviewMessage(preview: BulkUploadPreview): string {
+  const companies = new Set(preview.rows.flatMap(previewRow => previewRow.organization?.id ?? []));
+  let association: string;
+  if (preview.organizations.length > 0) {
+    association = `across ${companies.size} organizations`;
+  } else if (preview.organization?.found) {
+    association = `in organization "${preview.organization.name}"`;
+  } else {
+    association = `without a company association (organization ${preview.organization?.id} was not found)`;
+  }
+
+  const existingNote = preview.toUpdate > 0 || preview.toSkip > 0
+    ? ` ${preview.toUpdate} existing contacts would be updated and ${preview.toSkip} skipped,`
+    : '';
+  const unresolvedNote = preview.unresolvedOrganizations > 0
+    ? ` ${preview.unresolvedOrganizations} organization names need a company picked before uploading.`
+    : '';
+
+  return `Dry run: ${preview.toCreate} users would be created ${association},${existingNote} ${preview.toReject} would be rejected.${unresolvedNote} No changes were made.`;
+}
+
+// Build the user-facing summary message for a finished upload
+export function getBulkUploadMessage(result: BulkUploadResult, organizations: BulkUploadOrganization[]): string {
+  const destination = describeOrganizations(organizations);
+  const existingNote = result.updated > 0 || result.skipped > 0
+    ? ` ${result.updated} existing contacts were updated and ${result.skipped} skipped.`
+    : '';
+  const resumedNote = result.resumed > 0 ? ` ${result.resumed} rows were resumed from an earlier attempt.` : '';
+  const notes = existingNote + resumedNote;
+
+  if (result.failed === 0 && result.successful === result.created) {
+    return `Bulk upload completed successfully. All ${result.created} users created in ${destination}.${notes}`;
+  }
+  if (result.failed === 0) {
+    return `Bulk upload completed successfully. ${result.created} users created in ${destination}.${notes}`;
+  }
+  if (result.successful > 0) {
+    return `Bulk upload partially completed. ${result.created} users created successfully, ${result.failed} failed in ${destination}.${notes}`;
+  }
+  return `Bulk upload failed. No users were created. ${result.failed} users failed processing.${resumedNote}`;
+}
+
+export function getProcessingDetails(result: BulkUploadResult) {
+  return {
+    totalProcessed: result.total,
+    successRate: result.total > 0 ? (result.successful / result.total * 100).toFixed(1) + '%' : '0%',
+    hasErrors: result.failed > 0,
+    resumedRows: result.resumed,
+    errorSummary: result.errors.length > 0 ? {
+      totalErrors: result.errors.length,
+      commonErrors: getCommonErrors(result.errors)
+    } : undefined
+  };
+}
+
+// Helper function to analyze common errors
+function getCommonErrors(errors: UploadError[]): { [key: string]: number } {
+  const errorCounts: { [key: string]: number } = {};
+
+  errors.forEach(error => {
+    const errorType = error.error.toLowerCase();
+    if (errorType.includes('email already exists') ||
+        errorType.includes('409') ||
+        errorType.includes('already exists in hubspot') ||
+        errorType.includes('already has that value') ||
+        errorType.includes('duplicate email')) {
+      errorCounts['Duplicate emails'] = (errorCounts['Duplicate emails'] || 0) + 1;
+    } else if (errorType.includes('invalid email')) {
+      errorCounts['Invalid email format'] = (errorCounts['Invalid email format'] || 0) + 1;
+    } else if (errorType.includes('required') || errorType.includes('missing')) {
+      errorCounts['Missing required fields'] = (errorCounts['Missing required fields'] || 0) + 1;
+    } else {
+      errorCounts['Other errors'] = (errorCounts['Other errors'] || 0) + 1;
+    }
+  });
+
+  return errorCounts;
+}
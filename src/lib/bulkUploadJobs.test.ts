@@ -0,0 +1,124 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeHubSpot, type FakeHubSpot } from '../../scripts/fake-hubspot/testing';
+import { createHubSpotClientGateway, setHubSpotGateway } from '@/lib/hubspot';
+import { getSharedStore } from '@/lib/sharedStore';
+import type { IdempotencyRecord } from './idempotency';
+import {
+  canViewBulkUploadJob,
+  createBulkUploadJob,
+  getBulkUploadJob,
+  getBulkUploadJobEvents,
+  getRecordedRowOutcomes,
+  isBulkUploadJobStalled,
+  runBulkUploadJob,
+  type BulkUploadJobInput,
+} from './bulkUploadJobs';
+
+const SEED = { companies: [{ name: 'Acme Corporation', domain: 'acme.com' }] };
+
+const globalState = globalThis as typeof globalThis & {
+  memorySharedState?: unknown;
+  hubSpotOutboundState?: unknown;
+  hubSpotCircuitBreaker?: unknown;
+};
+
+describe('bulk upload jobs', () => {
+  let hubspot: FakeHubSpot;
+  let input: BulkUploadJobInput;
+
+  before(async () => {
+    process.env.HUBSPOT_MAX_RETRIES = '0';
+    hubspot = await startFakeHubSpot(SEED);
+    setHubSpotGateway(createHubSpotClientGateway('test-token', hubspot.baseUrl));
+  });
+
+  beforeEach(async () => {
+    await fetch(`${hubspot.baseUrl}/__fake/reset`, { method: 'POST', body: JSON.stringify(SEED) });
+    delete globalState.memorySharedState;
+    delete globalState.hubSpotOutboundState;
+    delete globalState.hubSpotCircuitBreaker;
+    mock.method(console, 'log', () => {});
+
+    const [companyId] = hubspot.store().companies.keys();
+    input = {
+      users: [
+        { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@acme.com' },
+        { firstName: 'Alan', lastName: 'Turing', email: 'alan@acme.com' },
+      ],
+      rowOrganizations: { defaultOrganization: { id: companyId, name: 'Acme Corporation' }, resolutions: [] },
+    };
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(async () => {
+    setHubSpotGateway(null);
+    await hubspot.close();
+    delete process.env.HUBSPOT_MAX_RETRIES;
+    delete globalState.memorySharedState;
+  });
+
+  it('keeps the job, its events and row outcomes in the shared store', async () => {
+    const job = await createBulkUploadJob(input, [input.rowOrganizations.defaultOrganization!]);
+
+    await runBulkUploadJob(job.id);
+
+    const finished = await getBulkUploadJob(job.id);
+    assert.equal(finished?.status, 'completed');
+    assert.equal(finished?.result.created, 2);
+    const events = await getBulkUploadJobEvents(job.id);
+    assert.deepEqual(events.map(({ id }) => id), events.map((_, index) => index + 1));
+    assert.equal(events.at(-1)?.event.type, 'done');
+    assert.deepEqual([...(await getRecordedRowOutcomes(job.id)).values()].map(({ status }) => status), ['created', 'created']);
+    assert.deepEqual((await getBulkUploadJobEvents(job.id, events.length - 1)).map(({ id }) => id), [events.length]);
+  });
+
+  it('is left alone while another instance holds its lease, and resumed once the lease is gone', async () => {
+    const job = await createBulkUploadJob(input, [input.rowOrganizations.defaultOrganization!]);
+    const runnerKey = `bulk-upload-job:${job.id}:runner`;
+    await getSharedStore().lease(runnerKey, 'other-instance', 30000);
+
+    await runBulkUploadJob(job.id);
+    assert.equal((await getBulkUploadJob(job.id))?.status, 'queued');
+    assert.equal(await isBulkUploadJobStalled(job), false);
+
+    await getSharedStore().release(runnerKey, 'other-instance');
+    assert.equal(await isBulkUploadJobStalled(job), true);
+    await runBulkUploadJob(job.id);
+    assert.equal((await getBulkUploadJob(job.id))?.status, 'completed');
+  });
+
+  it('reuses the row outcomes of an earlier job under the same idempotency key', async () => {
+    const idempotency: IdempotencyRecord = {
+      id: 'bulk-upload:client:key',
+      key: 'key',
+      scope: 'bulk-upload',
+      fingerprint: 'fingerprint',
+      createdAt: Date.now(),
+    };
+    const first = await createBulkUploadJob(input, [input.rowOrganizations.defaultOrganization!], idempotency);
+    await runBulkUploadJob(first.id);
+
+    const second = await createBulkUploadJob(input, [input.rowOrganizations.defaultOrganization!], idempotency);
+    assert.equal((await getRecordedRowOutcomes(second.id)).size, 2);
+    await runBulkUploadJob(second.id);
+
+    const events = (await getBulkUploadJobEvents(second.id)).map(({ event }) => event);
+    assert.ok(events.filter(event => event.type === 'row_created').every(event => 'resumed' in event && event.resumed));
+    assert.equal(hubspot.store().contacts.size, 2);
+  });
+
+  it('is only shown to the user who started it and to admins', async () => {
+    const operator = { sub: 'operator', groups: ['user-creator-bulk-operators'] };
+    const job = await createBulkUploadJob(input, [input.rowOrganizations.defaultOrganization!], undefined, operator);
+
+    assert.equal(job.createdBy, 'operator');
+    assert.equal(canViewBulkUploadJob(job, operator), true);
+    assert.equal(canViewBulkUploadJob(job, { sub: 'other-operator', groups: ['user-creator-bulk-operators'] }), false);
+    assert.equal(canViewBulkUploadJob(job, { sub: 'admin', groups: ['user-creator-admins'] }), true);
+    assert.equal(canViewBulkUploadJob(job, null), true, 'everyone may when sign-in is turned off');
+  });
+});
@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import { getPermissions, getUserRoles } from '@/lib/auth/roles';
+import type { SessionUser } from '@/lib/auth/session';
+import { CustomError, ErrorCodes, logError } from '@/lib/errorHandler';
+import { IDEMPOTENCY_TTL_MS, type IdempotencyRecord, type RecordedRowOutcome } from '@/lib/idempotency';
+import { getSharedStore } from '@/lib/sharedStore';
+import type { ConflictPolicy, ContactProperties } from '@/lib/hubspot';
+import {
+  createEmptyResult,
+  getBulkUploadMessage,
+  getProcessingDetails,
+  processBulkUpload,
+  type BulkUploadOrganization,
+  type BulkUploadResult,
+  type BulkUploadRowEvent,
+  type CsvUser,
+  type RowOrganizations,
+} from '@/lib/bulkUpload';
+
+export type BulkUploadJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Events streamed to clients watching a job: per-row events plus progress and completion
+export type BulkUploadJobEvent =
+  | BulkUploadRowEvent
+  | { type: 'progress'; processed: number; total: number; successful: number; failed: number }
+  | { type: 'done'; status: BulkUploadJobStatus; message?: string; result: BulkUploadResult };
+
+export interface SequencedJobEvent {
+  id: number; // 1-based sequence number, used as the SSE event ID for resuming
+  event: BulkUploadJobEvent;
+}
+
+export interface BulkUploadJob {
+  id: string;
+  status: BulkUploadJobStatus;
+  createdBy?: string; // Subject of the signed-in user who started the job (unset when sign-in is turned off)
+  organizations: BulkUploadOrganization[]; // Companies the rows are associated with
+  processed: number;
+  result: BulkUploadResult;
+  message?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// What a job runs on, kept with it so whichever instance picks the job up can run it
+export interface BulkUploadJobInput {
+  users: CsvUser[];
+  rowOrganizations: RowOrganizations;
+  conflictPolicy?: ConflictPolicy;
+  properties?: ContactProperties;
+  properCaseNames?: boolean;
+}
+
+interface StoredJobInput extends BulkUploadJobInput {
+  outcomesKey: string; // Hash of the recorded row outcomes (shared with resubmissions under the same idempotency key)
+}
+
+/**
+ * Jobs, their input, events and row outcomes are kept in the shared store (see SHARED_STORE), so any instance
+ * can report on a job. A job runs in the instance that accepted it (via after()) while holding a lease it renews;
+ * when that instance stops (e.g. a serverless function timing out), the lease runs out and the next status or
+ * events request resumes the job elsewhere, skipping the rows whose outcome was recorded.
+ */
+const jobKey = (jobId: string) => `bulk-upload-job:${jobId}`;
+const inputKey = (jobId: string) => `bulk-upload-job:${jobId}:input`;
+const eventsKey = (jobId: string) => `bulk-upload-job:${jobId}:events`;
+const runnerKey = (jobId: string) => `bulk-upload-job:${jobId}:runner`;
+const outcomesKeyFor = (id: string) => `bulk-upload-outcomes:${id}`;
+
+// Unfinished jobs are kept for a day; finished ones this long, so clients can still fetch the result after a reload
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+const JOB_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+// A job whose runner has not renewed its lease for this long is resumed by the next request that looks at it
+const RUNNER_LEASE_MS = 30 * 1000;
+const RUNNER_RENEW_INTERVAL_MS = 10 * 1000;
+
+const isFinished = (job: BulkUploadJob) => job.status === 'completed' || job.status === 'failed';
+const ttlFor = (job: BulkUploadJob) => (isFinished(job) ? JOB_RETENTION_MS : JOB_TTL_MS);
+
+async function readJson<T>(key: string): Promise<T | undefined> {
+  const value = await getSharedStore().get(key);
+  return value ? JSON.parse(value) : undefined;
+}
+
+// Create a queued job; with an idempotency record, row outcomes are shared with earlier uploads under the same key
+export async function createBulkUploadJob(
+  input: BulkUploadJobInput,
+  organizations: BulkUploadOrganization[],
+  idempotency?: IdempotencyRecord,
+  user?: SessionUser | null
+): Promise<BulkUploadJob> {
+  const store = getSharedStore();
+  const now = new Date().toISOString();
+  const job: BulkUploadJob = {
+    id: randomUUID(),
+    status: 'queued',
+    createdBy: user?.sub,
+    organizations,
+    processed: 0,
+    result: createEmptyResult(input.users.length),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const storedInput: StoredJobInput = { ...input, outcomesKey: outcomesKeyFor(idempotency?.id ?? job.id) };
+
+  await store.set(inputKey(job.id), JSON.stringify(storedInput), JOB_TTL_MS);
+  await store.set(jobKey(job.id), JSON.stringify(job), JOB_TTL_MS);
+  return job;
+}
+
+export function getBulkUploadJob(jobId: string): Promise<BulkUploadJob | undefined> {
+  return readJson<BulkUploadJob>(jobKey(jobId));
+}
+
+// Jobs list the contacts they created, so only the user who started one and admins may see it
+export function canViewBulkUploadJob(job: BulkUploadJob, user: SessionUser | null): boolean {
+  if (!user) return true; // Sign-in is turned off
+  return job.createdBy === user.sub || getPermissions(getUserRoles(user)).includes('admin');
+}
+
+// Also returned for another user's job, so job IDs cannot be probed
+export function jobNotFoundError(jobId: string): CustomError {
+  return new CustomError(
+    'Bulk upload job not found. Finished jobs are kept for an hour, so it may have expired.',
+    ErrorCodes.JOB_NOT_FOUND,
+    404,
+    { jobId }
+  );
+}
+
+// Row outcomes recorded for the job so far (including those of earlier uploads with the same idempotency key)
+export async function getRecordedRowOutcomes(jobId: string): Promise<Map<number, RecordedRowOutcome>> {
+  const input = await readJson<StoredJobInput>(inputKey(jobId));
+  const fields = input ? await getSharedStore().getFields(input.outcomesKey) : {};
+  return new Map(Object.entries(fields).map(([row, outcome]) => [Number(row), JSON.parse(outcome)]));
+}
+
+// Events recorded after the given sequence number (0 for all)
+export async function getBulkUploadJobEvents(jobId: string, afterId: number = 0): Promise<SequencedJobEvent[]> {
+  const events = await getSharedStore().range(eventsKey(jobId), afterId);
+  return events.map((event, index) => ({ id: afterId + index + 1, event: JSON.parse(event) }));
+}
+
+// Whether the job is unfinished while no instance runs it (it was never started, or its instance stopped)
+export async function isBulkUploadJobStalled(job: BulkUploadJob): Promise<boolean> {
+  return !isFinished(job) && (await getSharedStore().get(runnerKey(job.id))) === null;
+}
+
+const ROW_OUTCOMES = {
+  row_created: 'created',
+  row_updated: 'updated',
+  row_skipped: 'skipped',
+} as const;
+
+// The outcome a row event records, so a resumed job or a retried upload can skip the row
+function toRecordedOutcome(event: BulkUploadRowEvent): RecordedRowOutcome | undefined {
+  if (event.type === 'row_created' || event.type === 'row_updated' || event.type === 'row_skipped') {
+    return { status: ROW_OUTCOMES[event.type], contactId: event.contactId };
+  }
+  if (event.type === 'row_failed') {
+    return {
+      status: 'failed',
+      contactId: event.contactId,
+      error: event.error,
+      errorCode: event.errorCode,
+      retryable: event.retryable,
+    };
+  }
+  return undefined;
+}
+
+// Process a job's rows for the runner holding its lease; stops at the next event once the lease is lost
+async function processJob(
+  job: BulkUploadJob,
+  input: StoredJobInput,
+  lease: { lost: boolean },
+  requestId?: string
+): Promise<void> {
+  const store = getSharedStore();
+  const checkLease = () => {
+    if (lease.lost) throw new Error(`Bulk upload job ${job.id} was taken over by another instance`);
+  };
+  const saveJob = async (changes: Partial<BulkUploadJob>) => {
+    checkLease();
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    await store.set(jobKey(job.id), JSON.stringify(job), ttlFor(job));
+  };
+  const recordEvent = async (event: BulkUploadJobEvent) => {
+    checkLease();
+    await store.append(eventsKey(job.id), JSON.stringify(event), ttlFor(job));
+  };
+
+  // Rows a stopped run already reported are not reported again when their recorded outcome is reused
+  const reportedRows = new Set<number>();
+  for (const { event } of await getBulkUploadJobEvents(job.id)) {
+    if (event.type !== 'progress' && event.type !== 'done' && toRecordedOutcome(event)) reportedRows.add(event.row);
+  }
+  if (job.status === 'running') console.log(`Resuming bulk upload job ${job.id} (${reportedRows.size} rows already reported)`);
+
+  try {
+    await saveJob({ status: 'running' });
+    const result = await processBulkUpload(input.users, input.rowOrganizations, {
+      requestId,
+      previousOutcomes: await getRecordedRowOutcomes(job.id),
+      conflictPolicy: input.conflictPolicy,
+      properties: input.properties,
+      properCaseNames: input.properCaseNames,
+      onProgress: async (progress, processed) => {
+        await saveJob({ processed, result: { ...progress, errors: [...progress.errors] } });
+        await recordEvent({
+          type: 'progress',
+          processed,
+          total: progress.total,
+          successful: progress.successful,
+          failed: progress.failed,
+        });
+      },
+      onRowEvent: async event => {
+        const replayed = event.type === 'row_started' || ('resumed' in event && event.resumed);
+        if (replayed && reportedRows.has(event.row)) return;
+
+        const outcome = toRecordedOutcome(event);
+        if (outcome) {
+          checkLease();
+          await store.setField(input.outcomesKey, String(event.row), JSON.stringify(outcome), IDEMPOTENCY_TTL_MS);
+        }
+        await recordEvent(event);
+      },
+    });
+
+    await saveJob({
+      status: 'completed',
+      processed: result.total,
+      result,
+      message: getBulkUploadMessage(result, job.organizations),
+      completedAt: new Date().toISOString(),
+    });
+
+    await recordEvent({ type: 'done', status: job.status, message: job.message, result });
+    console.log(`Bulk upload job ${job.id} completed: ${result.successful}/${result.total} users created successfully`);
+  } catch (error) {
+    logError(error as Error, { jobId: job.id, requestId, operation: 'runBulkUploadJob' });
+    if (lease.lost) return; // The instance that took over finishes the job
+
+    try {
+      await saveJob({
+        status: 'failed',
+        message: 'An unexpected error occurred during bulk upload',
+        result: { ...job.result, success: false },
+        completedAt: new Date().toISOString(),
+      });
+      await recordEvent({ type: 'done', status: job.status, message: job.message, result: job.result });
+    } catch (saveError) {
+      // e.g. the shared store is unreachable; the job is resumed once the lease runs out
+      logError(saveError as Error, { jobId: job.id, requestId, operation: 'failBulkUploadJob' });
+    }
+  }
+}
+
+/**
+ * Run (or resume) a job, recording progress, events and row outcomes as each row completes.
+ * Returns at once when another instance holds the job's lease or the job is finished.
+ */
+export async function runBulkUploadJob(jobId: string, requestId?: string): Promise<void> {
+  const store = getSharedStore();
+  const runnerId = randomUUID();
+  if (!(await store.lease(runnerKey(jobId), runnerId, RUNNER_LEASE_MS))) return;
+
+  const lease = { lost: false };
+  const renewal = setInterval(() => {
+    store.lease(runnerKey(jobId), runnerId, RUNNER_LEASE_MS)
+      .then(held => { lease.lost ||= !held; })
+      .catch(error => logError(error as Error, { jobId, operation: 'renewBulkUploadJobLease' }));
+  }, RUNNER_RENEW_INTERVAL_MS);
+
+  try {
+    const [job, input] = await Promise.all([getBulkUploadJob(jobId), readJson<StoredJobInput>(inputKey(jobId))]);
+    if (job && input && !isFinished(job)) await processJob(job, input, lease, requestId);
+  } finally {
+    clearInterval(renewal);
+    await store.release(runnerKey(jobId), runnerId)
+      .catch(error => logError(error as Error, { jobId, operation: 'releaseBulkUploadJobLease' }));
+  }
+}
+
+// Shape returned by the bulk upload API for a job
+export function serializeBulkUploadJob(job: BulkUploadJob) {
+  const total = job.result.total;
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    // Kept for single-organization clients; uploads spanning several companies list them in `organizations`
+    organizationId: job.organizations.length === 1 ? job.organizations[0].id : undefined,
+    organizationName: job.organizations.length === 1 ? job.organizations[0].name : `${job.organizations.length} organizations`,
+    organizations: job.organizations,
+    progress: {
+      processed: job.processed,
+      total,
+      percent: total > 0 ? Math.round((job.processed / total) * 100) : 100,
+    },
+    result: job.result,
+    message: job.message,
+    processingDetails: job.status === 'completed' ? getProcessingDetails(job.result) : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
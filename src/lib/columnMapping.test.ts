@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyColumnMapping,
+  applyMappingPreset,
+  createMappingPreset,
+  detectColumnMapping,
+  isMappingComplete,
+  looksLikeHeader,
+  propertyMappingKey,
+  splitFullName,
+} from './columnMapping';
+
+describe('detectColumnMapping', () => {
+  it('matches header synonyms regardless of case and punctuation', () => {
+    const mapping = detectColumnMapping(['Given Name', 'family_name', 'Login', 'Work Email', 'Company']);
+
+    assert.deepEqual(mapping, { firstName: 0, lastName: 1, email: 3, organization: 4 });
+  });
+
+  it('uses a full-name column only when first and last name are missing', () => {
+    assert.deepEqual(detectColumnMapping(['Name', 'Email']), { fullName: 0, email: 1 });
+    assert.equal(detectColumnMapping(['First', 'Last', 'Name', 'Email']).fullName, undefined);
+  });
+
+  it('maps property columns by label or name once the user fields are placed', () => {
+    const mapping = detectColumnMapping(
+      ['Email', 'First', 'Last', 'Job Title', 'phone'],
+      [{ name: 'jobtitle', label: 'Job Title' }, { name: 'phone', label: 'Phone Number' }, { name: 'country', label: 'Country' }]
+    );
+
+    assert.equal(mapping[propertyMappingKey('jobtitle')], 3);
+    assert.equal(mapping[propertyMappingKey('phone')], 4);
+    assert.equal(mapping[propertyMappingKey('country')], undefined);
+  });
+
+  it('assumes first name, last name and email without a header', () => {
+    assert.deepEqual(detectColumnMapping(null), { firstName: 0, lastName: 1, email: 2 });
+    assert.equal(looksLikeHeader(['Jane', 'Doe', 'jane@acme.com']), false);
+    assert.equal(looksLikeHeader(['First', 'Last', 'Email']), true);
+  });
+});
+
+describe('mapping presets', () => {
+  it('saves columns by header name so they still apply after the columns move', () => {
+    const preset = createMappingPreset('Okta export', { firstName: 0, lastName: 1, email: 2 }, ['First', 'Last', 'Mail']);
+
+    assert.deepEqual(applyMappingPreset(preset, ['mail', 'Notes', 'LAST', 'first']), { firstName: 3, lastName: 2, email: 0 });
+    assert.equal(applyMappingPreset(preset, ['First', 'Last']), null);
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('builds users, splitting full names and reading organization and property columns', () => {
+    const mapping = { fullName: 0, email: 1, organization: 2, [propertyMappingKey('jobtitle')]: 3 };
+    const result = applyColumnMapping([
+      { line: 2, fields: ['Doe, Jane', ' jane@acme.com ', 'Acme', 'Engineer'] },
+      { line: 3, fields: ['John Smith', 'john@acme.com', '', ''] },
+    ], mapping);
+
+    assert.deepEqual(result.users, [
+      { firstName: 'Jane', lastName: 'Doe', email: 'jane@acme.com', organizationName: 'Acme', properties: { jobtitle: 'Engineer' } },
+      { firstName: 'John', lastName: 'Smith', email: 'john@acme.com' },
+    ]);
+    assert.deepEqual(result.lines, [2, 3]);
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('reports records with missing values instead of dropping them silently', () => {
+    const result = applyColumnMapping([{ line: 5, fields: ['Jane', '', ''] }], { firstName: 0, lastName: 1, email: 2 });
+
+    assert.deepEqual(result.users, []);
+    assert.deepEqual(result.issues, [{ line: 5, message: 'Skipped: missing lastName, email' }]);
+  });
+
+  it('needs an email and either both names or a full name', () => {
+    assert.equal(isMappingComplete({ firstName: 0, lastName: 1, email: 2 }), true);
+    assert.equal(isMappingComplete({ fullName: 0, email: 1 }), true);
+    assert.equal(isMappingComplete({ firstName: 0, email: 1 }), false);
+    assert.equal(isMappingComplete({ firstName: 0, lastName: 1 }), false);
+  });
+});
+
+describe('splitFullName', () => {
+  it('splits "Last, First" and "First Rest of name"', () => {
+    assert.deepEqual(splitFullName('Doe,  Jane'), { firstName: 'Jane', lastName: 'Doe' });
+    assert.deepEqual(splitFullName(' Mary  Anne van Dyke '), { firstName: 'Mary', lastName: 'Anne van Dyke' });
+    assert.deepEqual(splitFullName('Cher'), { firstName: 'Cher', lastName: '' });
+  });
+});
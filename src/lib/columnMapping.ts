@@ -0,0 +1,191 @@
+import type { CsvIssue, CsvRecord } from '@/lib/csv';
+
+// Fields a bulk upload row needs; a full-name column can stand in for first and last name,
+// and an organization column is optional
+export type MappedField = 'firstName' | 'lastName' | 'email' | 'fullName' | 'organization';
+
+export const MAPPED_FIELDS: Array<{ field: MappedField; label: string }> = [
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'email', label: 'Email' },
+  { field: 'fullName', label: 'Full name (split into first and last name)' },
+  { field: 'organization', label: 'Organization (optional, per row)' },
+];
+
+// Extra contact property columns are mapped under "property:<HubSpot property name>"
+export type PropertyMappingKey = `property:${string}`;
+export type MappingKey = MappedField | PropertyMappingKey;
+
+const PROPERTY_KEY_PREFIX = 'property:';
+
+export function propertyMappingKey(propertyName: string): PropertyMappingKey {
+  return `${PROPERTY_KEY_PREFIX}${propertyName}`;
+}
+
+// A contact property column that can be mapped, matched by its HubSpot label or name
+export interface MappableProperty {
+  name: string;
+  label: string;
+}
+
+// Column index feeding each field (undefined when the field is not mapped)
+export type ColumnMapping = Partial<Record<MappingKey, number>>;
+
+// A saved mapping for files from one source, stored by header name so column order may change
+export interface MappingPreset {
+  name: string;
+  columns: Partial<Record<MappingKey, string>>;
+}
+
+export interface MappedUser {
+  firstName: string;
+  lastName: string;
+  email: string;
+  organizationName?: string;
+  properties?: Record<string, string>; // Values of mapped property columns, by HubSpot property name
+}
+
+export interface MappedRows {
+  users: MappedUser[];
+  lines: number[]; // Source line of each user
+  issues: CsvIssue[];
+}
+
+// Header names seen in Okta, Salesforce and customer exports, compared after normalizeHeader
+const HEADER_SYNONYMS: Record<MappedField, string[]> = {
+  firstName: ['firstname', 'givenname', 'first', 'fname', 'forename'],
+  lastName: ['lastname', 'surname', 'familyname', 'last', 'lname'],
+  email: ['email', 'emailaddress', 'workemail', 'primaryemail', 'businessemail', 'mail', 'login', 'username'],
+  fullName: ['fullname', 'name', 'displayname', 'contactname'],
+  organization: ['organization', 'organisation', 'organizationname', 'company', 'companyname', 'account', 'accountname', 'org'],
+};
+
+// "Given Name", "given_name" and "GivenName" all become "givenname"
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// A first record containing an email address is data, not a header row
+export function looksLikeHeader(fields: string[]): boolean {
+  return fields.length > 0 && !fields.some(field => field.includes('@'));
+}
+
+/**
+ * Guess which column feeds which field from the header names.
+ * Earlier synonyms win (a "Work Email" column beats "Login"); a full-name column is only
+ * used when separate first and last name columns are missing.
+ * Property columns are matched by the property's label or name once the user fields are placed.
+ * Without a header the columns are assumed to be firstName, lastName, email.
+ */
+export function detectColumnMapping(header: string[] | null, properties: MappableProperty[] = []): ColumnMapping {
+  if (!header) return { firstName: 0, lastName: 1, email: 2 };
+
+  const normalized = header.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  (Object.keys(HEADER_SYNONYMS) as MappedField[]).forEach(field => {
+    for (const synonym of HEADER_SYNONYMS[field]) {
+      const index = normalized.indexOf(synonym);
+      if (index >= 0 && !Object.values(mapping).includes(index)) {
+        mapping[field] = index;
+        break;
+      }
+    }
+  });
+
+  if (mapping.firstName !== undefined && mapping.lastName !== undefined) {
+    delete mapping.fullName;
+  }
+
+  properties.forEach(property => {
+    const index = normalized.findIndex((name, position) =>
+      (name === normalizeHeader(property.label) || name === normalizeHeader(property.name)) &&
+      !Object.values(mapping).includes(position)
+    );
+    if (index >= 0) mapping[propertyMappingKey(property.name)] = index;
+  });
+  return mapping;
+}
+
+// A preset applies to a file that has every header it refers to
+export function applyMappingPreset(preset: MappingPreset, header: string[]): ColumnMapping | null {
+  const normalized = header.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  for (const [field, headerName] of Object.entries(preset.columns) as Array<[MappingKey, string]>) {
+    const index = normalized.indexOf(normalizeHeader(headerName));
+    if (index < 0) return null;
+    mapping[field] = index;
+  }
+  return mapping;
+}
+
+export function createMappingPreset(name: string, mapping: ColumnMapping, header: string[]): MappingPreset {
+  const columns: MappingPreset['columns'] = {};
+  (Object.entries(mapping) as Array<[MappingKey, number | undefined]>).forEach(([field, index]) => {
+    if (index !== undefined && header[index] !== undefined) columns[field] = header[index];
+  });
+  return { name, columns };
+}
+
+// Email plus either first and last name, or a full name to split
+export function isMappingComplete(mapping: ColumnMapping): boolean {
+  const hasNames = (mapping.firstName !== undefined && mapping.lastName !== undefined) || mapping.fullName !== undefined;
+  return mapping.email !== undefined && hasNames;
+}
+
+// "Doe, Jane" becomes Jane / Doe; otherwise the first word is the first name and the rest the last name
+export function splitFullName(fullName: string): { firstName: string; lastName: string } {
+  const trimmed = fullName.trim().replace(/\s+/g, ' ');
+  const commaIndex = trimmed.indexOf(',');
+  if (commaIndex >= 0) {
+    return { firstName: trimmed.slice(commaIndex + 1).trim(), lastName: trimmed.slice(0, commaIndex).trim() };
+  }
+
+  const spaceIndex = trimmed.indexOf(' ');
+  if (spaceIndex < 0) return { firstName: trimmed, lastName: '' };
+  return { firstName: trimmed.slice(0, spaceIndex), lastName: trimmed.slice(spaceIndex + 1) };
+}
+
+/**
+ * Turn parsed records into users with the given mapping.
+ * Records with missing values are reported as issues (with their source line) instead of being dropped silently.
+ */
+export function applyColumnMapping(records: CsvRecord[], mapping: ColumnMapping): MappedRows {
+  const users: MappedUser[] = [];
+  const lines: number[] = [];
+  const issues: CsvIssue[] = [];
+  const valueAt = (fields: string[], index?: number) => (index === undefined ? '' : (fields[index] || '').trim());
+
+  records.forEach(record => {
+    const split = mapping.fullName !== undefined ? splitFullName(valueAt(record.fields, mapping.fullName)) : undefined;
+    const user: MappedUser = {
+      firstName: valueAt(record.fields, mapping.firstName) || split?.firstName || '',
+      lastName: valueAt(record.fields, mapping.lastName) || split?.lastName || '',
+      email: valueAt(record.fields, mapping.email),
+    };
+
+    const missing = Object.entries(user)
+      .filter(([, value]) => !value)
+      .map(([name]) => name);
+    if (missing.length > 0) {
+      issues.push({ line: record.line, message: `Skipped: missing ${missing.join(', ')}` });
+      return;
+    }
+
+    // An empty organization cell means the row uses the upload's organization
+    const organizationName = valueAt(record.fields, mapping.organization);
+    if (organizationName) user.organizationName = organizationName;
+
+    // Empty property cells leave the property unset
+    (Object.entries(mapping) as Array<[MappingKey, number | undefined]>).forEach(([key, index]) => {
+      const value = key.startsWith(PROPERTY_KEY_PREFIX) ? valueAt(record.fields, index) : '';
+      if (value) user.properties = { ...user.properties, [key.slice(PROPERTY_KEY_PREFIX.length)]: value };
+    });
+
+    users.push(user);
+    lines.push(record.line);
+  });
+
+  return { users, lines, issues };
+}
@@ -0,0 +1,77 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import {
+  RESERVED_CONTACT_PROPERTIES,
+  getContactPropertyDefinitions,
+  type HubSpotGateway,
+  type PropertyDefinition,
+} from '@/lib/hubspot';
+
+// How a field is rendered in the forms
+export type ContactFieldInput = 'text' | 'textarea' | 'number' | 'date' | 'select' | 'checkbox';
+
+// An extra contact property collected by the forms, described by its HubSpot definition
+export interface ContactField {
+  name: string; // HubSpot property name
+  label: string;
+  input: ContactFieldInput;
+  options: Array<{ label: string; value: string }>;
+  multiple?: boolean; // Select that takes several options (stored separated by semicolons)
+}
+
+// Comma-separated HubSpot property names shown in the forms, e.g. "jobtitle,phone,country,portal_role"
+export const CONTACT_FIELDS_ENV = 'CONTACT_FORM_FIELDS';
+
+export function getConfiguredContactFieldNames(): string[] {
+  return [...new Set((process.env[CONTACT_FIELDS_ENV] || '').split(',').map(name => name.trim()).filter(Boolean))];
+}
+
+function getFieldInput(definition: PropertyDefinition): ContactFieldInput {
+  switch (definition.type) {
+    case 'enumeration':
+      return 'select';
+    case 'bool':
+      return 'checkbox';
+    case 'date':
+      return 'date';
+    case 'number':
+      return 'number';
+    default:
+      return definition.fieldType === 'textarea' ? 'textarea' : 'text';
+  }
+}
+
+export function toContactField(definition: PropertyDefinition): ContactField {
+  const input = getFieldInput(definition);
+  return {
+    name: definition.name,
+    label: definition.label,
+    input,
+    options: input === 'select' ? definition.options : [],
+    ...(input === 'select' && definition.fieldType === 'checkbox' && { multiple: true }),
+  };
+}
+
+/**
+ * The configured extra fields, in configuration order, from the (cached) HubSpot property definitions.
+ * A configured property that does not exist, is read-only or is set by the app is a configuration error.
+ * HubSpot errors while reading the definitions are thrown as-is.
+ */
+export async function getContactFields(gateway: HubSpotGateway): Promise<ContactField[]> {
+  const names = getConfiguredContactFieldNames();
+  if (names.length === 0) return [];
+
+  const definitions = await getContactPropertyDefinitions(gateway);
+  const invalid = names.filter(name =>
+    RESERVED_CONTACT_PROPERTIES.includes(name) || !definitions.get(name) || definitions.get(name)!.readOnly
+  );
+  if (invalid.length > 0) {
+    throw new CustomError(
+      `${CONTACT_FIELDS_ENV} lists properties that do not exist in HubSpot, are read-only or are set by the app: ${invalid.join(', ')}`,
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500,
+      { properties: invalid }
+    );
+  }
+
+  return names.map(name => toContactField(definitions.get(name)!));
+}
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectDelimiter, formatCsv, parseCsv } from './csv';
+
+const fieldsOf = (text: string) => parseCsv(text).records.map(record => record.fields);
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const result = parseCsv('name,note\r\n"Doe, Jane","said ""hi""\nand left"\r\n');
+
+    assert.deepEqual(result.records, [
+      { line: 1, fields: ['name', 'note'] },
+      { line: 2, fields: ['Doe, Jane', 'said "hi"\nand left'] },
+    ]);
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('skips a byte order mark and blank lines and keeps the source line numbers', () => {
+    const result = parseCsv('\uFEFFa,b\n\n1,2\r3,4');
+
+    assert.deepEqual(result.records, [
+      { line: 1, fields: ['a', 'b'] },
+      { line: 3, fields: ['1', '2'] },
+      { line: 4, fields: ['3', '4'] },
+    ]);
+  });
+
+  it('counts the lines inside quoted fields so later records report where they start', () => {
+    const result = parseCsv('"multi\nline",x\nnext,y\n');
+
+    assert.deepEqual(result.records.map(record => record.line), [1, 3]);
+  });
+
+  it('reports malformed quoting instead of failing', () => {
+    const stray = parseCsv('"a"b,c\n');
+    assert.deepEqual(stray.records[0].fields, ['ab', 'c']);
+    assert.deepEqual(stray.issues.map(issue => issue.line), [1]);
+
+    const unclosed = parseCsv('ok,1\n"never closed,2\n');
+    assert.equal(unclosed.records.length, 2);
+    assert.match(unclosed.issues[0].message, /never closed/);
+    assert.equal(unclosed.issues[0].line, 2);
+  });
+
+  it('uses the delimiter it was given', () => {
+    assert.deepEqual(parseCsv('a;b,c', { delimiter: ';' }).records[0].fields, ['a', 'b,c']);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the most frequent delimiter outside quotes on the first line', () => {
+    assert.equal(detectDelimiter('first;last;email\nJo,Do;x;y'), ';');
+    assert.equal(detectDelimiter('first\tlast\temail'), '\t');
+    assert.equal(detectDelimiter('"a;b;c",d'), ',');
+    assert.equal(detectDelimiter('single column'), ',');
+  });
+});
+
+describe('formatCsv', () => {
+  it('quotes values only where needed and reads back unchanged', () => {
+    const rows = [['name', 'note', 'count'], ['Doe, Jane', 'said "hi"\nbye', 3], ['plain', undefined, true]];
+    const text = formatCsv(rows);
+
+    assert.equal(text, 'name,note,count\r\n"Doe, Jane","said ""hi""\nbye",3\r\nplain,,true\r\n');
+    assert.deepEqual(fieldsOf(text), [['name', 'note', 'count'], ['Doe, Jane', 'said "hi"\nbye', '3'], ['plain', '', 'true']]);
+  });
+});
@@ -0,0 +1,142 @@
+// RFC 4180 CSV parsing and writing with no Node or browser dependencies, so the same code runs in
+// the upload forms and in API routes.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// One parsed record with the 1-based source line it starts on (quoted fields may span several lines)
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+// A line that was skipped or parsed with a problem, reported so the user can fix the file
+export interface CsvIssue {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  delimiter: CsvDelimiter;
+  records: CsvRecord[];
+  issues: CsvIssue[];
+}
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter; // Detected from the first line when omitted
+}
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+// Pick the delimiter that occurs most often (outside quotes) on the first line; commas win ties
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of text.replace(BYTE_ORDER_MARK, '')) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+
+  return CSV_DELIMITERS.reduce((best, delimiter) => (counts.get(delimiter)! > counts.get(best)! ? delimiter : best));
+}
+
+/**
+ * Parse CSV text: quoted fields (with embedded delimiters, newlines and "" escapes), a leading
+ * UTF-8 BOM and LF, CRLF or CR line endings. Blank lines are skipped. Malformed quoting is
+ * parsed as leniently as possible and reported in `issues` with its line number.
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const input = text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text;
+  const delimiter = options.delimiter ?? detectDelimiter(input);
+  const records: CsvRecord[] = [];
+  const issues: CsvIssue[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let afterQuote = false; // Just closed a quoted field; only a delimiter or line end should follow
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    afterQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // A line with nothing on it is not a record
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'; // Escaped quote
+          i++;
+        } else {
+          inQuotes = false;
+          afterQuote = true;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char === '"' && field === '' && !afterQuote) {
+      inQuotes = true;
+      quoteLine = line;
+    } else {
+      if (afterQuote) {
+        issues.push({ line, message: `Unexpected character "${char}" after a closing quote` });
+        afterQuote = false;
+      }
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    issues.push({ line: quoteLine, message: 'Quoted field is never closed; the rest of the file was read as one value' });
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return { delimiter, records, issues };
+}
+
+// Quote a value when it contains a delimiter, quote or line break (quotes are doubled)
+function formatCsvField(value: string, delimiter: CsvDelimiter): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Write rows as CSV text with CRLF line endings, which Excel and parseCsv both read back unchanged
+export function formatCsv(rows: Array<Array<string | number | boolean | undefined>>, delimiter: CsvDelimiter = ','): string {
+  return rows
+    .map(row => row.map(value => formatCsvField(value === undefined ? '' : String(value), delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,149 @@
+import { ErrorCodes, handleHubSpotError, logError } from '@/lib/errorHandler';
+import { normalizeEmail } from '@/lib/validation';
+import {
+  getHubSpotGateway,
+  deactivateContacts,
+  findExistingContacts,
+  type ContactDeactivationResult,
+  type DeactivationOptions,
+} from '@/lib/hubspot';
+
+export type DeactivationOutcome = 'deactivated' | 'already_inactive' | 'not_found' | 'failed';
+
+export interface DeactivationRow {
+  row: number;
+  email: string;
+  outcome: DeactivationOutcome;
+  contactId?: string;
+  removedCompanyIds?: string[];
+  error?: string;
+  errorCode?: string;
+}
+
+export interface DeactivationResult {
+  success: boolean;
+  total: number;
+  deactivated: number;
+  alreadyInactive: number;
+  notFound: number;
+  failed: number;
+  reason: string;
+  rows: DeactivationRow[];
+}
+
+export const MAX_DEACTIVATION_REASON_LENGTH = 500;
+
+/**
+ * Deactivate the contacts with the given emails.
+ * Invalid or repeated emails fail without calling HubSpot; emails without a contact are
+ * reported as not found and contacts that are already inactive are left untouched.
+ */
+export async function processDeactivation(
+  emails: string[],
+  options: DeactivationOptions & { requestId?: string }
+): Promise<DeactivationResult> {
+  const { requestId, ...deactivationOptions } = options;
+  const gateway = getHubSpotGateway();
+  const rows: DeactivationRow[] = [];
+  const seenEmails = new Set<string>();
+
+  emails.forEach((rawEmail, i) => {
+    const row = i + 1; // 1-based row numbers for user-friendly display
+    const email = normalizeEmail(String(rawEmail ?? ''));
+    if (!email) {
+      rows.push({
+        row,
+        email: String(rawEmail ?? '').trim().toLowerCase(),
+        outcome: 'failed',
+        error: 'Invalid email format',
+        errorCode: ErrorCodes.VALIDATION_ERROR,
+      });
+      return;
+    }
+
+    if (seenEmails.has(email)) {
+      rows.push({
+        row,
+        email,
+        outcome: 'failed',
+        error: `Duplicate email ${email} appears earlier in this list`,
+        errorCode: ErrorCodes.VALIDATION_ERROR,
+      });
+      return;
+    }
+
+    seenEmails.add(email);
+    // Valid emails count as not found until the lookup below finds their contact
+    rows.push({ row, email, outcome: 'not_found' });
+  });
+
+  const pending = rows.filter(row => row.outcome === 'not_found');
+
+  let existingContacts;
+  try {
+    existingContacts = await findExistingContacts(gateway, pending.map(row => row.email));
+  } catch (error) {
+    throw handleHubSpotError(error);
+  }
+
+  const toDeactivate: DeactivationRow[] = [];
+  pending.forEach(row => {
+    const contact = existingContacts.get(row.email);
+    if (!contact) return;
+
+    row.contactId = contact.id;
+    if (contact.properties.active_in_okta === 'false') {
+      row.outcome = 'already_inactive';
+    } else {
+      toDeactivate.push(row);
+    }
+  });
+
+  let deactivationResults: ContactDeactivationResult[];
+  try {
+    deactivationResults = await deactivateContacts(gateway, toDeactivate.map(row => row.contactId!), deactivationOptions);
+  } catch (unexpectedError) {
+    logError(unexpectedError as Error, { operation: 'deactivateContacts', contactCount: toDeactivate.length, requestId });
+    const error = handleHubSpotError(unexpectedError);
+    deactivationResults = toDeactivate.map(row => ({ contactId: row.contactId!, error }));
+  }
+
+  deactivationResults.forEach((result, index) => {
+    const row = toDeactivate[index];
+    if (result.error) {
+      row.outcome = 'failed';
+      row.error = result.error.message;
+      row.errorCode = result.error.code;
+      return;
+    }
+
+    row.outcome = 'deactivated';
+    row.removedCompanyIds = result.removedCompanyIds;
+    console.log(`Deactivated contact ${row.contactId}`);
+  });
+
+  const count = (outcome: DeactivationOutcome) => rows.filter(row => row.outcome === outcome).length;
+  const deactivated = count('deactivated');
+
+  return {
+    success: deactivated > 0 || count('already_inactive') > 0,
+    total: rows.length,
+    deactivated,
+    alreadyInactive: count('already_inactive'),
+    notFound: count('not_found'),
+    failed: count('failed'),
+    reason: deactivationOptions.reason,
+    rows,
+  };
+}
+
+// Build the user-facing summary message for a deactivation request
+export function getDeactivationMessage(result: DeactivationResult): string {
+  const parts = [`${result.deactivated} of ${result.total} users deactivated`];
+
+  if (result.alreadyInactive > 0) parts.push(`${result.alreadyInactive} already inactive`);
+  if (result.notFound > 0) parts.push(`${result.notFound} not found in HubSpot`);
+  if (result.failed > 0) parts.push(`${result.failed} failed`);
+
+  return `${parts.join(', ')}.`;
+}
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CustomError, ErrorCodes, handleHubSpotError, isRetryableError } from './errorHandler';
+
+// The shape @hubspot/api-client throws: ApiException with the HTTP status as `code`
+const apiException = (status: number, body: Record<string, unknown> = {}) => ({ code: status, body, headers: {} });
+
+describe('isRetryableError', () => {
+  it('retries HubSpot rate limits, outages and network errors', () => {
+    assert.equal(isRetryableError(handleHubSpotError(apiException(429))), true);
+    assert.equal(isRetryableError(handleHubSpotError(apiException(502))), true);
+    assert.equal(isRetryableError(handleHubSpotError(apiException(504))), true);
+    assert.equal(isRetryableError(handleHubSpotError({ code: 'ECONNRESET', message: 'socket hang up' })), true);
+  });
+
+  it('does not retry rejected data, conflicts or permission errors', () => {
+    assert.equal(isRetryableError(handleHubSpotError(apiException(400, { message: 'Property values were not valid' }))), false);
+    assert.equal(isRetryableError(handleHubSpotError(apiException(409))), false);
+    assert.equal(isRetryableError(handleHubSpotError(apiException(403))), false);
+    assert.equal(isRetryableError(new CustomError('Invalid email', ErrorCodes.VALIDATION_ERROR, 400)), false);
+  });
+
+  it('does not retry errors raised by this application', () => {
+    assert.equal(isRetryableError(handleHubSpotError(new TypeError('Cannot read properties of undefined'))), false);
+    assert.equal(isRetryableError(new CustomError('Something broke', ErrorCodes.INTERNAL_SERVER_ERROR, 500)), false);
+  });
+});
+
+describe('handleHubSpotError', () => {
+  it('reports a duplicate email as a conflict', () => {
+    const error = handleHubSpotError(apiException(400, {
+      message: 'Property values were not valid: [{"isValid":false,"message":"A contact with the email already has that value=ada@example.com"}]',
+    }));
+
+    assert.equal(error.code, ErrorCodes.USER_ALREADY_EXISTS);
+    assert.equal(error.statusCode, 409);
+  });
+
+  it('keeps the Retry-After of a rate limit', () => {
+    const error = handleHubSpotError({ code: 429, body: {}, headers: { 'retry-after': '7' } });
+
+    assert.equal(error.code, ErrorCodes.RATE_LIMIT_EXCEEDED);
+    assert.equal(error.details.retryAfter, '7');
+  });
+});
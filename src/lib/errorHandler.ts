@@ -29,15 +29,33 @@ export const ErrorCodes = {
   HUBSPOT_API_ERROR: 'HUBSPOT_API_ERROR',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
   AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
+  FORBIDDEN: 'FORBIDDEN',
   NETWORK_ERROR: 'NETWORK_ERROR',
   INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
   INVALID_REQUEST: 'INVALID_REQUEST',
   COMPANY_NOT_FOUND: 'COMPANY_NOT_FOUND',
+  CONTACT_NOT_FOUND: 'CONTACT_NOT_FOUND',
   USER_ALREADY_EXISTS: 'USER_ALREADY_EXISTS',
   FILE_PROCESSING_ERROR: 'FILE_PROCESSING_ERROR',
   ASSOCIATION_ERROR: 'ASSOCIATION_ERROR',
+  JOB_NOT_FOUND: 'JOB_NOT_FOUND',
+  IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
+  REQUEST_IN_PROGRESS: 'REQUEST_IN_PROGRESS',
 } as const;
 
+// Network errors meaning HubSpot could not be reached (the request may not have been sent)
+const NETWORK_ERROR_CODES = ['ENOTFOUND', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+/**
+ * Whether submitting the same request again may succeed: HubSpot rate limits, network errors and
+ * HubSpot 5xx responses (including an open circuit breaker). Rejected data, missing permissions
+ * and errors in this application fail the same way every time.
+ */
+export function isRetryableError(error: Pick<CustomError, 'code' | 'statusCode'>): boolean {
+  if (error.code === ErrorCodes.RATE_LIMIT_EXCEEDED || error.code === ErrorCodes.NETWORK_ERROR) return true;
+  return error.code === ErrorCodes.HUBSPOT_API_ERROR && error.statusCode >= 500;
+}
+
 // Error logging utility
 export function logError(error: Error | CustomError, context?: any) {
   const errorLog = {
@@ -61,11 +79,49 @@ export function logError(error: Error | CustomError, context?: any) {
   // - CloudWatch: cloudwatchLogger.error(errorLog);
 }
 
+// The parts of a HubSpot error response body read here; the whole body is kept as the error details
+interface HubSpotErrorBody {
+  message?: string;
+  category?: string;
+  [key: string]: unknown;
+}
+
+interface ErrorResponse {
+  status: number;
+  data?: HubSpotErrorBody;
+  headers: Record<string, string>;
+}
+
+// Normalize the error shapes thrown by HTTP clients into { status, data, headers }
+// (axios-style errors carry `response`, @hubspot/api-client throws ApiException with a numeric `code`)
+function getErrorResponse(error: unknown): ErrorResponse | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+
+  const { response, code, body, headers } = error as {
+    response?: { status: number; data?: HubSpotErrorBody; headers?: Record<string, string> };
+    code?: unknown;
+    body?: HubSpotErrorBody;
+    headers?: Record<string, string>;
+  };
+  if (response) {
+    return { status: response.status, data: response.data, headers: response.headers || {} };
+  }
+  if (typeof code === 'number') {
+    return { status: code, data: body, headers: headers || {} };
+  }
+  return undefined;
+}
+
 // HubSpot API error handler
 export function handleHubSpotError(error: any): CustomError {
-  if (error.response) {
-    const status = error.response.status;
-    const data = error.response.data;
+  if (error instanceof CustomError) {
+    return error;
+  }
+
+  const response = getErrorResponse(error);
+  if (response) {
+    const status = response.status;
+    const data = response.data;
     
     switch (status) {
       case 400:
@@ -123,7 +179,7 @@ export function handleHubSpotError(error: any): CustomError {
           'HubSpot API rate limit exceeded. Please try again later.',
           ErrorCodes.RATE_LIMIT_EXCEEDED,
           429,
-          data
+          { ...data, retryAfter: response.headers['retry-after'] }
         );
       case 500:
       case 502:
@@ -144,18 +200,20 @@ export function handleHubSpotError(error: any): CustomError {
     }
   }
 
-  if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+  const networkCode = error.code || error.cause?.code;
+  if (NETWORK_ERROR_CODES.includes(networkCode)) {
     return new CustomError(
       'Unable to connect to HubSpot API. Please check network connection.',
       ErrorCodes.NETWORK_ERROR,
       503,
-      { originalError: error.code }
+      { originalError: networkCode }
     );
   }
 
+  // Neither a HubSpot response nor a network error: most likely a bug here, so not worth retrying
   return new CustomError(
     `Unexpected HubSpot API error: ${error.message}`,
-    ErrorCodes.HUBSPOT_API_ERROR,
+    ErrorCodes.INTERNAL_SERVER_ERROR,
     500,
     { originalError: error.message }
   );
@@ -187,7 +245,12 @@ export function createErrorResponse(error: CustomError | Error, requestId?: stri
   // Log the error
   logError(error, { requestId });
 
-  return NextResponse.json({ error: apiError }, { status: apiError.statusCode });
+  // Rate limits and the HubSpot circuit breaker say when to try again
+  const retryAfterSeconds = apiError.details?.retryAfterSeconds;
+  return NextResponse.json({ error: apiError }, {
+    status: apiError.statusCode,
+    ...(typeof retryAfterSeconds === 'number' && { headers: { 'Retry-After': String(retryAfterSeconds) } }),
+  });
 }
 
 // Success response builder
@@ -213,16 +276,3 @@ export function validateRequiredFields(data: any, requiredFields: string[]): voi
     );
   }
 }
-
-// Email validation helper
-export function validateEmail(email: string): void {
-  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-  if (!emailRegex.test(email)) {
-    throw new CustomError(
-      'Invalid email format',
-      ErrorCodes.VALIDATION_ERROR,
-      400,
-      { email }
-    );
-  }
-}
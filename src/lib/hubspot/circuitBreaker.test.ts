@@ -0,0 +1,141 @@
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as getHealth } from '@/app/api/health/route';
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import {
+  HUBSPOT_CIRCUIT_MIN_CALLS_ENV,
+  HUBSPOT_CIRCUIT_OPEN_MS_ENV,
+  enterHubSpotCircuit,
+  getHubSpotCircuitStatus,
+  recordHubSpotCallOutcome,
+} from './circuitBreaker';
+
+const OPEN_MS = 10000;
+const globalState = globalThis as typeof globalThis & { hubSpotCircuitBreaker?: unknown };
+
+// Let calls through at `now`, recording whether each one failed
+function callAt(now: number, outcomes: boolean[]) {
+  for (const failed of outcomes) {
+    enterHubSpotCircuit(now);
+    recordHubSpotCallOutcome(failed, now);
+  }
+}
+
+// The 503 thrown while calls are paused, or undefined when the call is let through
+function rejection(now: number): CustomError | undefined {
+  try {
+    enterHubSpotCircuit(now);
+    return undefined;
+  } catch (error) {
+    return error as CustomError;
+  }
+}
+
+describe('HubSpot circuit breaker', () => {
+  beforeEach(() => {
+    delete globalState.hubSpotCircuitBreaker;
+    process.env[HUBSPOT_CIRCUIT_MIN_CALLS_ENV] = '4';
+    process.env[HUBSPOT_CIRCUIT_OPEN_MS_ENV] = String(OPEN_MS);
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => {
+    delete globalState.hubSpotCircuitBreaker;
+    delete process.env[HUBSPOT_CIRCUIT_MIN_CALLS_ENV];
+    delete process.env[HUBSPOT_CIRCUIT_OPEN_MS_ENV];
+  });
+
+  it('stays closed until enough calls failed', () => {
+    callAt(0, [true, true, true]);
+    assert.equal(getHubSpotCircuitStatus(0).state, 'closed'); // Fewer calls than the minimum
+
+    callAt(0, [false, false, false, false, false, true]);
+    assert.equal(getHubSpotCircuitStatus(0).state, 'closed'); // 4 of 9 calls failed
+    assert.equal(getHubSpotCircuitStatus(0).calls, 9);
+    assert.equal(rejection(0), undefined);
+  });
+
+  it('opens once half the calls failed and rejects calls until the open period has passed', () => {
+    callAt(0, [false, true, false, true]);
+
+    assert.deepEqual(getHubSpotCircuitStatus(0), {
+      state: 'open',
+      failureRate: 0,
+      calls: 0,
+      openedAt: new Date(0).toISOString(),
+      retryAt: new Date(OPEN_MS).toISOString(),
+    });
+    const error = rejection(1000);
+    assert.equal(error?.code, ErrorCodes.HUBSPOT_API_ERROR);
+    assert.equal(error?.statusCode, 503);
+    assert.deepEqual(error?.details, { circuit: 'open', retryAfterSeconds: 9 });
+  });
+
+  it('lets a single probe through once the open period has passed', () => {
+    callAt(0, [true, true, true, true]);
+
+    assert.equal(rejection(OPEN_MS), undefined);
+    assert.equal(getHubSpotCircuitStatus(OPEN_MS).state, 'half-open');
+    assert.deepEqual(rejection(OPEN_MS + 1)?.details, { circuit: 'half-open', retryAfterSeconds: 1 });
+  });
+
+  it('closes when the probe succeeds', () => {
+    callAt(0, [true, true, true, true]);
+
+    callAt(OPEN_MS, [false]);
+
+    assert.equal(getHubSpotCircuitStatus(OPEN_MS).state, 'closed');
+    assert.equal(rejection(OPEN_MS), undefined);
+  });
+
+  it('opens again for another period when the probe fails', () => {
+    callAt(0, [true, true, true, true]);
+
+    callAt(OPEN_MS, [true]);
+
+    assert.equal(getHubSpotCircuitStatus(OPEN_MS).state, 'open');
+    assert.ok(rejection(2 * OPEN_MS - 1));
+    assert.equal(rejection(2 * OPEN_MS), undefined);
+  });
+
+  it('lets another probe through when the last one never settled', () => {
+    callAt(0, [true, true, true, true]);
+    enterHubSpotCircuit(OPEN_MS);
+
+    assert.ok(rejection(2 * OPEN_MS));
+    assert.equal(rejection(2 * OPEN_MS + 1), undefined);
+  });
+
+  it('ignores calls that settle after the circuit opened', () => {
+    callAt(0, [true, true, true, true]);
+
+    recordHubSpotCallOutcome(false, 1000);
+
+    assert.equal(getHubSpotCircuitStatus(1000).state, 'open');
+  });
+
+  it('forgets failures older than the window', () => {
+    callAt(0, [true, true, true]);
+
+    callAt(60 * 1000 + 1, [true]);
+
+    assert.equal(getHubSpotCircuitStatus(60 * 1000 + 1).state, 'closed');
+  });
+
+  it('is reported as degraded by /api/health while calls are paused', async () => {
+    const closed = await (await getHealth()).json();
+    assert.equal(closed.status, 'ok');
+    assert.equal(closed.hubspotCircuit.state, 'closed');
+
+    callAt(Date.now(), [true, true, true, true]);
+
+    const open = await (await getHealth()).json();
+    assert.equal(open.status, 'degraded');
+    assert.equal(open.hubspotCircuit.state, 'open');
+    assert.ok(open.hubspotCircuit.retryAt);
+  });
+});
@@ -0,0 +1,132 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+
+// closed: calls go through; open: calls are rejected at once; half-open: one probe call checks for recovery
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface HubSpotCircuitStatus {
+  state: CircuitState;
+  failureRate: number; // Share of the calls in the window that failed because HubSpot was unavailable
+  calls: number; // Calls counted in the window
+  openedAt?: string;
+  retryAt?: string; // When the next probe call is let through
+}
+
+// Environment variables tuning the circuit breaker
+export const HUBSPOT_CIRCUIT_FAILURE_RATE_ENV = 'HUBSPOT_CIRCUIT_FAILURE_RATE';
+export const HUBSPOT_CIRCUIT_MIN_CALLS_ENV = 'HUBSPOT_CIRCUIT_MIN_CALLS';
+export const HUBSPOT_CIRCUIT_WINDOW_MS_ENV = 'HUBSPOT_CIRCUIT_WINDOW_MS';
+export const HUBSPOT_CIRCUIT_OPEN_MS_ENV = 'HUBSPOT_CIRCUIT_OPEN_MS';
+
+const DEFAULT_FAILURE_RATE = 0.5;
+const DEFAULT_MIN_CALLS = 5; // Fewer calls than this never open the circuit, so one failure at a quiet time does not
+const DEFAULT_WINDOW_MS = 60 * 1000;
+const DEFAULT_OPEN_MS = 30 * 1000;
+
+interface CircuitBreakerState {
+  state: CircuitState;
+  outcomes: Array<{ at: number; failed: boolean }>;
+  openedAt: number;
+  probeStartedAt?: number;
+}
+
+// Kept on globalThis so every route in the process sees the same circuit
+const globalForCircuit = globalThis as typeof globalThis & { hubSpotCircuitBreaker?: CircuitBreakerState };
+
+function getState(): CircuitBreakerState {
+  return globalForCircuit.hubSpotCircuitBreaker ??= { state: 'closed', outcomes: [], openedAt: 0 };
+}
+
+function readNumber(name: string, fallback: number, valid: (value: number) => boolean): number {
+  const raw = process.env[name]?.trim();
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && valid(value) ? value : fallback;
+}
+
+function getSettings() {
+  return {
+    failureRate: readNumber(HUBSPOT_CIRCUIT_FAILURE_RATE_ENV, DEFAULT_FAILURE_RATE, value => value > 0 && value <= 1),
+    minCalls: readNumber(HUBSPOT_CIRCUIT_MIN_CALLS_ENV, DEFAULT_MIN_CALLS, value => Number.isInteger(value) && value >= 1),
+    windowMs: readNumber(HUBSPOT_CIRCUIT_WINDOW_MS_ENV, DEFAULT_WINDOW_MS, value => value >= 1000),
+    openMs: readNumber(HUBSPOT_CIRCUIT_OPEN_MS_ENV, DEFAULT_OPEN_MS, value => value >= 1000),
+  };
+}
+
+function open(state: CircuitBreakerState, now: number, reason: string): void {
+  state.state = 'open';
+  state.openedAt = now;
+  state.probeStartedAt = undefined;
+  state.outcomes = [];
+  console.log(`HubSpot circuit opened (${reason}); calls are paused for ${getSettings().openMs}ms`);
+}
+
+/**
+ * Let a HubSpot call through, or throw a 503 HUBSPOT_API_ERROR (with retryAfterSeconds) while the circuit is open.
+ * Once the open period has passed, a single probe call is let through and the others are still rejected.
+ */
+export function enterHubSpotCircuit(now = Date.now()): void {
+  const state = getState();
+  if (state.state === 'closed') return;
+
+  const { openMs } = getSettings();
+  const probeDue = state.openedAt + openMs;
+  // A probe that never settled (e.g. a hung connection) does not keep the circuit half-open forever
+  const probeStuck = state.probeStartedAt !== undefined && now - state.probeStartedAt > openMs;
+
+  if ((state.state === 'open' && now >= probeDue) || (state.state === 'half-open' && probeStuck)) {
+    state.state = 'half-open';
+    state.probeStartedAt = now;
+    return;
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil((probeDue - now) / 1000));
+  throw new CustomError(
+    `HubSpot is unavailable, so calls to it are paused. Please try again in ${retryAfterSeconds} seconds.`,
+    ErrorCodes.HUBSPOT_API_ERROR,
+    503,
+    { circuit: state.state, retryAfterSeconds }
+  );
+}
+
+// Count the outcome of a call let through by enterHubSpotCircuit; failed means HubSpot was unavailable (5xx, network)
+export function recordHubSpotCallOutcome(failed: boolean, now = Date.now()): void {
+  const state = getState();
+
+  if (state.state === 'half-open') {
+    if (failed) {
+      open(state, now, 'probe call failed');
+    } else {
+      state.state = 'closed';
+      state.probeStartedAt = undefined;
+      console.log('HubSpot circuit closed; probe call succeeded');
+    }
+    return;
+  }
+  if (state.state === 'open') return; // Calls started before the circuit opened
+
+  const { failureRate, minCalls, windowMs } = getSettings();
+  state.outcomes = state.outcomes.filter(outcome => outcome.at > now - windowMs);
+  state.outcomes.push({ at: now, failed });
+
+  const failures = state.outcomes.filter(outcome => outcome.failed).length;
+  if (failed && state.outcomes.length >= minCalls && failures / state.outcomes.length >= failureRate) {
+    open(state, now, `${failures} of the last ${state.outcomes.length} calls failed`);
+  }
+}
+
+// Current state of the circuit (e.g. for /api/health and the banner in the UI)
+export function getHubSpotCircuitStatus(now = Date.now()): HubSpotCircuitStatus {
+  const state = getState();
+  const { windowMs, openMs } = getSettings();
+  const outcomes = state.outcomes.filter(outcome => outcome.at > now - windowMs);
+  const failures = outcomes.filter(outcome => outcome.failed).length;
+
+  return {
+    state: state.state,
+    failureRate: outcomes.length > 0 ? failures / outcomes.length : 0,
+    calls: outcomes.length,
+    ...(state.state !== 'closed' && {
+      openedAt: new Date(state.openedAt).toISOString(),
+      retryAt: new Date(state.openedAt + openMs).toISOString(),
+    }),
+  };
+}
@@ -0,0 +1,41 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeHubSpot, type FakeHubSpot } from '../../../scripts/fake-hubspot/testing';
+import { createHubSpotClientGateway } from './client';
+import type { HubSpotGateway } from './types';
+
+const SEED = {
+  companies: [{ name: 'Acme Corporation', domain: 'acme.com' }],
+  contacts: [{ firstname: 'Existing', lastname: 'Contact', email: 'existing@acme.com' }],
+};
+
+describe('HubSpot client gateway', () => {
+  let hubspot: FakeHubSpot;
+  let gateway: HubSpotGateway;
+
+  before(async () => {
+    process.env.HUBSPOT_MAX_RETRIES = '0';
+    hubspot = await startFakeHubSpot(SEED);
+    gateway = createHubSpotClientGateway('test-token', hubspot.baseUrl);
+  });
+
+  after(async () => {
+    await hubspot.close();
+    delete process.env.HUBSPOT_MAX_RETRIES;
+  });
+
+  it('reports each failed association with the error HubSpot gave for that pair', async () => {
+    const [company] = hubspot.store().companies.values();
+    const [contact] = hubspot.store().contacts.values();
+
+    const failures = await gateway.batchAssociateContactsToCompanies([
+      { contactId: contact.id, companyId: '9999' },
+      { contactId: '8888', companyId: company.id },
+    ]);
+
+    assert.deepEqual(failures, [
+      { contactId: contact.id, companyId: '9999', error: `No contact with ID ${contact.id} or no company with ID 9999 exists` },
+      { contactId: '8888', companyId: company.id, error: `No contact with ID 8888 or no company with ID ${company.id} exists` },
+    ]);
+  });
+});
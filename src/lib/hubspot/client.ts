@@ -0,0 +1,299 @@
+import { Client } from '@hubspot/api-client';
+import { FilterOperatorEnum as CompanyFilterOperator } from '@hubspot/api-client/lib/codegen/crm/companies';
+import { FilterOperatorEnum as ContactFilterOperator } from '@hubspot/api-client/lib/codegen/crm/contacts';
+import type {
+  AssociationFailure,
+  BatchItemResult,
+  Company,
+  CompanySearchOptions,
+  Contact,
+  ContactCompanyPair,
+  ContactPage,
+  ContactProperties,
+  ContactUpdate,
+  HubSpotGateway,
+  PropertyDefinition,
+} from './types';
+import { HUBSPOT_BATCH_SIZE } from './types';
+import { recordHubSpotRateLimitHeaders, withOutboundPolicy } from './outbound';
+
+// Properties returned when looking up existing contacts
+const CONTACT_LOOKUP_PROPERTIES = [
+  'firstname', 'lastname', 'email', 'company', 'active_in_okta', 'lifecyclestage', 'createdate', 'lastmodifieddate',
+];
+
+interface HubSpotObject {
+  id: string;
+  objectWriteTraceId?: string;
+  properties?: Record<string, string | null>;
+}
+
+interface HubSpotBatchError {
+  message: string;
+  category?: string;
+  context?: Record<string, string[]>;
+}
+
+// Responses are read with their headers so the rate limits HubSpot reports on them are kept up to date
+function readHttpInfo<T>(info: { headers: Record<string, string>; data: T }): T {
+  recordHubSpotRateLimitHeaders(info.headers);
+  return info.data;
+}
+
+// ApiException carries the HTTP status as `code`
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 404;
+}
+
+function toContact(result: HubSpotObject): Contact {
+  return {
+    id: result.id,
+    properties: result.properties || {},
+  };
+}
+
+// Batch results are not returned in input order, so line them up with the inputs by key
+function alignBatchResults(
+  keys: string[],
+  results: HubSpotObject[],
+  errors: HubSpotBatchError[] | undefined,
+  keyOf: (result: HubSpotObject) => string | undefined
+): BatchItemResult[] {
+  const byKey = new Map(results.map(result => [keyOf(result), toContact(result)]));
+  const fallbackError = errors?.[0]?.message || 'Not processed by HubSpot batch request';
+  const fallbackCategory = errors?.[0]?.category;
+
+  return keys.map(key => {
+    const contact = byKey.get(key);
+    if (contact) return { contact };
+
+    const error = findBatchError(errors, [key]);
+    return error ? { error: error.message, errorCategory: error.category } : { error: fallbackError, errorCategory: fallbackCategory };
+  });
+}
+
+// The error whose context names all of the given IDs (e.g. `ids`, `objectIds` or `fromId`/`toId`)
+function findBatchError(errors: HubSpotBatchError[] | undefined, ids: string[]): HubSpotBatchError | undefined {
+  return errors?.find(candidate => {
+    const contextIds = Object.values(candidate.context || {}).flat();
+    return ids.every(id => contextIds.includes(id));
+  });
+}
+
+function toCompanies(results: HubSpotObject[] | undefined): Company[] {
+  if (!results) return [];
+
+  return results
+    .filter(result => result.id && result.properties?.name) // Ensure valid data
+    .map(result => ({
+      id: result.id,
+      properties: {
+        name: result.properties!.name!.trim(),
+        domain: result.properties?.domain?.trim() || undefined,
+      },
+    }));
+}
+
+// Gateway backed by the official HubSpot API client, with retries, concurrency cap and quota tracking (see outbound.ts)
+// basePath points the client at another HubSpot-compatible API (e.g. the local fake CRM server)
+export function createHubSpotClientGateway(accessToken: string | undefined, basePath?: string): HubSpotGateway {
+  const client = new Client({ accessToken, ...(basePath && { basePath }) });
+
+  return withOutboundPolicy({
+    async createContact(properties: ContactProperties): Promise<Contact> {
+      const response = await client.crm.contacts.basicApi.createWithHttpInfo({ properties, associations: [] }).then(readHttpInfo);
+      return toContact(response);
+    },
+
+    async updateContact(contactId: string, properties: ContactProperties): Promise<Contact> {
+      const response = await client.crm.contacts.basicApi.updateWithHttpInfo(contactId, { properties }).then(readHttpInfo);
+      return toContact(response);
+    },
+
+    async associateContactToCompany(contactId: string, companyId: string): Promise<void> {
+      await client.crm.associations.batchApi.createWithHttpInfo('contacts', 'companies', {
+        inputs: [
+          {
+            _from: { id: contactId },
+            to: { id: companyId },
+            type: 'contact_to_company',
+          },
+        ],
+      }).then(readHttpInfo);
+    },
+
+    async batchCreateContacts(inputs: ContactProperties[]): Promise<BatchItemResult[]> {
+      // objectWriteTraceId is echoed back on each result so we can map results to inputs
+      const keys = inputs.map((_, index) => String(index));
+      const response = await client.crm.contacts.batchApi.createWithHttpInfo({
+        inputs: inputs.map((properties, index) => ({ properties, associations: [], objectWriteTraceId: keys[index] })),
+      }).then(readHttpInfo);
+
+      const errors = 'errors' in response ? (response.errors as HubSpotBatchError[]) : undefined;
+      return alignBatchResults(keys, response.results, errors, result => result.objectWriteTraceId);
+    },
+
+    async batchUpdateContacts(updates: ContactUpdate[]): Promise<BatchItemResult[]> {
+      const response = await client.crm.contacts.batchApi.updateWithHttpInfo({
+        inputs: updates.map(update => ({ id: update.id, properties: update.properties })),
+      }).then(readHttpInfo);
+
+      const errors = 'errors' in response ? (response.errors as HubSpotBatchError[]) : undefined;
+      return alignBatchResults(updates.map(update => update.id), response.results, errors, result => result.id);
+    },
+
+    async batchAssociateContactsToCompanies(pairs: ContactCompanyPair[]): Promise<AssociationFailure[]> {
+      const response = await client.crm.associations.batchApi.createWithHttpInfo('contacts', 'companies', {
+        inputs: pairs.map(pair => ({
+          _from: { id: pair.contactId },
+          to: { id: pair.companyId },
+          type: 'contact_to_company',
+        })),
+      }).then(readHttpInfo);
+
+      const associated = new Set(response.results.map(result => result._from.id));
+      const errors = 'errors' in response ? (response.errors as HubSpotBatchError[]) : undefined;
+
+      // Prefer the error naming both IDs, since a contact can be in more than one pair
+      return pairs
+        .filter(pair => !associated.has(pair.contactId))
+        .map(pair => {
+          const error = findBatchError(errors, [pair.contactId, pair.companyId]) || findBatchError(errors, [pair.contactId]);
+          return { ...pair, error: error?.message || 'Association was not created' };
+        });
+    },
+
+    async batchRemoveContactCompanyAssociations(pairs: ContactCompanyPair[]): Promise<void> {
+      await client.crm.associations.batchApi.archiveWithHttpInfo('contacts', 'companies', {
+        inputs: pairs.map(pair => ({
+          _from: { id: pair.contactId },
+          to: { id: pair.companyId },
+          type: 'contact_to_company',
+        })),
+      }).then(readHttpInfo);
+    },
+
+    async getCompanyIdsForContacts(contactIds: string[]): Promise<Map<string, string[]>> {
+      const response = await client.crm.associations.batchApi.readWithHttpInfo('contacts', 'companies', {
+        inputs: contactIds.map(id => ({ id })),
+      }).then(readHttpInfo);
+
+      // Contacts without associations are reported as errors by HubSpot; they simply have no companies
+      const companyIds = new Map<string, string[]>(contactIds.map(id => [id, []]));
+      response.results.forEach(result => {
+        companyIds.set(result._from.id, result.to.map(associated => associated.id));
+      });
+      return companyIds;
+    },
+
+    async searchCompanies(query: string, options: CompanySearchOptions = {}): Promise<Company[]> {
+      const { activeOnly = true, limit = 100 } = options;
+
+      const response = await client.crm.companies.searchApi.doSearchWithHttpInfo({
+        query: query.trim(),
+        filterGroups: activeOnly
+          ? [{ filters: [{ propertyName: 'status__c', operator: CompanyFilterOperator.Eq, value: 'Active' }] }]
+          : [],
+        properties: ['name', 'domain', 'status__c'],
+        limit,
+        sorts: ['name'],
+      }).then(readHttpInfo);
+
+      return toCompanies(response?.results);
+    },
+
+    async listCompanies(limit: number = 100): Promise<Company[]> {
+      const response = await client.crm.companies.basicApi.getPageWithHttpInfo(limit, undefined, ['name', 'domain']).then(readHttpInfo);
+      return toCompanies(response?.results);
+    },
+
+    async getCompany(companyId: string): Promise<Company | null> {
+      try {
+        const response = await client.crm.companies.basicApi.getByIdWithHttpInfo(companyId, ['name', 'domain']).then(readHttpInfo);
+        return toCompanies([response])[0] || null;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async getContact(contactId: string): Promise<Contact | null> {
+      try {
+        const response = await client.crm.contacts.basicApi.getByIdWithHttpInfo(contactId, CONTACT_LOOKUP_PROPERTIES).then(readHttpInfo);
+        return toContact(response);
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async findContactByEmail(email: string): Promise<Contact | null> {
+      const response = await client.crm.contacts.searchApi.doSearchWithHttpInfo({
+        filterGroups: [
+          { filters: [{ propertyName: 'email', operator: ContactFilterOperator.Eq, value: email.trim().toLowerCase() }] },
+        ],
+        properties: CONTACT_LOOKUP_PROPERTIES,
+        limit: 1,
+      }).then(readHttpInfo);
+
+      const match = response?.results?.[0];
+      return match ? toContact(match) : null;
+    },
+
+    async findContactsByEmails(emails: string[]): Promise<Map<string, Contact>> {
+      const contacts = new Map<string, Contact>();
+      const values = [...new Set(emails.map(email => email.trim().toLowerCase()))];
+      if (values.length === 0) return contacts;
+
+      let after: string | undefined;
+      do {
+        const response = await client.crm.contacts.searchApi.doSearchWithHttpInfo({
+          filterGroups: [{ filters: [{ propertyName: 'email', operator: ContactFilterOperator.In, values }] }],
+          properties: CONTACT_LOOKUP_PROPERTIES,
+          limit: HUBSPOT_BATCH_SIZE,
+          ...(after && { after }),
+        }).then(readHttpInfo);
+
+        response?.results?.forEach(result => {
+          const email = result.properties?.email?.toLowerCase();
+          if (email) contacts.set(email, toContact(result));
+        });
+        after = response?.paging?.next?.after;
+      } while (after);
+
+      return contacts;
+    },
+
+    async listContactsWithProperty(propertyName: string, offset: number, limit: number): Promise<ContactPage> {
+      const response = await client.crm.contacts.searchApi.doSearchWithHttpInfo({
+        filterGroups: [{ filters: [{ propertyName, operator: ContactFilterOperator.HasProperty }] }],
+        properties: CONTACT_LOOKUP_PROPERTIES,
+        sorts: ['createdate'],
+        limit,
+        after: String(offset), // The search API pages by offset
+      }).then(readHttpInfo);
+
+      return {
+        contacts: (response?.results || []).map(toContact),
+        total: response?.total || 0,
+      };
+    },
+
+    async listContactProperties(): Promise<PropertyDefinition[]> {
+      const response = await client.crm.properties.coreApi.getAllWithHttpInfo('contacts').then(readHttpInfo);
+
+      return (response?.results || [])
+        .filter(property => !property.archived)
+        .map(property => ({
+          name: property.name,
+          label: property.label || property.name,
+          type: property.type,
+          fieldType: property.fieldType,
+          options: (property.options || [])
+            .filter(option => !option.hidden)
+            .map(option => ({ label: option.label, value: option.value })),
+          readOnly: !!property.modificationMetadata?.readOnlyValue || !!property.calculated,
+        }));
+    },
+  });
+}
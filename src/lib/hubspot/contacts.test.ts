@@ -0,0 +1,153 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeHubSpot, type FakeHubSpot } from '../../../scripts/fake-hubspot/testing';
+import { ErrorCodes } from '@/lib/errorHandler';
+import { createHubSpotClientGateway } from './client';
+import {
+  DEACTIVATION_DATE_PROPERTY_ENV,
+  DEACTIVATION_REASON_PROPERTY_ENV,
+  createContactsWithCompany,
+  deactivateContacts,
+  reactivateContact,
+  upsertContactsWithCompany,
+} from './contacts';
+import type { HubSpotGateway } from './types';
+
+const SEED = {
+  companies: [{ name: 'Acme Corporation', domain: 'acme.com' }],
+  contacts: [{ firstname: 'Existing', lastname: 'Contact', email: 'existing@acme.com' }],
+};
+
+const newInput = (email: string) => ({ firstName: 'Test', lastName: 'User', email });
+
+describe('batch contact creation', () => {
+  let hubspot: FakeHubSpot;
+  let gateway: HubSpotGateway;
+
+  before(async () => {
+    process.env.HUBSPOT_MAX_RETRIES = '0';
+    hubspot = await startFakeHubSpot(SEED);
+    gateway = createHubSpotClientGateway('test-token', hubspot.baseUrl);
+  });
+
+  beforeEach(async () => {
+    await fetch(`${hubspot.baseUrl}/__fake/reset`, { method: 'POST', body: JSON.stringify(SEED) });
+  });
+
+  after(async () => {
+    await hubspot.close();
+    delete process.env.HUBSPOT_MAX_RETRIES;
+  });
+
+  it('creates, updates and reports every input in order', async () => {
+    const results = await createContactsWithCompany(gateway, [newInput('a@acme.com'), newInput('b@acme.com')]);
+
+    assert.deepEqual(results.map(result => result.outcome), ['created', 'created']);
+    const emails = [...hubspot.store().contacts.values()].map(contact => contact.properties.email);
+    assert.ok(emails.includes('a@acme.com') && emails.includes('b@acme.com'));
+  });
+
+  it('does not replay a batch create that failed with a server error', async () => {
+    const before = hubspot.store().contacts.size;
+    await hubspot.addFault({ status: 500, path: '/contacts/batch/create' });
+
+    const results = await createContactsWithCompany(gateway, [newInput('a@acme.com'), newInput('b@acme.com')]);
+
+    assert.equal(hubspot.store().contacts.size, before);
+    results.forEach(result => {
+      assert.equal(result.error?.code, ErrorCodes.HUBSPOT_API_ERROR);
+      assert.equal(result.error?.statusCode, 503);
+    });
+  });
+
+  it('keeps the ID of a contact whose email could not be set', async () => {
+    await hubspot.addFault({ status: 503, path: '/contacts/batch/update' });
+
+    const [result] = await createContactsWithCompany(gateway, [newInput('a@acme.com')]);
+
+    assert.equal(result.error?.statusCode, 503);
+    assert.equal(result.outcome, undefined);
+    assert.equal(hubspot.store().contacts.get(result.contactId!)?.properties.email, undefined);
+  });
+
+  it('creates the inputs one by one when HubSpot rejects the whole batch', async () => {
+    await hubspot.addFault({ status: 400, path: '/contacts/batch/create' });
+
+    const results = await createContactsWithCompany(gateway, [newInput('a@acme.com'), newInput('b@acme.com')]);
+
+    assert.deepEqual(results.map(result => result.outcome), ['created', 'created']);
+  });
+
+  it('reports contacts that already exist without creating them again under the fail policy', async () => {
+    const before = hubspot.store().contacts.size;
+
+    const results = await upsertContactsWithCompany(gateway, [newInput('EXISTING@acme.com'), newInput('new@acme.com')], 'fail');
+
+    assert.equal(results[0].error?.code, ErrorCodes.USER_ALREADY_EXISTS);
+    assert.equal(results[0].error?.statusCode, 409);
+    assert.equal(results[1].outcome, 'created');
+    assert.equal(hubspot.store().contacts.size, before + 1);
+  });
+
+  it('maps per-input batch errors by their HubSpot category instead of reporting an outage', async () => {
+    const results = await deactivateContacts(gateway, ['999999'], { reason: 'Left the company' });
+
+    assert.equal(results[0].error?.statusCode, 404);
+    assert.notEqual(results[0].error?.code, ErrorCodes.HUBSPOT_API_ERROR);
+  });
+});
+
+describe('deactivation', () => {
+  let hubspot: FakeHubSpot;
+  let gateway: HubSpotGateway;
+  let contactId: string;
+
+  before(async () => {
+    process.env.HUBSPOT_MAX_RETRIES = '0';
+    hubspot = await startFakeHubSpot(SEED);
+    gateway = createHubSpotClientGateway('test-token', hubspot.baseUrl);
+  });
+
+  beforeEach(async () => {
+    await fetch(`${hubspot.baseUrl}/__fake/reset`, { method: 'POST', body: JSON.stringify(SEED) });
+    contactId = [...hubspot.store().contacts.values()][0].id;
+    delete process.env[DEACTIVATION_REASON_PROPERTY_ENV];
+    delete process.env[DEACTIVATION_DATE_PROPERTY_ENV];
+  });
+
+  after(async () => {
+    await hubspot.close();
+    delete process.env.HUBSPOT_MAX_RETRIES;
+    delete process.env[DEACTIVATION_REASON_PROPERTY_ENV];
+    delete process.env[DEACTIVATION_DATE_PROPERTY_ENV];
+  });
+
+  const contactProperties = () => hubspot.store().contacts.get(contactId)!.properties;
+
+  it('records the reason and date, and clears them on reactivation', async () => {
+    const [result] = await deactivateContacts(gateway, [contactId], { reason: 'Left the company' });
+
+    assert.equal(result.error, undefined);
+    assert.equal(contactProperties().active_in_okta, 'false');
+    assert.equal(contactProperties().deactivation_reason, 'Left the company');
+    assert.match(contactProperties().deactivation_date ?? '', /^\d{4}-\d{2}-\d{2}$/);
+
+    await reactivateContact(gateway, contactId);
+    assert.equal(contactProperties().active_in_okta, 'true');
+    assert.equal(contactProperties().deactivation_reason, '');
+    assert.equal(contactProperties().deactivation_date, '');
+  });
+
+  it('leaves out audit properties that are turned off or missing from the portal', async () => {
+    process.env[DEACTIVATION_REASON_PROPERTY_ENV] = 'offboarding_reason';
+    process.env[DEACTIVATION_DATE_PROPERTY_ENV] = '';
+
+    const [result] = await deactivateContacts(gateway, [contactId], { reason: 'Left the company' });
+    await reactivateContact(gateway, contactId);
+
+    assert.equal(result.error, undefined);
+    assert.equal(contactProperties().active_in_okta, 'true');
+    assert.equal(contactProperties().deactivation_reason, undefined);
+    assert.equal(contactProperties().deactivation_date, undefined);
+  });
+});
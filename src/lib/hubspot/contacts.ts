@@ -0,0 +1,613 @@
+import { CustomError, ErrorCodes, handleHubSpotError, logError } from '@/lib/errorHandler';
+import {
+  HUBSPOT_BATCH_SIZE,
+  type Contact,
+  type ContactCompanyPair,
+  type ContactProperties,
+  type HubSpotGateway,
+} from './types';
+import { getContactPropertyDefinitions } from './properties';
+import { resolveTemplateProperties } from './propertyTemplate';
+
+export interface NewContactInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  companyId?: string;
+  companyName?: string;
+  properties?: ContactProperties; // Per-request values for template or additional properties
+}
+
+export interface CreatedContact {
+  contactId: string;
+  associated: boolean; // Whether the company association was created
+}
+
+// What to do when a contact with the same email already exists:
+// fail the input, skip it (leave the contact untouched) or update the existing contact
+export type ConflictPolicy = 'fail' | 'skip' | 'update';
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['fail', 'skip', 'update'];
+
+export type ContactOutcome = 'created' | 'updated' | 'skipped';
+
+export interface UpsertedContact extends CreatedContact {
+  outcome: ContactOutcome;
+}
+
+// Outcome for one input of createContactsWithCompany / upsertContactsWithCompany, in input order
+export interface ContactCreationResult {
+  contactId?: string; // Also set with an error when the contact was created but setting its email failed
+  associated?: boolean;
+  outcome?: ContactOutcome;
+  error?: CustomError;
+}
+
+// Step 1 properties: intentionally NOT including email to prevent domain matching
+function buildInitialProperties(input: NewContactInput): ContactProperties {
+  return {
+    ...resolveTemplateProperties(input, 'create'),
+    firstname: input.firstName,
+    lastname: input.lastName,
+  };
+}
+
+// Step 2 properties: email, Okta flag and the template properties (e.g. the company name for display in the profile)
+function buildUpdateProperties(input: NewContactInput): ContactProperties {
+  return {
+    ...resolveTemplateProperties(input, 'always'),
+    email: input.email,
+    active_in_okta: 'true',
+  };
+}
+
+// Properties set on an existing contact under the update policy: name, email and create-only properties are left as they are
+export function buildExistingContactProperties(input: NewContactInput): ContactProperties {
+  return {
+    ...resolveTemplateProperties(input, 'always'),
+    active_in_okta: 'true',
+  };
+}
+
+// Every property a new contact ends up with once both steps have run (used for dry-run previews)
+export function buildContactProperties(input: NewContactInput): ContactProperties {
+  return { ...buildInitialProperties(input), ...buildUpdateProperties(input) };
+}
+
+// Look up which emails already belong to contacts, keyed by lowercased email
+export async function findExistingContacts(gateway: HubSpotGateway, emails: string[]): Promise<Map<string, Contact>> {
+  const existing = new Map<string, Contact>();
+
+  for (let start = 0; start < emails.length; start += HUBSPOT_BATCH_SIZE) {
+    const found = await gateway.findContactsByEmails(emails.slice(start, start + HUBSPOT_BATCH_SIZE));
+    found.forEach((contact, email) => existing.set(email, contact));
+  }
+
+  return existing;
+}
+
+// What HubSpot answered to a failed association call (its response body, or the error message), for the log
+function describeAssociationError(error: unknown): unknown {
+  const hubspotError = handleHubSpotError(error);
+  return hubspotError.details ?? hubspotError.message;
+}
+
+/**
+ * Create a contact and associate it with a company.
+ *
+ * The contact is created WITHOUT an email first, then updated with the email,
+ * so HubSpot does not automatically associate it to a company by email domain.
+ * Association failures are logged but do not fail the creation.
+ * When the update fails, the error names the contact already created (see getIncompleteContactId).
+ */
+export async function createContactWithCompany(gateway: HubSpotGateway, input: NewContactInput): Promise<CreatedContact> {
+  // Step 1: Create contact with minimal properties first to avoid automatic associations
+  const contact = await gateway.createContact(buildInitialProperties(input));
+
+  return finishContact(gateway, contact.id, input, buildUpdateProperties(input));
+}
+
+// Steps 2 and 3 of createContactWithCompany, for a contact step 1 created
+async function finishContact(
+  gateway: HubSpotGateway,
+  contactId: string,
+  input: NewContactInput,
+  properties: ContactProperties
+): Promise<CreatedContact> {
+  // Step 2: Update the contact with email and company name after creation
+  try {
+    await gateway.updateContact(contactId, properties);
+  } catch (updateError) {
+    throw incompleteContactError(updateError, contactId);
+  }
+
+  // Step 3: Create manual association with the selected company
+  let associated = false;
+  if (input.companyId) {
+    try {
+      await gateway.associateContactToCompany(contactId, input.companyId);
+      associated = true;
+    } catch (associationError) {
+      logError(new Error('Company association failed'), {
+        contactId,
+        companyId: input.companyId,
+        originalError: describeAssociationError(associationError),
+      });
+      // Don't fail the contact creation for association errors
+    }
+  }
+
+  return { contactId, associated };
+}
+
+// The contact exists but without an email, so its ID is added to the error's details for a later attempt to finish it
+function incompleteContactError(error: unknown, contactId: string): CustomError {
+  const hubspotError = handleHubSpotError(error);
+  const details = typeof hubspotError.details === 'object' ? hubspotError.details : undefined;
+  return new CustomError(hubspotError.message, hubspotError.code, hubspotError.statusCode, { ...details, incompleteContactId: contactId });
+}
+
+// The contact createContactWithCompany created before the error, when setting its email failed
+export function getIncompleteContactId(error: unknown): string | undefined {
+  return error instanceof CustomError ? error.details?.incompleteContactId : undefined;
+}
+
+// Associate contacts with companies in one batch call; returns the IDs of contacts whose association failed
+async function associateContactsInBatch(gateway: HubSpotGateway, pairs: ContactCompanyPair[]): Promise<Set<string>> {
+  try {
+    const failures = await gateway.batchAssociateContactsToCompanies(pairs);
+    failures.forEach(failure => logError(new Error('Company association failed'), failure));
+    return new Set(failures.map(failure => failure.contactId));
+  } catch (associationError) {
+    logError(new Error('Batch company association failed'), {
+      contactIds: pairs.map(pair => pair.contactId),
+      originalError: describeAssociationError(associationError),
+    });
+    return new Set(pairs.map(pair => pair.contactId));
+  }
+}
+
+// HTTP status matching each error category HubSpot reports for a single input of a batch call
+const BATCH_ERROR_STATUSES: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  INVALID_EMAIL: 400,
+  PROPERTY_DOESNT_EXIST: 400,
+  OBJECT_NOT_FOUND: 404,
+  CONFLICT: 409,
+  OBJECT_ALREADY_EXISTS: 409,
+  RATE_LIMITS: 429,
+};
+
+// Map a failed batch input like the same failure of a single call, so rejected data
+// (an invalid value, a duplicate email) is reported as such rather than as a HubSpot outage
+function batchItemError(message: string, category?: string): CustomError {
+  const status = category ? BATCH_ERROR_STATUSES[category] : undefined;
+  if (status === undefined) {
+    return new CustomError(`HubSpot batch operation failed: ${message}`, ErrorCodes.HUBSPOT_API_ERROR, 502, category ? { category } : undefined);
+  }
+  return handleHubSpotError({ code: status, body: { message, category } });
+}
+
+// HubSpot turned the whole batch down (a 4xx other than a rate limit), so none of it was written
+function isBatchRejection(error: CustomError): boolean {
+  return error.statusCode >= 400 && error.statusCode < 500 && error.statusCode !== 429;
+}
+
+// Run a batch call; if HubSpot rejects the whole batch (one bad input fails all of them),
+// retry the inputs one by one so each failure is reported against its own input.
+// After a rate limit, outage or network error part of the batch may have been written,
+// so instead of replaying it (which could create contacts twice) every input fails with that error.
+async function runBatchWithFallback<T>(
+  inputs: T[],
+  batchCall: (inputs: T[]) => Promise<Array<{ contactId?: string; error?: string; errorCategory?: string }>>,
+  singleCall: (input: T) => Promise<string>
+): Promise<Array<{ contactId?: string; error?: CustomError }>> {
+  try {
+    const results = await batchCall(inputs);
+    return results.map(result => (result.contactId
+      ? { contactId: result.contactId }
+      : { error: batchItemError(result.error || 'Unknown error', result.errorCategory) }));
+  } catch (batchError: unknown) {
+    const hubspotError = handleHubSpotError(batchError);
+    logError(hubspotError, { operation: 'batchFallback', batchSize: inputs.length });
+    if (!isBatchRejection(hubspotError)) {
+      return inputs.map(() => ({ error: hubspotError }));
+    }
+
+    const results: Array<{ contactId?: string; error?: CustomError }> = [];
+    for (const input of inputs) {
+      try {
+        results.push({ contactId: await singleCall(input) });
+      } catch (error: unknown) {
+        results.push({ error: handleHubSpotError(error) });
+      }
+    }
+    return results;
+  }
+}
+
+/**
+ * Batch version of createContactWithCompany: the same create → update → associate
+ * sequence, using HubSpot batch endpoints (up to HUBSPOT_BATCH_SIZE inputs per request).
+ * Returns one result per input, in input order.
+ */
+export async function createContactsWithCompany(gateway: HubSpotGateway, inputs: NewContactInput[]): Promise<ContactCreationResult[]> {
+  const results: ContactCreationResult[] = [];
+
+  for (let start = 0; start < inputs.length; start += HUBSPOT_BATCH_SIZE) {
+    const chunk = inputs.slice(start, start + HUBSPOT_BATCH_SIZE);
+    const chunkResults: ContactCreationResult[] = chunk.map(() => ({}));
+
+    // Step 1: Create contacts with minimal properties (no email)
+    const created = await runBatchWithFallback(
+      chunk.map(buildInitialProperties),
+      async properties => (await gateway.batchCreateContacts(properties)).map(item => ({ contactId: item.contact?.id, error: item.error, errorCategory: item.errorCategory })),
+      async properties => (await gateway.createContact(properties)).id
+    );
+    created.forEach((result, index) => {
+      chunkResults[index] = result.error ? { error: result.error } : { contactId: result.contactId };
+    });
+
+    // Step 2: Update the created contacts with email and company name
+    const toUpdate = chunkResults
+      .map((result, index) => ({ index, result }))
+      .filter(({ result }) => result.contactId);
+
+    const updated = await runBatchWithFallback(
+      toUpdate.map(({ index, result }) => ({ id: result.contactId!, properties: buildUpdateProperties(chunk[index]) })),
+      async updates => (await gateway.batchUpdateContacts(updates)).map(item => ({ contactId: item.contact?.id, error: item.error, errorCategory: item.errorCategory })),
+      async update => (await gateway.updateContact(update.id, update.properties)).id
+    );
+    updated.forEach((result, position) => {
+      const { index, result: current } = toUpdate[position];
+      if (result.error) {
+        // The contact exists but without an email; report the row as failed, keeping the contact's ID
+        logError(result.error, { operation: 'batchUpdateContacts', contactId: current.contactId });
+        chunkResults[index] = { contactId: current.contactId, error: result.error };
+      }
+    });
+
+    // Step 3: Associate the updated contacts with their companies
+    const pairs = chunkResults
+      .map((result, index) => ({ index, contactId: result.contactId, companyId: chunk[index].companyId }))
+      .filter(pair => !chunkResults[pair.index].error && pair.contactId && pair.companyId);
+
+    if (pairs.length > 0) {
+      const failedContactIds = await associateContactsInBatch(
+        gateway,
+        pairs.map(pair => ({ contactId: pair.contactId!, companyId: pair.companyId! }))
+      );
+      // Don't fail the contact creation for association errors
+      pairs.forEach(pair => {
+        chunkResults[pair.index].associated = !failedContactIds.has(pair.contactId!);
+      });
+    }
+
+    chunkResults.forEach(result => {
+      if (result.contactId && !result.error) {
+        result.outcome = 'created';
+        if (result.associated === undefined) result.associated = false;
+      }
+    });
+    results.push(...chunkResults);
+  }
+
+  return results;
+}
+
+// Apply the skip or update policy to a contact that already exists
+async function applyConflictPolicy(
+  gateway: HubSpotGateway,
+  existing: Contact,
+  input: NewContactInput,
+  policy: 'skip' | 'update'
+): Promise<UpsertedContact> {
+  if (policy === 'skip') {
+    return { contactId: existing.id, associated: false, outcome: 'skipped' };
+  }
+
+  await gateway.updateContact(existing.id, buildExistingContactProperties(input));
+
+  let associated = false;
+  if (input.companyId) {
+    try {
+      await gateway.associateContactToCompany(existing.id, input.companyId);
+      associated = true;
+    } catch (associationError) {
+      logError(new Error('Company association failed'), {
+        contactId: existing.id,
+        companyId: input.companyId,
+        originalError: describeAssociationError(associationError),
+      });
+    }
+  }
+
+  return { contactId: existing.id, associated, outcome: 'updated' };
+}
+
+/**
+ * Finish a contact an earlier attempt at createContactWithCompany created before failing (see getIncompleteContactId):
+ * every property of a new contact is set, including the email, and the company association is created.
+ * Reported as created.
+ */
+export async function completeContactWithCompany(
+  gateway: HubSpotGateway,
+  contactId: string,
+  input: NewContactInput
+): Promise<UpsertedContact> {
+  return { ...await finishContact(gateway, contactId, input, buildContactProperties(input)), outcome: 'created' };
+}
+
+/**
+ * createContactWithCompany with a conflict policy for emails that already belong to a contact.
+ * The contact is looked up by email first, so under fail nothing is created for a taken email;
+ * a contact created concurrently (HubSpot reports the email as taken) is looked up again and handled the same way.
+ */
+export async function upsertContactWithCompany(
+  gateway: HubSpotGateway,
+  input: NewContactInput,
+  policy: ConflictPolicy = 'fail'
+): Promise<UpsertedContact> {
+  const existing = await gateway.findContactByEmail(input.email);
+  if (existing) {
+    if (policy === 'fail') throw alreadyExistsError(input.email, existing.id);
+    return applyConflictPolicy(gateway, existing, input, policy);
+  }
+
+  try {
+    return { ...await createContactWithCompany(gateway, input), outcome: 'created' };
+  } catch (error: unknown) {
+    const hubspotError = handleHubSpotError(error);
+    if (policy === 'fail' || hubspotError.code !== ErrorCodes.USER_ALREADY_EXISTS) throw hubspotError;
+
+    const concurrent = await gateway.findContactByEmail(input.email);
+    if (!concurrent) throw hubspotError;
+    return applyConflictPolicy(gateway, concurrent, input, policy);
+  }
+}
+
+// Batch version of applyConflictPolicy for inputs whose email already belongs to a contact
+async function applyConflictPolicyInBatch(
+  gateway: HubSpotGateway,
+  items: Array<{ existing: Contact; input: NewContactInput }>,
+  policy: 'skip' | 'update'
+): Promise<ContactCreationResult[]> {
+  if (policy === 'skip') {
+    return items.map(({ existing }) => ({ contactId: existing.id, associated: false, outcome: 'skipped' }));
+  }
+
+  const results: ContactCreationResult[] = [];
+
+  for (let start = 0; start < items.length; start += HUBSPOT_BATCH_SIZE) {
+    const chunk = items.slice(start, start + HUBSPOT_BATCH_SIZE);
+
+    const updated = await runBatchWithFallback(
+      chunk.map(({ existing, input }) => ({ id: existing.id, properties: buildExistingContactProperties(input) })),
+      async updates => (await gateway.batchUpdateContacts(updates)).map(item => ({ contactId: item.contact?.id, error: item.error, errorCategory: item.errorCategory })),
+      async update => (await gateway.updateContact(update.id, update.properties)).id
+    );
+    const chunkResults: ContactCreationResult[] = updated.map((result, index) =>
+      result.error ? { error: result.error } : { contactId: chunk[index].existing.id, associated: false, outcome: 'updated' }
+    );
+
+    const pairs = chunkResults
+      .map((result, index) => ({ index, contactId: result.contactId, companyId: chunk[index].input.companyId }))
+      .filter(pair => pair.contactId && pair.companyId);
+
+    if (pairs.length > 0) {
+      const failedContactIds = await associateContactsInBatch(
+        gateway,
+        pairs.map(pair => ({ contactId: pair.contactId!, companyId: pair.companyId! }))
+      );
+      pairs.forEach(pair => {
+        chunkResults[pair.index].associated = !failedContactIds.has(pair.contactId!);
+      });
+    }
+
+    results.push(...chunkResults);
+  }
+
+  return results;
+}
+
+function alreadyExistsError(email: string, contactId: string): CustomError {
+  return new CustomError(
+    `A contact with ${email} already exists in HubSpot. Please use a different email address.`,
+    ErrorCodes.USER_ALREADY_EXISTS,
+    409,
+    { contactId }
+  );
+}
+
+/**
+ * Batch version of upsertContactWithCompany. Existing contacts are looked up by email in batches
+ * and handled by the policy (under fail they are reported as already existing, so rows retried
+ * after a partially failed attempt are not created twice); only the remaining inputs are created.
+ * Returns one result per input, in input order.
+ */
+export async function upsertContactsWithCompany(
+  gateway: HubSpotGateway,
+  inputs: NewContactInput[],
+  policy: ConflictPolicy = 'fail'
+): Promise<ContactCreationResult[]> {
+  const results: ContactCreationResult[] = inputs.map(() => ({}));
+  const existingContacts = await findExistingContacts(gateway, inputs.map(input => input.email));
+
+  const handleExisting = async (indexes: number[], contacts: Map<string, Contact>) => {
+    if (policy === 'fail') {
+      indexes.forEach(index => {
+        results[index] = { error: alreadyExistsError(inputs[index].email, contacts.get(inputs[index].email.toLowerCase())!.id) };
+      });
+      return;
+    }
+
+    const outcomes = await applyConflictPolicyInBatch(
+      gateway,
+      indexes.map(index => ({ existing: contacts.get(inputs[index].email.toLowerCase())!, input: inputs[index] })),
+      policy
+    );
+    outcomes.forEach((outcome, position) => {
+      results[indexes[position]] = outcome;
+    });
+  };
+
+  const existingIndexes = inputs
+    .map((input, index) => (existingContacts.has(input.email.toLowerCase()) ? index : -1))
+    .filter(index => index >= 0);
+  const newIndexes = inputs.map((_, index) => index).filter(index => !existingIndexes.includes(index));
+
+  await handleExisting(existingIndexes, existingContacts);
+
+  const created = await createContactsWithCompany(gateway, newIndexes.map(index => inputs[index]));
+  created.forEach((result, position) => {
+    results[newIndexes[position]] = result;
+  });
+
+  // Contacts created by someone else since the lookup: look them up again and apply the policy.
+  // Inputs whose contact was created before the email was found taken keep their error, so that contact is reported.
+  const conflictIndexes = newIndexes.filter(index =>
+    results[index].error?.code === ErrorCodes.USER_ALREADY_EXISTS && !results[index].contactId
+  );
+  if (policy !== 'fail' && conflictIndexes.length > 0) {
+    const conflicting = await findExistingContacts(gateway, conflictIndexes.map(index => inputs[index].email));
+    await handleExisting(
+      conflictIndexes.filter(index => conflicting.has(inputs[index].email.toLowerCase())),
+      conflicting
+    );
+  }
+
+  return results;
+}
+
+export interface DeactivationOptions {
+  reason: string;
+  removeCompanyAssociation?: boolean;
+}
+
+// Outcome for one contact of deactivateContacts, in input order
+export interface ContactDeactivationResult {
+  contactId: string;
+  removedCompanyIds?: string[]; // Set when company associations were removed
+  error?: CustomError;
+}
+
+// Environment variables naming the contact properties that record why and when a contact was deactivated.
+// They are custom properties, so both are optional: an empty value turns one off, and one the portal
+// does not define is left out (with a warning) instead of failing every deactivation
+export const DEACTIVATION_REASON_PROPERTY_ENV = 'DEACTIVATION_REASON_PROPERTY';
+export const DEACTIVATION_DATE_PROPERTY_ENV = 'DEACTIVATION_DATE_PROPERTY';
+const DEFAULT_DEACTIVATION_REASON_PROPERTY = 'deactivation_reason';
+const DEFAULT_DEACTIVATION_DATE_PROPERTY = 'deactivation_date';
+
+// The audit properties deactivation writes; unset when turned off or missing from the portal
+export interface DeactivationAuditProperties {
+  reason?: string;
+  date?: string;
+}
+
+// Missing properties are reported once per process, not on every deactivation
+const globalForContacts = globalThis as typeof globalThis & { missingDeactivationPropertiesLogged?: Set<string> };
+
+function getConfiguredProperty(envName: string, defaultName: string): string | undefined {
+  const configured = process.env[envName];
+  return (configured === undefined ? defaultName : configured.trim()) || undefined;
+}
+
+// The configured audit properties that exist in the portal (property definitions are cached for a few minutes)
+export async function getDeactivationAuditProperties(gateway: HubSpotGateway): Promise<DeactivationAuditProperties> {
+  const configured = {
+    reason: getConfiguredProperty(DEACTIVATION_REASON_PROPERTY_ENV, DEFAULT_DEACTIVATION_REASON_PROPERTY),
+    date: getConfiguredProperty(DEACTIVATION_DATE_PROPERTY_ENV, DEFAULT_DEACTIVATION_DATE_PROPERTY),
+  };
+  if (!configured.reason && !configured.date) return {};
+
+  const definitions = await getContactPropertyDefinitions(gateway);
+  const logged = (globalForContacts.missingDeactivationPropertiesLogged ??= new Set());
+  const available = (name: string | undefined) => {
+    if (!name || definitions.has(name)) return name;
+    if (!logged.has(name)) {
+      logged.add(name);
+      console.warn(`Contact property "${name}" does not exist in HubSpot; deactivations will not record it`);
+    }
+    return undefined;
+  };
+
+  return { reason: available(configured.reason), date: available(configured.date) };
+}
+
+// Properties for offboarding: the Okta flag plus the reason and date for the audit trail where configured
+export function buildDeactivationProperties(reason: string, audit: DeactivationAuditProperties): ContactProperties {
+  return {
+    active_in_okta: 'false',
+    ...(audit.reason && { [audit.reason]: reason }),
+    ...(audit.date && { [audit.date]: new Date().toISOString().slice(0, 10) }), // HubSpot date properties take YYYY-MM-DD
+  };
+}
+
+/**
+ * Deactivate existing contacts: set active_in_okta to false and record the reason,
+ * then optionally remove their company associations (batched like createContactsWithCompany).
+ * Association removal failures are logged but do not fail the deactivation.
+ */
+export async function deactivateContacts(
+  gateway: HubSpotGateway,
+  contactIds: string[],
+  options: DeactivationOptions
+): Promise<ContactDeactivationResult[]> {
+  const results: ContactDeactivationResult[] = [];
+  const properties = buildDeactivationProperties(options.reason, await getDeactivationAuditProperties(gateway));
+
+  for (let start = 0; start < contactIds.length; start += HUBSPOT_BATCH_SIZE) {
+    const chunk = contactIds.slice(start, start + HUBSPOT_BATCH_SIZE);
+
+    // Step 1: Mark the contacts inactive
+    const updated = await runBatchWithFallback(
+      chunk.map(id => ({ id, properties })),
+      async updates => (await gateway.batchUpdateContacts(updates)).map(item => ({ contactId: item.contact?.id, error: item.error, errorCategory: item.errorCategory })),
+      async update => (await gateway.updateContact(update.id, update.properties)).id
+    );
+    const chunkResults: ContactDeactivationResult[] = updated.map((result, index) => ({
+      contactId: chunk[index],
+      ...(result.error && { error: result.error }),
+    }));
+
+    // Step 2: Remove the company associations of the deactivated contacts
+    const deactivatedIds = chunkResults.filter(result => !result.error).map(result => result.contactId);
+    if (options.removeCompanyAssociation && deactivatedIds.length > 0) {
+      try {
+        const companyIds = await gateway.getCompanyIdsForContacts(deactivatedIds);
+        const pairs = deactivatedIds.flatMap(contactId =>
+          (companyIds.get(contactId) || []).map(companyId => ({ contactId, companyId }))
+        );
+
+        if (pairs.length > 0) {
+          await gateway.batchRemoveContactCompanyAssociations(pairs);
+        }
+        chunkResults
+          .filter(result => !result.error)
+          .forEach(result => {
+            result.removedCompanyIds = companyIds.get(result.contactId) || [];
+          });
+      } catch (associationError) {
+        logError(new Error('Removing company associations failed'), {
+          contactIds: deactivatedIds,
+          originalError: describeAssociationError(associationError),
+        });
+        // Don't fail the deactivation for association errors
+      }
+    }
+
+    results.push(...chunkResults);
+  }
+
+  return results;
+}
+
+// Mark a deactivated contact active in Okta again and clear the deactivation audit fields
+export async function reactivateContact(gateway: HubSpotGateway, contactId: string): Promise<Contact> {
+  const audit = await getDeactivationAuditProperties(gateway);
+  return gateway.updateContact(contactId, {
+    active_in_okta: 'true',
+    ...(audit.reason && { [audit.reason]: '' }),
+    ...(audit.date && { [audit.date]: '' }),
+  });
+}
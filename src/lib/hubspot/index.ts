@@ -0,0 +1,87 @@
+import { createHubSpotClientGateway } from './client';
+import type { HubSpotGateway } from './types';
+
+export { HUBSPOT_BATCH_SIZE } from './types';
+export type {
+  AssociationFailure,
+  BatchItemResult,
+  Company,
+  CompanySearchOptions,
+  Contact,
+  ContactCompanyPair,
+  ContactPage,
+  ContactProperties,
+  ContactUpdate,
+  HubSpotGateway,
+  PropertyDefinition,
+} from './types';
+export { createHubSpotClientGateway } from './client';
+export { HUBSPOT_MAX_CONCURRENCY_ENV, HUBSPOT_MAX_RETRIES_ENV, callHubSpot, getHubSpotQuota } from './outbound';
+export type { HubSpotQuota } from './outbound';
+export {
+  HUBSPOT_CIRCUIT_FAILURE_RATE_ENV,
+  HUBSPOT_CIRCUIT_MIN_CALLS_ENV,
+  HUBSPOT_CIRCUIT_OPEN_MS_ENV,
+  HUBSPOT_CIRCUIT_WINDOW_MS_ENV,
+  getHubSpotCircuitStatus,
+} from './circuitBreaker';
+export type { CircuitState, HubSpotCircuitStatus } from './circuitBreaker';
+export {
+  CONFLICT_POLICIES,
+  DEACTIVATION_DATE_PROPERTY_ENV,
+  DEACTIVATION_REASON_PROPERTY_ENV,
+  buildContactProperties,
+  buildExistingContactProperties,
+  completeContactWithCompany,
+  createContactWithCompany,
+  createContactsWithCompany,
+  deactivateContacts,
+  findExistingContacts,
+  getDeactivationAuditProperties,
+  getIncompleteContactId,
+  reactivateContact,
+  upsertContactWithCompany,
+  upsertContactsWithCompany,
+} from './contacts';
+export type {
+  ConflictPolicy,
+  ContactCreationResult,
+  ContactDeactivationResult,
+  ContactOutcome,
+  CreatedContact,
+  DeactivationAuditProperties,
+  DeactivationOptions,
+  NewContactInput,
+  UpsertedContact,
+} from './contacts';
+
+export {
+  DEFAULT_CONTACT_PROPERTY_TEMPLATE,
+  PROPERTY_TEMPLATE_ENV,
+  RESERVED_CONTACT_PROPERTIES,
+  getContactPropertyTemplate,
+  parsePropertyOverrides,
+  validateContactProperties,
+} from './propertyTemplate';
+export type { ContactPropertyTemplate, PropertyTemplateEntry, PropertyValueSource } from './propertyTemplate';
+export { getContactPropertyDefinitions, normalizePropertyValue, normalizePropertyValues } from './properties';
+export type { PropertyValueError } from './properties';
+
+// Kept on globalThis so every route shares one gateway even when bundled separately or reloaded in development
+const globalForGateway = globalThis as typeof globalThis & { hubspotGateway?: HubSpotGateway | null };
+
+// Shared gateway used by every API route (created lazily on first use)
+export function getHubSpotGateway(): HubSpotGateway {
+  if (!globalForGateway.hubspotGateway) {
+    globalForGateway.hubspotGateway = createHubSpotClientGateway(
+      process.env.HUBSPOT_ACCESS_TOKEN,
+      process.env.HUBSPOT_API_BASE_URL || undefined
+    );
+  }
+  return globalForGateway.hubspotGateway;
+}
+
+// Swap in an alternate implementation (pass null to restore the default)
+export function setHubSpotGateway(replacement: HubSpotGateway | null): void {
+  globalForGateway.hubspotGateway = replacement;
+}
@@ -0,0 +1,223 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type AddressInfo } from 'node:net';
+import { startFakeHubSpot, type FakeHubSpot } from '../../../scripts/fake-hubspot/testing';
+import { createHubSpotClientGateway } from './client';
+import {
+  HUBSPOT_MAX_CONCURRENCY_ENV,
+  HUBSPOT_MAX_RETRIES_ENV,
+  callHubSpot,
+  getHubSpotQuota,
+  recordHubSpotRateLimitHeaders,
+} from './outbound';
+import type { HubSpotGateway } from './types';
+
+const SEED = {
+  companies: [{ name: 'Acme Corporation', domain: 'acme.com' }],
+  contacts: [{ firstname: 'Existing', lastname: 'Contact', email: 'existing@acme.com' }],
+};
+
+const globalState = globalThis as typeof globalThis & { hubSpotOutboundState?: unknown; hubSpotCircuitBreaker?: unknown };
+
+// Start every test with no quota, no calls in flight and a closed circuit
+function resetOutboundState() {
+  delete globalState.hubSpotOutboundState;
+  delete globalState.hubSpotCircuitBreaker;
+}
+
+// The delays logged by callHubSpot before each retry of the operation
+function retryDelays(log: ReturnType<typeof mock.method>, operation: string): number[] {
+  return log.mock.calls
+    .map(call => String(call.arguments[0]).match(new RegExp(`^Retrying HubSpot ${operation} in (\\d+)ms`)))
+    .filter(match => match !== null)
+    .map(match => Number(match![1]));
+}
+
+describe('outbound HubSpot calls', () => {
+  let hubspot: FakeHubSpot;
+  let gateway: HubSpotGateway;
+  let contactId: string;
+  let log: ReturnType<typeof mock.method>;
+
+  before(async () => {
+    hubspot = await startFakeHubSpot(SEED);
+    gateway = createHubSpotClientGateway('test-token', hubspot.baseUrl);
+  });
+
+  beforeEach(async () => {
+    await fetch(`${hubspot.baseUrl}/__fake/reset`, { method: 'POST', body: JSON.stringify(SEED) });
+    contactId = [...hubspot.store().contacts.values()][0].id;
+    resetOutboundState();
+    process.env[HUBSPOT_MAX_RETRIES_ENV] = '3';
+    log = mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    delete process.env[HUBSPOT_MAX_CONCURRENCY_ENV];
+  });
+
+  after(async () => {
+    await hubspot.close();
+    delete process.env[HUBSPOT_MAX_RETRIES_ENV];
+    resetOutboundState();
+  });
+
+  it('waits for Retry-After before repeating a rate-limited call', async () => {
+    await hubspot.addFault({ status: 429, path: `/contacts/${contactId}`, retryAfter: 1 });
+    const startedAt = Date.now();
+
+    const contact = await gateway.getContact(contactId);
+
+    assert.equal(contact?.id, contactId);
+    assert.deepEqual(retryDelays(log, 'getContact'), [1000]);
+    assert.ok(Date.now() - startedAt >= 1000);
+  });
+
+  it('repeats a rate-limited create, which HubSpot did not carry out', async () => {
+    await hubspot.addFault({ status: 429, path: '/crm/v3/objects/contacts', retryAfter: 0 });
+
+    const contact = await gateway.createContact({ email: 'new@acme.com' });
+
+    assert.equal(hubspot.store().contacts.get(contact.id)?.properties.email, 'new@acme.com');
+    assert.equal(hubspot.store().contacts.size, SEED.contacts.length + 1);
+  });
+
+  it('hands a Retry-After longer than a minute back to the caller', async () => {
+    await hubspot.addFault({ status: 429, path: `/contacts/${contactId}`, retryAfter: 120 });
+
+    await assert.rejects(gateway.getContact(contactId), (error: { code?: number }) => error.code === 429);
+    assert.deepEqual(retryDelays(log, 'getContact'), []);
+  });
+
+  it('backs off exponentially with full jitter on server errors', async () => {
+    mock.method(Math, 'random', () => 0.1);
+    await hubspot.addFault({ status: 503, path: `/contacts/${contactId}`, count: 3 });
+
+    const contact = await gateway.getContact(contactId);
+
+    assert.equal(contact?.id, contactId);
+    assert.deepEqual(retryDelays(log, 'getContact'), [50, 100, 200]); // 10% of 500ms, 1s and 2s
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    mock.method(Math, 'random', () => 0);
+    process.env[HUBSPOT_MAX_RETRIES_ENV] = '1';
+    await hubspot.addFault({ status: 503, path: `/contacts/${contactId}`, count: 2 });
+
+    await assert.rejects(gateway.getContact(contactId), (error: { code?: number }) => error.code === 503);
+    assert.equal(retryDelays(log, 'getContact').length, 1);
+  });
+
+  it('does not retry client errors', async () => {
+    await hubspot.addFault({ status: 400, path: `/contacts/${contactId}` });
+
+    await assert.rejects(gateway.getContact(contactId), (error: { code?: number }) => error.code === 400);
+    assert.deepEqual(retryDelays(log, 'getContact'), []);
+  });
+
+  it('never repeats a create that failed with a server error', async () => {
+    mock.method(Math, 'random', () => 0);
+    await hubspot.addFault({ status: 503, path: '/crm/v3/objects/contacts' });
+
+    await assert.rejects(gateway.createContact({ email: 'new@acme.com' }), (error: { code?: number }) => error.code === 503);
+    assert.deepEqual(retryDelays(log, 'createContact'), []);
+    assert.equal(hubspot.store().contacts.size, SEED.contacts.length);
+  });
+
+  it('repeats a create whose connection was refused, since it never reached HubSpot', async () => {
+    mock.method(Math, 'random', () => 0);
+    process.env[HUBSPOT_MAX_RETRIES_ENV] = '2';
+    const unused = createServer();
+    await new Promise<void>(resolve => unused.listen(0, '127.0.0.1', resolve));
+    const { port } = unused.address() as AddressInfo;
+    await new Promise(resolve => unused.close(resolve));
+
+    const refused = createHubSpotClientGateway('test-token', `http://127.0.0.1:${port}`);
+
+    await assert.rejects(refused.createContact({ email: 'new@acme.com' }));
+    assert.equal(retryDelays(log, 'createContact').length, 2);
+  });
+
+  it('does not repeat a create whose connection dropped', async () => {
+    let attempts = 0;
+    const dropped = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    await assert.rejects(callHubSpot('createContact', false, async () => {
+      attempts++;
+      throw dropped;
+    }), dropped);
+    assert.equal(attempts, 1);
+  });
+
+  it('keeps no more calls in flight than the concurrency cap', async () => {
+    process.env[HUBSPOT_MAX_CONCURRENCY_ENV] = '2';
+    let active = 0;
+    let mostActive = 0;
+
+    const results = await Promise.all(Array.from({ length: 6 }, (_, index) => callHubSpot('getContact', true, async () => {
+      active++;
+      mostActive = Math.max(mostActive, active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+      return index;
+    })));
+
+    assert.deepEqual(results, [0, 1, 2, 3, 4, 5]);
+    assert.equal(mostActive, 2);
+  });
+
+  it('gives up its slot while waiting to retry', async () => {
+    process.env[HUBSPOT_MAX_CONCURRENCY_ENV] = '1';
+    const order: string[] = [];
+    let failed = false;
+
+    await Promise.all([
+      callHubSpot('getContact', true, async () => {
+        if (!failed) {
+          failed = true;
+          order.push('first failed');
+          throw Object.assign(new Error('rate limited'), { code: 429, headers: { 'retry-after': '0.05' } });
+        }
+        order.push('first retried');
+      }),
+      callHubSpot('getContact', true, async () => {
+        order.push('second');
+      }),
+    ]);
+
+    assert.deepEqual(order, ['first failed', 'second', 'first retried']);
+  });
+
+  it('keeps the quota HubSpot reports on responses', async () => {
+    assert.deepEqual(getHubSpotQuota(), {});
+
+    await gateway.getContact(contactId);
+    await gateway.getContact(contactId);
+
+    const quota = getHubSpotQuota();
+    assert.deepEqual({ ...quota.daily, updatedAt: undefined }, { limit: 250000, remaining: 249998, updatedAt: undefined });
+    assert.deepEqual({ ...quota.interval, updatedAt: undefined }, { limit: 100, remaining: 98, intervalMs: 10000, updatedAt: undefined });
+  });
+
+  it('keeps the quota reported on failed responses', async () => {
+    await hubspot.addFault({ status: 400, path: `/contacts/${contactId}` });
+
+    await assert.rejects(gateway.getContact(contactId));
+
+    assert.equal(getHubSpotQuota().daily?.limit, 250000);
+  });
+
+  it('waits for the interval to pass once its limit is used up', async () => {
+    recordHubSpotRateLimitHeaders({
+      'x-hubspot-ratelimit-max': '100',
+      'x-hubspot-ratelimit-remaining': '0',
+      'x-hubspot-ratelimit-interval-milliseconds': '200',
+    });
+    const startedAt = Date.now();
+
+    await callHubSpot('getContact', true, async () => undefined);
+
+    assert.ok(Date.now() - startedAt >= 150);
+  });
+});
@@ -0,0 +1,209 @@
+import { enterHubSpotCircuit, recordHubSpotCallOutcome } from './circuitBreaker';
+import type { HubSpotGateway } from './types';
+
+// Quota HubSpot reports on every response (X-HubSpot-RateLimit-* headers); unknown until the first response
+export interface HubSpotQuota {
+  daily?: { limit: number; remaining: number; updatedAt: string };
+  interval?: { limit: number; remaining: number; intervalMs: number; updatedAt: string };
+}
+
+// Environment variables tuning outbound calls
+export const HUBSPOT_MAX_CONCURRENCY_ENV = 'HUBSPOT_MAX_CONCURRENCY';
+export const HUBSPOT_MAX_RETRIES_ENV = 'HUBSPOT_MAX_RETRIES';
+
+const DEFAULT_MAX_CONCURRENCY = 5;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30 * 1000;
+// A longer Retry-After (e.g. the daily limit) is not waited out; the error goes back to the caller
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+// Operations that may have been carried out when the response was lost, and would create duplicates if repeated
+const NON_IDEMPOTENT_OPERATIONS: string[] = ['createContact', 'batchCreateContacts'];
+
+// Statuses and network errors meaning HubSpot is unavailable: worth repeating an idempotent operation for,
+// and counted by the circuit breaker
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+// The parts of an ApiException (code is the HTTP status), an HTTP client error or a network error looked at for retries
+type OutboundError = {
+  code?: number | string;
+  headers?: Record<string, string>;
+  body?: { policyName?: string };
+  response?: { status?: number; headers?: Record<string, string>; data?: { policyName?: string } };
+  cause?: { code?: string };
+} | undefined;
+
+interface OutboundState {
+  active: number;
+  waiting: Array<() => void>;
+  quota: HubSpotQuota;
+}
+
+// Kept on globalThis so the concurrency cap and quota cover every route in the process
+const globalForOutbound = globalThis as typeof globalThis & { hubSpotOutboundState?: OutboundState };
+
+function getState(): OutboundState {
+  return globalForOutbound.hubSpotOutboundState ??= { active: 0, waiting: [], quota: {} };
+}
+
+function readPositiveInteger(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function acquireSlot(): Promise<void> {
+  const state = getState();
+  if (state.active < Math.max(1, readPositiveInteger(HUBSPOT_MAX_CONCURRENCY_ENV, DEFAULT_MAX_CONCURRENCY))) {
+    state.active++;
+    return;
+  }
+  // The slot is handed over by releaseSlot, so active stays counted
+  await new Promise<void>(resolve => state.waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const state = getState();
+  const next = state.waiting.shift();
+  if (next) next();
+  else state.active--;
+}
+
+// Record the X-HubSpot-RateLimit-* headers of a response (header names in lower case)
+export function recordHubSpotRateLimitHeaders(headers: Record<string, string | undefined>): void {
+  const quota = getState().quota;
+  const updatedAt = new Date().toISOString();
+  const number = (name: string) => {
+    const value = headers[name];
+    return value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+  };
+
+  const dailyLimit = number('x-hubspot-ratelimit-daily');
+  const dailyRemaining = number('x-hubspot-ratelimit-daily-remaining');
+  if (dailyLimit !== undefined && dailyRemaining !== undefined) {
+    quota.daily = { limit: dailyLimit, remaining: dailyRemaining, updatedAt };
+  }
+
+  const intervalLimit = number('x-hubspot-ratelimit-max');
+  const intervalRemaining = number('x-hubspot-ratelimit-remaining');
+  const intervalMs = number('x-hubspot-ratelimit-interval-milliseconds');
+  if (intervalLimit !== undefined && intervalRemaining !== undefined && intervalMs !== undefined) {
+    quota.interval = { limit: intervalLimit, remaining: intervalRemaining, intervalMs, updatedAt };
+  }
+}
+
+// The most recent quota reported by HubSpot (e.g. to warn before a large upload uses up the daily limit)
+export function getHubSpotQuota(): HubSpotQuota {
+  const { daily, interval } = getState().quota;
+  return { ...(daily && { daily: { ...daily } }), ...(interval && { interval: { ...interval } }) };
+}
+
+// When the last response used up the rolling interval limit, wait for the interval to pass instead of getting a 429
+async function waitForIntervalQuota(): Promise<void> {
+  const interval = getState().quota.interval;
+  if (!interval || interval.remaining > 0) return;
+
+  const waitMs = Date.parse(interval.updatedAt) + interval.intervalMs - Date.now();
+  if (waitMs > 0) await sleep(Math.min(waitMs, interval.intervalMs));
+}
+
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getStatus(error: OutboundError): number | undefined {
+  return typeof error?.code === 'number' ? error.code : error?.response?.status;
+}
+
+function getNetworkCode(error: OutboundError): string | undefined {
+  return typeof error?.code === 'string' ? error.code : error?.cause?.code;
+}
+
+function isUnavailableError(error: OutboundError): boolean {
+  const status = getStatus(error);
+  const networkCode = getNetworkCode(error);
+  return (status !== undefined && RETRYABLE_STATUSES.includes(status)) ||
+    (networkCode !== undefined && RETRYABLE_NETWORK_ERRORS.includes(networkCode));
+}
+
+/**
+ * How long to wait before repeating a failed call, or null when it should not be repeated.
+ * Rate-limited calls (429) were not carried out, so every operation is repeated after Retry-After,
+ * except for the daily limit. Server errors and dropped connections are only repeated for idempotent operations.
+ */
+function getRetryDelay(error: OutboundError, attempt: number, idempotent: boolean): number | null {
+  const status = getStatus(error);
+  const headers = error?.headers || error?.response?.headers || {};
+  const body = error?.body || error?.response?.data;
+  const backoff = Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt); // Full jitter
+
+  if (status === 429) {
+    if (body?.policyName === 'DAILY') return null;
+    const retryAfter = parseRetryAfter(headers['retry-after']);
+    if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) return null;
+    return retryAfter ?? backoff;
+  }
+
+  if (!idempotent && getNetworkCode(error) !== 'ECONNREFUSED') return null; // A refused connection never reached HubSpot
+
+  if (isUnavailableError(error)) {
+    const retryAfter = parseRetryAfter(headers['retry-after']);
+    return retryAfter !== undefined && retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : backoff;
+  }
+  return null;
+}
+
+/**
+ * Run one HubSpot operation within the process-wide concurrency cap, pacing it to the interval limit
+ * and repeating it with jittered exponential backoff (or after Retry-After) when it fails transiently.
+ * The slot is given up while waiting to retry. The last error is thrown as-is, or the circuit breaker's
+ * 503 once too many calls failed because HubSpot was unavailable.
+ */
+export async function callHubSpot<T>(operation: string, idempotent: boolean, call: () => Promise<T>): Promise<T> {
+  const maxRetries = readPositiveInteger(HUBSPOT_MAX_RETRIES_ENV, DEFAULT_MAX_RETRIES);
+
+  for (let attempt = 0; ; attempt++) {
+    let delay: number | null;
+    await acquireSlot();
+    try {
+      await waitForIntervalQuota();
+      enterHubSpotCircuit();
+    } catch (error) {
+      releaseSlot();
+      throw error;
+    }
+
+    try {
+      const result = await call();
+      recordHubSpotCallOutcome(false);
+      return result;
+    } catch (error) {
+      recordHubSpotCallOutcome(isUnavailableError(error as OutboundError));
+      const headers = (error as OutboundError)?.headers;
+      if (headers) recordHubSpotRateLimitHeaders(headers); // Failed responses report the limits too
+      delay = attempt < maxRetries ? getRetryDelay(error as OutboundError, attempt, idempotent) : null;
+      if (delay === null) throw error;
+      console.log(`Retrying HubSpot ${operation} in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${maxRetries + 1}): ${(error as Error)?.message}`);
+    } finally {
+      releaseSlot();
+    }
+    await sleep(delay);
+  }
+}
+
+// Route every gateway call through callHubSpot; only creates are treated as not idempotent
+export function withOutboundPolicy(gateway: HubSpotGateway): HubSpotGateway {
+  const wrapped = {} as Record<string, unknown>;
+  for (const [operation, method] of Object.entries(gateway) as Array<[string, (...args: unknown[]) => Promise<unknown>]>) {
+    const idempotent = !NON_IDEMPOTENT_OPERATIONS.includes(operation);
+    wrapped[operation] = (...args: unknown[]) => callHubSpot(operation, idempotent, () => method.apply(gateway, args));
+  }
+  return wrapped as unknown as HubSpotGateway;
+}
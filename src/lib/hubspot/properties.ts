@@ -0,0 +1,135 @@
+import type { ContactProperties, HubSpotGateway, PropertyDefinition } from './types';
+
+// Property definitions change rarely, so they are fetched at most once every few minutes
+const PROPERTY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface PropertyCache {
+  definitions: Map<string, PropertyDefinition>;
+  fetchedAt: number;
+}
+
+// Kept on globalThis so every route shares it even when bundled separately
+const globalForProperties = globalThis as typeof globalThis & { contactPropertyCache?: PropertyCache };
+
+/**
+ * Contact property definitions of the HubSpot portal, keyed by property name.
+ * Errors from HubSpot are thrown as-is (callers wrap them with handleHubSpotError).
+ */
+export async function getContactPropertyDefinitions(gateway: HubSpotGateway): Promise<Map<string, PropertyDefinition>> {
+  const cached = globalForProperties.contactPropertyCache;
+  if (cached && Date.now() - cached.fetchedAt < PROPERTY_CACHE_TTL_MS) {
+    return cached.definitions;
+  }
+
+  const definitions = new Map((await gateway.listContactProperties()).map(definition => [definition.name, definition]));
+  globalForProperties.contactPropertyCache = { definitions, fetchedAt: Date.now() };
+  return definitions;
+}
+
+// A value that does not fit its property, with a message naming the property by its label
+export interface PropertyValueError {
+  property: string;
+  message: string;
+}
+
+const BOOLEAN_VALUES: Record<string, string> = {
+  true: 'true', yes: 'true', y: 'true', '1': 'true',
+  false: 'false', no: 'false', n: 'false', '0': 'false',
+};
+
+// Days between Excel's day zero (1899-12-30) and 1970-01-01
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+function toIsoDate(value: string): string | null {
+  // Spreadsheet cells hold dates as serial day numbers
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Math.floor(Number(value));
+    return new Date((serial - EXCEL_EPOCH_OFFSET_DAYS) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : null;
+}
+
+/**
+ * Check a value against its property definition and convert it to the form HubSpot stores:
+ * options are matched by value or label (case-insensitive), booleans accept yes/no, true/false and 1/0,
+ * and dates accept YYYY-MM-DD or a spreadsheet serial number.
+ */
+export function normalizePropertyValue(definition: PropertyDefinition, value: string): { value: string } | { error: string } {
+  const trimmed = value.trim();
+  const { label } = definition;
+
+  switch (definition.type) {
+    case 'bool': {
+      const normalized = BOOLEAN_VALUES[trimmed.toLowerCase()];
+      return normalized ? { value: normalized } : { error: `${label} must be yes or no` };
+    }
+
+    case 'enumeration': {
+      // Multiple checkboxes take several options separated by semicolons, like HubSpot imports
+      const parts = (definition.fieldType === 'checkbox' ? trimmed.split(';') : [trimmed]).map(part => part.trim()).filter(Boolean);
+      const values: string[] = [];
+      for (const part of parts) {
+        const option = definition.options.find(candidate =>
+          candidate.value.toLowerCase() === part.toLowerCase() || candidate.label.toLowerCase() === part.toLowerCase()
+        );
+        if (!option) {
+          return { error: `${label} must be one of: ${definition.options.map(candidate => candidate.label).join(', ')}` };
+        }
+        values.push(option.value);
+      }
+      return { value: values.join(';') };
+    }
+
+    case 'number':
+      return trimmed !== '' && Number.isFinite(Number(trimmed)) ? { value: String(Number(trimmed)) } : { error: `${label} must be a number` };
+
+    case 'date': {
+      const date = toIsoDate(trimmed);
+      return date ? { value: date } : { error: `${label} must be a date (YYYY-MM-DD)` };
+    }
+
+    case 'datetime': {
+      const date = toIsoDate(trimmed) ?? (isNaN(Date.parse(trimmed)) ? null : new Date(trimmed).toISOString());
+      return date ? { value: date } : { error: `${label} must be a date and time` };
+    }
+
+    default:
+      return { value: trimmed };
+  }
+}
+
+/**
+ * Check property values against the portal's definitions: the properties must exist, be writable and
+ * hold values of the right type. Returns the normalized values and one error per rejected property.
+ */
+export function normalizePropertyValues(
+  definitions: Map<string, PropertyDefinition>,
+  values: ContactProperties
+): { properties: ContactProperties; errors: PropertyValueError[] } {
+  const properties: ContactProperties = {};
+  const errors: PropertyValueError[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    const definition = definitions.get(name);
+    if (!definition) {
+      errors.push({ property: name, message: `Property "${name}" does not exist in HubSpot` });
+      continue;
+    }
+    if (definition.readOnly) {
+      errors.push({ property: name, message: `${definition.label} is read-only` });
+      continue;
+    }
+
+    const normalized = normalizePropertyValue(definition, value);
+    if ('error' in normalized) {
+      errors.push({ property: name, message: normalized.error });
+    } else {
+      properties[name] = normalized.value;
+    }
+  }
+
+  return { properties, errors };
+}
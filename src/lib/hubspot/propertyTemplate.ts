@@ -0,0 +1,207 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { getContactPropertyDefinitions, normalizePropertyValues, type PropertyValueError } from './properties';
+import type { ContactProperties, HubSpotGateway } from './types';
+
+// Input fields a template property can take its value from
+export type PropertyValueSource = 'firstName' | 'lastName' | 'email' | 'emailDomain' | 'companyId' | 'companyName';
+export const PROPERTY_VALUE_SOURCES: PropertyValueSource[] = ['firstName', 'lastName', 'email', 'emailDomain', 'companyId', 'companyName'];
+
+// One property written to contacts: a static value, or a value taken from the input or matched company
+export interface PropertyTemplateEntry {
+  value?: string;
+  from?: PropertyValueSource; // The property is left out when the source is empty (e.g. no matched company)
+  createOnly?: boolean; // Only set on new contacts, not on existing contacts updated under the update policy
+}
+
+export type ContactPropertyTemplate = Record<string, PropertyTemplateEntry>;
+
+// The fields a template value can be derived from (NewContactInput satisfies this)
+export interface PropertyTemplateInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  companyId?: string;
+  companyName?: string;
+  properties?: ContactProperties; // Per-request overrides
+}
+
+// What every contact got before the template was configurable
+export const DEFAULT_CONTACT_PROPERTY_TEMPLATE: ContactPropertyTemplate = {
+  lifecyclestage: { value: 'lead', createOnly: true },
+  company: { from: 'companyName' },
+};
+
+// Written by the app itself, never by the template or overrides: names and email come from the input,
+// and active_in_okta marks the contacts that SCIM and deactivation treat as provisioned
+export const RESERVED_CONTACT_PROPERTIES = ['firstname', 'lastname', 'email', 'active_in_okta'];
+
+// Environment variable holding the template as JSON, merged over the default template
+export const PROPERTY_TEMPLATE_ENV = 'CONTACT_PROPERTY_TEMPLATE';
+
+let cachedTemplate: { source: string | undefined; template: ContactPropertyTemplate } | null = null;
+
+function templateError(message: string, details?: { errors: PropertyValueError[] }): CustomError {
+  return new CustomError(`Contact property template is invalid: ${message}`, ErrorCodes.INTERNAL_SERVER_ERROR, 500, details);
+}
+
+// A string is a static value; null removes a property from the default template
+function parseTemplateEntry(name: string, raw: unknown): PropertyTemplateEntry | null {
+  if (raw === null) return null;
+  if (typeof raw === 'string') return { value: raw };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw templateError(`"${name}" must be a string, null or an object with "value" or "from"`);
+  }
+
+  const { value, from, createOnly } = raw as Record<string, unknown>;
+  if ((value === undefined) === (from === undefined)) {
+    throw templateError(`"${name}" needs exactly one of "value" or "from"`);
+  }
+  if (value !== undefined && typeof value !== 'string') {
+    throw templateError(`"${name}".value must be a string`);
+  }
+  if (from !== undefined && !PROPERTY_VALUE_SOURCES.includes(from as PropertyValueSource)) {
+    throw templateError(`"${name}".from must be one of: ${PROPERTY_VALUE_SOURCES.join(', ')}`);
+  }
+  if (createOnly !== undefined && typeof createOnly !== 'boolean') {
+    throw templateError(`"${name}".createOnly must be true or false`);
+  }
+
+  return {
+    ...(value !== undefined && { value: value as string }),
+    ...(from !== undefined && { from: from as PropertyValueSource }),
+    ...(createOnly && { createOnly: true }),
+  };
+}
+
+/**
+ * Parse a template from JSON, e.g.
+ * {"lifecyclestage": {"value": "customer", "createOnly": true}, "source": "partner-portal", "company": null}
+ * Entries replace the default entry of the same property.
+ */
+export function parseContactPropertyTemplate(json: string): ContactPropertyTemplate {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw templateError(`${PROPERTY_TEMPLATE_ENV} is not valid JSON`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw templateError(`${PROPERTY_TEMPLATE_ENV} must be a JSON object keyed by HubSpot property name`);
+  }
+
+  const template: ContactPropertyTemplate = { ...DEFAULT_CONTACT_PROPERTY_TEMPLATE };
+  for (const [name, value] of Object.entries(raw)) {
+    if (RESERVED_CONTACT_PROPERTIES.includes(name)) {
+      throw templateError(`"${name}" is set by the app and cannot be part of the template`);
+    }
+    const entry = parseTemplateEntry(name, value);
+    if (entry) {
+      template[name] = entry;
+    } else {
+      delete template[name];
+    }
+  }
+  return template;
+}
+
+// The configured template (the default when the environment variable is not set)
+export function getContactPropertyTemplate(): ContactPropertyTemplate {
+  const source = process.env[PROPERTY_TEMPLATE_ENV]?.trim() || undefined;
+  if (!cachedTemplate || cachedTemplate.source !== source) {
+    cachedTemplate = { source, template: source ? parseContactPropertyTemplate(source) : DEFAULT_CONTACT_PROPERTY_TEMPLATE };
+  }
+  return cachedTemplate.template;
+}
+
+function sourceValue(input: PropertyTemplateInput, source: PropertyValueSource): string | undefined {
+  if (source === 'emailDomain') return input.email.split('@')[1];
+  return input[source];
+}
+
+/**
+ * Template properties for one input. 'create' gives the create-only properties and 'always' the
+ * properties written to new and updated contacts. An override replaces the value of a template
+ * property; overrides of other properties are written whenever 'always' properties are.
+ */
+export function resolveTemplateProperties(input: PropertyTemplateInput, stage: 'create' | 'always'): ContactProperties {
+  const template = getContactPropertyTemplate();
+  const overrides = input.properties || {};
+  const properties: ContactProperties = {};
+
+  for (const [name, entry] of Object.entries(template)) {
+    if (!!entry.createOnly !== (stage === 'create')) continue;
+
+    const value = overrides[name] ?? entry.value ?? sourceValue(input, entry.from!);
+    if (value) properties[name] = value;
+  }
+
+  if (stage === 'always') {
+    for (const [name, value] of Object.entries(overrides)) {
+      if (!(name in template)) properties[name] = value;
+    }
+  }
+  return properties;
+}
+
+/**
+ * Check the shape of per-request property overrides: an object of string values that does not
+ * touch the properties the app sets itself. Returns the overrides with trimmed values; empty values are dropped.
+ */
+export function parsePropertyOverrides(raw: unknown): ContactProperties {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw) || Object.values(raw).some(value => typeof value !== 'string')) {
+    throw new CustomError(
+      'properties must map HubSpot contact property names to string values',
+      ErrorCodes.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  const reserved = Object.keys(raw).filter(name => RESERVED_CONTACT_PROPERTIES.includes(name));
+  if (reserved.length > 0) {
+    throw new CustomError(
+      `These properties are set by the app and cannot be overridden: ${reserved.join(', ')}`,
+      ErrorCodes.VALIDATION_ERROR,
+      400,
+      { reservedProperties: reserved }
+    );
+  }
+
+  return Object.fromEntries(
+    Object.entries(raw as ContactProperties)
+      .map(([name, value]) => [name, value.trim()])
+      .filter(([, value]) => value)
+  );
+}
+
+/**
+ * Check that every property the template and the overrides write exists in HubSpot, is writable and
+ * gets a value of the right type. Returns the overrides normalized to what HubSpot stores.
+ * Problems in the template are configuration errors (500); problems in the overrides are the caller's (400).
+ * HubSpot errors while reading the property definitions are thrown as-is.
+ */
+export async function validateContactProperties(gateway: HubSpotGateway, overrides: ContactProperties = {}): Promise<ContactProperties> {
+  const template = getContactPropertyTemplate();
+  const definitions = await getContactPropertyDefinitions(gateway);
+
+  // Derived values are only known per contact, so for those only the property itself is checked
+  const templateErrors = Object.entries(template).flatMap(([name, entry]) => {
+    const definition = definitions.get(name);
+    if (entry.value === undefined && definition && !definition.readOnly) return [];
+    return normalizePropertyValues(definitions, { [name]: entry.value ?? '' }).errors;
+  });
+  if (templateErrors.length > 0) {
+    throw templateError(templateErrors.map(error => error.message).join('; '), { errors: templateErrors });
+  }
+
+  const { properties, errors } = normalizePropertyValues(definitions, overrides);
+  if (errors.length > 0) {
+    throw new CustomError(
+      `Invalid contact properties: ${errors.map(error => error.message).join('; ')}`,
+      ErrorCodes.VALIDATION_ERROR,
+      400,
+      { errors }
+    );
+  }
+  return properties;
+}
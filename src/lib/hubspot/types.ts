@@ -0,0 +1,89 @@
+// Maximum number of inputs HubSpot accepts in one batch request
+export const HUBSPOT_BATCH_SIZE = 100;
+
+// HubSpot property values are always sent and returned as strings
+export type ContactProperties = Record<string, string>;
+
+export interface Contact {
+  id: string;
+  properties: Record<string, string | null>;
+}
+
+export interface Company {
+  id: string;
+  properties: {
+    name: string;
+    domain?: string;
+  };
+  similarity?: number;
+}
+
+export interface ContactUpdate {
+  id: string;
+  properties: ContactProperties;
+}
+
+export interface ContactCompanyPair {
+  contactId: string;
+  companyId: string;
+}
+
+// Outcome of one input in a batch call, in the same position as the input
+export interface BatchItemResult {
+  contact?: Contact;
+  error?: string;
+  errorCategory?: string; // HubSpot's category for the error, e.g. VALIDATION_ERROR or CONFLICT
+}
+
+export interface AssociationFailure extends ContactCompanyPair {
+  error: string;
+}
+
+// One page of a contact search, with the total number of matches
+export interface ContactPage {
+  contacts: Contact[];
+  total: number;
+}
+
+// A contact property as defined in the HubSpot portal
+export interface PropertyDefinition {
+  name: string;
+  label: string;
+  type: string; // Value type: string, number, date, datetime, enumeration or bool
+  fieldType: string; // How HubSpot renders the input: text, textarea, select, radio, checkbox, booleancheckbox, date, ...
+  options: Array<{ label: string; value: string }>; // Allowed values of enumeration and bool properties
+  readOnly: boolean; // Set by HubSpot (e.g. createdate); writes are rejected
+}
+
+export interface CompanySearchOptions {
+  activeOnly?: boolean; // Only return companies whose status__c is "Active"
+  limit?: number;
+}
+
+/**
+ * Typed operations the API routes need from HubSpot.
+ * Routes only talk to this interface, so the implementation can be swapped
+ * (e.g. a stub for testing or a client pointed at a different portal).
+ */
+export interface HubSpotGateway {
+  createContact(properties: ContactProperties): Promise<Contact>;
+  updateContact(contactId: string, properties: ContactProperties): Promise<Contact>;
+  associateContactToCompany(contactId: string, companyId: string): Promise<void>;
+  // Batch variants accept at most HUBSPOT_BATCH_SIZE inputs per call
+  batchCreateContacts(inputs: ContactProperties[]): Promise<BatchItemResult[]>;
+  batchUpdateContacts(updates: ContactUpdate[]): Promise<BatchItemResult[]>;
+  batchAssociateContactsToCompanies(pairs: ContactCompanyPair[]): Promise<AssociationFailure[]>;
+  batchRemoveContactCompanyAssociations(pairs: ContactCompanyPair[]): Promise<void>;
+  // Company IDs associated with each contact, keyed by contact ID
+  getCompanyIdsForContacts(contactIds: string[]): Promise<Map<string, string[]>>;
+  searchCompanies(query: string, options?: CompanySearchOptions): Promise<Company[]>;
+  listCompanies(limit?: number): Promise<Company[]>;
+  getCompany(companyId: string): Promise<Company | null>;
+  getContact(contactId: string): Promise<Contact | null>;
+  findContactByEmail(email: string): Promise<Contact | null>;
+  // Contacts keyed by lowercased email; at most HUBSPOT_BATCH_SIZE emails per call
+  findContactsByEmails(emails: string[]): Promise<Map<string, Contact>>;
+  // Contacts that have a value for the property, starting at a zero-based offset
+  listContactsWithProperty(propertyName: string, offset: number, limit: number): Promise<ContactPage>;
+  listContactProperties(): Promise<PropertyDefinition[]>;
+}
@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { getSharedStore } from '@/lib/sharedStore';
+
+export type IdempotencyScope = 'create-user' | 'bulk-upload';
+
+// Outcome recorded for one row of a bulk upload
+export interface RecordedRowOutcome {
+  status: 'created' | 'updated' | 'skipped' | 'failed';
+  contactId?: string;
+  error?: string;
+  errorCode?: string;
+  retryable?: boolean; // Whether the failure may succeed when the row is submitted again (see isRetryableError)
+}
+
+export interface IdempotencyRecord {
+  id: string; // Key namespaced by scope and client, under which the record is stored
+  key: string;
+  scope: IdempotencyScope;
+  fingerprint: string; // Hash of the request payload the key was first used with
+  jobId?: string; // Bulk upload job started for this key
+  response?: { data: unknown; message: string; statusCode: number }; // Stored create-user success response
+  createdAt: number;
+}
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Keys are remembered for a day, long enough to cover retries after an outage
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+// A request holds its key this long at most, so a key is not blocked for good when its instance stops mid-request
+const IN_FLIGHT_TTL_MS = 5 * 60 * 1000;
+
+// Records are kept in the shared store (see SHARED_STORE), so a retry reaching another instance finds them
+const recordKey = (id: string) => `idempotency:${id}`;
+const inFlightKey = (id: string) => `idempotency:${id}:in-flight`;
+
+// Read and validate the Idempotency-Key header (undefined when the client did not send one)
+export function getIdempotencyKey(headers: Headers): string | undefined {
+  const key = headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) return undefined;
+
+  if (key.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    throw new CustomError(
+      `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} printable ASCII characters`,
+      ErrorCodes.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  return key;
+}
+
+export function fingerprintRequest(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+/**
+ * Look up (or start) the record for an idempotency key.
+ * Keys are namespaced by scope and client so different callers cannot collide.
+ * Reusing a key with a different payload is rejected.
+ */
+export async function beginIdempotentRequest(
+  scope: IdempotencyScope,
+  clientId: string,
+  key: string,
+  fingerprint: string
+): Promise<IdempotencyRecord> {
+  const store = getSharedStore();
+  const id = `${scope}:${clientId}:${key}`;
+  const record: IdempotencyRecord = { id, key, scope, fingerprint, createdAt: Date.now() };
+
+  // Another instance may have started the record meanwhile; it is read back then
+  const stored = (await store.add(recordKey(id), JSON.stringify(record), IDEMPOTENCY_TTL_MS))
+    ? null
+    : await store.get(recordKey(id));
+  const existing: IdempotencyRecord | null = stored ? JSON.parse(stored) : null;
+
+  if (existing && existing.fingerprint !== fingerprint) {
+    throw new CustomError(
+      `${IDEMPOTENCY_HEADER} has already been used with a different request payload`,
+      ErrorCodes.IDEMPOTENCY_KEY_REUSED,
+      422,
+      { idempotencyKey: key }
+    );
+  }
+  return existing ?? record;
+}
+
+// Store the record's response or job, keeping it for the rest of the day it was started
+export async function saveIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+  const ttlMs = Math.max(1, record.createdAt + IDEMPOTENCY_TTL_MS - Date.now());
+  await getSharedStore().set(recordKey(record.id), JSON.stringify(record), ttlMs);
+}
+
+// Mark the key as being processed by this request; false while another request holds it
+export function claimIdempotentRequest(record: IdempotencyRecord, requestId: string): Promise<boolean> {
+  return getSharedStore().lease(inFlightKey(record.id), requestId, IN_FLIGHT_TTL_MS);
+}
+
+export function releaseIdempotentRequest(record: IdempotencyRecord, requestId: string): Promise<void> {
+  return getSharedStore().release(inFlightKey(record.id), requestId);
+}
@@ -0,0 +1,100 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { secretsMatch } from '@/lib/security';
+
+// Recorded on the contact when a user is deactivated in Okta (via SCIM or an Event Hook)
+export const OKTA_DEACTIVATION_REASON = 'Deactivated in Okta';
+
+export interface OktaUserProfile {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  organization?: string;
+}
+
+// The subset of an Okta Event Hook delivery this app reads
+export interface OktaEventTarget {
+  id: string;
+  type: string;
+  alternateId?: string; // The user's login, usually their email
+  displayName?: string;
+}
+
+export interface OktaEvent {
+  uuid: string;
+  eventType: string;
+  published?: string;
+  target?: OktaEventTarget[];
+}
+
+export interface OktaEventHookPayload {
+  eventType?: string;
+  eventId?: string;
+  data?: { events?: OktaEvent[] };
+}
+
+// Okta sends the secret configured on the Event Hook in the Authorization header of every request
+export function authenticateOktaEventHook(headers: Headers): void {
+  const expectedSecret = process.env.OKTA_EVENT_HOOK_SECRET;
+  if (!process.env.HUBSPOT_ACCESS_TOKEN || !expectedSecret) {
+    throw new CustomError(
+      'Okta Event Hook integration is not properly configured',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    );
+  }
+
+  const providedSecret = headers.get('authorization') || '';
+  if (!providedSecret || !secretsMatch(providedSecret, expectedSecret)) {
+    throw new CustomError(
+      'Invalid or missing Okta Event Hook secret',
+      ErrorCodes.AUTHENTICATION_ERROR,
+      401
+    );
+  }
+}
+
+/**
+ * Read a user's profile from the Okta Users API (event payloads only carry the login and display name).
+ * Returns null when OKTA_ORG_URL / OKTA_API_TOKEN are not configured.
+ */
+export async function fetchOktaUserProfile(userId: string): Promise<OktaUserProfile | null> {
+  const orgUrl = process.env.OKTA_ORG_URL;
+  const apiToken = process.env.OKTA_API_TOKEN;
+  if (!orgUrl || !apiToken) return null;
+
+  let response: Response;
+  try {
+    response = await fetch(`${orgUrl.replace(/\/$/, '')}/api/v1/users/${encodeURIComponent(userId)}`, {
+      headers: {
+        Accept: 'application/json',
+        Authorization: `SSWS ${apiToken}`,
+      },
+    });
+  } catch (error) {
+    throw new CustomError(
+      'Unable to connect to the Okta API',
+      ErrorCodes.NETWORK_ERROR,
+      503,
+      { originalError: (error as Error)?.message }
+    );
+  }
+
+  if (!response.ok) {
+    throw new CustomError(
+      `Okta API returned ${response.status} for user ${userId}`,
+      response.status === 429 ? ErrorCodes.RATE_LIMIT_EXCEEDED : ErrorCodes.NETWORK_ERROR,
+      502,
+      { oktaStatus: response.status }
+    );
+  }
+
+  const user = await response.json();
+  return {
+    id: user.id,
+    firstName: user.profile?.firstName || '',
+    lastName: user.profile?.lastName || '',
+    email: user.profile?.email || user.profile?.login || '',
+    organization: user.profile?.organization || undefined,
+  };
+}
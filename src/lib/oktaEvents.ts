@@ -0,0 +1,158 @@
+import { CustomError, ErrorCodes, handleHubSpotError, logError } from '@/lib/errorHandler';
+import { validateUserInput, formatFieldErrors } from '@/lib/validation';
+import {
+  getHubSpotGateway,
+  deactivateContacts,
+  reactivateContact,
+  upsertContactWithCompany,
+} from '@/lib/hubspot';
+import { findRankedCompanyMatches } from '@/lib/organizations';
+import { queueOrganizationReview } from '@/lib/organizationReviews';
+import {
+  OKTA_DEACTIVATION_REASON,
+  fetchOktaUserProfile,
+  type OktaEvent,
+  type OktaEventTarget,
+  type OktaUserProfile,
+} from '@/lib/okta';
+
+export const OKTA_LIFECYCLE_EVENTS = {
+  CREATE: 'user.lifecycle.create',
+  DEACTIVATE: 'user.lifecycle.deactivate',
+  REACTIVATE: 'user.lifecycle.reactivate',
+} as const;
+
+export type OktaEventOutcome = 'created' | 'updated' | 'deactivated' | 'reactivated' | 'ignored' | 'failed';
+
+export interface OktaEventResult {
+  eventId: string;
+  eventType: string;
+  outcome: OktaEventOutcome;
+  email?: string;
+  contactId?: string;
+  queuedForReview?: boolean;
+  error?: string;
+}
+
+// Profile from the Okta API when configured, otherwise what the event itself carries
+async function resolveOktaUser(target: OktaEventTarget): Promise<OktaUserProfile> {
+  const profile = await fetchOktaUserProfile(target.id);
+  if (profile) return profile;
+
+  const [firstName = '', ...lastNames] = (target.displayName || '').trim().split(/\s+/);
+  return {
+    id: target.id,
+    firstName,
+    lastName: lastNames.join(' '),
+    email: target.alternateId || '',
+  };
+}
+
+// Create (or mark active) the contact, associated with the company matching the Okta organization
+async function provisionContact(event: OktaEvent, user: OktaUserProfile): Promise<OktaEventResult> {
+  const validation = validateUserInput(
+    {
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      organizationName: user.organization,
+    },
+    { required: ['firstName', 'lastName', 'email'] }
+  );
+  const { firstName, lastName, email, organizationName } = validation.data;
+
+  if (!validation.valid || !firstName || !lastName || !email) {
+    throw new CustomError(
+      `Okta user ${user.id} cannot be provisioned: ${formatFieldErrors(validation.errors)}`,
+      ErrorCodes.VALIDATION_ERROR,
+      400,
+      { errors: validation.errors }
+    );
+  }
+
+  // Same ranking as /api/search-organizations; the best match wins
+  const [company] = organizationName ? await findRankedCompanyMatches(organizationName) : [];
+
+  // Okta may redeliver events, so an existing contact is updated rather than treated as a conflict
+  const contact = await upsertContactWithCompany(getHubSpotGateway(), {
+    firstName,
+    lastName,
+    email,
+    companyId: company?.id,
+    companyName: company?.properties.name,
+  }, 'update');
+
+  if (!company) {
+    queueOrganizationReview({
+      contactId: contact.contactId,
+      email,
+      firstName,
+      lastName,
+      organizationName,
+      oktaUserId: user.id,
+    });
+  }
+
+  return {
+    eventId: event.uuid,
+    eventType: event.eventType,
+    outcome: contact.outcome === 'created' ? 'created' : 'updated',
+    email,
+    contactId: contact.contactId,
+    queuedForReview: !company,
+  };
+}
+
+async function processOktaEvent(event: OktaEvent): Promise<OktaEventResult> {
+  const ignored: OktaEventResult = { eventId: event.uuid, eventType: event.eventType, outcome: 'ignored' };
+  const isLifecycleEvent = (Object.values(OKTA_LIFECYCLE_EVENTS) as string[]).includes(event.eventType);
+  const target = event.target?.find(candidate => candidate.type === 'User');
+  if (!isLifecycleEvent || !target) return ignored;
+
+  const user = await resolveOktaUser(target);
+  if (event.eventType === OKTA_LIFECYCLE_EVENTS.CREATE) {
+    return provisionContact(event, user);
+  }
+
+  const gateway = getHubSpotGateway();
+  const contact = user.email ? await gateway.findContactByEmail(user.email) : null;
+
+  if (event.eventType === OKTA_LIFECYCLE_EVENTS.DEACTIVATE) {
+    // Users that were never provisioned into HubSpot have nothing to deactivate
+    if (!contact) return { ...ignored, email: user.email };
+
+    const [deactivation] = await deactivateContacts(gateway, [contact.id], { reason: OKTA_DEACTIVATION_REASON });
+    if (deactivation.error) throw deactivation.error;
+    return { eventId: event.uuid, eventType: event.eventType, outcome: 'deactivated', email: user.email, contactId: contact.id };
+  }
+
+  // Reactivating a user that has no contact yet provisions it
+  if (!contact) return provisionContact(event, user);
+
+  await reactivateContact(gateway, contact.id);
+  return { eventId: event.uuid, eventType: event.eventType, outcome: 'reactivated', email: user.email, contactId: contact.id };
+}
+
+/**
+ * Mirror Okta user lifecycle events into HubSpot, one event at a time in delivery order.
+ * A failing event is logged and does not stop the others.
+ */
+export async function processOktaEvents(events: OktaEvent[], requestId?: string): Promise<OktaEventResult[]> {
+  const results: OktaEventResult[] = [];
+
+  for (const event of events) {
+    try {
+      const result = await processOktaEvent(event);
+      results.push(result);
+      console.log(`Okta event ${event.uuid} (${event.eventType}): ${result.outcome}` +
+        (result.contactId ? ` contact ${result.contactId}` : '') +
+        (result.queuedForReview ? ', organization queued for review' : ''));
+    } catch (eventError) {
+      const error = handleHubSpotError(eventError);
+      logError(error, { operation: 'processOktaEvent', eventId: event.uuid, eventType: event.eventType, requestId });
+      results.push({ eventId: event.uuid, eventType: event.eventType, outcome: 'failed', error: error.message });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,124 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startFakeHubSpot, type FakeHubSpot } from '../../scripts/fake-hubspot/testing';
+import { ErrorCodes } from '@/lib/errorHandler';
+import { createHubSpotClientGateway, setHubSpotGateway } from '@/lib/hubspot';
+import { OUTBOX_FILE_ENV } from './outbox';
+import {
+  ORGANIZATION_REVIEWS_FILE_ENV,
+  dismissOrganizationReview,
+  listOrganizationReviews,
+  queueOrganizationReview,
+  resolveOrganizationReview,
+} from './organizationReviews';
+
+const SEED = {
+  companies: [{ name: 'Acme Corporation', domain: 'acme.com' }],
+  contacts: [{ firstname: 'Ada', lastname: 'Lovelace', email: 'ada@acme.com' }],
+};
+
+const globalState = globalThis as typeof globalThis & { organizationReviews?: unknown };
+
+describe('organization reviews', () => {
+  let hubspot: FakeHubSpot;
+  let directory: string;
+  let companyId: string;
+  let contactId: string;
+
+  const queueReview = () => queueOrganizationReview({
+    contactId,
+    email: 'ada@acme.com',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    organizationName: 'Acme Corp',
+    oktaUserId: '00u1',
+  });
+
+  before(async () => {
+    process.env.HUBSPOT_MAX_RETRIES = '0';
+    hubspot = await startFakeHubSpot(SEED);
+    setHubSpotGateway(createHubSpotClientGateway('test-token', hubspot.baseUrl));
+    directory = mkdtempSync(join(tmpdir(), 'organization-reviews-test-'));
+  });
+
+  beforeEach(async () => {
+    await fetch(`${hubspot.baseUrl}/__fake/reset`, { method: 'POST', body: JSON.stringify(SEED) });
+    companyId = [...hubspot.store().companies.keys()][0];
+    contactId = [...hubspot.store().contacts.keys()][0];
+    process.env[ORGANIZATION_REVIEWS_FILE_ENV] = join(directory, `${Date.now()}-${Math.random()}.json`);
+  });
+
+  after(async () => {
+    setHubSpotGateway(null);
+    await hubspot.close();
+    rmSync(directory, { recursive: true, force: true });
+    delete process.env[ORGANIZATION_REVIEWS_FILE_ENV];
+    delete process.env[OUTBOX_FILE_ENV];
+    delete process.env.HUBSPOT_MAX_RETRIES;
+    delete globalState.organizationReviews;
+  });
+
+  it('keeps reviews in the file, so they survive a restart', () => {
+    const review = queueReview();
+
+    assert.deepEqual(JSON.parse(readFileSync(process.env[ORGANIZATION_REVIEWS_FILE_ENV]!, 'utf8')), [review]);
+    delete globalState.organizationReviews;
+    assert.deepEqual(listOrganizationReviews(), [review]);
+  });
+
+  it('is kept beside the outbox when only OUTBOX_FILE is set', () => {
+    delete process.env[ORGANIZATION_REVIEWS_FILE_ENV];
+    process.env[OUTBOX_FILE_ENV] = join(directory, 'outbox.json');
+
+    const review = queueReview();
+
+    assert.deepEqual(JSON.parse(readFileSync(join(directory, 'organization-reviews.json'), 'utf8')), [review]);
+    delete process.env[OUTBOX_FILE_ENV];
+  });
+
+  it('replaces an earlier review of the same email', () => {
+    queueReview();
+    const review = queueReview();
+
+    assert.deepEqual(listOrganizationReviews(), [review]);
+  });
+
+  it('associates the contact with the chosen company before removing the review', async () => {
+    const review = queueReview();
+
+    const { company } = await resolveOrganizationReview(review.id, companyId);
+
+    assert.equal(company.id, companyId);
+    assert.ok(hubspot.store().associations.some(association => association.fromId === contactId && association.toId === companyId));
+    assert.deepEqual(listOrganizationReviews(), []);
+    assert.deepEqual(JSON.parse(readFileSync(process.env[ORGANIZATION_REVIEWS_FILE_ENV]!, 'utf8')), []);
+  });
+
+  it('keeps the review when the company does not exist', async () => {
+    const review = queueReview();
+
+    await assert.rejects(resolveOrganizationReview(review.id, '999999'), { code: ErrorCodes.VALIDATION_ERROR, statusCode: 400 });
+    assert.deepEqual(listOrganizationReviews(), [review]);
+  });
+
+  it('keeps the review when the association fails', async () => {
+    const review = queueReview();
+    await hubspot.addFault({ status: 503, path: '/associations/' });
+
+    await assert.rejects(resolveOrganizationReview(review.id, companyId), { code: ErrorCodes.HUBSPOT_API_ERROR });
+    assert.deepEqual(listOrganizationReviews(), [review]);
+  });
+
+  it('dismisses a review without associating the contact', () => {
+    const review = queueReview();
+
+    dismissOrganizationReview(review.id);
+
+    assert.deepEqual(listOrganizationReviews(), []);
+    assert.equal(hubspot.store().associations.length, 0);
+    assert.throws(() => dismissOrganizationReview(review.id), { statusCode: 404 });
+  });
+});
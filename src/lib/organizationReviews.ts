@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import { readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { CustomError, ErrorCodes, handleHubSpotError, logError } from '@/lib/errorHandler';
+import { getHubSpotGateway, type Company } from '@/lib/hubspot';
+import { OUTBOX_FILE_ENV } from '@/lib/outbox';
+
+// A contact provisioned from Okta whose organization did not match a HubSpot company
+export interface OrganizationReview {
+  id: string;
+  contactId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  organizationName?: string; // Missing when the Okta profile has no organization
+  oktaUserId: string;
+  createdAt: string;
+}
+
+// Reviews are kept in ORGANIZATION_REVIEWS_FILE, or organization-reviews.json beside OUTBOX_FILE when only that is set
+export const ORGANIZATION_REVIEWS_FILE_ENV = 'ORGANIZATION_REVIEWS_FILE';
+
+interface ReviewState {
+  path: string;
+  reviews: Map<string, OrganizationReview>; // In the order they were queued
+  resolving: Set<string>; // Reviews whose contact is being associated right now
+}
+
+// Kept on globalThis so every route shares it even when bundled separately
+const globalForReviews = globalThis as typeof globalThis & {
+  organizationReviews?: ReviewState;
+  organizationReviewsFileWarningLogged?: boolean;
+};
+
+function getReviewsPath(): string {
+  const path = process.env[ORGANIZATION_REVIEWS_FILE_ENV]?.trim();
+  if (path) return path;
+
+  const outboxPath = process.env[OUTBOX_FILE_ENV]?.trim();
+  return outboxPath ? join(dirname(outboxPath), 'organization-reviews.json') : '';
+}
+
+// Reviews are read from the file once per process and written back after every change
+// (with no file configured they are only kept in memory, and lost on restart)
+function getState(): ReviewState {
+  const path = getReviewsPath();
+  if (globalForReviews.organizationReviews?.path === path) return globalForReviews.organizationReviews;
+
+  let stored: OrganizationReview[] = [];
+  try {
+    if (path) stored = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError(error as Error, { operation: 'loadOrganizationReviews', path });
+    }
+  }
+
+  const state: ReviewState = {
+    path,
+    reviews: new Map(stored.map(review => [review.id, review])),
+    resolving: new Set(),
+  };
+  globalForReviews.organizationReviews = state;
+  return state;
+}
+
+function persist(state: ReviewState): void {
+  if (!state.path) {
+    if (!globalForReviews.organizationReviewsFileWarningLogged) {
+      globalForReviews.organizationReviewsFileWarningLogged = true;
+      console.warn(`Neither ${ORGANIZATION_REVIEWS_FILE_ENV} nor ${OUTBOX_FILE_ENV} is set; organization reviews are lost on restart`);
+    }
+    return;
+  }
+
+  // Written to a temporary file first so a crash never leaves a half-written file behind
+  const tempPath = `${state.path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify([...state.reviews.values()], null, 2));
+  renameSync(tempPath, state.path);
+}
+
+// Queue a contact for manual company assignment; a newer event for the same email replaces the older entry
+export function queueOrganizationReview(review: Omit<OrganizationReview, 'id' | 'createdAt'>): OrganizationReview {
+  const state = getState();
+  for (const [id, existing] of state.reviews) {
+    if (existing.email === review.email && !state.resolving.has(id)) state.reviews.delete(id);
+  }
+
+  const entry: OrganizationReview = { ...review, id: randomUUID(), createdAt: new Date().toISOString() };
+  state.reviews.set(entry.id, entry);
+  persist(state);
+  return entry;
+}
+
+// Pending reviews, oldest first
+export function listOrganizationReviews(): OrganizationReview[] {
+  return [...getState().reviews.values()];
+}
+
+function requireIdleReview(state: ReviewState, id: string): OrganizationReview {
+  const review = state.reviews.get(id);
+  if (!review) {
+    throw new CustomError('Organization review not found', ErrorCodes.INVALID_REQUEST, 404, { reviewId: id });
+  }
+  if (state.resolving.has(id)) {
+    throw new CustomError(
+      'This contact is being associated with a company right now. Please wait for it to finish.',
+      ErrorCodes.REQUEST_IN_PROGRESS,
+      409,
+      { reviewId: id }
+    );
+  }
+  return review;
+}
+
+/**
+ * Associate the review's contact with the chosen company, then remove the review.
+ * The review is kept when the company does not exist or the association fails, and the error is thrown.
+ */
+export async function resolveOrganizationReview(
+  id: string,
+  companyId: string
+): Promise<{ review: OrganizationReview; company: Company }> {
+  const state = getState();
+  const review = requireIdleReview(state, id);
+  state.resolving.add(id);
+
+  try {
+    const gateway = getHubSpotGateway();
+    const company = await gateway.getCompany(companyId);
+    if (!company) {
+      throw new CustomError(`No company with ID ${companyId} exists`, ErrorCodes.VALIDATION_ERROR, 400, { companyId });
+    }
+
+    await gateway.associateContactToCompany(review.contactId, company.id);
+    state.reviews.delete(id);
+    persist(state);
+    return { review, company };
+  } catch (error) {
+    throw handleHubSpotError(error);
+  } finally {
+    state.resolving.delete(id);
+  }
+}
+
+// Remove a review without assigning a company (e.g. the contact was associated or deleted in HubSpot)
+export function dismissOrganizationReview(id: string): OrganizationReview {
+  const state = getState();
+  const review = requireIdleReview(state, id);
+  state.reviews.delete(id);
+  persist(state);
+  return review;
+}
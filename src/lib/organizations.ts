@@ -0,0 +1,173 @@
+import { calculateStringSimilarity, normalizeCompanyName } from '@/lib/utils';
+import { CustomError, ErrorCodes, handleHubSpotError } from '@/lib/errorHandler';
+import { getHubSpotGateway, type Company } from '@/lib/hubspot';
+
+export type OrganizationMatchStatus = 'matched' | 'selected' | 'ambiguous' | 'unmatched';
+
+// How an organization name from an upload maps onto a HubSpot company
+export interface OrganizationResolution {
+  name: string; // As written in the upload
+  status: OrganizationMatchStatus;
+  company?: { id: string; name: string; similarity?: number }; // Set when matched or selected
+  candidates: Array<{ id: string; name: string; similarity: number }>; // Ranked matches to pick from
+}
+
+// A candidate at or above this score is used without asking, unless another one scores as high
+const AUTO_MATCH_SIMILARITY = 0.9;
+
+// Function to search for companies in HubSpot using basic API
+async function searchCompanies(searchTerm: string): Promise<Company[]> {
+  try {
+    // List companies and filter manually
+    const companies = await getHubSpotGateway().listCompanies(100);
+
+    // Filter companies that contain the search term
+    const filteredCompanies = companies
+      .filter(company => company.properties.name.toLowerCase().includes(searchTerm.toLowerCase()))
+      .slice(0, 10); // Limit to 10 results
+
+    return filteredCompanies;
+  } catch (error) {
+    console.error('Error searching companies:', error);
+    return [];
+  }
+}
+
+// Function to find the best matching company using improved matching algorithm
+function findBestMatch(companies: Company[], searchTerm: string): Company | null {
+  if (companies.length === 0) return null;
+
+  const normalizedSearch = normalizeCompanyName(searchTerm);
+  let bestMatch = companies[0];
+  let bestScore = 0;
+
+  for (const company of companies) {
+    const normalizedCompanyName = normalizeCompanyName(company.properties.name);
+
+    // Calculate similarity score
+    const similarity = calculateStringSimilarity(normalizedSearch, normalizedCompanyName);
+
+    // Boost score for exact matches or if company name starts with search term
+    let score = similarity;
+    if (normalizedCompanyName === normalizedSearch) {
+      score = 1.0; // Perfect match
+    } else if (normalizedCompanyName.startsWith(normalizedSearch)) {
+      score = Math.max(score, 0.9); // High score for prefix matches
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMatch = company;
+    }
+  }
+
+  // Only return a match if similarity is above threshold (60%)
+  return bestScore >= 0.6 ? bestMatch : null;
+}
+
+// Function to rank companies by similarity
+export function rankCompaniesBySimilarity(companies: Company[], searchTerm: string): Company[] {
+  const normalizedSearch = normalizeCompanyName(searchTerm);
+  
+  const rankedCompanies = companies.map(company => {
+    const normalizedCompanyName = normalizeCompanyName(company.properties.name);
+    const similarity = calculateStringSimilarity(normalizedSearch, normalizedCompanyName);
+    
+    // Boost score for exact matches or prefix matches
+    let score = similarity;
+    if (normalizedCompanyName === normalizedSearch) {
+      score = 1.0;
+    } else if (normalizedCompanyName.startsWith(normalizedSearch)) {
+      score = Math.max(score, 0.9);
+    }
+    
+    return {
+      ...company,
+      similarity: score,
+    };
+  });
+  
+  // Sort by similarity score (highest first) and filter out low scores
+  return rankedCompanies
+    .filter(company => company.similarity! >= 0.6) // Show matches with at least 60% similarity
+    .sort((a, b) => b.similarity! - a.similarity!)
+    .slice(0, 5); // Show top 5 matches
+}
+
+// Find the HubSpot company an organization name refers to (null when nothing matches closely enough)
+export async function findMatchingCompany(organizationName: string): Promise<Company | null> {
+  const companies = await searchCompanies(organizationName);
+  return findBestMatch(companies, organizationName);
+}
+
+// Active companies matching an organization name, best match first (the ranking used by /api/search-organizations)
+export async function findRankedCompanyMatches(organizationName: string): Promise<Company[]> {
+  const companies = await getHubSpotGateway().searchCompanies(organizationName, { activeOnly: true, limit: 100 });
+  return rankCompaniesBySimilarity(companies, organizationName);
+}
+
+/**
+ * Resolve each organization name of an upload to a HubSpot company.
+ * A name is matched automatically when exactly one company has the same name, or exactly one scores
+ * at least AUTO_MATCH_SIMILARITY; otherwise it is ambiguous (several candidates) or unmatched (none)
+ * until `selections` (company ID by organization name) picks a company for it.
+ */
+export async function resolveOrganizationNames(
+  names: string[],
+  selections: Record<string, string> = {}
+): Promise<OrganizationResolution[]> {
+  const resolutions: OrganizationResolution[] = [];
+
+  for (const name of names) {
+    let ranked: Company[];
+    try {
+      ranked = await findRankedCompanyMatches(name);
+    } catch (error) {
+      throw handleHubSpotError(error);
+    }
+    const candidates = ranked.map(company => ({
+      id: company.id,
+      name: company.properties.name,
+      similarity: company.similarity ?? 0,
+    }));
+
+    const selectedId = selections[name];
+    if (selectedId) {
+      // The pick may come from a manual search rather than the ranked candidates
+      let company: OrganizationResolution['company'] = candidates.find(match => match.id === selectedId);
+      if (!company) {
+        let found: Company | null;
+        try {
+          found = await getHubSpotGateway().getCompany(selectedId);
+        } catch (error) {
+          throw handleHubSpotError(error);
+        }
+        if (!found) {
+          throw new CustomError(
+            `Company ${selectedId} selected for organization "${name}" was not found`,
+            ErrorCodes.COMPANY_NOT_FOUND,
+            400,
+            { organizationName: name, companyId: selectedId }
+          );
+        }
+        company = { id: found.id, name: found.properties.name };
+      }
+
+      resolutions.push({ name, status: 'selected', company, candidates });
+      continue;
+    }
+
+    const exact = candidates.filter(match => match.similarity === 1);
+    const strong = candidates.filter(match => match.similarity >= AUTO_MATCH_SIMILARITY);
+    const match = exact.length === 1 ? exact[0] : exact.length === 0 && strong.length === 1 ? strong[0] : undefined;
+
+    resolutions.push({
+      name,
+      status: match ? 'matched' : candidates.length > 0 ? 'ambiguous' : 'unmatched',
+      company: match,
+      candidates,
+    });
+  }
+
+  return resolutions;
+}
@@ -0,0 +1,113 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startFakeHubSpot, type FakeHubSpot } from '../../scripts/fake-hubspot/testing';
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { createHubSpotClientGateway, getHubSpotGateway, setHubSpotGateway, upsertContactWithCompany } from '@/lib/hubspot';
+import { insertObject } from '../../scripts/fake-hubspot/store';
+import {
+  OUTBOX_ENABLED_ENV,
+  OUTBOX_FILE_ENV,
+  isOutboxEnabled,
+  listOutboxEntries,
+  queueOutboxEntry,
+  replayOutboxEntry,
+  type OutboxInput,
+} from './outbox';
+
+const SEED = { companies: [{ name: 'Acme Corporation', domain: 'acme.com' }] };
+const outage = new CustomError('HubSpot API is temporarily unavailable.', ErrorCodes.HUBSPOT_API_ERROR, 503);
+
+const queuedInput = (email: string, companyId: string): OutboxInput => ({
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  email,
+  organizationName: 'Acme Corporation',
+  companyId,
+  companyName: 'Acme Corporation',
+  conflictPolicy: 'fail',
+  properties: {},
+});
+
+describe('outbox', () => {
+  let hubspot: FakeHubSpot;
+  let directory: string;
+  let companyId: string;
+
+  before(async () => {
+    process.env.HUBSPOT_MAX_RETRIES = '0';
+    hubspot = await startFakeHubSpot(SEED);
+    setHubSpotGateway(createHubSpotClientGateway('test-token', hubspot.baseUrl));
+    directory = mkdtempSync(join(tmpdir(), 'outbox-test-'));
+  });
+
+  beforeEach(async () => {
+    await fetch(`${hubspot.baseUrl}/__fake/reset`, { method: 'POST', body: JSON.stringify(SEED) });
+    companyId = [...hubspot.store().companies.keys()][0];
+    process.env[OUTBOX_FILE_ENV] = join(directory, `${Date.now()}-${Math.random()}.json`);
+  });
+
+  after(async () => {
+    setHubSpotGateway(null);
+    await hubspot.close();
+    rmSync(directory, { recursive: true, force: true });
+    delete process.env[OUTBOX_FILE_ENV];
+    delete process.env[OUTBOX_ENABLED_ENV];
+    delete process.env.HUBSPOT_MAX_RETRIES;
+  });
+
+  it('is only enabled with a file to keep the entries in', () => {
+    process.env[OUTBOX_ENABLED_ENV] = 'true';
+    assert.equal(isOutboxEnabled(), true);
+
+    delete process.env[OUTBOX_FILE_ENV];
+    assert.equal(isOutboxEnabled(), false);
+    assert.throws(() => queueOutboxEntry(queuedInput('ada@acme.com', companyId), outage), CustomError);
+    delete process.env[OUTBOX_ENABLED_ENV];
+  });
+
+  it('keeps queued entries in the configured file', () => {
+    const entry = queueOutboxEntry(queuedInput('ada@acme.com', companyId), outage);
+
+    const stored = JSON.parse(readFileSync(process.env[OUTBOX_FILE_ENV]!, 'utf8'));
+    assert.deepEqual(stored.map((candidate: { id: string }) => candidate.id), [entry.id]);
+  });
+
+  it('creates the contact on replay and removes the entry', async () => {
+    const entry = queueOutboxEntry(queuedInput('ada@acme.com', companyId), outage);
+
+    const { contact } = await replayOutboxEntry(entry.id);
+
+    assert.equal(contact.outcome, 'created');
+    assert.equal(hubspot.store().contacts.get(contact.contactId)?.properties.email, 'ada@acme.com');
+    assert.deepEqual(listOutboxEntries(), []);
+  });
+
+  it('completes the contact the failed attempt created instead of creating another', async () => {
+    const input = queuedInput('ada@acme.com', companyId);
+    // Setting the email on the contact created next fails
+    await hubspot.addFault({ status: 503, path: `/crm/v3/objects/contacts/${hubspot.store().nextId}` });
+    const error = await upsertContactWithCompany(getHubSpotGateway(), input, input.conflictPolicy).catch(error => error);
+    const entry = queueOutboxEntry(input, error);
+    assert.ok(entry.contactId);
+
+    const { contact } = await replayOutboxEntry(entry.id);
+
+    assert.equal(contact.contactId, entry.contactId);
+    assert.equal(contact.outcome, 'created');
+    assert.equal(contact.associated, true);
+    assert.equal(hubspot.store().contacts.get(entry.contactId)?.properties.email, 'ada@acme.com');
+    assert.equal(hubspot.store().contacts.size, 1);
+  });
+
+  it('applies the conflict policy to a contact it did not create', async () => {
+    insertObject(hubspot.store(), hubspot.store().contacts, { firstname: 'Ada', lastname: 'Lovelace', email: 'ada@acme.com' });
+    const entry = queueOutboxEntry(queuedInput('ada@acme.com', companyId), outage);
+
+    await assert.rejects(replayOutboxEntry(entry.id), (error: CustomError) => error.code === ErrorCodes.USER_ALREADY_EXISTS);
+    assert.equal(listOutboxEntries()[0].status, 'failed');
+    assert.equal(hubspot.store().contacts.size, 1);
+  });
+});
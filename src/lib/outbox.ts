@@ -0,0 +1,267 @@
+import { randomUUID } from 'crypto';
+import { readFileSync, renameSync, writeFileSync } from 'fs';
+import { CustomError, ErrorCodes, handleHubSpotError, isRetryableError, logError } from '@/lib/errorHandler';
+import {
+  completeContactWithCompany,
+  getHubSpotGateway,
+  getIncompleteContactId,
+  upsertContactWithCompany,
+  validateContactProperties,
+  type ConflictPolicy,
+  type ContactProperties,
+  type UpsertedContact,
+} from '@/lib/hubspot';
+import { findMatchingCompany } from '@/lib/organizations';
+
+// A user creation that could not reach HubSpot, kept until it is replayed or discarded
+export interface OutboxEntry {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  organizationName: string;
+  companyId?: string; // Resolved when the request was made; matched again on replay when missing
+  companyName?: string;
+  conflictPolicy: ConflictPolicy;
+  properties: ContactProperties; // Overrides of the property template, checked again on replay
+  status: 'pending' | 'failed'; // failed: HubSpot rejected the data, so it needs editing (or discarding)
+  contactId?: string; // Contact an earlier attempt created before setting its email failed; replays complete it
+  attempts: number;
+  lastError?: { message: string; code: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OutboxInput = Pick<
+  OutboxEntry,
+  'firstName' | 'lastName' | 'email' | 'organizationName' | 'companyId' | 'companyName' | 'conflictPolicy' | 'properties'
+>;
+
+// Opt in with OUTBOX_ENABLED=true; entries are kept in OUTBOX_FILE, which must be set to a path on persistent storage
+export const OUTBOX_ENABLED_ENV = 'OUTBOX_ENABLED';
+export const OUTBOX_FILE_ENV = 'OUTBOX_FILE';
+export const OUTBOX_INTERVAL_MS_ENV = 'OUTBOX_INTERVAL_MS';
+
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+
+interface OutboxState {
+  path: string;
+  entries: Map<string, OutboxEntry>; // In the order they were queued
+  processing: Set<string>; // Entries being replayed right now
+  workerStarted: boolean;
+}
+
+// Kept on globalThis so every route and the worker share the same entries
+const globalForOutbox = globalThis as typeof globalThis & { outbox?: OutboxState; outboxFileWarningLogged?: boolean };
+
+function getOutboxPath(): string {
+  return process.env[OUTBOX_FILE_ENV]?.trim() || '';
+}
+
+/**
+ * Whether creations are queued while HubSpot is unavailable. Needs OUTBOX_FILE as well as OUTBOX_ENABLED:
+ * a file in a per-instance temp directory would be lost with the instance (e.g. on serverless hosts),
+ * silently dropping the queued users, so without one creations fail instead of being queued.
+ */
+export function isOutboxEnabled(): boolean {
+  if (process.env[OUTBOX_ENABLED_ENV]?.trim().toLowerCase() !== 'true') return false;
+  if (getOutboxPath()) return true;
+
+  if (!globalForOutbox.outboxFileWarningLogged) {
+    globalForOutbox.outboxFileWarningLogged = true;
+    console.warn(`${OUTBOX_ENABLED_ENV} is set but ${OUTBOX_FILE_ENV} is not; creations will not be queued`);
+  }
+  return false;
+}
+
+// Entries are read from the file once per process and written back after every change
+// (with no file configured there are no entries, and nothing can be queued)
+function getState(): OutboxState {
+  const path = getOutboxPath();
+  if (globalForOutbox.outbox?.path === path) return globalForOutbox.outbox;
+
+  let stored: OutboxEntry[] = [];
+  try {
+    if (path) stored = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError(error as Error, { operation: 'loadOutbox', path });
+    }
+  }
+
+  const state: OutboxState = {
+    path,
+    entries: new Map(stored.map(entry => [entry.id, entry])),
+    processing: new Set(),
+    workerStarted: globalForOutbox.outbox?.workerStarted ?? false,
+  };
+  globalForOutbox.outbox = state;
+  return state;
+}
+
+function persist(state: OutboxState): void {
+  // Written to a temporary file first so a crash never leaves a half-written file behind
+  const tempPath = `${state.path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify([...state.entries.values()], null, 2));
+  renameSync(tempPath, state.path);
+}
+
+// Queue a creation for replay; a newer request for the same email replaces a queued one
+// (taking over the contact the queued one had already created, if any)
+export function queueOutboxEntry(input: OutboxInput, error: CustomError): OutboxEntry {
+  const state = getState();
+  if (!state.path) {
+    throw new CustomError(
+      `Creations cannot be queued until ${OUTBOX_FILE_ENV} is set to a path on persistent storage`,
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    );
+  }
+  let contactId = getIncompleteContactId(error);
+  for (const [id, existing] of state.entries) {
+    if (existing.email === input.email && !state.processing.has(id)) {
+      contactId ??= existing.contactId;
+      state.entries.delete(id);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    ...input,
+    ...(contactId && { contactId }),
+    id: randomUUID(),
+    status: 'pending',
+    attempts: 0,
+    lastError: { message: error.message, code: error.code },
+    createdAt: now,
+    updatedAt: now,
+  };
+  state.entries.set(entry.id, entry);
+  persist(state);
+  startOutboxWorker();
+  return entry;
+}
+
+// Queued creations, oldest first
+export function listOutboxEntries(): OutboxEntry[] {
+  return [...getState().entries.values()];
+}
+
+export function getOutboxEntry(id: string): OutboxEntry | undefined {
+  return getState().entries.get(id);
+}
+
+function requireIdleEntry(state: OutboxState, id: string): OutboxEntry {
+  const entry = state.entries.get(id);
+  if (!entry) {
+    throw new CustomError('Queued creation not found', ErrorCodes.INVALID_REQUEST, 404, { entryId: id });
+  }
+  if (state.processing.has(id)) {
+    throw new CustomError(
+      'This creation is being sent to HubSpot right now. Please wait for it to finish.',
+      ErrorCodes.REQUEST_IN_PROGRESS,
+      409,
+      { entryId: id }
+    );
+  }
+  return entry;
+}
+
+// Change a queued creation (already validated by the caller); it is replayed again with the next batch
+export function updateOutboxEntry(id: string, changes: Partial<OutboxInput>): OutboxEntry {
+  const state = getState();
+  const entry = requireIdleEntry(state, id);
+
+  Object.assign(entry, changes, { status: 'pending', updatedAt: new Date().toISOString() });
+  persist(state);
+  return entry;
+}
+
+// Drop a queued creation without sending it
+export function discardOutboxEntry(id: string): void {
+  const state = getState();
+  requireIdleEntry(state, id);
+  state.entries.delete(id);
+  persist(state);
+}
+
+/**
+ * Send a queued creation to HubSpot. A contact an earlier attempt created before failing is completed
+ * instead of created again; otherwise the creation runs with the entry's conflict policy. On success the entry
+ * is removed; otherwise the error is recorded, and the entry is marked failed when HubSpot rejected the data
+ * (it is kept pending when HubSpot was unavailable). The error is thrown either way.
+ */
+export async function replayOutboxEntry(id: string): Promise<{ entry: OutboxEntry; contact: UpsertedContact }> {
+  const state = getState();
+  const entry = requireIdleEntry(state, id);
+  state.processing.add(id);
+
+  try {
+    const gateway = getHubSpotGateway();
+    const properties = await validateContactProperties(gateway, entry.properties);
+
+    let { companyId, companyName } = entry;
+    if (!companyId && entry.organizationName) {
+      const match = await findMatchingCompany(entry.organizationName);
+      companyId = match?.id;
+      companyName = match?.properties.name;
+    }
+
+    const input = { firstName: entry.firstName, lastName: entry.lastName, email: entry.email, companyId, companyName, properties };
+    // The earlier contact may have been deleted in HubSpot since; it is then created again
+    const earlierContact = entry.contactId ? await gateway.getContact(entry.contactId) : null;
+    const contact = earlierContact
+      ? await completeContactWithCompany(gateway, earlierContact.id, input)
+      : await upsertContactWithCompany(gateway, input, entry.conflictPolicy);
+
+    state.entries.delete(id);
+    persist(state);
+    console.log(`Replayed queued user ${contact.outcome}: ${entry.email}`);
+    return { entry: { ...entry, companyId, companyName }, contact };
+  } catch (replayError) {
+    const error = handleHubSpotError(replayError);
+    // The entry may have been replaced by a newer request for the same email meanwhile
+    if (state.entries.has(id)) {
+      entry.attempts++;
+      entry.contactId = getIncompleteContactId(error) ?? entry.contactId;
+      entry.lastError = { message: error.message, code: error.code };
+      entry.status = isRetryableError(error) ? 'pending' : 'failed';
+      entry.updatedAt = new Date().toISOString();
+      persist(state);
+    }
+    throw error;
+  } finally {
+    state.processing.delete(id);
+  }
+}
+
+// Replay pending entries in the order they were queued, stopping at the first that still cannot reach HubSpot
+export async function processOutbox(): Promise<void> {
+  for (const entry of listOutboxEntries()) {
+    if (entry.status !== 'pending' || getState().processing.has(entry.id)) continue;
+
+    try {
+      await replayOutboxEntry(entry.id);
+    } catch (error) {
+      if (error instanceof CustomError && isRetryableError(error)) return;
+    }
+  }
+}
+
+/**
+ * Start the background worker that replays the outbox every OUTBOX_INTERVAL_MS (default 30s).
+ * Runs once per process; started on boot (see instrumentation.ts) and when an entry is queued.
+ */
+export function startOutboxWorker(): void {
+  const state = getState();
+  if (!isOutboxEnabled() || state.workerStarted) return;
+  state.workerStarted = true;
+
+  const interval = Number(process.env[OUTBOX_INTERVAL_MS_ENV]) || DEFAULT_INTERVAL_MS;
+  const run = () => {
+    processOutbox()
+      .catch(error => logError(error, { operation: 'processOutbox' }))
+      .finally(() => setTimeout(run, interval).unref());
+  };
+  setTimeout(run, interval).unref();
+}
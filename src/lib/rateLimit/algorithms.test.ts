@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { consumeEntry } from './algorithms';
+import { createMemoryRateLimitStore } from './memoryStore';
+import type { RateLimitEntry, RateLimitResult, RateLimitRule } from './types';
+
+// Count requests at the given times against one key, returning each decision
+function consumeAt(rule: RateLimitRule, times: number[]): RateLimitResult[] {
+  let entry: RateLimitEntry | undefined;
+  return times.map(now => {
+    const consumed = consumeEntry(entry, rule, now);
+    entry = consumed.entry;
+    return consumed.result;
+  });
+}
+
+describe('sliding window', () => {
+  const rule: RateLimitRule = { requests: 2, windowMs: 1000, algorithm: 'sliding-window' };
+
+  it('allows the limit in any window and says when the next request and the full limit are available', () => {
+    assert.deepEqual(consumeAt(rule, [0, 100, 200, 1000]), [
+      { allowed: true, limit: 2, remaining: 1, resetMs: 1000, retryAfterMs: 0 },
+      { allowed: true, limit: 2, remaining: 0, resetMs: 1000, retryAfterMs: 0 },
+      { allowed: false, limit: 2, remaining: 0, resetMs: 900, retryAfterMs: 800 },
+      { allowed: true, limit: 2, remaining: 0, resetMs: 1000, retryAfterMs: 0 }, // The request at 0 left the window
+    ]);
+  });
+
+  it('does not count rejected requests', () => {
+    const results = consumeAt(rule, [0, 0, 0, 0, 1000]);
+
+    assert.deepEqual(results.map(result => result.allowed), [true, true, false, false, true]);
+  });
+});
+
+describe('token bucket', () => {
+  // One token every 1024ms, so the arithmetic is exact
+  const rule: RateLimitRule = { requests: 2, windowMs: 2048, algorithm: 'token-bucket' };
+
+  it('allows a burst of the limit and refills evenly', () => {
+    assert.deepEqual(consumeAt(rule, [0, 0, 0, 512, 1024]), [
+      { allowed: true, limit: 2, remaining: 1, resetMs: 1024, retryAfterMs: 0 },
+      { allowed: true, limit: 2, remaining: 0, resetMs: 2048, retryAfterMs: 0 },
+      { allowed: false, limit: 2, remaining: 0, resetMs: 2048, retryAfterMs: 1024 },
+      { allowed: false, limit: 2, remaining: 0, resetMs: 1536, retryAfterMs: 512 },
+      { allowed: true, limit: 2, remaining: 0, resetMs: 2048, retryAfterMs: 0 },
+    ]);
+  });
+
+  it('never holds more than the limit', () => {
+    const [, afterIdle] = consumeAt(rule, [0, 60000]);
+
+    assert.equal(afterIdle.remaining, 1);
+  });
+});
+
+describe('consumeEntry', () => {
+  it('starts over when the entry expired or was kept under another algorithm', () => {
+    const sliding: RateLimitRule = { requests: 1, windowMs: 1000, algorithm: 'sliding-window' };
+    const { entry } = consumeEntry(undefined, sliding, 0);
+
+    assert.equal(consumeEntry(entry, sliding, 500).result.allowed, false);
+    assert.equal(consumeEntry(entry, sliding, entry.expiresAt).result.allowed, true);
+    assert.equal(consumeEntry(entry, { ...sliding, algorithm: 'token-bucket' }, 500).result.allowed, true);
+  });
+});
+
+describe('memory store', () => {
+  it('keeps a separate budget per key', async () => {
+    const store = createMemoryRateLimitStore();
+    const rule: RateLimitRule = { requests: 1, windowMs: 1000, algorithm: 'sliding-window' };
+
+    assert.equal((await store.consume('memory-test-a', rule, 0)).allowed, true);
+    assert.equal((await store.consume('memory-test-a', rule, 1)).allowed, false);
+    assert.equal((await store.consume('memory-test-b', rule, 1)).allowed, true);
+  });
+});
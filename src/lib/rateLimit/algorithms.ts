@@ -0,0 +1,64 @@
+import type { RateLimitEntry, RateLimitResult, RateLimitRule } from './types';
+
+function consumeSlidingWindow(previous: number[], rule: RateLimitRule, now: number): { entry: RateLimitEntry; result: RateLimitResult } {
+  const timestamps = previous.filter(timestamp => timestamp > now - rule.windowMs);
+  const allowed = timestamps.length < rule.requests;
+  if (allowed) timestamps.push(now);
+
+  // The oldest request leaving the window frees the next slot; the newest leaving it frees them all
+  const oldest = timestamps[0] ?? now;
+  const newest = timestamps[timestamps.length - 1] ?? now;
+  return {
+    entry: { state: { algorithm: 'sliding-window', timestamps }, expiresAt: newest + rule.windowMs },
+    result: {
+      allowed,
+      limit: rule.requests,
+      remaining: Math.max(0, rule.requests - timestamps.length),
+      resetMs: timestamps.length > 0 ? newest + rule.windowMs - now : 0,
+      retryAfterMs: allowed ? 0 : oldest + rule.windowMs - now,
+    },
+  };
+}
+
+function consumeTokenBucket(
+  previous: { tokens: number; updatedAt: number } | undefined,
+  rule: RateLimitRule,
+  now: number
+): { entry: RateLimitEntry; result: RateLimitResult } {
+  const refillPerMs = rule.requests / rule.windowMs;
+  let tokens = previous
+    ? Math.min(rule.requests, previous.tokens + Math.max(0, now - previous.updatedAt) * refillPerMs)
+    : rule.requests;
+
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+
+  const resetMs = Math.ceil((rule.requests - tokens) / refillPerMs);
+  return {
+    entry: { state: { algorithm: 'token-bucket', tokens, updatedAt: now }, expiresAt: now + resetMs },
+    result: {
+      allowed,
+      limit: rule.requests,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * Count one request against a key's stored entry. Returns the decision and the entry to store.
+ * An expired entry, or one kept under another algorithm (the configuration changed), starts over.
+ */
+export function consumeEntry(
+  entry: RateLimitEntry | undefined,
+  rule: RateLimitRule,
+  now: number
+): { entry: RateLimitEntry; result: RateLimitResult } {
+  const state = entry && entry.expiresAt > now && entry.state.algorithm === rule.algorithm ? entry.state : undefined;
+
+  if (rule.algorithm === 'token-bucket') {
+    return consumeTokenBucket(state?.algorithm === 'token-bucket' ? state : undefined, rule, now);
+  }
+  return consumeSlidingWindow(state?.algorithm === 'sliding-window' ? state.timestamps : [], rule, now);
+}
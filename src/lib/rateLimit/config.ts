@@ -0,0 +1,123 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { createFileRateLimitStore } from './fileStore';
+import { createMemoryRateLimitStore } from './memoryStore';
+import { createRedisRateLimitStore } from './redisStore';
+import type { RateLimitAlgorithm, RateLimitRule, RateLimitStore } from './types';
+
+// Limits used when the configuration does not override them; each action has its own budget
+export const DEFAULT_RATE_LIMITS = {
+  CREATE_USER: { requests: 5, windowMs: 60000, algorithm: 'sliding-window' }, // 5 requests per minute
+  BULK_UPLOAD: { requests: 2, windowMs: 300000, algorithm: 'sliding-window' }, // 2 requests per 5 minutes
+  SEARCH_ORG: { requests: 10, windowMs: 60000, algorithm: 'sliding-window' }, // 10 requests per minute
+  PREVIEW: { requests: 10, windowMs: 60000, algorithm: 'sliding-window' }, // 10 dry runs per minute
+  DEACTIVATE_USER: { requests: 5, windowMs: 60000, algorithm: 'sliding-window' }, // 5 requests per minute
+  SCIM: { requests: 100, windowMs: 60000, algorithm: 'sliding-window' }, // 100 requests per minute (Okta provisioning)
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitAction = keyof typeof DEFAULT_RATE_LIMITS;
+
+export const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['sliding-window', 'token-bucket'];
+
+// Environment variable holding per-action overrides as JSON, e.g.
+// {"CREATE_USER": {"requests": 20}, "SCIM": {"requests": 600, "algorithm": "token-bucket"}}
+export const RATE_LIMITS_ENV = 'RATE_LIMITS';
+// Where counters are kept: memory (default), file or redis
+export const RATE_LIMIT_STORE_ENV = 'RATE_LIMIT_STORE';
+export const RATE_LIMIT_FILE_ENV = 'RATE_LIMIT_FILE';
+export const RATE_LIMIT_REDIS_URL_ENV = 'RATE_LIMIT_REDIS_URL';
+
+const DEFAULT_RATE_LIMIT_FILE = join(tmpdir(), 'hubspot-user-creator-rate-limits.json');
+
+// The configured limits and store are shared by every route even when bundled separately
+const globalForRateLimit = globalThis as typeof globalThis & {
+  rateLimitRules?: { source: string | undefined; rules: Record<RateLimitAction, RateLimitRule> };
+  rateLimitStore?: { source: string; store: RateLimitStore };
+};
+
+function configError(message: string): CustomError {
+  return new CustomError(`Rate limit configuration is invalid: ${message}`, ErrorCodes.INTERNAL_SERVER_ERROR, 500);
+}
+
+function parseRule(action: string, defaults: RateLimitRule, raw: unknown): RateLimitRule {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw configError(`"${action}" must be an object with "requests", "windowMs" and/or "algorithm"`);
+  }
+
+  const { requests = defaults.requests, windowMs = defaults.windowMs, algorithm = defaults.algorithm } = raw as Record<string, unknown>;
+  if (!Number.isInteger(requests) || (requests as number) < 1) {
+    throw configError(`"${action}".requests must be a positive whole number`);
+  }
+  if (!Number.isInteger(windowMs) || (windowMs as number) < 1) {
+    throw configError(`"${action}".windowMs must be a positive whole number of milliseconds`);
+  }
+  if (!RATE_LIMIT_ALGORITHMS.includes(algorithm as RateLimitAlgorithm)) {
+    throw configError(`"${action}".algorithm must be one of: ${RATE_LIMIT_ALGORITHMS.join(', ')}`);
+  }
+
+  return { requests: requests as number, windowMs: windowMs as number, algorithm: algorithm as RateLimitAlgorithm };
+}
+
+// Parse per-action overrides from JSON; fields left out keep the default of that action
+export function parseRateLimits(json: string): Record<RateLimitAction, RateLimitRule> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw configError(`${RATE_LIMITS_ENV} is not valid JSON`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw configError(`${RATE_LIMITS_ENV} must be a JSON object keyed by action`);
+  }
+
+  const rules: Record<RateLimitAction, RateLimitRule> = { ...DEFAULT_RATE_LIMITS };
+  for (const [action, value] of Object.entries(raw)) {
+    if (!(action in DEFAULT_RATE_LIMITS)) {
+      throw configError(`unknown action "${action}" (expected one of: ${Object.keys(DEFAULT_RATE_LIMITS).join(', ')})`);
+    }
+    rules[action as RateLimitAction] = parseRule(action, DEFAULT_RATE_LIMITS[action as RateLimitAction], value);
+  }
+  return rules;
+}
+
+// The configured limits (the defaults when the environment variable is not set)
+export function getRateLimitRules(): Record<RateLimitAction, RateLimitRule> {
+  const source = process.env[RATE_LIMITS_ENV]?.trim() || undefined;
+  const cached = globalForRateLimit.rateLimitRules;
+  if (cached && cached.source === source) return cached.rules;
+
+  const rules = source ? parseRateLimits(source) : DEFAULT_RATE_LIMITS;
+  globalForRateLimit.rateLimitRules = { source, rules };
+  return rules;
+}
+
+function createConfiguredStore(kind: string): RateLimitStore {
+  switch (kind) {
+    case 'memory':
+      return createMemoryRateLimitStore();
+    case 'file':
+      return createFileRateLimitStore(process.env[RATE_LIMIT_FILE_ENV]?.trim() || DEFAULT_RATE_LIMIT_FILE);
+    case 'redis': {
+      const url = process.env[RATE_LIMIT_REDIS_URL_ENV]?.trim();
+      if (!url || !/^rediss?:\/\//.test(url)) {
+        throw configError(`${RATE_LIMIT_REDIS_URL_ENV} must be a redis:// or rediss:// URL when ${RATE_LIMIT_STORE_ENV} is redis`);
+      }
+      return createRedisRateLimitStore(url);
+    }
+    default:
+      throw configError(`${RATE_LIMIT_STORE_ENV} must be one of: memory, file, redis`);
+  }
+}
+
+// The configured store, created once per configuration so connections are reused
+export function getRateLimitStore(): RateLimitStore {
+  const kind = process.env[RATE_LIMIT_STORE_ENV]?.trim().toLowerCase() || 'memory';
+  const source = [kind, process.env[RATE_LIMIT_FILE_ENV], process.env[RATE_LIMIT_REDIS_URL_ENV]].join('|');
+  const cached = globalForRateLimit.rateLimitStore;
+  if (cached && cached.source === source) return cached.store;
+
+  const store = createConfiguredStore(kind);
+  globalForRateLimit.rateLimitStore = { source, store };
+  return store;
+}
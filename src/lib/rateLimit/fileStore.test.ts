@@ -0,0 +1,75 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFileRateLimitStore } from './fileStore';
+import type { RateLimitRule } from './types';
+
+const rule: RateLimitRule = { requests: 10, windowMs: 60000, algorithm: 'sliding-window' };
+
+describe('file store', () => {
+  let directory: string;
+  let path: string;
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'rate-limit-test-'));
+  });
+
+  after(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('counts concurrent requests one at a time', async () => {
+    path = join(directory, 'concurrent.json');
+    // Two stores on the same file stand in for two processes
+    const stores = [createFileRateLimitStore(path), createFileRateLimitStore(path)];
+
+    const results = await Promise.all(
+      Array.from({ length: 25 }, (_, index) => stores[index % 2].consume('client:CREATE_USER', rule, 1000 + index))
+    );
+
+    assert.equal(results.filter(result => result.allowed).length, 10);
+    assert.equal(JSON.parse(readFileSync(path, 'utf8'))['client:CREATE_USER'].state.timestamps.length, 10);
+    assert.equal(existsSync(`${path}.lock`), false);
+  });
+
+  it('drops expired counters when writing', async () => {
+    path = join(directory, 'expired.json');
+    const store = createFileRateLimitStore(path);
+
+    await store.consume('old', rule, 0);
+    await store.consume('new', rule, rule.windowMs + 1);
+
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(path, 'utf8'))), ['new']);
+  });
+
+  it('starts over from a corrupt file', async () => {
+    path = join(directory, 'corrupt.json');
+    writeFileSync(path, '{"client:CREATE_USER": ');
+
+    const result = await createFileRateLimitStore(path).consume('client:CREATE_USER', rule, 0);
+
+    assert.equal(result.remaining, 9);
+  });
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    path = join(directory, 'stale.json');
+    writeFileSync(`${path}.lock`, '');
+    const longAgo = new Date(Date.now() - 60 * 1000);
+    utimesSync(`${path}.lock`, longAgo, longAgo);
+
+    const result = await createFileRateLimitStore(path).consume('client:CREATE_USER', rule, 0);
+
+    assert.equal(result.allowed, true);
+    assert.equal(existsSync(`${path}.lock`), false);
+  });
+
+  it('gives up on a lock that is held too long', async () => {
+    path = join(directory, 'held.json');
+    writeFileSync(`${path}.lock`, '');
+
+    await assert.rejects(createFileRateLimitStore(path).consume('client:CREATE_USER', rule, 0), /Timed out waiting/);
+    rmSync(`${path}.lock`);
+  });
+});
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import { consumeEntry } from './algorithms';
+import type { RateLimitEntry, RateLimitStore } from './types';
+
+const LOCK_RETRY_MS = 10;
+const LOCK_TIMEOUT_MS = 2000;
+// A lock older than this was left behind by a crashed process
+const STALE_LOCK_MS = 10 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exclusive lock shared by every process using the file, taken by creating a lock file next to it
+async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await (await fs.open(lockPath, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const lockedAt = await fs.stat(lockPath).then(stats => stats.mtimeMs, () => Date.now());
+      if (Date.now() - lockedAt > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+      } else if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the rate limit file lock ${lockPath}`);
+      } else {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+async function readEntries(path: string): Promise<Record<string, RateLimitEntry>> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf8'));
+  } catch (error) {
+    // A missing file has no counters yet; a corrupt one (e.g. from a full disk) starts over
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) return {};
+    throw error;
+  }
+}
+
+/**
+ * Counters in a JSON file, shared by every process on the machine (or with access to the same volume)
+ * and kept across restarts. Each request locks the file, so this suits a handful of instances.
+ */
+export function createFileRateLimitStore(path: string): RateLimitStore {
+  return {
+    consume(key, rule, now) {
+      return withFileLock(path, async () => {
+        const entries = await readEntries(path);
+        const { entry, result } = consumeEntry(entries[key], rule, now);
+
+        entries[key] = entry;
+        for (const [storedKey, storedEntry] of Object.entries(entries)) {
+          if (storedEntry.expiresAt <= now) delete entries[storedKey];
+        }
+
+        // Written to a temporary file first so a crash never leaves a half-written file behind
+        const tempPath = `${path}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(entries));
+        await fs.rename(tempPath, path);
+        return result;
+      });
+    },
+  };
+}
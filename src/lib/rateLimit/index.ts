@@ -0,0 +1,54 @@
+import type { NextResponse } from 'next/server';
+import { CustomError, logError } from '@/lib/errorHandler';
+import { getRateLimitRules, getRateLimitStore, type RateLimitAction } from './config';
+import { createMemoryRateLimitStore } from './memoryStore';
+import type { RateLimitResult } from './types';
+
+export type { RateLimitAlgorithm, RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+export { DEFAULT_RATE_LIMITS, getRateLimitRules } from './config';
+export type { RateLimitAction } from './config';
+
+// Used while the configured shared store is unreachable, so clients stay limited per instance
+const fallbackStore = createMemoryRateLimitStore();
+
+/**
+ * Count a request by a client against the limit configured for an action.
+ * If the configured store fails (e.g. Redis is down) the request is counted in memory instead
+ * of being rejected; a configuration error is thrown as a 500.
+ */
+export async function checkRateLimit(key: string, action: RateLimitAction): Promise<RateLimitResult> {
+  const rule = getRateLimitRules()[action];
+  const store = getRateLimitStore();
+  const storeKey = `${key}:${action}`; // Each action has its own budget
+  const now = Date.now();
+
+  try {
+    return await store.consume(storeKey, rule, now);
+  } catch (error) {
+    if (error instanceof CustomError) throw error;
+    logError(error as Error, { operation: 'checkRateLimit', action });
+    return fallbackStore.consume(storeKey, rule, now);
+  }
+}
+
+// Whole seconds until the next request is allowed, for Retry-After
+export function getRetryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+}
+
+/**
+ * Add the rate limit headers to a response: RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset
+ * (seconds until the full limit is available), plus Retry-After when the request was rejected.
+ * Nothing is added when the request was not counted (it failed before the rate limit check).
+ */
+export function setRateLimitHeaders<T extends NextResponse>(response: T, result: RateLimitResult | undefined): T {
+  if (!result) return response;
+
+  response.headers.set('RateLimit-Limit', String(result.limit));
+  response.headers.set('RateLimit-Remaining', String(result.remaining));
+  response.headers.set('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+  if (!result.allowed) {
+    response.headers.set('Retry-After', String(getRetryAfterSeconds(result)));
+  }
+  return response;
+}
@@ -0,0 +1,39 @@
+import { consumeEntry } from './algorithms';
+import type { RateLimitEntry, RateLimitStore } from './types';
+
+// Expired counters are swept at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+interface MemoryRateLimitState {
+  entries: Map<string, RateLimitEntry>;
+  prunedAt: number;
+}
+
+// Kept on globalThis so every route shares it even when bundled separately
+const globalForRateLimit = globalThis as typeof globalThis & { memoryRateLimitState?: MemoryRateLimitState };
+
+function getState(): MemoryRateLimitState {
+  return globalForRateLimit.memoryRateLimitState ??= { entries: new Map(), prunedAt: 0 };
+}
+
+function pruneExpiredEntries(state: MemoryRateLimitState, now: number) {
+  if (now - state.prunedAt < PRUNE_INTERVAL_MS) return;
+  state.prunedAt = now;
+  for (const [key, entry] of state.entries) {
+    if (entry.expiresAt <= now) state.entries.delete(key);
+  }
+}
+
+// Counters in this process only: they reset on restart and are not shared between instances
+export function createMemoryRateLimitStore(): RateLimitStore {
+  return {
+    async consume(key, rule, now) {
+      const state = getState();
+      pruneExpiredEntries(state, now);
+
+      const { entry, result } = consumeEntry(state.entries.get(key), rule, now);
+      state.entries.set(key, entry);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { createRedisClient } from '@/lib/redis';
+import type { RateLimitStore } from './types';
+
+// KEYS[1]: sorted set of request timestamps. ARGV: limit, windowMs, now, unique member
+const SLIDING_WINDOW_SCRIPT = `
+local limit, window, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+local oldest = tonumber(redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')[2] or now)
+local newest = tonumber(redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')[2] or now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, newest + window - now))
+local retryAfter = 0
+if allowed == 0 then retryAfter = oldest + window - now end
+return {allowed, math.max(0, limit - count), newest + window - now, retryAfter}
+`;
+
+// KEYS[1]: hash with the tokens left and when they were counted. ARGV: limit, windowMs, now
+const TOKEN_BUCKET_SCRIPT = `
+local limit, window, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local rate = limit / window
+local stored = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = limit
+if stored[1] then
+  tokens = math.min(limit, tonumber(stored[1]) + math.max(0, now - tonumber(stored[2])) * rate)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+local reset = math.ceil((limit - tokens) / rate)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, reset))
+local retryAfter = 0
+if allowed == 0 then retryAfter = math.ceil((1 - tokens) / rate) end
+return {allowed, math.floor(tokens), reset, retryAfter}
+`;
+
+/**
+ * Counters in Redis, shared by every instance. Each algorithm runs as a Lua script,
+ * so concurrent requests from several instances are counted atomically.
+ */
+export function createRedisRateLimitStore(url: string, keyPrefix = 'ratelimit:'): RateLimitStore {
+  const client = createRedisClient(url);
+
+  return {
+    async consume(key, rule, now) {
+      // Each algorithm keeps its own key, since they store different data types
+      const reply = rule.algorithm === 'token-bucket'
+        ? await client.command(['EVAL', TOKEN_BUCKET_SCRIPT, 1, `${keyPrefix}${key}:tb`, rule.requests, rule.windowMs, now])
+        : await client.command(['EVAL', SLIDING_WINDOW_SCRIPT, 1, `${keyPrefix}${key}:sw`, rule.requests, rule.windowMs, now, `${now}:${randomUUID()}`]);
+
+      if (!Array.isArray(reply) || reply.length !== 4) {
+        throw new Error(`Unexpected rate limit script reply from Redis: ${JSON.stringify(reply)}`);
+      }
+      const [allowed, remaining, resetMs, retryAfterMs] = reply.map(Number);
+      return { allowed: allowed === 1, limit: rule.requests, remaining, resetMs, retryAfterMs };
+    },
+  };
+}
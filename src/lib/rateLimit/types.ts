@@ -0,0 +1,33 @@
+// How requests are counted against a limit:
+// - sliding-window: at most `requests` in any `windowMs` period (each request is remembered until it leaves the window)
+// - token-bucket: a bucket of `requests` tokens refilled evenly over `windowMs`, so short bursts are allowed
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  requests: number;
+  windowMs: number;
+  algorithm: RateLimitAlgorithm;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // Until the full limit is available again
+  retryAfterMs: number; // Until the next request would be allowed (0 when allowed)
+}
+
+// Per-key counter state kept by the in-memory and file stores
+export type RateLimitState =
+  | { algorithm: 'sliding-window'; timestamps: number[] }
+  | { algorithm: 'token-bucket'; tokens: number; updatedAt: number };
+
+export interface RateLimitEntry {
+  state: RateLimitState;
+  expiresAt: number; // After this the entry is equivalent to no entry and can be pruned
+}
+
+// Where counters are kept. consume() counts one request against the key when it is allowed.
+export interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>;
+}
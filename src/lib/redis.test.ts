@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeCommand, parseReply } from './redis';
+
+const parse = (text: string) => parseReply(Buffer.from(text), 0);
+
+describe('RESP', () => {
+  it('encodes commands as arrays of bulk strings, counting bytes', () => {
+    assert.equal(encodeCommand(['SET', 'key', 42]), '*3\r\n$3\r\nSET\r\n$3\r\nkey\r\n$2\r\n42\r\n');
+    assert.equal(encodeCommand(['SET', 'ключ']), '*2\r\n$3\r\nSET\r\n$8\r\nключ\r\n');
+  });
+
+  it('decodes simple strings, integers and bulk strings', () => {
+    assert.deepEqual(parse('+OK\r\n'), { value: 'OK', offset: 5 });
+    assert.deepEqual(parse(':-12\r\n'), { value: -12, offset: 6 });
+    assert.deepEqual(parse('$5\r\nab\r\nc\r\n'), { value: 'ab\r\nc', offset: 11 });
+    assert.deepEqual(parse('$0\r\n\r\n'), { value: '', offset: 6 });
+  });
+
+  it('decodes nil bulk strings and arrays as null', () => {
+    assert.deepEqual(parse('$-1\r\n'), { value: null, offset: 5 });
+    assert.deepEqual(parse('*-1\r\n'), { value: null, offset: 5 });
+    assert.deepEqual(parse('*3\r\n:1\r\n$-1\r\n*1\r\n+x\r\n'), { value: [1, null, ['x']], offset: 21 });
+  });
+
+  it('decodes errors as Error values', () => {
+    const reply = parse('-ERR unknown command\r\n');
+
+    assert.ok(reply?.value instanceof Error);
+    assert.equal(reply.value.message, 'ERR unknown command');
+  });
+
+  it('waits for replies split across reads', () => {
+    assert.equal(parse('$5\r\nab'), null);
+    assert.equal(parse('*2\r\n:1\r\n'), null);
+    assert.equal(parse(':1'), null);
+  });
+
+  it('rejects replies that are not RESP', () => {
+    assert.throws(() => parse('HTTP/1.1 400 Bad Request\r\n'), /Unexpected reply from Redis/);
+  });
+});
@@ -0,0 +1,125 @@
+import net from 'net';
+import tls from 'tls';
+
+// A command that gets no reply in time fails, so a stalled server cannot hold up requests
+const COMMAND_TIMEOUT_MS = 2000;
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+// Parse one RESP reply starting at offset; null when the buffer does not hold all of it yet
+export function parseReply(buffer: Buffer, offset: number): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected reply from Redis: ${JSON.stringify(buffer.toString('utf8', offset, lineEnd))}`);
+  }
+}
+
+export function encodeCommand(args: Array<string | number>): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(String(arg))}\r\n${arg}\r\n`).join('');
+}
+
+export interface RedisClient {
+  command(args: Array<string | number>): Promise<RespValue>;
+}
+
+/**
+ * Minimal client for servers speaking the Redis protocol (Redis, Valkey, KeyDB, Dragonfly, Upstash).
+ * One connection, opened on first use and reopened after it fails; commands are pipelined.
+ * URL form: redis[s]://[user:password@]host[:port][/database]
+ */
+export function createRedisClient(url: string): RedisClient {
+  const { protocol, hostname, port, username, password, pathname } = new URL(url);
+  const database = pathname.slice(1);
+
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  let pending: Array<{ resolve: (value: RespValue) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> = [];
+
+  const failAll = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    buffer = Buffer.alloc(0);
+    for (const command of pending) {
+      clearTimeout(command.timer);
+      command.reject(error);
+    }
+    pending = [];
+  };
+
+  const send = (args: Array<string | number>) => new Promise<RespValue>((resolve, reject) => {
+    const timer = setTimeout(() => failAll(new Error(`Redis command ${args[0]} timed out`)), COMMAND_TIMEOUT_MS);
+    pending.push({ resolve, reject, timer });
+    socket!.write(encodeCommand(args));
+  });
+
+  const connect = () => {
+    const options = { host: hostname, port: Number(port) || 6379 };
+    const connection = protocol === 'rediss:' ? tls.connect({ ...options, servername: hostname }) : net.connect(options);
+    socket = connection;
+
+    connection.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let reply;
+        while (pending.length > 0 && (reply = parseReply(buffer, 0))) {
+          buffer = buffer.subarray(reply.offset);
+          const command = pending.shift()!;
+          clearTimeout(command.timer);
+          if (reply.value instanceof Error) command.reject(reply.value);
+          else command.resolve(reply.value);
+        }
+      } catch (error) {
+        failAll(error as Error);
+      }
+    });
+    connection.on('error', error => {
+      if (socket === connection) failAll(error);
+    });
+    connection.on('close', () => {
+      if (socket === connection) failAll(new Error('Redis connection closed'));
+    });
+
+    // Pipelined ahead of the first command, so their replies come first
+    if (password) send(username ? ['AUTH', decodeURIComponent(username), decodeURIComponent(password)] : ['AUTH', decodeURIComponent(password)]).catch(() => {});
+    if (database) send(['SELECT', database]).catch(() => {});
+  };
+
+  return {
+    command(args: Array<string | number>): Promise<RespValue> {
+      if (!socket) connect();
+      return send(args);
+    },
+  };
+}
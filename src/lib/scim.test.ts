@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CustomError } from '@/lib/errorHandler';
+import {
+  SCIM_SCHEMAS,
+  isProvisionedContact,
+  parseActivePatch,
+  parseScimUser,
+  parseUserNameFilter,
+  toScimUser,
+} from './scim';
+
+// The scimType a parser reported, for assert.throws
+const scimType = (expected: string) => (error: unknown) =>
+  error instanceof CustomError && error.statusCode === 400 && error.details?.scimType === expected;
+
+describe('parseScimUser', () => {
+  it('reads the names, primary email, organization and active flag', () => {
+    const user = parseScimUser({
+      userName: 'okta-login@acme.com',
+      name: { givenName: 'Ada', familyName: 'Lovelace' },
+      emails: [{ value: 'other@acme.com' }, { value: 'Ada@Acme.com', primary: true }],
+      active: false,
+      [SCIM_SCHEMAS.ENTERPRISE_USER]: { organization: 'Acme Corporation' },
+    });
+
+    assert.deepEqual(user, {
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@acme.com',
+      organizationName: 'Acme Corporation',
+      active: false,
+    });
+  });
+
+  it('falls back to userName and treats a missing active flag as active', () => {
+    const user = parseScimUser({ userName: 'ada@acme.com', name: { givenName: 'Ada', familyName: 'Lovelace' } });
+
+    assert.equal(user.email, 'ada@acme.com');
+    assert.equal(user.organizationName, undefined);
+    assert.equal(user.active, true);
+  });
+
+  it('rejects bodies that are not User resources or lack names', () => {
+    assert.throws(() => parseScimUser(null), scimType('invalidSyntax'));
+    assert.throws(() => parseScimUser(['ada@acme.com']), scimType('invalidSyntax'));
+    assert.throws(() => parseScimUser({ name: { givenName: 'Ada', familyName: 'Lovelace' } }), scimType('invalidValue'));
+    assert.throws(() => parseScimUser({ userName: 'ada@acme.com', name: 'Ada Lovelace' }), scimType('invalidValue'));
+    assert.throws(() => parseScimUser({ userName: 'not-an-email', name: { givenName: 'Ada', familyName: 'Lovelace' } }), scimType('invalidValue'));
+  });
+});
+
+describe('parseActivePatch', () => {
+  it('reads active from a path operation or a value object', () => {
+    assert.equal(parseActivePatch({ Operations: [{ op: 'replace', path: 'active', value: false }] }), false);
+    assert.equal(parseActivePatch({ Operations: [{ op: 'Replace', value: { active: 'True' } }] }), true);
+  });
+
+  it('rejects other operations and attributes', () => {
+    assert.throws(() => parseActivePatch({}), scimType('invalidSyntax'));
+    assert.throws(() => parseActivePatch({ Operations: ['replace'] }), scimType('invalidSyntax'));
+    assert.throws(() => parseActivePatch({ Operations: [{ op: 'remove', path: 'active' }] }), scimType('invalidSyntax'));
+    assert.throws(() => parseActivePatch({ Operations: [{ op: 'replace', path: 'name.givenName', value: 'Ada' }] }), scimType('invalidPath'));
+    assert.throws(() => parseActivePatch({ Operations: [{ op: 'replace', value: { active: true, userName: 'x' } }] }), scimType('invalidPath'));
+    assert.throws(() => parseActivePatch({ Operations: [{ op: 'replace', path: 'active', value: 'maybe' }] }), scimType('invalidValue'));
+  });
+});
+
+describe('parseUserNameFilter', () => {
+  it('reads the email from a userName eq filter', () => {
+    assert.equal(parseUserNameFilter(null), undefined);
+    assert.equal(parseUserNameFilter('userName eq "Ada@Acme.com"'), 'ada@acme.com');
+  });
+
+  it('rejects other filters', () => {
+    assert.throws(() => parseUserNameFilter('emails.value eq "ada@acme.com"'), scimType('invalidFilter'));
+  });
+});
+
+describe('SCIM users', () => {
+  const contact = (properties: Record<string, string | null>) => ({ id: '101', properties });
+
+  it('only treats contacts carrying active_in_okta as provisioned', () => {
+    assert.equal(isProvisionedContact(contact({ email: 'ada@acme.com', active_in_okta: 'true' })), true);
+    assert.equal(isProvisionedContact(contact({ email: 'ada@acme.com', active_in_okta: 'false' })), true);
+    assert.equal(isProvisionedContact(contact({ email: 'ada@acme.com', active_in_okta: null })), false);
+    assert.equal(isProvisionedContact(contact({ email: 'ada@acme.com' })), false);
+  });
+
+  it('maps a contact to a User resource', () => {
+    const user = toScimUser(contact({
+      firstname: 'Ada',
+      lastname: 'Lovelace',
+      email: 'ada@acme.com',
+      company: 'Acme Corporation',
+      active_in_okta: 'false',
+    }), 'https://app.example.com');
+
+    assert.equal(user.userName, 'ada@acme.com');
+    assert.equal(user.name.formatted, 'Ada Lovelace');
+    assert.equal(user.active, false);
+    assert.deepEqual(user[SCIM_SCHEMAS.ENTERPRISE_USER], { organization: 'Acme Corporation' });
+    assert.equal(user.meta.location, 'https://app.example.com/scim/v2/Users/101');
+  });
+});
@@ -0,0 +1,256 @@
+import { NextResponse } from 'next/server';
+import { CustomError, ErrorCodes, logError } from '@/lib/errorHandler';
+import { getClientIdentifier, secretsMatch } from '@/lib/security';
+import { checkRateLimit, getRetryAfterSeconds } from '@/lib/rateLimit';
+import { validateUserInput, normalizeEmail, formatFieldErrors } from '@/lib/validation';
+import type { Contact } from '@/lib/hubspot';
+
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  ENTERPRISE_USER: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+} as const;
+
+const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+// Largest page returned by GET /scim/v2/Users
+export const SCIM_MAX_RESULTS = 100;
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  userName: string;
+  name: {
+    givenName: string;
+    familyName: string;
+    formatted: string;
+  };
+  emails: Array<{ value: string; type: string; primary: boolean }>;
+  active: boolean;
+  [SCIM_SCHEMAS.ENTERPRISE_USER]?: { organization: string };
+  meta: {
+    resourceType: 'User';
+    created?: string;
+    lastModified?: string;
+    location: string;
+  };
+}
+
+// Contact fields taken from a SCIM User resource
+export interface ScimUserInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  organizationName?: string;
+  active: boolean;
+}
+
+function scimError(message: string, scimType?: string): CustomError {
+  return new CustomError(message, ErrorCodes.VALIDATION_ERROR, 400, scimType ? { scimType } : undefined);
+}
+
+/**
+ * Checks shared by every SCIM endpoint: HubSpot configuration, the bearer token Okta
+ * sends (compared against SCIM_BEARER_TOKEN) and the SCIM rate limit.
+ */
+export async function authorizeScimRequest(headers: Headers): Promise<void> {
+  const expectedToken = process.env.SCIM_BEARER_TOKEN;
+  if (!process.env.HUBSPOT_ACCESS_TOKEN || !expectedToken) {
+    throw new CustomError(
+      'SCIM provisioning is not properly configured',
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      500
+    );
+  }
+
+  const [scheme, token] = (headers.get('authorization') || '').split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token || !secretsMatch(token, expectedToken)) {
+    throw new CustomError(
+      'Invalid or missing SCIM bearer token',
+      ErrorCodes.AUTHENTICATION_ERROR,
+      401
+    );
+  }
+
+  const clientId = getClientIdentifier(headers);
+  const rateLimit = await checkRateLimit(clientId, 'SCIM');
+  if (!rateLimit.allowed) {
+    console.log(`Rate limit exceeded for ${clientId} - SCIM`);
+    throw new CustomError(
+      'Too many SCIM requests. Please try again later.',
+      ErrorCodes.RATE_LIMIT_EXCEEDED,
+      429,
+      { remaining: rateLimit.remaining, retryAfterSeconds: getRetryAfterSeconds(rateLimit) }
+    );
+  }
+}
+
+export function createScimResponse(body: unknown, statusCode: number = 200): NextResponse {
+  return NextResponse.json(body, { status: statusCode, headers: { 'Content-Type': SCIM_CONTENT_TYPE } });
+}
+
+// SCIM clients expect errors in the SCIM Error schema rather than the app's { error } envelope
+export function createScimErrorResponse(error: CustomError | Error, requestId?: string): NextResponse {
+  const statusCode = error instanceof CustomError ? error.statusCode : 500;
+  let scimType: string | undefined = error instanceof CustomError ? error.details?.scimType : undefined;
+  if (error instanceof CustomError && error.code === ErrorCodes.USER_ALREADY_EXISTS) {
+    scimType = 'uniqueness';
+  }
+
+  logError(error, { requestId, scim: true });
+
+  const response = createScimResponse({
+    schemas: [SCIM_SCHEMAS.ERROR],
+    status: String(statusCode),
+    detail: error instanceof CustomError ? error.message : 'An unexpected error occurred',
+    ...(scimType && { scimType }),
+  }, statusCode);
+
+  // Okta waits this long before retrying a rate-limited request
+  if (error instanceof CustomError && error.details?.retryAfterSeconds) {
+    response.headers.set('Retry-After', String(error.details.retryAfterSeconds));
+  }
+  return response;
+}
+
+// Map a HubSpot contact to a SCIM User resource
+export function toScimUser(contact: Contact, baseUrl: string): ScimUser {
+  const properties = contact.properties;
+  const givenName = properties.firstname || '';
+  const familyName = properties.lastname || '';
+  const email = properties.email || '';
+
+  return {
+    schemas: [SCIM_SCHEMAS.USER, SCIM_SCHEMAS.ENTERPRISE_USER],
+    id: contact.id,
+    userName: email,
+    name: {
+      givenName,
+      familyName,
+      formatted: `${givenName} ${familyName}`.trim(),
+    },
+    emails: email ? [{ value: email, type: 'work', primary: true }] : [],
+    active: properties.active_in_okta === 'true',
+    ...(properties.company && { [SCIM_SCHEMAS.ENTERPRISE_USER]: { organization: properties.company } }),
+    meta: {
+      resourceType: 'User',
+      created: properties.createdate || undefined,
+      lastModified: properties.lastmodifieddate || undefined,
+      location: `${baseUrl}/scim/v2/Users/${contact.id}`,
+    },
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the contact fields from a SCIM User resource.
+ * The contact email is the primary email (falling back to userName), so userName should be the user's email.
+ */
+export function parseScimUser(body: unknown): ScimUserInput {
+  if (!isObject(body)) {
+    throw scimError('Request body must be a SCIM User resource', 'invalidSyntax');
+  }
+
+  const emails = Array.isArray(body.emails) ? body.emails.filter(isObject) : [];
+  const email = (emails.find(candidate => candidate.primary === true) || emails[0])?.value || body.userName;
+  const name = isObject(body.name) ? body.name : {};
+  const firstName = name.givenName;
+  const lastName = name.familyName;
+
+  if (typeof email !== 'string' || !email.trim()) {
+    throw scimError('userName or a primary email is required', 'invalidValue');
+  }
+  if (typeof firstName !== 'string' || !firstName.trim() || typeof lastName !== 'string' || !lastName.trim()) {
+    throw scimError('name.givenName and name.familyName are required', 'invalidValue');
+  }
+
+  const enterprise = body[SCIM_SCHEMAS.ENTERPRISE_USER];
+  const organization = isObject(enterprise) ? enterprise.organization : undefined;
+  const validation = validateUserInput({
+    firstName,
+    lastName,
+    email,
+    organizationName: typeof organization === 'string' ? organization : undefined,
+  });
+
+  if (!validation.valid) {
+    throw scimError(`Validation failed: ${formatFieldErrors(validation.errors)}`, 'invalidValue');
+  }
+
+  return {
+    firstName: validation.data.firstName!,
+    lastName: validation.data.lastName!,
+    email: validation.data.email!,
+    organizationName: validation.data.organizationName || undefined,
+    active: body.active !== false,
+  };
+}
+
+// Contacts created or updated by this app carry active_in_okta; SCIM only reads and changes those
+export function isProvisionedContact(contact: Contact): boolean {
+  return !!contact.properties.active_in_okta;
+}
+
+// Only the filter Okta uses to look up users is supported: userName eq "<email>"
+export function parseUserNameFilter(filter: string | null): string | undefined {
+  if (!filter?.trim()) return undefined;
+
+  const match = filter.trim().match(/^userName\s+eq\s+"([^"]*)"$/i);
+  if (!match) {
+    throw scimError('Only filters of the form userName eq "value" are supported', 'invalidFilter');
+  }
+  // Stored emails have internationalized domains in ASCII form, so the filter value is normalized the same way
+  return normalizeEmail(match[1]) ?? match[1].trim().toLowerCase();
+}
+
+// SCIM booleans sometimes arrive as strings ("True" / "false")
+function parseBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+    return value.toLowerCase() === 'true';
+  }
+  throw scimError('active must be a boolean', 'invalidValue');
+}
+
+/**
+ * Read the new value of `active` from a SCIM PatchOp.
+ * Supports both `{ op: "replace", path: "active", value: false }` and `{ op: "replace", value: { active: false } }`;
+ * operations on any other attribute are rejected.
+ */
+export function parseActivePatch(body: unknown): boolean {
+  const operations = isObject(body) && Array.isArray(body.Operations) ? body.Operations : [];
+  if (operations.length === 0) {
+    throw scimError('PatchOp requires at least one operation', 'invalidSyntax');
+  }
+
+  let active: boolean | undefined;
+  for (const operation of operations) {
+    const op = isObject(operation) && typeof operation.op === 'string' ? operation.op.toLowerCase() : '';
+    if (!isObject(operation) || (op !== 'replace' && op !== 'add')) {
+      throw scimError(`Unsupported patch operation: ${isObject(operation) ? operation.op : operation}`, 'invalidSyntax');
+    }
+
+    if (operation.path !== undefined) {
+      if (String(operation.path).toLowerCase() !== 'active') {
+        throw scimError(`Only the active attribute can be patched (got ${operation.path})`, 'invalidPath');
+      }
+      active = parseBoolean(operation.value);
+      continue;
+    }
+
+    const value = isObject(operation.value) ? operation.value : {};
+    const attributes = Object.keys(value);
+    if (attributes.length === 0 || attributes.some(attribute => attribute.toLowerCase() !== 'active')) {
+      throw scimError('Only the active attribute can be patched', 'invalidPath');
+    }
+    active = parseBoolean(value[attributes[0]]);
+  }
+
+  return active!;
+}
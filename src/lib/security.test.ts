@@ -0,0 +1,18 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isSameOriginRequest } from './security';
+
+describe('isSameOriginRequest', () => {
+  const allowed = ['https://app.example.com'];
+
+  it('accepts requests from an allowed origin', () => {
+    assert.equal(isSameOriginRequest(new Headers({ origin: 'https://app.example.com' }), allowed), true);
+    assert.equal(isSameOriginRequest(new Headers({ 'sec-fetch-site': 'same-origin' }), allowed), true);
+  });
+
+  it('refuses cross-site requests and requests that do not say where they came from', () => {
+    assert.equal(isSameOriginRequest(new Headers({ origin: 'https://evil.example' }), allowed), false);
+    assert.equal(isSameOriginRequest(new Headers({ 'sec-fetch-site': 'cross-site' }), allowed), false);
+    assert.equal(isSameOriginRequest(new Headers(), allowed), false);
+  });
+});
@@ -1,84 +1,4 @@
-// Simple in-memory rate limiting (use Redis in production)
-const rateLimitStore = new Map<string, number[]>();
-
-// Rate limiting configuration
-const RATE_LIMITS = {
-  CREATE_USER: { requests: 5, windowMs: 60000 }, // 5 requests per minute
-  BULK_UPLOAD: { requests: 2, windowMs: 300000 }, // 2 requests per 5 minutes
-  SEARCH_ORG: { requests: 10, windowMs: 60000 }, // 10 requests per minute
-};
-
-export function checkRateLimit(key: string, action: keyof typeof RATE_LIMITS): { allowed: boolean; remaining: number } {
-  const limit = RATE_LIMITS[action];
-  const now = Date.now();
-  const windowStart = now - limit.windowMs;
-  
-  // Get existing requests
-  const requests = rateLimitStore.get(key) || [];
-  
-  // Filter out old requests
-  const validRequests = requests.filter(timestamp => timestamp > windowStart);
-  
-  // Check if under limit
-  const allowed = validRequests.length < limit.requests;
-  
-  if (allowed) {
-    validRequests.push(now);
-    rateLimitStore.set(key, validRequests);
-  }
-  
-  return {
-    allowed,
-    remaining: Math.max(0, limit.requests - validRequests.length - (allowed ? 1 : 0))
-  };
-}
-
-// Input validation and sanitization
-export function validateAndSanitizeInput(data: {
-  firstName?: string;
-  lastName?: string;
-  email?: string;
-  organizationName?: string;
-}): { valid: boolean; errors: string[]; sanitizedData: typeof data } {
-  const errors: string[] = [];
-  const sanitizedData = { ...data };
-
-  // Sanitize and validate first name
-  if (data.firstName) {
-    sanitizedData.firstName = data.firstName.trim().substring(0, 50);
-    if (!/^[a-zA-Z\s'-]+$/.test(sanitizedData.firstName)) {
-      errors.push('First name contains invalid characters');
-    }
-  }
-
-  // Sanitize and validate last name
-  if (data.lastName) {
-    sanitizedData.lastName = data.lastName.trim().substring(0, 50);
-    if (!/^[a-zA-Z\s'-]+$/.test(sanitizedData.lastName)) {
-      errors.push('Last name contains invalid characters');
-    }
-  }
-
-  // Sanitize and validate email
-  if (data.email) {
-    sanitizedData.email = data.email.trim().toLowerCase().substring(0, 254);
-    const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-    if (!emailRegex.test(sanitizedData.email)) {
-      errors.push('Invalid email format');
-    }
-  }
-
-  // Sanitize organization name
-  if (data.organizationName) {
-    sanitizedData.organizationName = data.organizationName.trim().substring(0, 100);
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-    sanitizedData
-  };
-}
+import { createHash, timingSafeEqual } from 'crypto';
 
 // Bulk upload limits
 export const BULK_UPLOAD_LIMITS = {
@@ -121,3 +41,23 @@ export function getClientIdentifier(headers: Headers): string {
   
   return `${ip}-${Math.abs(uaHash)}`;
 }
+
+// Compare a presented secret (e.g. a bearer token) with the expected one
+// Fixed-length digests keep the comparison time independent of the secret's content
+export function secretsMatch(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * Whether a state-changing request came from one of the app's own pages (a CSRF check for requests that
+ * rely on cookies): the browser's Origin header must be one of the allowed origins, or, without one,
+ * Sec-Fetch-Site must say the request is same-origin. Requests carrying neither are refused.
+ */
+export function isSameOriginRequest(headers: Headers, allowedOrigins: string[]): boolean {
+  const origin = headers.get('origin');
+  if (origin && origin !== 'null') return allowedOrigins.includes(origin);
+
+  const fetchSite = headers.get('sec-fetch-site');
+  return fetchSite === 'same-origin';
+}
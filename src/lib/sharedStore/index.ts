@@ -0,0 +1,46 @@
+import { CustomError, ErrorCodes } from '@/lib/errorHandler';
+import { RATE_LIMIT_REDIS_URL_ENV } from '@/lib/rateLimit/config';
+import { createMemorySharedStore } from './memoryStore';
+import { createRedisSharedStore } from './redisStore';
+import type { SharedStore } from './types';
+
+export type { SharedStore } from './types';
+
+// Where shared state is kept: memory (default, single instance only) or redis
+export const SHARED_STORE_ENV = 'SHARED_STORE';
+// Defaults to RATE_LIMIT_REDIS_URL, so one Redis can hold both
+export const SHARED_STORE_REDIS_URL_ENV = 'SHARED_STORE_REDIS_URL';
+
+// The configured store is shared by every route even when bundled separately
+const globalForSharedStore = globalThis as typeof globalThis & { sharedStore?: { source: string; store: SharedStore } };
+
+function configError(message: string): CustomError {
+  return new CustomError(`Shared store configuration is invalid: ${message}`, ErrorCodes.INTERNAL_SERVER_ERROR, 500);
+}
+
+function createConfiguredStore(kind: string, redisUrl: string | undefined): SharedStore {
+  switch (kind) {
+    case 'memory':
+      return createMemorySharedStore();
+    case 'redis':
+      if (!redisUrl || !/^rediss?:\/\//.test(redisUrl)) {
+        throw configError(`${SHARED_STORE_REDIS_URL_ENV} (or ${RATE_LIMIT_REDIS_URL_ENV}) must be a redis:// or rediss:// URL when ${SHARED_STORE_ENV} is redis`);
+      }
+      return createRedisSharedStore(redisUrl);
+    default:
+      throw configError(`${SHARED_STORE_ENV} must be one of: memory, redis`);
+  }
+}
+
+// The configured store, created once per configuration so connections are reused
+export function getSharedStore(): SharedStore {
+  const kind = process.env[SHARED_STORE_ENV]?.trim().toLowerCase() || 'memory';
+  const redisUrl = process.env[SHARED_STORE_REDIS_URL_ENV]?.trim() || process.env[RATE_LIMIT_REDIS_URL_ENV]?.trim();
+  const source = [kind, redisUrl].join('|');
+  const cached = globalForSharedStore.sharedStore;
+  if (cached && cached.source === source) return cached.store;
+
+  const store = createConfiguredStore(kind, redisUrl);
+  globalForSharedStore.sharedStore = { source, store };
+  return store;
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemorySharedStore } from './memoryStore';
+
+const globalState = globalThis as typeof globalThis & { memorySharedState?: unknown };
+
+describe('memory shared store', () => {
+  let now: number;
+
+  beforeEach(() => {
+    delete globalState.memorySharedState;
+    now = 1_000_000;
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    delete globalState.memorySharedState;
+  });
+
+  it('forgets a value once its time to live has passed', async () => {
+    const store = createMemorySharedStore();
+    await store.set('key', 'value', 1000);
+
+    now += 999;
+    assert.equal(await store.get('key'), 'value');
+    now += 1;
+    assert.equal(await store.get('key'), null);
+  });
+
+  it('adds a value only when the key does not exist yet', async () => {
+    const store = createMemorySharedStore();
+
+    assert.equal(await store.add('key', 'first', 1000), true);
+    assert.equal(await store.add('key', 'second', 1000), false);
+    assert.equal(await store.get('key'), 'first');
+
+    now += 1000;
+    assert.equal(await store.add('key', 'third', 1000), true);
+  });
+
+  it('appends to lists and reads them from an index', async () => {
+    const store = createMemorySharedStore();
+
+    assert.equal(await store.append('list', 'a', 1000), 1);
+    assert.equal(await store.append('list', 'b', 1000), 2);
+    assert.equal(await store.append('list', 'c', 1000), 3);
+
+    assert.deepEqual(await store.range('list', 0), ['a', 'b', 'c']);
+    assert.deepEqual(await store.range('list', 2), ['c']);
+    assert.deepEqual(await store.range('missing', 0), []);
+  });
+
+  it('renews a hash on every write', async () => {
+    const store = createMemorySharedStore();
+    await store.setField('hash', '1', 'one', 1000);
+    now += 600;
+    await store.setField('hash', '2', 'two', 1000);
+    now += 600;
+
+    assert.deepEqual(await store.getFields('hash'), { 1: 'one', 2: 'two' });
+  });
+
+  it('lets one owner hold a lease until it is released or runs out', async () => {
+    const store = createMemorySharedStore();
+
+    assert.equal(await store.lease('lease', 'a', 1000), true);
+    assert.equal(await store.lease('lease', 'b', 1000), false);
+    assert.equal(await store.lease('lease', 'a', 1000), true, 'the owner extends its lease');
+
+    await store.release('lease', 'b');
+    assert.equal(await store.lease('lease', 'b', 1000), false, 'only the owner releases a lease');
+    await store.release('lease', 'a');
+    assert.equal(await store.lease('lease', 'b', 1000), true);
+
+    now += 1000;
+    assert.equal(await store.lease('lease', 'a', 1000), true);
+  });
+});
@@ -0,0 +1,103 @@
+import type { SharedStore } from './types';
+
+// Expired keys are swept at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+interface MemoryEntry {
+  value: string | string[] | Map<string, string>;
+  expiresAt: number;
+}
+
+interface MemorySharedState {
+  entries: Map<string, MemoryEntry>;
+  prunedAt: number;
+}
+
+// Kept on globalThis so every route shares it even when bundled separately
+const globalForSharedStore = globalThis as typeof globalThis & { memorySharedState?: MemorySharedState };
+
+function getState(): MemorySharedState {
+  return globalForSharedStore.memorySharedState ??= { entries: new Map(), prunedAt: 0 };
+}
+
+function pruneExpiredEntries(state: MemorySharedState, now: number) {
+  if (now - state.prunedAt < PRUNE_INTERVAL_MS) return;
+  state.prunedAt = now;
+  for (const [key, entry] of state.entries) {
+    if (entry.expiresAt <= now) state.entries.delete(key);
+  }
+}
+
+// The live entry for a key, or undefined when it does not exist or has expired
+function read(key: string): MemoryEntry | undefined {
+  const state = getState();
+  const now = Date.now();
+  pruneExpiredEntries(state, now);
+
+  const entry = state.entries.get(key);
+  if (entry && entry.expiresAt <= now) {
+    state.entries.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+function write(key: string, value: MemoryEntry['value'], ttlMs: number) {
+  getState().entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+}
+
+// State in this process only: it is lost on restart and not shared between instances
+export function createMemorySharedStore(): SharedStore {
+  return {
+    async get(key) {
+      const value = read(key)?.value;
+      return typeof value === 'string' ? value : null;
+    },
+
+    async set(key, value, ttlMs) {
+      write(key, value, ttlMs);
+    },
+
+    async add(key, value, ttlMs) {
+      if (read(key)) return false;
+      write(key, value, ttlMs);
+      return true;
+    },
+
+    async append(key, value, ttlMs) {
+      const current = read(key)?.value;
+      const list = Array.isArray(current) ? current : [];
+      list.push(value);
+      write(key, list, ttlMs);
+      return list.length;
+    },
+
+    async range(key, start) {
+      const value = read(key)?.value;
+      return Array.isArray(value) ? value.slice(start) : [];
+    },
+
+    async setField(key, field, value, ttlMs) {
+      const current = read(key)?.value;
+      const fields = current instanceof Map ? current : new Map<string, string>();
+      fields.set(field, value);
+      write(key, fields, ttlMs);
+    },
+
+    async getFields(key) {
+      const value = read(key)?.value;
+      return value instanceof Map ? Object.fromEntries(value) : {};
+    },
+
+    async lease(key, owner, ttlMs) {
+      const holder = read(key)?.value;
+      if (holder !== undefined && holder !== owner) return false;
+      write(key, owner, ttlMs);
+      return true;
+    },
+
+    async release(key, owner) {
+      if (read(key)?.value === owner) getState().entries.delete(key);
+    },
+  };
+}
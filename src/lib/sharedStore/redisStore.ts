@@ -0,0 +1,86 @@
+import { createRedisClient, type RespValue } from '@/lib/redis';
+import type { SharedStore } from './types';
+
+// KEYS[1]: lease. ARGV: owner, ttlMs. Taken when free or already held by the owner
+const LEASE_SCRIPT = `
+local holder = redis.call('GET', KEYS[1])
+if holder and holder ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+return 1
+`;
+
+// KEYS[1]: lease. ARGV: owner
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then redis.call('DEL', KEYS[1]) end
+return 0
+`;
+
+function unexpectedReply(command: string, reply: RespValue): Error {
+  return new Error(`Unexpected ${command} reply from Redis: ${JSON.stringify(reply)}`);
+}
+
+function toStrings(command: string, reply: RespValue): string[] {
+  if (!Array.isArray(reply) || !reply.every(item => typeof item === 'string')) throw unexpectedReply(command, reply);
+  return reply as string[];
+}
+
+/**
+ * State in Redis, shared by every instance. Lists and hashes get their expiry renewed on every write;
+ * leases are taken and released with Lua scripts, so two instances never both hold one.
+ */
+export function createRedisSharedStore(url: string, keyPrefix = 'state:'): SharedStore {
+  const client = createRedisClient(url);
+  const keyOf = (key: string) => `${keyPrefix}${key}`;
+
+  return {
+    async get(key) {
+      const reply = await client.command(['GET', keyOf(key)]);
+      if (reply !== null && typeof reply !== 'string') throw unexpectedReply('GET', reply);
+      return reply;
+    },
+
+    async set(key, value, ttlMs) {
+      await client.command(['SET', keyOf(key), value, 'PX', ttlMs]);
+    },
+
+    async add(key, value, ttlMs) {
+      return (await client.command(['SET', keyOf(key), value, 'PX', ttlMs, 'NX'])) === 'OK';
+    },
+
+    async append(key, value, ttlMs) {
+      // Pipelined, so the expiry is set in the same round trip
+      const [length] = await Promise.all([
+        client.command(['RPUSH', keyOf(key), value]),
+        client.command(['PEXPIRE', keyOf(key), ttlMs]),
+      ]);
+      if (typeof length !== 'number') throw unexpectedReply('RPUSH', length);
+      return length;
+    },
+
+    async range(key, start) {
+      return toStrings('LRANGE', await client.command(['LRANGE', keyOf(key), start, -1]));
+    },
+
+    async setField(key, field, value, ttlMs) {
+      await Promise.all([
+        client.command(['HSET', keyOf(key), field, value]),
+        client.command(['PEXPIRE', keyOf(key), ttlMs]),
+      ]);
+    },
+
+    async getFields(key) {
+      const flat = toStrings('HGETALL', await client.command(['HGETALL', keyOf(key)]));
+      const fields: Record<string, string> = {};
+      for (let i = 0; i < flat.length; i += 2) fields[flat[i]] = flat[i + 1];
+      return fields;
+    },
+
+    async lease(key, owner, ttlMs) {
+      return (await client.command(['EVAL', LEASE_SCRIPT, 1, keyOf(key), owner, ttlMs])) === 1;
+    },
+
+    async release(key, owner) {
+      await client.command(['EVAL', RELEASE_SCRIPT, 1, keyOf(key), owner]);
+    },
+  };
+}
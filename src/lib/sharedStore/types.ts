@@ -0,0 +1,20 @@
+/**
+ * Where state that every instance must see is kept (bulk upload jobs and their events, idempotency records).
+ * Values are strings (JSON for documents). Every write sets how long the key is kept, counted from that write.
+ */
+export interface SharedStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  // Set the key only if it does not exist yet; false when it already did
+  add(key: string, value: string, ttlMs: number): Promise<boolean>;
+  // Append to a list, returning its new length
+  append(key: string, value: string, ttlMs: number): Promise<number>;
+  // Items of a list from a zero-based index to the end
+  range(key: string, start: number): Promise<string[]>;
+  setField(key: string, field: string, value: string, ttlMs: number): Promise<void>;
+  getFields(key: string): Promise<Record<string, string>>;
+  // Take a lease on the key, or extend it when owner already holds it; false while someone else holds it
+  lease(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  // Give up a lease held by owner (a lease taken over by someone else is left alone)
+  release(key: string, owner: string): Promise<void>;
+}
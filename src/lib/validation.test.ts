@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NAME_MAX_LENGTH,
+  ORGANIZATION_NAME_MAX_LENGTH,
+  formatFieldErrors,
+  isValidEmail,
+  normalizeEmail,
+  properCaseName,
+  validateUserInput,
+} from './validation';
+
+describe('normalizeEmail', () => {
+  it('lowercases, trims and stores internationalized domains in ASCII form', () => {
+    assert.equal(normalizeEmail('  Jane.Doe+Okta@Acme.COM '), 'jane.doe+okta@acme.com');
+    assert.equal(normalizeEmail('anna@bücher.de'), 'anna@xn--bcher-kva.de');
+    assert.equal(normalizeEmail("o'neil@example.co.uk"), "o'neil@example.co.uk");
+  });
+
+  it('rejects addresses mail providers would not accept', () => {
+    for (const email of ['no-at-sign', '@acme.com', 'jane@acme', 'jane..doe@acme.com', '.jane@acme.com',
+      'jane doe@acme.com', 'jane@-acme.com', 'jane@acme.c0m', `${'a'.repeat(65)}@acme.com`]) {
+      assert.equal(isValidEmail(email), false, email);
+    }
+  });
+});
+
+describe('properCaseName', () => {
+  it('capitalizes all-upper and all-lower parts and keeps mixed-case ones', () => {
+    assert.equal(properCaseName("JOHN o'neil"), "John O'Neil");
+    assert.equal(properCaseName('anne-marie McDonald'), 'Anne-Marie McDonald');
+    assert.equal(properCaseName('élodie'), 'Élodie');
+  });
+});
+
+describe('validateUserInput', () => {
+  it('normalizes names of any script and the email', () => {
+    const result = validateUserInput(
+      { firstName: '  José   María ', lastName: '王', email: 'Jane@Acme.com', organizationName: ' Acme   Corp ' },
+      { required: ['firstName', 'lastName', 'email', 'organizationName'] }
+    );
+
+    assert.deepEqual(result, {
+      valid: true,
+      errors: [],
+      data: { firstName: 'José María', lastName: '王', email: 'jane@acme.com', organizationName: 'Acme Corp' },
+    });
+  });
+
+  it('proper-cases names when asked to', () => {
+    const result = validateUserInput({ firstName: 'JANE', lastName: "d'arcy" }, { properCase: true });
+
+    assert.deepEqual(result.data, { firstName: 'Jane', lastName: "D'Arcy" });
+  });
+
+  it('reports each problem against its field', () => {
+    const result = validateUserInput(
+      { firstName: 'R2-D2', lastName: 'x'.repeat(NAME_MAX_LENGTH + 1), email: 'not-an-email' },
+      { required: ['firstName', 'lastName', 'email', 'organizationName'] }
+    );
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors.map(error => [error.field, error.code]), [
+      ['firstName', 'invalid_characters'],
+      ['lastName', 'too_long'],
+      ['email', 'invalid_email'],
+      ['organizationName', 'required'],
+    ]);
+    assert.equal(
+      formatFieldErrors(result.errors),
+      `First name contains invalid characters, Last name must be at most ${NAME_MAX_LENGTH} characters, ` +
+        'Invalid email format, Organization name is required'
+    );
+  });
+
+  it('only checks optional fields that are given, and truncates long organization names', () => {
+    const result = validateUserInput({ firstName: '', organizationName: 'A'.repeat(ORGANIZATION_NAME_MAX_LENGTH + 10) });
+
+    assert.equal(result.valid, true);
+    assert.equal(result.data.firstName, undefined);
+    assert.equal(result.data.organizationName?.length, ORGANIZATION_NAME_MAX_LENGTH);
+  });
+});
@@ -0,0 +1,173 @@
+// Validation and normalization of user names, emails and organization names.
+// No Node or browser dependencies, so the forms check input with the same rules as the API routes.
+
+export type UserField = 'firstName' | 'lastName' | 'email' | 'organizationName';
+
+export type FieldErrorCode = 'required' | 'too_long' | 'invalid_characters' | 'invalid_email';
+
+// One problem with one field, so forms can show it next to the input
+export interface FieldError {
+  field: UserField;
+  code: FieldErrorCode;
+  message: string;
+}
+
+export interface UserInput {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  organizationName?: string;
+}
+
+export interface UserValidationOptions {
+  required?: UserField[]; // Fields that must not be empty (others are only checked when present)
+  properCase?: boolean; // "JOHN o'neil" → "John O'Neil"
+}
+
+export interface UserValidationResult {
+  valid: boolean;
+  errors: FieldError[];
+  data: UserInput; // Normalized values of the fields that were given
+}
+
+const FIELD_LABELS: Record<UserField, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  organizationName: 'Organization name',
+};
+
+export const NAME_MAX_LENGTH = 50;
+export const ORGANIZATION_NAME_MAX_LENGTH = 100;
+const EMAIL_MAX_LENGTH = 254;
+const EMAIL_LOCAL_PART_MAX_LENGTH = 64;
+
+// Letters and combining marks of any script, separated by spaces, apostrophes, hyphens or periods ("St. John")
+const NAME_PATTERN = /^[\p{L}\p{M}]+(?:[ '’.-]+[\p{L}\p{M}]+)*\.?$/u;
+// The unquoted local-part characters mail providers and Okta accept, without leading, trailing or double dots
+const EMAIL_LOCAL_PART_PATTERN = /^[a-z0-9_%+'-]+(?:\.[a-z0-9_%+'-]+)*$/;
+const DOMAIN_LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const TOP_LEVEL_DOMAIN_PATTERN = /^(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/;
+
+// Length in characters as people count them (code points, so an emoji or 王 is one)
+function characterCount(value: string): number {
+  return [...value].length;
+}
+
+// Canonical composition, so "é" typed as e + combining accent matches the precomposed form; whitespace collapsed
+export function normalizeText(value: string): string {
+  return value.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+// Capitalize each part of a name written all in upper or lower case; mixed-case parts ("McDonald") are kept
+export function properCaseName(name: string): string {
+  return name
+    .split(' ')
+    .map(word => {
+      if (word !== word.toUpperCase() && word !== word.toLowerCase()) return word;
+      return word
+        .toLowerCase()
+        .replace(/(^|['’.-])([\p{L}])/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+    })
+    .join(' ');
+}
+
+// Domain in ASCII: internationalized labels are converted to punycode ("bücher.de" → "xn--bcher-kva.de")
+function toAsciiDomain(domain: string): string | null {
+  try {
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize an email address: trimmed, lowercased and NFC-normalized, with an internationalized
+ * domain in its ASCII form so the same address is always stored the same way.
+ * Returns null when the address is not valid.
+ */
+export function normalizeEmail(email: string): string | null {
+  const value = email.normalize('NFC').trim().toLowerCase();
+  const at = value.lastIndexOf('@');
+  if (at <= 0) return null;
+
+  const localPart = value.slice(0, at);
+  const domain = toAsciiDomain(value.slice(at + 1));
+  if (!domain || domain !== domain.replace(/[^a-z0-9.-]/g, '')) return null;
+
+  const labels = domain.split('.');
+  const valid =
+    localPart.length <= EMAIL_LOCAL_PART_MAX_LENGTH &&
+    EMAIL_LOCAL_PART_PATTERN.test(localPart) &&
+    labels.length >= 2 &&
+    labels.every(label => DOMAIN_LABEL_PATTERN.test(label)) &&
+    TOP_LEVEL_DOMAIN_PATTERN.test(labels[labels.length - 1]);
+
+  const normalized = `${localPart}@${domain}`;
+  return valid && normalized.length <= EMAIL_MAX_LENGTH ? normalized : null;
+}
+
+export function isValidEmail(email: string): boolean {
+  return normalizeEmail(email) !== null;
+}
+
+function fieldError(field: UserField, code: FieldErrorCode): FieldError {
+  const label = FIELD_LABELS[field];
+  const messages: Record<FieldErrorCode, string> = {
+    required: `${label} is required`,
+    too_long: `${label} must be at most ${field === 'organizationName' ? ORGANIZATION_NAME_MAX_LENGTH : NAME_MAX_LENGTH} characters`,
+    invalid_characters: `${label} contains invalid characters`,
+    invalid_email: 'Invalid email format',
+  };
+  return { field, code, message: messages[code] };
+}
+
+/**
+ * Validate and normalize the fields of a user. Names may use letters and marks of any script;
+ * they are NFC-normalized with whitespace collapsed, and proper-cased when asked to.
+ * Organization names are only normalized and truncated, since they are matched against companies.
+ */
+export function validateUserInput(input: UserInput, options: UserValidationOptions = {}): UserValidationResult {
+  const { required = [], properCase = false } = options;
+  const errors: FieldError[] = [];
+  const data: UserInput = {};
+
+  for (const field of ['firstName', 'lastName'] as const) {
+    const raw = input[field];
+    const value = typeof raw === 'string' ? normalizeText(raw) : '';
+    if (!value) {
+      if (required.includes(field)) errors.push(fieldError(field, 'required'));
+      continue;
+    }
+
+    data[field] = properCase ? properCaseName(value) : value;
+    if (characterCount(value) > NAME_MAX_LENGTH) {
+      errors.push(fieldError(field, 'too_long'));
+    } else if (!NAME_PATTERN.test(value)) {
+      errors.push(fieldError(field, 'invalid_characters'));
+    }
+  }
+
+  const rawEmail = typeof input.email === 'string' ? input.email.trim() : '';
+  if (!rawEmail) {
+    if (required.includes('email')) errors.push(fieldError('email', 'required'));
+  } else {
+    const email = normalizeEmail(rawEmail);
+    data.email = email ?? rawEmail.toLowerCase();
+    if (!email) errors.push(fieldError('email', 'invalid_email'));
+  }
+
+  const organizationName = typeof input.organizationName === 'string' ? normalizeText(input.organizationName) : '';
+  if (organizationName) {
+    data.organizationName = [...organizationName].slice(0, ORGANIZATION_NAME_MAX_LENGTH).join('');
+  } else if (required.includes('organizationName')) {
+    errors.push(fieldError('organizationName', 'required'));
+  }
+
+  return { valid: errors.length === 0, errors, data };
+}
+
+// "First name contains invalid characters, Invalid email format"
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(error => error.message).join(', ');
+}
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'node:zlib';
+import { readXlsxWorksheets } from './xlsx';
+
+// Build a zip archive in memory; the reader does not check CRCs, so they are left at zero
+function zip(files: Record<string, string>, options: { store?: boolean } = {}): ArrayBuffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(content);
+    const data = options.store ? raw : deflateRawSync(raw);
+    const method = options.store ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  const archive = Buffer.concat([...locals, directory, end]);
+  return archive.buffer.slice(archive.byteOffset, archive.byteOffset + archive.length);
+}
+
+const WORKSHEET_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet';
+const CHARTSHEET_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/chartsheet';
+
+const WORKBOOK = {
+  'xl/workbook.xml': `<workbook><sheets>
+    <sheet name="Roster &amp; more" sheetId="1" r:id="rId1"/>
+    <sheet name="Chart" sheetId="2" r:id="rId2"/>
+    <sheet name="Second" sheetId="3" r:id="rId3"/>
+  </sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `<Relationships>
+    <Relationship Id="rId1" Type="${WORKSHEET_TYPE}" Target="worksheets/sheet1.xml"/>
+    <Relationship Id="rId2" Type="${CHARTSHEET_TYPE}" Target="chartsheets/sheet1.xml"/>
+    <Relationship Id="rId3" Type="${WORKSHEET_TYPE}" Target="/xl/worksheets/sheet2.xml"/>
+  </Relationships>`,
+  'xl/sharedStrings.xml': `<sst>
+    <si><t>First</t></si>
+    <si><r><t>Ja</t></r><r><t xml:space="preserve">ne</t></r><rPh><t>ジェーン</t></rPh></si>
+  </sst>`,
+  'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Email</t></is></c><c r="D1" t="inlineStr"><is><t>Active</t></is></c></row>
+    <row r="2"><c r="A2"/></row>
+    <row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="str"><v>jane@acme.com &lt;work&gt;</v></c><c r="C3"><v>42</v></c><c r="D3" t="b"><v>1</v></c></row>
+  </sheetData></worksheet>`,
+  'xl/worksheets/sheet2.xml': '<worksheet><sheetData><row><c><v>1</v></c><c><v>2</v></c></row><row><c><v>3</v></c></row></sheetData></worksheet>',
+};
+
+describe('readXlsxWorksheets', () => {
+  it('reads every worksheet in order with shared, inline, number and boolean cells', async () => {
+    const worksheets = await readXlsxWorksheets(zip(WORKBOOK));
+
+    assert.deepEqual(worksheets, [
+      {
+        name: 'Roster & more',
+        records: [
+          { line: 1, fields: ['First', 'Email', '', 'Active'] },
+          { line: 3, fields: ['Jane', 'jane@acme.com <work>', '42', 'TRUE'] },
+        ],
+      },
+      {
+        name: 'Second',
+        records: [
+          { line: 1, fields: ['1', '2'] },
+          { line: 2, fields: ['3'] },
+        ],
+      },
+    ]);
+  });
+
+  it('reads workbooks whose parts are stored uncompressed', async () => {
+    const worksheets = await readXlsxWorksheets(zip(WORKBOOK, { store: true }));
+
+    assert.deepEqual(worksheets.map(worksheet => worksheet.name), ['Roster & more', 'Second']);
+  });
+
+  it('rejects files that are not workbooks with a message for the user', async () => {
+    await assert.rejects(readXlsxWorksheets(new TextEncoder().encode('first,last,email\n'.repeat(3)).buffer), /not an Excel workbook/);
+    await assert.rejects(readXlsxWorksheets(zip({ 'word/document.xml': '<document/>' })), /not an Excel workbook/);
+  });
+});
@@ -0,0 +1,178 @@
+// Minimal .xlsx reader for roster imports: cell values only (no formulas, styles or dates).
+// Uses the built-in DecompressionStream rather than a zip library, so it runs in the browser and in Node 18+.
+
+import type { CsvRecord } from '@/lib/csv';
+
+export interface XlsxWorksheet {
+  name: string;
+  records: CsvRecord[]; // `line` is the spreadsheet row number; empty rows are skipped
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+const NOT_A_WORKBOOK = 'This file is not an Excel workbook (.xlsx)';
+
+// Entry name -> compressed data location, from the zip central directory
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipDirectory(view: DataView): Map<string, ZipEntry> {
+  // The end of central directory record is at least 22 bytes from the end, followed by an optional comment
+  let end = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error(NOT_A_WORKBOOK);
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) throw new Error(NOT_A_WORKBOOK);
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipText(view: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== ZIP_LOCAL_FILE_HEADER) throw new Error(NOT_A_WORKBOOK);
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data); // Stored
+  if (entry.method !== 8) throw new Error(`Unsupported compression in workbook part ${name}`);
+
+  const inflated = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(inflated).text();
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[code.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Text of a string item: plain <t> or rich-text runs, without phonetic (furigana) runs
+function stringItemText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return [...withoutPhonetics.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+}
+
+// "C12" -> 2 (zero-based column index)
+function columnIndex(cellReference: string): number {
+  const letters = cellReference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function parseWorksheet(xml: string, sharedStrings: string[]): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let previousRow = 0;
+
+  for (const row of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const line = Number(attribute(row[1], 'r')) || previousRow + 1;
+    previousRow = line;
+    const fields: string[] = [];
+
+    for (const cell of (row[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cell[1], 'r');
+      const index = reference ? columnIndex(reference) : fields.length;
+      const type = attribute(cell[1], 't');
+      const content = cell[2] ?? '';
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = stringItemText(content.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      while (fields.length < index) fields.push('');
+      fields[index] = text;
+    }
+
+    if (fields.some(field => field.trim() !== '')) {
+      records.push({ line, fields });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Read every worksheet of an .xlsx workbook, in workbook order, as rows of cell text.
+ * Throws an Error with a user-facing message when the file is not a readable workbook.
+ */
+export async function readXlsxWorksheets(data: ArrayBuffer): Promise<XlsxWorksheet[]> {
+  const view = new DataView(data);
+  if (view.byteLength < 22) throw new Error(NOT_A_WORKBOOK);
+
+  const entries = readZipDirectory(view);
+  const workbook = await readZipText(view, entries, 'xl/workbook.xml');
+  const relationships = await readZipText(view, entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) throw new Error(NOT_A_WORKBOOK);
+
+  const targets = new Map<string, string>();
+  for (const relationship of relationships.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const id = attribute(relationship[1], 'Id');
+    const target = attribute(relationship[1], 'Target');
+    // Only worksheets; chart sheets and dialog sheets have no rows to import
+    if (id && target && attribute(relationship[1], 'Type')?.endsWith('/worksheet')) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const sharedStringsXml = await readZipText(view, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => stringItemText(match[1]))
+    : [];
+
+  const worksheets: XlsxWorksheet[] = [];
+  for (const sheet of workbook.matchAll(/<sheet\b([^>]*)\/?>/g)) {
+    const name = attribute(sheet[1], 'name') ?? `Sheet${worksheets.length + 1}`;
+    const path = targets.get(attribute(sheet[1], 'r:id') ?? '');
+    const xml = path ? await readZipText(view, entries, path) : null;
+    if (xml) worksheets.push({ name, records: parseWorksheet(xml, sharedStrings) });
+  }
+
+  if (worksheets.length === 0) throw new Error('The workbook has no worksheets');
+  return worksheets;
+}
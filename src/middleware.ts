@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CustomError, ErrorCodes, createErrorResponse } from '@/lib/errorHandler';
+import { getSessionSecret, isAuthDisabled } from '@/lib/auth/config';
+import { SESSION_COOKIE, readSessionCookie } from '@/lib/auth/session';
+
+// Routes reachable without signing in: the health check, the sign-in flow itself, and the Okta Event Hook,
+// which authenticates Okta with its own secret (as the SCIM endpoints under /scim do with their bearer token)
+const PUBLIC_API_ROUTES = ['/api/health', '/api/auth/login', '/api/auth/callback', '/api/auth/logout', '/api/hooks/okta'];
+
+/**
+ * Require a signed-in user for the app and every API route (see PUBLIC_API_ROUTES for the exceptions).
+ * API calls without a valid session get a 401 AUTHENTICATION_ERROR; pages redirect to sign-in and come back.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isAuthDisabled() || PUBLIC_API_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`))) {
+    return NextResponse.next();
+  }
+
+  let secret: string;
+  try {
+    secret = getSessionSecret();
+  } catch (error) {
+    return createErrorResponse(error as CustomError);
+  }
+
+  const session = await readSessionCookie(request.cookies.get(SESSION_COOKIE)?.value, secret);
+  if (session) return NextResponse.next();
+
+  if (pathname.startsWith('/api/')) {
+    return createErrorResponse(new CustomError(
+      'Sign-in required',
+      ErrorCodes.AUTHENTICATION_ERROR,
+      401
+    ));
+  }
+
+  const loginUrl = new URL('/api/auth/login', request.nextUrl.origin);
+  loginUrl.searchParams.set('returnTo', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/', '/api/:path*'],
+};